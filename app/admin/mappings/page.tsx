@@ -0,0 +1,547 @@
+'use client';
+
+import { useState, useCallback, useEffect, useMemo } from 'react';
+import Link from 'next/link';
+import Image from 'next/image';
+import {
+  ArrowLeft,
+  ShieldCheck,
+  Search,
+  Plus,
+  Pencil,
+  Archive,
+  RotateCcw,
+  Loader2,
+  AlertTriangle,
+  CheckCircle2,
+} from 'lucide-react';
+import {
+  ConditionDrugMapping,
+  ConditionProcedureMapping,
+  CuratedMappingType,
+  CuratedResolutionCheck,
+  CuratedResolutionReport,
+} from '../../types/icd';
+import CuratedMappingEditor from '../../components/CuratedMappingEditor';
+
+type MappingEntry = ConditionDrugMapping | ConditionProcedureMapping;
+
+interface ShadowedKeyword {
+  entryId: string;
+  keyword: string;
+  shadowedBy: string;
+  shadowingEntryId: string;
+}
+
+interface MappingsResponse {
+  entries: MappingEntry[];
+  conflicts: string[];
+  shadowedKeywords: ShadowedKeyword[];
+  access: 'token' | 'open' | 'disabled';
+}
+
+type StatusFilter = 'all' | 'active' | 'retired' | 'unreviewed';
+
+const TYPE_LABELS: Record<CuratedMappingType, string> = {
+  drug: 'Condition → Drugs',
+  procedure: 'Condition → Procedures',
+};
+
+// Reviewer name is remembered; the token only for this browser session
+const REVIEWER_KEY = 'medcodemap-admin-reviewer';
+const TOKEN_KEY = 'medcodemap-admin-token';
+
+function isUnreviewed(entry: MappingEntry): boolean {
+  return entry.status === 'active' && !entry.provenance.reviewedBy;
+}
+
+/** Short summary of what an entry maps, for the table */
+function describeEntry(type: CuratedMappingType, entry: MappingEntry): { title: string; keys: string[]; items: string[] } {
+  if (type === 'drug') {
+    const drug = entry as ConditionDrugMapping;
+    return { title: drug.category, keys: drug.keywords, items: drug.drugs.map(item => item.name) };
+  }
+  const procedure = entry as ConditionProcedureMapping;
+  return {
+    title: procedure.conditionName,
+    keys: procedure.icd10Codes,
+    items: procedure.procedures.map(item => `${item.code} ${item.description}`),
+  };
+}
+
+export default function CuratedMappingsAdminPage() {
+  const [type, setType] = useState<CuratedMappingType>('drug');
+  const [query, setQuery] = useState('');
+  const [searchedQuery, setSearchedQuery] = useState('');
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('all');
+  const [data, setData] = useState<MappingsResponse | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const [reviewer, setReviewer] = useState('');
+  const [token, setToken] = useState('');
+
+  // null = closed, 'new' = adding, otherwise the entry being edited
+  const [editing, setEditing] = useState<MappingEntry | 'new' | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveErrors, setSaveErrors] = useState<string[]>([]);
+
+  const [report, setReport] = useState<CuratedResolutionReport | null>(null);
+  const [validating, setValidating] = useState<string | null>(null);
+
+  useEffect(() => {
+    setReviewer(localStorage.getItem(REVIEWER_KEY) ?? '');
+    setToken(sessionStorage.getItem(TOKEN_KEY) ?? '');
+  }, []);
+
+  const loadMappings = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/admin/mappings?type=${type}&q=${encodeURIComponent(searchedQuery)}`);
+      if (!response.ok) throw new Error('Failed to load mappings');
+      setData(await response.json());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load mappings');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [type, searchedQuery]);
+
+  // Searching is explicit (Enter / button), not on every keystroke
+  useEffect(() => {
+    loadMappings();
+  }, [loadMappings]);
+
+  const visibleEntries = useMemo(() => {
+    const entries = data?.entries ?? [];
+    switch (statusFilter) {
+      case 'active': return entries.filter(entry => entry.status === 'active');
+      case 'retired': return entries.filter(entry => entry.status === 'retired');
+      case 'unreviewed': return entries.filter(isUnreviewed);
+      default: return entries;
+    }
+  }, [data, statusFilter]);
+
+  const shadowedByEntry = useMemo(() => {
+    const byEntry = new Map<string, ShadowedKeyword[]>();
+    for (const shadowed of data?.shadowedKeywords ?? []) {
+      byEntry.set(shadowed.entryId, [...(byEntry.get(shadowed.entryId) ?? []), shadowed]);
+    }
+    return byEntry;
+  }, [data]);
+
+  const issuesByEntry = useMemo(() => {
+    const byEntry = new Map<string, CuratedResolutionCheck[]>();
+    for (const check of report?.unresolved ?? []) {
+      byEntry.set(check.entryId, [...(byEntry.get(check.entryId) ?? []), check]);
+    }
+    return byEntry;
+  }, [report]);
+
+  const categories = useMemo(
+    () => type === 'drug'
+      ? [...new Set((data?.entries ?? []).map(entry => (entry as ConditionDrugMapping).category))]
+      : [],
+    [data, type]
+  );
+
+  const unreviewedCount = (data?.entries ?? []).filter(isUnreviewed).length;
+  const canWrite = data?.access !== 'disabled' && reviewer.trim().length > 0;
+
+  // ── Requests ──
+
+  const headers = useCallback((): HeadersInit => ({
+    'Content-Type': 'application/json',
+    ...(token ? { Authorization: `Bearer ${token}` } : {}),
+  }), [token]);
+
+  /** Sends a write; returns the error messages (empty on success) */
+  const write = useCallback(async (method: 'POST' | 'PUT' | 'PATCH', body: Record<string, unknown>) => {
+    const response = await fetch('/api/admin/mappings', {
+      method,
+      headers: headers(),
+      body: JSON.stringify({ type, reviewer: reviewer.trim(), ...body }),
+    });
+    if (response.ok) return [];
+    const { error: message, details } = await response.json() as { error: string; details?: string[] };
+    return [message, ...(details ?? [])];
+  }, [headers, type, reviewer]);
+
+  const handleSave = useCallback(async (entry: Record<string, unknown>) => {
+    setIsSaving(true);
+    setSaveErrors([]);
+    try {
+      const errors = editing === 'new'
+        ? await write('POST', { entry })
+        : await write('PUT', { id: (editing as MappingEntry).id, entry });
+      if (errors.length > 0) {
+        setSaveErrors(errors);
+        return;
+      }
+      setEditing(null);
+      await loadMappings();
+    } catch {
+      setSaveErrors(['Failed to save the mapping']);
+    } finally {
+      setIsSaving(false);
+    }
+  }, [editing, write, loadMappings]);
+
+  const handleStatus = useCallback(async (entry: MappingEntry) => {
+    const retiring = entry.status === 'active';
+    const reason = retiring ? window.prompt(`Why is "${entry.id}" being retired?`) : undefined;
+    if (retiring && !reason?.trim()) return;
+
+    try {
+      const errors = await write('PATCH', { id: entry.id, status: retiring ? 'retired' : 'active', reason });
+      if (errors.length > 0) {
+        setError(errors.join(' — '));
+        return;
+      }
+      await loadMappings();
+    } catch {
+      setError('Failed to update the mapping');
+    }
+  }, [write, loadMappings]);
+
+  const handleValidate = useCallback(async (id?: string) => {
+    setValidating(id ?? 'all');
+    setError(null);
+    try {
+      const response = await fetch('/api/admin/mappings/validate', {
+        method: 'POST',
+        headers: headers(),
+        body: JSON.stringify({ type, id }),
+      });
+      const body = await response.json();
+      if (!response.ok) throw new Error(body.error ?? 'Validation failed');
+      setReport(body as CuratedResolutionReport);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Validation failed');
+    } finally {
+      setValidating(null);
+    }
+  }, [headers, type]);
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-950">
+      {/* ── Header ── */}
+      <header className="sticky top-0 z-40 bg-white/80 dark:bg-gray-900/80 backdrop-blur-xl border-b border-gray-200/50 dark:border-gray-800/50">
+        <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-3 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <Link
+              href="/"
+              className="inline-flex items-center gap-1.5 text-sm text-gray-500 hover:text-cyan-600 dark:text-gray-400 dark:hover:text-cyan-400 transition-colors"
+            >
+              <ArrowLeft className="w-4 h-4" />
+              Back to Search
+            </Link>
+          </div>
+          <Link href="/" className="flex items-center gap-2">
+            <Image
+              src="/medcodemap-svg.svg"
+              alt="MedCodeMap"
+              width={28}
+              height={28}
+              className="rounded-lg"
+            />
+            <span className="font-display text-lg font-bold text-gray-900 dark:text-white">
+              MedCodeMap
+            </span>
+          </Link>
+        </div>
+      </header>
+
+      <main className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* ── Page Title ── */}
+        <div className="text-center mb-8">
+          <div className="inline-flex items-center gap-2 px-3 py-1.5 rounded-full bg-cyan-50 dark:bg-cyan-900/20 text-cyan-700 dark:text-cyan-400 text-xs font-medium mb-3">
+            <ShieldCheck className="w-3.5 h-3.5" />
+            Admin • Curated Mappings
+          </div>
+          <h1 className="text-2xl sm:text-3xl font-display font-bold text-gray-900 dark:text-white mb-2">
+            Curated Mapping Editor
+          </h1>
+          <p className="text-sm text-gray-500 dark:text-gray-400 max-w-xl mx-auto">
+            Every change is saved to app/data/curated with your name and the date. Commit the file to ship it; the dev server picks changes up right away.
+          </p>
+        </div>
+
+        {/* ── Reviewer & access ── */}
+        <div className="max-w-3xl mx-auto mb-6 grid sm:grid-cols-2 gap-3">
+          <input
+            value={reviewer}
+            onChange={(e) => {
+              setReviewer(e.target.value);
+              localStorage.setItem(REVIEWER_KEY, e.target.value);
+            }}
+            placeholder="Reviewer name (recorded on every change)"
+            className="px-3 py-2 rounded-xl border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900 text-sm text-gray-900 dark:text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-cyan-500/30"
+            aria-label="Reviewer name"
+          />
+          {data?.access === 'token' && (
+            <input
+              type="password"
+              value={token}
+              onChange={(e) => {
+                setToken(e.target.value);
+                sessionStorage.setItem(TOKEN_KEY, e.target.value);
+              }}
+              placeholder="Admin token"
+              className="px-3 py-2 rounded-xl border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900 text-sm text-gray-900 dark:text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-cyan-500/30"
+              aria-label="Admin token"
+            />
+          )}
+          {data?.access === 'disabled' && (
+            <p className="text-xs text-amber-700 dark:text-amber-400 self-center">
+              Read only: set ADMIN_TOKEN on the server to enable editing.
+            </p>
+          )}
+        </div>
+
+        {/* ── Toolbar ── */}
+        <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+          <div className="flex items-center gap-1 p-1 rounded-xl bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-800">
+            {(Object.keys(TYPE_LABELS) as CuratedMappingType[]).map(option => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => {
+                  if (option === type) return;
+                  setType(option);
+                  setData(null);
+                  setReport(null);
+                  setEditing(null);
+                }}
+                className={`px-3 py-1.5 rounded-lg text-xs font-medium transition-colors ${
+                  type === option
+                    ? 'bg-cyan-600 text-white'
+                    : 'text-gray-600 dark:text-gray-400 hover:text-cyan-700'
+                }`}
+              >
+                {TYPE_LABELS[option]}
+              </button>
+            ))}
+          </div>
+
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (query === searchedQuery) loadMappings();
+              else setSearchedQuery(query);
+            }}
+            className="flex items-center gap-2 flex-1 min-w-[220px] max-w-md"
+          >
+            <input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder={type === 'drug' ? 'Search keywords, drugs, categories' : 'Search conditions, ICD-10 or procedure codes'}
+              className="flex-1 px-3 py-2 rounded-xl border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900 text-sm text-gray-900 dark:text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-cyan-500/30"
+              aria-label="Search mappings"
+            />
+            <button type="submit" className="p-2 rounded-xl text-gray-500 hover:text-cyan-600" aria-label="Search">
+              <Search className="w-4 h-4" />
+            </button>
+          </form>
+
+          <div className="flex items-center gap-2">
+            <button
+              type="button"
+              onClick={() => handleValidate()}
+              disabled={validating !== null || data?.access === 'disabled'}
+              className="inline-flex items-center gap-1.5 px-3 py-2 rounded-xl text-sm font-medium text-gray-600 dark:text-gray-400 bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-800 hover:text-cyan-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              {validating === 'all' ? <Loader2 className="w-4 h-4 animate-spin" /> : <CheckCircle2 className="w-4 h-4" />}
+              Validate all
+            </button>
+            <button
+              type="button"
+              onClick={() => { setSaveErrors([]); setEditing('new'); }}
+              disabled={!canWrite}
+              title={canWrite ? undefined : 'Enter your reviewer name first'}
+              className="inline-flex items-center gap-1.5 px-4 py-2 rounded-xl text-sm font-medium bg-cyan-600 text-white hover:bg-cyan-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              <Plus className="w-4 h-4" />
+              Add
+            </button>
+          </div>
+        </div>
+
+        {error && <p className="mb-4 text-sm text-center text-red-500">{error}</p>}
+
+        {/* ── Editor ── */}
+        {editing && (
+          <div className="mb-6">
+            <CuratedMappingEditor
+              key={editing === 'new' ? 'new' : editing.id}
+              type={type}
+              entry={editing === 'new' ? null : editing}
+              categories={categories}
+              isSaving={isSaving}
+              errors={saveErrors}
+              onSave={handleSave}
+              onCancel={() => setEditing(null)}
+            />
+          </div>
+        )}
+
+        {/* ── Validation report ── */}
+        {report && (
+          <div className={`mb-4 p-3 rounded-xl border text-xs ${
+            report.unresolved.length > 0
+              ? 'bg-amber-50 dark:bg-amber-900/20 border-amber-200 dark:border-amber-800/50 text-amber-800 dark:text-amber-300'
+              : 'bg-emerald-50 dark:bg-emerald-900/20 border-emerald-200 dark:border-emerald-800/50 text-emerald-800 dark:text-emerald-300'
+          }`}>
+            <p className="font-semibold">
+              {report.resolvedCount} of {report.totalChecks} {type === 'drug' ? 'drug names' : 'codes'} resolved
+              in {report.entriesChecked} {report.entriesChecked === 1 ? 'entry' : 'entries'}
+              {report.unresolved.length > 0 && ` • ${report.unresolved.length} unresolved (marked below)`}
+              {report.unchecked.length > 0 && ` • ${report.unchecked.length} not checked: ${report.unchecked[0].detail}`}
+            </p>
+          </div>
+        )}
+
+        {/* ── Summary & filters ── */}
+        {data && (
+          <div className="flex flex-wrap items-center justify-between gap-2 mb-3 text-sm text-gray-500 dark:text-gray-400">
+            <p>
+              <span className="font-semibold text-gray-900 dark:text-white">{visibleEntries.length}</span> of {data.entries.length} entries
+              {unreviewedCount > 0 && <> • <span className="font-semibold text-amber-600">{unreviewedCount}</span> never reviewed</>}
+            </p>
+            <select
+              value={statusFilter}
+              onChange={(e) => setStatusFilter(e.target.value as StatusFilter)}
+              className="px-2 py-1 rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900 text-xs"
+              aria-label="Filter by status"
+            >
+              <option value="all">All</option>
+              <option value="active">Active</option>
+              <option value="retired">Retired</option>
+              <option value="unreviewed">Never reviewed</option>
+            </select>
+          </div>
+        )}
+
+        {data && data.conflicts.length > 0 && (
+          <div className="mb-3 flex items-start gap-2 p-3 rounded-xl border bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-800/50 text-xs text-red-700 dark:text-red-400">
+            <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+            <span>{data.conflicts.join(' • ')}</span>
+          </div>
+        )}
+
+        {/* ── Entries ── */}
+        {isLoading && !data ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="w-6 h-6 animate-spin text-cyan-600" />
+          </div>
+        ) : data && (
+          <div className="overflow-x-auto bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-800 rounded-xl">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 dark:bg-gray-800/50 text-left text-xs font-semibold text-gray-500 dark:text-gray-400">
+                <tr>
+                  <th className="px-4 py-2.5">Entry</th>
+                  <th className="px-4 py-2.5">{type === 'drug' ? 'Keywords' : 'ICD-10-CM'}</th>
+                  <th className="px-4 py-2.5">{type === 'drug' ? 'Drugs' : 'Procedures'}</th>
+                  <th className="px-4 py-2.5">Provenance</th>
+                  <th className="px-4 py-2.5"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100 dark:divide-gray-800">
+                {visibleEntries.map(entry => {
+                  const { title, keys, items } = describeEntry(type, entry);
+                  const shadowed = shadowedByEntry.get(entry.id) ?? [];
+                  const issues = issuesByEntry.get(entry.id) ?? [];
+                  const retired = entry.status === 'retired';
+
+                  return (
+                    <tr key={entry.id} className={`align-top ${retired ? 'opacity-60' : ''}`}>
+                      <td className="px-4 py-2.5">
+                        <span className="font-mono text-xs font-bold text-gray-900 dark:text-white">{entry.id}</span>
+                        <span className="block text-xs text-gray-500 dark:text-gray-400">{title}</span>
+                        {retired && (
+                          <span className="inline-flex mt-1 px-2 py-0.5 rounded-full text-[11px] font-semibold bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-400">
+                            Retired
+                          </span>
+                        )}
+                        {isUnreviewed(entry) && (
+                          <span className="inline-flex mt-1 px-2 py-0.5 rounded-full text-[11px] font-semibold bg-amber-50 dark:bg-amber-900/20 text-amber-700 dark:text-amber-400">
+                            Never reviewed
+                          </span>
+                        )}
+                      </td>
+                      <td className="px-4 py-2.5 font-mono text-xs text-gray-700 dark:text-gray-300">
+                        {keys.join(', ')}
+                        {shadowed.map(item => (
+                          <span key={item.keyword} className="block mt-1 font-sans text-[11px] text-amber-600 dark:text-amber-400">
+                            &quot;{item.keyword}&quot; never matches: &quot;{item.shadowedBy}&quot; ({item.shadowingEntryId}) comes first
+                          </span>
+                        ))}
+                      </td>
+                      <td className="px-4 py-2.5 text-xs text-gray-600 dark:text-gray-400 max-w-sm">
+                        {items.slice(0, 6).join(' • ')}
+                        {items.length > 6 && ` • +${items.length - 6} more`}
+                        {issues.map(issue => (
+                          <span key={`${issue.kind}:${issue.value}`} className="block mt-1 text-[11px] text-red-600 dark:text-red-400">
+                            {issue.value}{issue.codeSystem ? ` (${issue.codeSystem})` : ''}: {issue.detail}
+                          </span>
+                        ))}
+                      </td>
+                      <td className="px-4 py-2.5 text-[11px] text-gray-500 dark:text-gray-400 whitespace-nowrap">
+                        <span className="block">Added {entry.provenance.addedAt} by {entry.provenance.addedBy}</span>
+                        {entry.provenance.reviewedBy && (
+                          <span className="block">Reviewed {entry.provenance.reviewedAt} by {entry.provenance.reviewedBy}</span>
+                        )}
+                        {retired && (
+                          <span className="block whitespace-normal">
+                            Retired {entry.provenance.retiredAt} by {entry.provenance.retiredBy}: {entry.provenance.retiredReason}
+                          </span>
+                        )}
+                      </td>
+                      <td className="px-4 py-2.5">
+                        <div className="flex items-center gap-1 justify-end">
+                          <button
+                            type="button"
+                            onClick={() => handleValidate(entry.id)}
+                            disabled={validating !== null || data.access === 'disabled'}
+                            className="p-1.5 rounded-lg text-gray-400 hover:text-cyan-600 disabled:opacity-40"
+                            title="Check names and codes resolve"
+                          >
+                            {validating === entry.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <CheckCircle2 className="w-4 h-4" />}
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => { setSaveErrors([]); setEditing(entry); }}
+                            disabled={!canWrite || retired}
+                            className="p-1.5 rounded-lg text-gray-400 hover:text-cyan-600 disabled:opacity-40"
+                            title="Edit"
+                          >
+                            <Pencil className="w-4 h-4" />
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => handleStatus(entry)}
+                            disabled={!canWrite}
+                            className="p-1.5 rounded-lg text-gray-400 hover:text-red-600 disabled:opacity-40"
+                            title={retired ? 'Restore' : 'Retire'}
+                          >
+                            {retired ? <RotateCcw className="w-4 h-4" /> : <Archive className="w-4 h-4" />}
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+            {visibleEntries.length === 0 && (
+              <div className="text-center py-8 text-gray-500 dark:text-gray-400 text-sm">
+                No mappings match.
+              </div>
+            )}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,165 @@
+/**
+ * API Route: /api/admin/mappings
+ *
+ * Editor backend for the curated condition → drug and condition → procedure
+ * mappings (app/data/curated/*.json), used by /admin/mappings.
+ *
+ * Usage:
+ *   GET   ?type=drug|procedure&q=text        list (q matches ids, names, keywords, codes)
+ *   POST  { type, reviewer, entry }          add
+ *   PUT   { type, reviewer, id, entry }      edit content (marks it reviewed)
+ *   PATCH { type, reviewer, id, status, reason? }  retire ('retired') or restore ('active')
+ *
+ * Response:
+ *   GET → { type, entries, conflicts, shadowedKeywords, access }
+ *   writes → { entry } (201 for POST)
+ *   errors → { error, details? } with 400, 401/403, 404, 409 or 503
+ *
+ * Writes need `Authorization: Bearer $ADMIN_TOKEN`; without ADMIN_TOKEN
+ * they are allowed outside production only (access: 'token' | 'open' | 'disabled').
+ *
+ * @module api/admin/mappings
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { ConditionDrugMapping, CuratedMappingStatus, CuratedMappingType } from '@/app/types/icd';
+import { findConflicts, findShadowedKeywords } from '@/app/lib/curatedMappingSchema';
+import {
+  MappingInput,
+  MappingStoreError,
+  addMapping,
+  checkAdminAccess,
+  listMappings,
+  readMappingFile,
+  setMappingStatus,
+  updateMapping,
+} from '@/app/lib/curatedMappingStore';
+
+// Reads the data files on every request
+export const dynamic = 'force-dynamic';
+
+interface WriteBody {
+  type?: unknown;
+  reviewer?: unknown;
+  id?: unknown;
+  entry?: unknown;
+  status?: unknown;
+  reason?: unknown;
+}
+
+function isMappingType(value: unknown): value is CuratedMappingType {
+  return value === 'drug' || value === 'procedure';
+}
+
+function errorResponse(status: number, error: string, details?: string[]) {
+  return NextResponse.json(details ? { error, details } : { error }, { status });
+}
+
+function accessMode(): 'token' | 'open' | 'disabled' {
+  if (process.env.ADMIN_TOKEN) return 'token';
+  return process.env.NODE_ENV === 'production' ? 'disabled' : 'open';
+}
+
+/**
+ * Shared checks for every write: credentials, JSON body, type and reviewer.
+ * Returns the body or the error response to send.
+ */
+async function readWriteRequest(
+  request: NextRequest
+): Promise<{ body: WriteBody; type: CuratedMappingType; reviewer: string } | NextResponse> {
+  const accessError = checkAdminAccess(request);
+  if (accessError) {
+    return errorResponse(process.env.ADMIN_TOKEN ? 401 : 403, accessError);
+  }
+
+  let body: WriteBody;
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse(400, 'Request body must be JSON');
+  }
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    return errorResponse(400, 'Request body must be a JSON object');
+  }
+
+  if (!isMappingType(body.type)) {
+    return errorResponse(400, 'type must be "drug" or "procedure"');
+  }
+  if (typeof body.reviewer !== 'string' || !body.reviewer.trim()) {
+    return errorResponse(400, 'reviewer is required: every change records who made it');
+  }
+  return { body, type: body.type, reviewer: body.reviewer.trim() };
+}
+
+/** Runs a store operation, turning MappingStoreErrors into their responses */
+async function respond(operation: () => Promise<unknown>, successStatus = 200) {
+  try {
+    const entry = await operation();
+    return NextResponse.json({ entry }, { status: successStatus });
+  } catch (error) {
+    if (error instanceof MappingStoreError) {
+      return errorResponse(error.status, error.message, error.details);
+    }
+    console.error('[API/admin/mappings] Unhandled error:', error);
+    return errorResponse(500, 'Internal server error while saving the mapping');
+  }
+}
+
+export async function GET(request: NextRequest) {
+  const type = request.nextUrl.searchParams.get('type') ?? 'drug';
+  const query = request.nextUrl.searchParams.get('q') ?? '';
+
+  if (!isMappingType(type)) {
+    return errorResponse(400, 'type must be "drug" or "procedure"');
+  }
+
+  try {
+    const [{ entries: all }, entries] = await Promise.all([readMappingFile(type), listMappings(type, query)]);
+
+    return NextResponse.json({
+      type,
+      entries,
+      conflicts: findConflicts(type, all),
+      shadowedKeywords: type === 'drug' ? findShadowedKeywords(all as ConditionDrugMapping[]) : [],
+      access: accessMode(),
+    });
+  } catch (error) {
+    console.error('[API/admin/mappings] Failed to read mappings:', error);
+    return errorResponse(500, 'Failed to read the curated mappings');
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const parsed = await readWriteRequest(request);
+  if (parsed instanceof NextResponse) return parsed;
+  const { body, type, reviewer } = parsed;
+
+  return respond(() => addMapping(type, (body.entry ?? {}) as MappingInput<typeof type>, reviewer), 201);
+}
+
+export async function PUT(request: NextRequest) {
+  const parsed = await readWriteRequest(request);
+  if (parsed instanceof NextResponse) return parsed;
+  const { body, type, reviewer } = parsed;
+
+  if (typeof body.id !== 'string') {
+    return errorResponse(400, 'id is required');
+  }
+  return respond(() => updateMapping(type, body.id as string, (body.entry ?? {}) as MappingInput<typeof type>, reviewer));
+}
+
+export async function PATCH(request: NextRequest) {
+  const parsed = await readWriteRequest(request);
+  if (parsed instanceof NextResponse) return parsed;
+  const { body, type, reviewer } = parsed;
+
+  if (typeof body.id !== 'string') {
+    return errorResponse(400, 'id is required');
+  }
+  if (body.status !== 'active' && body.status !== 'retired') {
+    return errorResponse(400, 'status must be "active" or "retired"');
+  }
+  const reason = typeof body.reason === 'string' ? body.reason : undefined;
+
+  return respond(() => setMappingStatus(type, body.id as string, body.status as CuratedMappingStatus, reviewer, reason));
+}
@@ -0,0 +1,68 @@
+/**
+ * API Route: POST /api/admin/mappings/validate
+ *
+ * Checks that curated drug names resolve through RxNorm, or that curated
+ * diagnosis and procedure codes exist in their code sets
+ * (curatedMappingResolution.ts).
+ *
+ * Usage: POST { type: 'drug' | 'procedure', id?: string }
+ *   id       → that entry only
+ *   no id    → every active entry (a full drug check makes a few hundred
+ *              RxNorm calls the first time; results are cached)
+ *
+ * Response: CuratedResolutionReport & { processingTimeMs }
+ *
+ * Same credentials as the editor's writes (ADMIN_TOKEN).
+ *
+ * @module api/admin/mappings/validate
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { checkAdminAccess, readMappingFile } from '@/app/lib/curatedMappingStore';
+import { resolveMappings } from '@/app/lib/curatedMappingResolution';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: NextRequest) {
+  const startTime = Date.now();
+
+  const accessError = checkAdminAccess(request);
+  if (accessError) {
+    return NextResponse.json({ error: accessError }, { status: process.env.ADMIN_TOKEN ? 401 : 403 });
+  }
+
+  let body: { type?: unknown; id?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Request body must be JSON' }, { status: 400 });
+  }
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    return NextResponse.json({ error: 'Request body must be a JSON object' }, { status: 400 });
+  }
+
+  const { type, id } = body;
+  if (type !== 'drug' && type !== 'procedure') {
+    return NextResponse.json({ error: 'type must be "drug" or "procedure"' }, { status: 400 });
+  }
+
+  try {
+    const { entries } = await readMappingFile(type);
+    const selected = typeof id === 'string'
+      ? entries.filter(entry => entry.id === id)
+      : entries.filter(entry => entry.status === 'active');
+
+    if (typeof id === 'string' && selected.length === 0) {
+      return NextResponse.json({ error: `No mapping with id "${id}"` }, { status: 404 });
+    }
+
+    const report = await resolveMappings(type, selected);
+    return NextResponse.json({ ...report, processingTimeMs: Date.now() - startTime });
+  } catch (error) {
+    console.error('[API/admin/mappings/validate] Unhandled error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error during mapping validation', processingTimeMs: Date.now() - startTime },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,100 @@
+/**
+ * API Route: /api/batch-lookup
+ *
+ * Validates a list of ICD-10-CM, ICD-10-PCS, ICD-9-CM and HCPCS codes in one request —
+ * the server-side twin of the /batch page, for scripts and spreadsheets.
+ *
+ * Accepts either
+ * - JSON:             { "text": "E11.9, J0120 ..." } or { "codes": ["E11.9", "J0120"] }
+ * - text/plain / CSV: the raw pasted text or file content
+ *
+ * Usage:
+ *   POST /api/batch-lookup              → JSON
+ *   POST /api/batch-lookup?format=csv   → CSV download
+ *
+ * Response (JSON): {
+ *   rows: BatchLookupRow[],
+ *   skipped: string[],
+ *   truncated: boolean,
+ *   count: number,
+ *   processingTimeMs: number
+ * }
+ *
+ * The bundled data files are read from public/data on disk
+ * (see staticData.ts).
+ *
+ * @module api/batch-lookup
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { lookupBatch, batchToCsv } from '@/app/lib/batchLookup';
+
+/** Largest accepted request body (characters) */
+const MAX_INPUT_LENGTH = 200_000;
+
+/** Reads the request body as the text to parse */
+async function readInput(request: NextRequest): Promise<string> {
+  const contentType = request.headers.get('content-type') ?? '';
+
+  if (contentType.includes('application/json')) {
+    const body = await request.json();
+    if (Array.isArray(body?.codes)) {
+      return body.codes.filter((c: unknown) => typeof c === 'string').join('\n');
+    }
+    if (typeof body?.text === 'string') return body.text;
+    throw new Error('Request body must include "text" (string) or "codes" (string[])');
+  }
+
+  return request.text();
+}
+
+export async function POST(request: NextRequest) {
+  const startTime = Date.now();
+
+  try {
+    let input: string;
+    try {
+      input = await readInput(request);
+    } catch (err) {
+      const message = err instanceof SyntaxError
+        ? 'Invalid JSON in request body'
+        : err instanceof Error ? err.message : 'Invalid request body';
+      return NextResponse.json({ error: message }, { status: 400 });
+    }
+
+    if (!input.trim()) {
+      return NextResponse.json({ error: 'No codes in request body' }, { status: 400 });
+    }
+    if (input.length > MAX_INPUT_LENGTH) {
+      return NextResponse.json(
+        { error: `Request body too large (max ${MAX_INPUT_LENGTH} characters)` },
+        { status: 413 }
+      );
+    }
+
+    const result = await lookupBatch(input);
+    console.log(`[API:batch-lookup] ${result.rows.length} codes in ${Date.now() - startTime}ms`);
+
+    if (request.nextUrl.searchParams.get('format') === 'csv') {
+      const date = new Date().toISOString().split('T')[0];
+      return new NextResponse(batchToCsv(result.rows), {
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="code-batch-${date}.csv"`,
+        },
+      });
+    }
+
+    return NextResponse.json({
+      ...result,
+      count: result.rows.length,
+      processingTimeMs: Date.now() - startTime,
+    });
+  } catch (error) {
+    console.error('[API:batch-lookup] Error:', error);
+    return NextResponse.json(
+      { error: 'Batch lookup failed. Please try again.' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,46 @@
+/**
+ * API Route: GET /api/cache-stats
+ *
+ * Hit/miss counters, size and backend for every shared cache (cache.ts)
+ * in this server process — RxNorm, RxClass, Conditions, HCPCS, PCS,
+ * SNOMED, CMS coverage and the Claude drug validation results.
+ *
+ * Response: {
+ *   caches: CacheStats[],
+ *   totals: { entries, hits, misses, hitRate, writes, evictions, errors }
+ * }
+ *
+ * Counters are per process and reset on restart; entry counts come from
+ * the backend, so with fs/redis they include entries written before the
+ * restart (and by other instances).
+ *
+ * @module api/cache-stats
+ */
+
+import { NextResponse } from 'next/server';
+import { CacheStats, getAllCacheStats } from '@/app/lib/cache';
+
+// Stats change on every request
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  const caches = await getAllCacheStats();
+
+  const sum = (pick: (stats: CacheStats) => number | null) =>
+    caches.reduce((total, stats) => total + (pick(stats) ?? 0), 0);
+  const hits = sum(s => s.hits);
+  const misses = sum(s => s.misses);
+
+  return NextResponse.json({
+    caches,
+    totals: {
+      entries: sum(s => s.entries),
+      hits,
+      misses,
+      hitRate: hits + misses > 0 ? hits / (hits + misses) : null,
+      writes: sum(s => s.writes),
+      evictions: sum(s => s.evictions),
+      errors: sum(s => s.errors),
+    },
+  });
+}
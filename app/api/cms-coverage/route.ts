@@ -4,6 +4,7 @@
 // No API key required. Throttle limit: 10,000 req/sec.
 
 import { NextRequest, NextResponse } from 'next/server';
+import { createCache } from '@/app/lib/cache';
 
 // =============================================================================
 // Types
@@ -55,23 +56,18 @@ interface LCDSummary {
 }
 
 // =============================================================================
-// Cache — 24-hour in-memory cache to avoid hammering the CMS API
+// Cache — 24-hour shared cache (cache.ts) to avoid hammering the CMS API
 // =============================================================================
 
-const cache = new Map<string, { data: unknown; timestamp: number }>();
 const CACHE_DURATION = 24 * 60 * 60 * 1000; // 24 hours
+const cache = createCache<unknown>('cms-coverage', { ttlMs: CACHE_DURATION, maxEntries: 500 });
 
-function getCached<T>(key: string): T | null {
-  const entry = cache.get(key);
-  if (entry && Date.now() - entry.timestamp < CACHE_DURATION) {
-    return entry.data as T;
-  }
-  cache.delete(key);
-  return null;
+async function getCached<T>(key: string): Promise<T | null> {
+  return ((await cache.get(key)) as T | undefined) ?? null;
 }
 
-function setCache(key: string, data: unknown): void {
-  cache.set(key, { data, timestamp: Date.now() });
+async function setCache(key: string, data: unknown): Promise<void> {
+  await cache.set(key, data);
 }
 
 // =============================================================================
@@ -91,7 +87,7 @@ const CMS_API_BASE = 'https://api.coverage.cms.gov/v1';
  */
 async function fetchNCDs(keyword: string): Promise<NCDSummary[]> {
   const cacheKey = 'cms-all-ncds';
-  let allNCDs = getCached<CMSNCDItem[]>(cacheKey);
+  let allNCDs = await getCached<CMSNCDItem[]>(cacheKey);
 
   if (!allNCDs) {
     const url = `${CMS_API_BASE}/reports/national-coverage-ncd/`;
@@ -115,7 +111,7 @@ async function fetchNCDs(keyword: string): Promise<NCDSummary[]> {
     }
 
     allNCDs = json.data;
-    setCache(cacheKey, allNCDs);
+    await setCache(cacheKey, allNCDs);
     console.log(`[CMS Coverage] Cached ${allNCDs.length} total NCDs`);
   }
 
@@ -148,7 +144,7 @@ async function fetchNCDs(keyword: string): Promise<NCDSummary[]> {
  */
 async function fetchLCDs(keyword: string): Promise<LCDSummary[]> {
   const cacheKey = 'cms-all-lcds';
-  let allLCDs = getCached<CMSNCDItem[]>(cacheKey);
+  let allLCDs = await getCached<CMSNCDItem[]>(cacheKey);
 
   if (!allLCDs) {
     const url = `${CMS_API_BASE}/reports/local-coverage-final-lcds/`;
@@ -172,7 +168,7 @@ async function fetchLCDs(keyword: string): Promise<LCDSummary[]> {
     }
 
     allLCDs = json.data;
-    setCache(cacheKey, allLCDs);
+    await setCache(cacheKey, allLCDs);
     console.log(`[CMS Coverage] Cached ${allLCDs!.length} total LCDs`);
   }
 
@@ -203,7 +199,7 @@ async function fetchLCDs(keyword: string): Promise<LCDSummary[]> {
 async function fetchNCDDetail(ncdId: number, version?: number): Promise<unknown> {
   const ver = version || 1;
   const cacheKey = `cms-ncd-detail-${ncdId}-${ver}`;
-  const cached = getCached<unknown>(cacheKey);
+  const cached = await getCached<unknown>(cacheKey);
   if (cached) return cached;
 
   const url = `${CMS_API_BASE}/data/ncd/?ncdid=${ncdId}&ncdver=${ver}`;
@@ -220,7 +216,7 @@ async function fetchNCDDetail(ncdId: number, version?: number): Promise<unknown>
   }
 
   const json = await response.json();
-  setCache(cacheKey, json);
+  await setCache(cacheKey, json);
   return json;
 }
 
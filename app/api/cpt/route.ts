@@ -0,0 +1,74 @@
+/**
+ * CPT API Route
+ *
+ * Server-side endpoint for CPT (HCPCS Level I) codes from the deployment's
+ * licensed CPT file (CPT_DATA_PATH, see cptLicensedData.ts). CPT can't be
+ * bundled, so without the file every request answers available: false.
+ *
+ * Usage:
+ *   GET /api/cpt                  → file status only
+ *   GET /api/cpt?q=arthroscopy    → search by words or code prefix
+ *   GET /api/cpt?code=99213       → look up one code
+ *
+ * Response: CptFileStatus & {
+ *   procedures: ProcedureResult[],
+ *   processingTimeMs: number,
+ *   error?: string
+ * }
+ *
+ * @module api/cpt
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getCptFileStatus, lookupCptCode, searchCpt } from '../../lib/cptLicensedData';
+
+/** Upper bound for the max parameter */
+const MAX_RESULTS_LIMIT = 50;
+
+export async function GET(request: NextRequest) {
+  const startTime = Date.now();
+  const searchParams = request.nextUrl.searchParams;
+  const query = searchParams.get('q')?.trim() ?? '';
+  const code = searchParams.get('code')?.trim() ?? '';
+  const max = Math.max(1, Math.min(Number(searchParams.get('max')) || 20, MAX_RESULTS_LIMIT));
+
+  if (query.length > 200) {
+    return NextResponse.json(
+      {
+        error: 'Query too long (max 200 characters)',
+        procedures: [],
+        processingTimeMs: Date.now() - startTime,
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const status = await getCptFileStatus();
+    const procedures = !status.available
+      ? []
+      : code
+        ? [await lookupCptCode(code)].filter(procedure => procedure !== null)
+        : query
+          ? await searchCpt(query, max)
+          : [];
+
+    return NextResponse.json({
+      ...status,
+      procedures,
+      processingTimeMs: Date.now() - startTime,
+    });
+  } catch (error) {
+    console.error('[API/cpt] Unhandled error:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Internal server error during CPT lookup',
+        available: false,
+        procedures: [],
+        processingTimeMs: Date.now() - startTime,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * Drug Alternatives API Route
+ *
+ * Server-side endpoint for the DrugCard alternatives panel: generic
+ * equivalents, biosimilars and same-EPC-class alternatives of a drug.
+ *
+ * Usage: GET /api/drug-alternatives?rxcui=617318
+ *
+ * Response: DrugAlternativesResult & {
+ *   processingTimeMs: number,
+ *   error?: string
+ * }
+ *
+ * @module api/drug-alternatives
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getDrugAlternatives } from '../../lib/drugAlternatives';
+
+/** RxCUIs are numeric identifiers */
+const RXCUI_PATTERN = /^\d{1,10}$/;
+
+/** Response body when no lookup could be made */
+function emptyResult(rxcui: string) {
+  return { rxcui, ingredients: [], epcClasses: [], generics: [], biosimilars: [], classAlternatives: [] };
+}
+
+export async function GET(request: NextRequest) {
+  const startTime = Date.now();
+  const rxcui = request.nextUrl.searchParams.get('rxcui')?.trim() ?? '';
+
+  if (!RXCUI_PATTERN.test(rxcui)) {
+    return NextResponse.json(
+      {
+        error: rxcui ? `Invalid RxCUI: ${rxcui}` : 'Missing required parameter: rxcui',
+        ...emptyResult(rxcui),
+        processingTimeMs: Date.now() - startTime,
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const result = await getDrugAlternatives(rxcui);
+
+    return NextResponse.json({
+      ...result,
+      processingTimeMs: Date.now() - startTime,
+    });
+  } catch (error) {
+    console.error('[API/drug-alternatives] Unhandled error:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Internal server error during alternatives lookup',
+        ...emptyResult(rxcui),
+        processingTimeMs: Date.now() - startTime,
+      },
+      { status: 500 }
+    );
+  }
+}
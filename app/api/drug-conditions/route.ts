@@ -0,0 +1,66 @@
+/**
+ * Drug → Conditions API Route
+ *
+ * Server-side endpoint for the drug search mode: resolves a drug name
+ * through RxNorm and returns the ICD-10-CM codes for the conditions it
+ * treats (curated mappings + MED-RT may_treat relations).
+ *
+ * Usage: GET /api/drug-conditions?drug=semaglutide
+ *
+ * Response: DrugConditionSearchResult & {
+ *   processingTimeMs: number,
+ *   error?: string
+ * }
+ *
+ * @module api/drug-conditions
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { searchConditionsForDrug } from '../../lib/drugConditionSearch';
+
+/** Longest drug name accepted (RxNorm names are far shorter) */
+const MAX_DRUG_NAME_LENGTH = 100;
+
+export async function GET(request: NextRequest) {
+  const startTime = Date.now();
+  const drugName = request.nextUrl.searchParams.get('drug')?.trim() ?? '';
+
+  if (!drugName || drugName.length > MAX_DRUG_NAME_LENGTH) {
+    return NextResponse.json(
+      {
+        error: drugName
+          ? `Drug name too long (max ${MAX_DRUG_NAME_LENGTH} characters)`
+          : 'Missing required parameter: drug',
+        query: drugName,
+        drug: null,
+        indications: [],
+        results: [],
+        processingTimeMs: Date.now() - startTime,
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const result = await searchConditionsForDrug(drugName);
+
+    return NextResponse.json({
+      ...result,
+      processingTimeMs: Date.now() - startTime,
+    });
+  } catch (error) {
+    console.error('[API/drug-conditions] Unhandled error:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Internal server error during drug condition lookup',
+        query: drugName,
+        drug: null,
+        indications: [],
+        results: [],
+        processingTimeMs: Date.now() - startTime,
+      },
+      { status: 500 }
+    );
+  }
+}
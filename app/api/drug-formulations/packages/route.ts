@@ -0,0 +1,62 @@
+/**
+ * Formulation Packages API Route
+ *
+ * Pack sizes and NDCs of one SCD/SBD product, fetched when a row of the
+ * formulation panel is opened.
+ *
+ * Usage: GET /api/drug-formulations/packages?rxcui=861007
+ *
+ * Response: {
+ *   rxcui: string,
+ *   packages: DrugPackage[],
+ *   processingTimeMs: number,
+ *   error?: string
+ * }
+ *
+ * @module api/drug-formulations/packages
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getFormulationPackages } from '../../../lib/drugFormulations';
+
+/** RxCUIs are numeric identifiers */
+const RXCUI_PATTERN = /^\d{1,10}$/;
+
+export async function GET(request: NextRequest) {
+  const startTime = Date.now();
+  const rxcui = request.nextUrl.searchParams.get('rxcui')?.trim() ?? '';
+
+  if (!RXCUI_PATTERN.test(rxcui)) {
+    return NextResponse.json(
+      {
+        error: rxcui ? `Invalid RxCUI: ${rxcui}` : 'Missing required parameter: rxcui',
+        rxcui,
+        packages: [],
+        processingTimeMs: Date.now() - startTime,
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const packages = await getFormulationPackages(rxcui);
+
+    return NextResponse.json({
+      rxcui,
+      packages,
+      processingTimeMs: Date.now() - startTime,
+    });
+  } catch (error) {
+    console.error('[API/drug-formulations/packages] Unhandled error:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Internal server error during package lookup',
+        rxcui,
+        packages: [],
+        processingTimeMs: Date.now() - startTime,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * Drug Formulations API Route
+ *
+ * Server-side endpoint for the DrugCard formulation panel: every SCD/SBD
+ * product of the drug's ingredients (strength, dose form, route), grouped
+ * by dose form.
+ *
+ * Usage: GET /api/drug-formulations?rxcui=860975
+ *
+ * Response: DrugFormulationsResult & {
+ *   processingTimeMs: number,
+ *   error?: string
+ * }
+ *
+ * Pack sizes and NDCs per product: GET /api/drug-formulations/packages
+ *
+ * @module api/drug-formulations
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getDrugFormulations } from '../../lib/drugFormulations';
+
+/** RxCUIs are numeric identifiers */
+const RXCUI_PATTERN = /^\d{1,10}$/;
+
+export async function GET(request: NextRequest) {
+  const startTime = Date.now();
+  const rxcui = request.nextUrl.searchParams.get('rxcui')?.trim() ?? '';
+
+  if (!RXCUI_PATTERN.test(rxcui)) {
+    return NextResponse.json(
+      {
+        error: rxcui ? `Invalid RxCUI: ${rxcui}` : 'Missing required parameter: rxcui',
+        rxcui,
+        ingredients: [],
+        groups: [],
+        processingTimeMs: Date.now() - startTime,
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const result = await getDrugFormulations(rxcui);
+
+    return NextResponse.json({
+      ...result,
+      processingTimeMs: Date.now() - startTime,
+    });
+  } catch (error) {
+    console.error('[API/drug-formulations] Unhandled error:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Internal server error during formulation lookup',
+        rxcui,
+        ingredients: [],
+        groups: [],
+        processingTimeMs: Date.now() - startTime,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -2,13 +2,15 @@
  * SNOMED Procedure Lookup API Route
  *
  * Server-side endpoint that finds SNOMED CT procedures related to an ICD-10 diagnosis.
- * Keeps the UMLS_API_KEY secure on the server side.
+ * Keeps the UMLS_API_KEY secure on the server side. Answers from the UMLS API
+ * or from a local RF2 snapshot, as SNOMED_BACKEND selects (snomedProcedures.ts);
+ * 503 when neither is configured.
  *
  * Usage: GET /api/snomed-procedures?icd10=E11.9
  *
  * Response: {
  *   procedures: ProcedureResult[],
- *   fromCache: boolean,
+ *   backend: 'umls' | 'rf2',
  *   processingTimeMs: number,
  *   error?: string
  * }
@@ -17,7 +19,8 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { getSnomedProceduresForDiagnosis } from '../../lib/snomedProcedureApi';
+import { describeMissingSnomedBackend, getSnomedBackend, getSnomedProcedures } from '../../lib/snomedProcedures';
+import { getSnomedRf2Status } from '../../lib/snomedRf2Data';
 
 export async function GET(request: NextRequest) {
   const startTime = Date.now();
@@ -51,11 +54,18 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    // Check that UMLS API key is configured
-    if (!process.env.UMLS_API_KEY) {
+    // Check that a SNOMED CT backend (UMLS API key or RF2 snapshot) is configured
+    const backend = getSnomedBackend();
+    const unavailableReason = !backend
+      ? `${describeMissingSnomedBackend()}.`
+      : backend === 'rf2'
+        ? (await getSnomedRf2Status()).error
+        : undefined;
+
+    if (unavailableReason) {
       return NextResponse.json(
         {
-          error: 'UMLS API key not configured. SNOMED procedure lookup unavailable.',
+          error: `${unavailableReason} SNOMED procedure lookup unavailable.`,
           procedures: [],
           processingTimeMs: Date.now() - startTime,
         },
@@ -64,10 +74,11 @@ export async function GET(request: NextRequest) {
     }
 
     // Perform the lookup
-    const procedures = await getSnomedProceduresForDiagnosis(icd10Code.trim());
+    const procedures = await getSnomedProcedures(icd10Code.trim());
 
     return NextResponse.json({
       procedures,
+      backend,
       icd10Code: icd10Code.trim().toUpperCase(),
       resultCount: procedures.length,
       processingTimeMs: Date.now() - startTime,
@@ -0,0 +1,60 @@
+/**
+ * API Route: GET /api/v1/conditions/{code}/drugs
+ *
+ * Drugs for the condition an ICD-10-CM code describes — the same
+ * validateDrugs() pipeline as /api/validate-drugs (curated mappings +
+ * RxNorm + AI relevance scoring), paginated.
+ *
+ * Usage:
+ *   GET /api/v1/conditions/E11.9/drugs
+ *   GET /api/v1/conditions/E11.9/drugs?validate=false   ← skip AI scoring
+ *   GET /api/v1/conditions/E11.9/drugs?scorer=rules     ← rule-based scores, no AI
+ *   GET /api/v1/conditions/E11.9/drugs?scorer=compare   ← AI and rule scores side by side
+ *
+ * Response: {
+ *   data: ValidatedDrugResult[],
+ *   pagination: { page, pageSize, total, totalPages, hasMore },
+ *   meta: { code, conditionName, scorer, validated }
+ * }
+ *
+ * validated is false when scoring was skipped or no scorer was available;
+ * relevanceScore is then -1. With scorer=ai (the default) drugs fall back
+ * to rule-based scores when the AI service is unavailable — see scoredBy.
+ *
+ * @module api/v1/conditions/[code]/drugs
+ */
+
+import { NextRequest } from 'next/server';
+import { ApiError, apiList, findIcd10Code, parsePagination, withApiErrors } from '@/app/lib/apiV1';
+import {
+  DRUG_SCORERS,
+  DrugScorer,
+  fetchDrugsWithoutValidation,
+  validateDrugs,
+} from '@/app/lib/drugValidationPipeline';
+
+export const GET = withApiErrors('conditions/drugs', async (
+  request: NextRequest,
+  { params }: { params: Promise<{ code: string }> }
+) => {
+  const searchParams = request.nextUrl.searchParams;
+  const page = parsePagination(searchParams);
+  const skipValidation = searchParams.get('validate') === 'false';
+  const scorer = (searchParams.get('scorer') ?? 'ai') as DrugScorer;
+  if (!DRUG_SCORERS.includes(scorer)) {
+    throw new ApiError(400, 'bad_request', `scorer must be one of: ${DRUG_SCORERS.join(', ')}`, { scorer });
+  }
+
+  const { code, description } = await findIcd10Code((await params).code);
+
+  const drugs = skipValidation
+    ? await fetchDrugsWithoutValidation(description, code)
+    : await validateDrugs(description, code, { scorer });
+
+  return apiList(drugs, page, {
+    code,
+    conditionName: description,
+    scorer: skipValidation ? null : scorer,
+    validated: !skipValidation && drugs.every(drug => drug.relevanceScore >= 0),
+  });
+});
@@ -0,0 +1,43 @@
+/**
+ * API Route: GET /api/v1/hcpcs/{code}
+ *
+ * One HCPCS Level II code from the bundled CMS file, with its Medicare
+ * coverage indicator spelled out.
+ *
+ * Usage: GET /api/v1/hcpcs/J0120
+ *
+ * Response: {
+ *   data: { ...HCPCSResult, medicareCoverage: { code, label, group, description } | null }
+ * }
+ *
+ * @module api/v1/hcpcs/[code]
+ */
+
+import { NextRequest } from 'next/server';
+import { ApiError, apiItem, withApiErrors } from '@/app/lib/apiV1';
+import { isHCPCSCode } from '@/app/lib/conditionsApi';
+import { getMedicareCoverage, lookupLocalHcpcs } from '@/app/lib/hcpcsLocalData';
+
+export const GET = withApiErrors('hcpcs/code', async (
+  _request: NextRequest,
+  { params }: { params: Promise<{ code: string }> }
+) => {
+  const code = (await params).code.trim().toUpperCase();
+  if (!isHCPCSCode(code)) {
+    throw new ApiError(400, 'invalid_code', `"${code}" is not a valid HCPCS Level II code format`);
+  }
+
+  const result = await lookupLocalHcpcs(code);
+  if (!result) throw new ApiError(404, 'not_found', `HCPCS code ${code} not found`);
+
+  const coverage = getMedicareCoverage(result.coverageCode);
+  return apiItem({
+    ...result,
+    medicareCoverage: coverage && {
+      code: coverage.code,
+      label: coverage.label,
+      group: coverage.group,
+      description: coverage.description,
+    },
+  });
+});
@@ -0,0 +1,50 @@
+/**
+ * API Route: GET /api/v1/icd10/{code}
+ *
+ * One ICD-10-CM code with its billability for a fiscal year, chapter and
+ * Tabular instructional notes. Codes outside the bundled code set are
+ * resolved through ClinicalTables (description only, billable: null).
+ *
+ * Usage: GET /api/v1/icd10/E11.9?fiscalYear=2025
+ *
+ * Response: {
+ *   data: { code, description, billable, status, message, fiscalYear,
+ *           chapter: { id, name }, notes, seventhCharacters, source }
+ * }
+ *
+ * @module api/v1/icd10/[code]
+ */
+
+import { NextRequest } from 'next/server';
+import { ApiError, apiItem, findIcd10Code, withApiErrors } from '@/app/lib/apiV1';
+import { getChapter } from '@/app/lib/chapterMapping';
+import { getLocalInstructionalNotes, getLocalSeventhCharacters } from '@/app/lib/icd10cmLocalData';
+
+export const GET = withApiErrors('icd10/code', async (
+  request: NextRequest,
+  { params }: { params: Promise<{ code: string }> }
+) => {
+  const { code: rawCode } = await params;
+
+  const rawYear = request.nextUrl.searchParams.get('fiscalYear');
+  const fiscalYear = rawYear ? Number(rawYear) : undefined;
+  if (fiscalYear !== undefined && !Number.isInteger(fiscalYear)) {
+    throw new ApiError(400, 'bad_request', 'fiscalYear must be a year such as 2026', { fiscalYear: rawYear });
+  }
+
+  const { code, description, validation, source } = await findIcd10Code(rawCode, fiscalYear);
+  const chapter = getChapter(code);
+
+  return apiItem({
+    code,
+    description,
+    billable: validation?.billable ?? null,
+    status: validation?.status ?? null,
+    message: validation?.message ?? 'Not in the bundled ICD-10-CM code set — billability not verified',
+    fiscalYear: validation?.fiscalYear ?? null,
+    chapter: chapter.id === 0 ? null : { id: chapter.id, name: chapter.name },
+    notes: source === 'local' ? await getLocalInstructionalNotes(code) : null,
+    seventhCharacters: source === 'local' ? await getLocalSeventhCharacters(validation?.baseCode ?? code) : null,
+    source,
+  });
+});
@@ -0,0 +1,47 @@
+/**
+ * API Route: GET /api/v1/icd10/search
+ *
+ * ICD-10-CM search — the same searchICD10() the home page runs client-side
+ * (lay-term translation, relevance scoring, local fallback), paginated.
+ *
+ * Usage: GET /api/v1/icd10/search?q=heart+attack&page=1&pageSize=25
+ *
+ * Response: {
+ *   data: [{ code, name, score }],
+ *   pagination: { page, pageSize, total, totalPages, hasMore },
+ *   meta: { query, translatedQuery, dataSource, totalMatches }
+ * }
+ *
+ * @module api/v1/icd10/search
+ */
+
+import { NextRequest } from 'next/server';
+import { searchICD10 } from '@/app/lib/api';
+import { ApiError, apiList, parsePagination, withApiErrors } from '@/app/lib/apiV1';
+
+/** Longest accepted search text */
+const MAX_QUERY_LENGTH = 200;
+
+export const GET = withApiErrors('icd10/search', async (request: NextRequest) => {
+  const searchParams = request.nextUrl.searchParams;
+  const query = searchParams.get('q')?.trim() ?? '';
+
+  if (!query) throw new ApiError(400, 'bad_request', 'Missing required parameter: q');
+  if (query.length > MAX_QUERY_LENGTH) {
+    throw new ApiError(400, 'bad_request', `q must be at most ${MAX_QUERY_LENGTH} characters`);
+  }
+  const page = parsePagination(searchParams);
+
+  const { results, totalCount, translation, dataSource } = await searchICD10(query);
+
+  return apiList(
+    results.map(({ code, name, score }) => ({ code, name, score })),
+    page,
+    {
+      query,
+      translatedQuery: translation?.wasTranslated ? translation.medicalTerm : null,
+      dataSource: dataSource ?? null,
+      totalMatches: totalCount,
+    }
+  );
+});
@@ -0,0 +1,17 @@
+/**
+ * API Route: GET /api/v1/openapi.json
+ *
+ * The OpenAPI 3.1 document for the v1 API (see openApiSpec.ts).
+ *
+ * @module api/v1/openapi.json
+ */
+
+import { NextResponse } from 'next/server';
+import { API_VERSION } from '@/app/lib/apiV1';
+import { OPENAPI_SPEC } from '@/app/lib/openApiSpec';
+
+export function GET() {
+  return NextResponse.json(OPENAPI_SPEC, {
+    headers: { 'X-API-Version': API_VERSION },
+  });
+}
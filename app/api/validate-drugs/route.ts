@@ -7,10 +7,55 @@
  * The client-side ResultCard component calls this endpoint instead of
  * importing validateDrugs directly, which wouldn't work because
  * environment variables without NEXT_PUBLIC_ prefix are only available server-side.
+ * 
+ * With `Accept: text/event-stream` the response is streamed as server-sent
+ * events (candidates, each drug as it is scored, then the final ranking),
+ * so the UI can show drugs before Claude has finished (drugValidationStream.ts).
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { validateDrugs } from '@/app/lib/drugValidationPipeline';
+import { DRUG_SCORERS, DrugScorer, DrugValidationEvent, validateDrugs } from '@/app/lib/drugValidationPipeline';
+import { encodeDrugValidationEvent } from '@/app/lib/drugValidationStream';
+
+/**
+ * Streams the validation as server-sent events. Always ends with a
+ * 'complete' or 'error' event; the HTTP status is 200 either way.
+ */
+function streamValidation(conditionName: string, icdCode: string, scorer: DrugScorer): Response {
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let open = true;
+      const send = (event: DrugValidationEvent) => {
+        if (!open) return;
+        try {
+          controller.enqueue(encodeDrugValidationEvent(event));
+        } catch {
+          // Client went away - keep validating so the result is cached
+          open = false;
+        }
+      };
+
+      try {
+        const drugs = await validateDrugs(conditionName, icdCode, { scorer, onProgress: send });
+        console.log(`[API:validate-drugs] Streamed ${drugs.length} validated drugs for ${icdCode}`);
+        send({ type: 'complete', drugs });
+      } catch (error) {
+        console.error('[API:validate-drugs] Stream error:', error);
+        send({ type: 'error', error: 'Drug validation failed. Please try again.' });
+      } finally {
+        if (open) controller.close();
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
 
 /**
  * POST /api/validate-drugs
@@ -18,7 +63,8 @@ import { validateDrugs } from '@/app/lib/drugValidationPipeline';
  * Request body:
  * {
  *   conditionName: string,  // e.g., "Morbid (severe) obesity"
- *   icdCode: string         // e.g., "E66.2"
+ *   icdCode: string,        // e.g., "E66.2"
+ *   scorer?: 'ai' | 'rules' | 'compare'  // default 'ai' (falls back to rules)
  * }
  * 
  * Response:
@@ -26,12 +72,18 @@ import { validateDrugs } from '@/app/lib/drugValidationPipeline';
  *   drugs: ValidatedDrugResult[],
  *   cached: boolean  // Whether result was from cache
  * }
+ * 
+ * Streamed response (Accept: text/event-stream): DrugValidationEvent frames
+ *   event: candidates  data: { type, drugs: DrugResult[] }
+ *   event: scored      data: { type, drug: ValidatedDrugResult }   (one per drug)
+ *   event: complete    data: { type, drugs: ValidatedDrugResult[] }
+ *   event: error       data: { type, error: string }
  */
 export async function POST(request: NextRequest) {
   try {
     // Parse request body
     const body = await request.json();
-    const { conditionName, icdCode } = body;
+    const { conditionName, icdCode, scorer = 'ai' } = body;
 
     // Validate required fields
     if (!conditionName || typeof conditionName !== 'string') {
@@ -48,14 +100,25 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (!DRUG_SCORERS.includes(scorer)) {
+      return NextResponse.json(
+        { error: `scorer must be one of: ${DRUG_SCORERS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
     // Sanitize inputs (basic XSS prevention)
     const sanitizedCondition = conditionName.trim().slice(0, 500);
     const sanitizedCode = icdCode.trim().toUpperCase().slice(0, 20);
 
     console.log(`[API:validate-drugs] Request for ${sanitizedCode}: "${sanitizedCondition.slice(0, 50)}..."`);
 
+    if (request.headers.get('accept')?.includes('text/event-stream')) {
+      return streamValidation(sanitizedCondition, sanitizedCode, scorer as DrugScorer);
+    }
+
     // Call validation pipeline (server-side, has access to ANTHROPIC_API_KEY)
-    const validatedDrugs = await validateDrugs(sanitizedCondition, sanitizedCode);
+    const validatedDrugs = await validateDrugs(sanitizedCondition, sanitizedCode, { scorer: scorer as DrugScorer });
 
     console.log(`[API:validate-drugs] Returning ${validatedDrugs.length} validated drugs for ${sanitizedCode}`);
 
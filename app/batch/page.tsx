@@ -0,0 +1,276 @@
+'use client';
+
+import { useState, useCallback, useRef } from 'react';
+import Link from 'next/link';
+import Image from 'next/image';
+import { ArrowLeft, Table2, Upload, Download, Loader2, CheckCircle2, XCircle, AlertTriangle } from 'lucide-react';
+import { BatchCodeStatus, BatchLookupResult, BatchLookupRow } from '../types/icd';
+import { lookupBatch, batchToCsv, MAX_BATCH_CODES } from '../lib/batchLookup';
+
+/** Badge styling per status */
+const STATUS_STYLES: Record<BatchCodeStatus, { label: string; className: string }> = {
+  active: { label: 'Active', className: 'bg-emerald-50 dark:bg-emerald-900/20 text-emerald-700 dark:text-emerald-400' },
+  terminated: { label: 'Terminated', className: 'bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-400' },
+  unverified: { label: 'Unverified', className: 'bg-amber-50 dark:bg-amber-900/20 text-amber-700 dark:text-amber-400' },
+  not_found: { label: 'Not found', className: 'bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-400' },
+};
+
+const TYPE_LABELS: Record<BatchLookupRow['codeType'], string> = {
+  icd10: 'ICD-10-CM',
+  icd9: 'ICD-9-CM',
+  icd10pcs: 'ICD-10-PCS',
+  hcpcs: 'HCPCS',
+};
+
+/** A row needs attention if it can't go on a claim as-is */
+function needsAttention(row: BatchLookupRow): boolean {
+  return row.status !== 'active' || row.billable === false;
+}
+
+export default function BatchLookupPage() {
+  const [text, setText] = useState('');
+  const [result, setResult] = useState<BatchLookupResult | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [problemsOnly, setProblemsOnly] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const runLookup = useCallback(async () => {
+    if (!text.trim()) return;
+    setIsRunning(true);
+    setError(null);
+    try {
+      setResult(await lookupBatch(text));
+    } catch (err) {
+      console.error('[Batch] Lookup failed:', err);
+      setError('Failed to load the code sets. Please try again.');
+    } finally {
+      setIsRunning(false);
+    }
+  }, [text]);
+
+  // Load a CSV / text file into the input
+  const handleFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = (e) => setText(String(e.target?.result ?? ''));
+    reader.onerror = () => setError('Failed to read file');
+    reader.readAsText(file);
+    // Reset file input so the same file can be loaded again
+    event.target.value = '';
+  };
+
+  const handleDownload = useCallback(() => {
+    if (!result) return;
+    const blob = new Blob([batchToCsv(result.rows)], { type: 'text/csv;charset=utf-8;' });
+    const url = URL.createObjectURL(blob);
+    const date = new Date().toISOString().split('T')[0];
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `code-batch-${date}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }, [result]);
+
+  const problemCount = result?.rows.filter(needsAttention).length ?? 0;
+  const visibleRows = result ? (problemsOnly ? result.rows.filter(needsAttention) : result.rows) : [];
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-950">
+      {/* ── Header ── */}
+      <header className="sticky top-0 z-40 bg-white/80 dark:bg-gray-900/80 backdrop-blur-xl border-b border-gray-200/50 dark:border-gray-800/50">
+        <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-3 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <Link
+              href="/"
+              className="inline-flex items-center gap-1.5 text-sm text-gray-500 hover:text-cyan-600 dark:text-gray-400 dark:hover:text-cyan-400 transition-colors"
+            >
+              <ArrowLeft className="w-4 h-4" />
+              Back to Search
+            </Link>
+          </div>
+          <Link href="/" className="flex items-center gap-2">
+            <Image
+              src="/medcodemap-svg.svg"
+              alt="MedCodeMap"
+              width={28}
+              height={28}
+              className="rounded-lg"
+            />
+            <span className="font-display text-lg font-bold text-gray-900 dark:text-white">
+              MedCodeMap
+            </span>
+          </Link>
+        </div>
+      </header>
+
+      <main className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* ── Page Title ── */}
+        <div className="text-center mb-8">
+          <div className="inline-flex items-center gap-2 px-3 py-1.5 rounded-full bg-cyan-50 dark:bg-cyan-900/20 text-cyan-700 dark:text-cyan-400 text-xs font-medium mb-3">
+            <Table2 className="w-3.5 h-3.5" />
+            Batch Lookup • up to {MAX_BATCH_CODES} codes
+          </div>
+          <h1 className="text-2xl sm:text-3xl font-display font-bold text-gray-900 dark:text-white mb-2">
+            Check a List of Codes
+          </h1>
+          <p className="text-sm text-gray-500 dark:text-gray-400 max-w-xl mx-auto">
+            Paste codes or load a CSV. ICD-10-CM, ICD-10-PCS, HCPCS Level II and legacy ICD-9-CM codes are recognized; everything else in the text is ignored.
+          </p>
+        </div>
+
+        {/* ── Input ── */}
+        <div className="max-w-3xl mx-auto mb-8">
+          <textarea
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            rows={7}
+            placeholder={'E11.9\nI10, J0120\nE0607 250.00 S93.401A'}
+            className="w-full px-4 py-3 rounded-xl border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900 font-mono text-sm text-gray-900 dark:text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-cyan-500/30 focus:border-cyan-500 transition-all"
+            aria-label="Codes to look up"
+          />
+          <div className="mt-3 flex flex-wrap items-center justify-between gap-2">
+            <div className="flex items-center gap-2">
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".csv,.txt,text/csv,text/plain"
+                onChange={handleFile}
+                className="hidden"
+              />
+              <button
+                type="button"
+                onClick={() => fileInputRef.current?.click()}
+                className="inline-flex items-center gap-1.5 px-3 py-2 rounded-xl text-sm font-medium text-gray-600 dark:text-gray-400 bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-800 hover:text-cyan-700 hover:border-cyan-200 dark:hover:border-cyan-800/50 transition-colors"
+              >
+                <Upload className="w-4 h-4" />
+                Load CSV
+              </button>
+              {text && (
+                <button
+                  type="button"
+                  onClick={() => { setText(''); setResult(null); }}
+                  className="px-2 py-1 text-xs text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+                >
+                  Clear
+                </button>
+              )}
+            </div>
+            <button
+              type="button"
+              onClick={runLookup}
+              disabled={isRunning || !text.trim()}
+              className="inline-flex items-center gap-1.5 px-4 py-2 rounded-xl text-sm font-medium bg-cyan-600 text-white hover:bg-cyan-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              {isRunning && <Loader2 className="w-4 h-4 animate-spin" />}
+              Look Up Codes
+            </button>
+          </div>
+          {error && <p className="mt-3 text-sm text-center text-red-500">{error}</p>}
+        </div>
+
+        {/* ── Results ── */}
+        {result && (
+          <section>
+            <div className="flex flex-wrap items-center justify-between gap-3 mb-3">
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                <span className="font-semibold text-gray-900 dark:text-white">{result.rows.length}</span> {result.rows.length === 1 ? 'code' : 'codes'}
+                {problemCount > 0 && (
+                  <> • <span className="font-semibold text-amber-600">{problemCount}</span> need attention</>
+                )}
+                {result.truncated && ` • only the first ${MAX_BATCH_CODES} were checked`}
+              </p>
+              <div className="flex items-center gap-2">
+                <label className="inline-flex items-center gap-1.5 text-xs text-gray-600 dark:text-gray-400">
+                  <input
+                    type="checkbox"
+                    checked={problemsOnly}
+                    onChange={(e) => setProblemsOnly(e.target.checked)}
+                    className="rounded border-gray-300"
+                  />
+                  Problems only
+                </label>
+                <button
+                  type="button"
+                  onClick={handleDownload}
+                  disabled={result.rows.length === 0}
+                  className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium bg-cyan-600 text-white hover:bg-cyan-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                  <Download className="w-3.5 h-3.5" />
+                  Download CSV
+                </button>
+              </div>
+            </div>
+
+            {result.skipped.length > 0 && (
+              <div className="mb-3 flex items-start gap-2 p-3 rounded-xl border bg-amber-50 dark:bg-amber-900/20 border-amber-200 dark:border-amber-800/50 text-xs text-amber-700 dark:text-amber-400">
+                <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+                <span>
+                  Not recognized as a code: <span className="font-mono">{result.skipped.slice(0, 20).join(', ')}</span>
+                  {result.skipped.length > 20 && ` and ${result.skipped.length - 20} more`}
+                </span>
+              </div>
+            )}
+
+            {result.rows.length === 0 ? (
+              <div className="text-center py-8 text-gray-500 dark:text-gray-400 text-sm">
+                No codes found in the input.
+              </div>
+            ) : (
+              <div className="overflow-x-auto bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-800 rounded-xl">
+                <table className="w-full text-sm">
+                  <thead className="bg-gray-50 dark:bg-gray-800/50 text-left text-xs font-semibold text-gray-500 dark:text-gray-400">
+                    <tr>
+                      <th className="px-4 py-2.5">Code</th>
+                      <th className="px-4 py-2.5">Description</th>
+                      <th className="px-4 py-2.5">Chapter</th>
+                      <th className="px-4 py-2.5">Billable</th>
+                      <th className="px-4 py-2.5">Coverage</th>
+                      <th className="px-4 py-2.5">Status</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100 dark:divide-gray-800">
+                    {visibleRows.map(row => {
+                      const status = STATUS_STYLES[row.status];
+                      return (
+                        <tr key={row.input} className="align-top">
+                          <td className="px-4 py-2.5 whitespace-nowrap">
+                            <span className="font-mono font-bold text-gray-900 dark:text-white">{row.code}</span>
+                            <span className="block text-[11px] text-gray-400">{TYPE_LABELS[row.codeType]}</span>
+                          </td>
+                          <td className="px-4 py-2.5 text-gray-700 dark:text-gray-300">
+                            {row.description ?? <span className="text-gray-400">—</span>}
+                            {row.message && (
+                              <span className="block text-xs text-gray-400 dark:text-gray-500">{row.message}</span>
+                            )}
+                          </td>
+                          <td className="px-4 py-2.5 text-xs text-gray-500 dark:text-gray-400">{row.chapter ?? '—'}</td>
+                          <td className="px-4 py-2.5">
+                            {row.billable === null ? (
+                              <span className="text-gray-400">—</span>
+                            ) : row.billable ? (
+                              <CheckCircle2 className="w-4 h-4 text-emerald-600" aria-label="Billable" />
+                            ) : (
+                              <XCircle className="w-4 h-4 text-red-500" aria-label="Not billable" />
+                            )}
+                          </td>
+                          <td className="px-4 py-2.5 text-xs text-gray-500 dark:text-gray-400">{row.coverage ?? '—'}</td>
+                          <td className="px-4 py-2.5">
+                            <span className={`inline-flex px-2 py-0.5 rounded-full text-[11px] font-semibold ${status.className}`}>
+                              {status.label}
+                            </span>
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </section>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,76 @@
+/**
+ * AddToEncounterButton Component
+ * ==============================
+ *
+ * Small toggle that adds a diagnosis, procedure, HCPCS code or drug to the
+ * working encounter (see /encounter). Shows "In Encounter" once added and
+ * removes the item on a second click.
+ *
+ * Used by:
+ * - ResultCard (diagnosis)
+ * - ProcedureCard (procedure)
+ * - HcpcsResultCard (hcpcs)
+ * - DrugCard (drug)
+ */
+
+'use client';
+
+import { memo } from 'react';
+import { ClipboardPlus, ClipboardCheck } from 'lucide-react';
+import { EncounterItem } from '../types/icd';
+import { useEncounter } from '../hooks/useEncounter';
+
+// =============================================================================
+// Props Interface
+// =============================================================================
+
+interface AddToEncounterButtonProps {
+  /** The item this button adds/removes */
+  entry: EncounterItem;
+}
+
+// =============================================================================
+// Component
+// =============================================================================
+
+function AddToEncounterButton({ entry }: AddToEncounterButtonProps) {
+  const { add, remove, contains } = useEncounter();
+  const added = contains(entry);
+
+  return (
+    <button
+      type="button"
+      onClick={(e) => {
+        e.stopPropagation(); // Cards toggle on click
+        if (added) {
+          remove(entry);
+        } else {
+          add(entry);
+        }
+      }}
+      className={`
+        inline-flex
+        items-center
+        gap-1
+        px-2
+        py-1
+        rounded-lg
+        text-xs
+        font-medium
+        transition-colors
+        duration-200
+        ${added
+          ? 'bg-indigo-500 text-white hover:bg-indigo-600'
+          : 'bg-indigo-50 dark:bg-indigo-900/30 text-indigo-700 dark:text-indigo-400 hover:bg-indigo-100 dark:hover:bg-indigo-900/50'
+        }
+      `}
+      aria-pressed={added}
+      title={added ? 'Remove from encounter' : 'Add to encounter'}
+    >
+      {added ? <ClipboardCheck className="w-3.5 h-3.5" /> : <ClipboardPlus className="w-3.5 h-3.5" />}
+      <span>{added ? 'In Encounter' : 'Encounter'}</span>
+    </button>
+  );
+}
+
+export default memo(AddToEncounterButton);
@@ -0,0 +1,84 @@
+/**
+ * AddToInteractionCheckButton Component
+ * =====================================
+ *
+ * Small toggle on DrugCard that collects the drug for the interaction
+ * checker (see /interactions). Drugs can be gathered across several
+ * ResultCards; the condition the drug was found under is remembered.
+ *
+ * Used by:
+ * - DrugCard
+ */
+
+'use client';
+
+import { memo } from 'react';
+import { ShieldAlert, ShieldCheck } from 'lucide-react';
+import { DrugResult } from '../types/icd';
+import { useInteractionList } from '../hooks/useInteractionList';
+import { MAX_INTERACTION_DRUGS, getInteractionDrugKey } from '../lib/interactionStorage';
+
+// =============================================================================
+// Props Interface
+// =============================================================================
+
+interface AddToInteractionCheckButtonProps {
+  /** The drug this button adds/removes */
+  drug: DrugResult;
+  /** ICD-10 code + condition name of the ResultCard showing the drug */
+  condition?: { code: string; name: string };
+}
+
+// =============================================================================
+// Component
+// =============================================================================
+
+function AddToInteractionCheckButton({ drug, condition }: AddToInteractionCheckButtonProps) {
+  const { drugs, add, remove, contains } = useInteractionList();
+  const added = contains(drug);
+  const isFull = !added && drugs.length >= MAX_INTERACTION_DRUGS;
+
+  return (
+    <button
+      type="button"
+      onClick={(e) => {
+        e.stopPropagation(); // Cards toggle on click
+        if (added) {
+          remove(getInteractionDrugKey(drug));
+        } else {
+          add(drug, condition);
+        }
+      }}
+      disabled={isFull}
+      className={`
+        inline-flex
+        items-center
+        gap-1
+        px-2
+        py-1
+        rounded-lg
+        text-xs
+        font-medium
+        transition-colors
+        duration-200
+        disabled:opacity-50
+        disabled:cursor-not-allowed
+        ${added
+          ? 'bg-rose-500 text-white hover:bg-rose-600'
+          : 'bg-rose-50 dark:bg-rose-900/30 text-rose-700 dark:text-rose-400 hover:bg-rose-100 dark:hover:bg-rose-900/50'
+        }
+      `}
+      aria-pressed={added}
+      title={
+        isFull
+          ? `Interaction list is full (${MAX_INTERACTION_DRUGS} drugs)`
+          : added ? 'Remove from interaction check' : 'Add to interaction check'
+      }
+    >
+      {added ? <ShieldCheck className="w-3.5 h-3.5" /> : <ShieldAlert className="w-3.5 h-3.5" />}
+      <span>{added ? 'Checking' : 'Interactions'}</span>
+    </button>
+  );
+}
+
+export default memo(AddToInteractionCheckButton);
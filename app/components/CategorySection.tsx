@@ -277,6 +277,9 @@ interface CategorySectionProps {
   
   /** Optional: Callback when trials are loaded (for caching) */
   onTrialsLoaded?: (icdCode: string, trials: ClinicalTrialResult[]) => void;
+
+  /** Optional: Codes to check each result against for Excludes1 conflicts */
+  comparedCodes?: string[];
 }
 
 // =============================================================================
@@ -291,6 +294,7 @@ const CategorySection = memo(function CategorySection({
   isFavorite,
   onDrugsLoaded,
   onTrialsLoaded,
+  comparedCodes,
 }: CategorySectionProps) {
   const { chapter, results, isExpanded } = category;
   const colorClasses = useMemo(() => getChapterColorClasses(chapter.color), [chapter.color]);
@@ -467,6 +471,7 @@ const CategorySection = memo(function CategorySection({
               }
               onDrugsLoaded={onDrugsLoaded}
               onTrialsLoaded={onTrialsLoaded}
+              comparedCodes={comparedCodes}
             />
           ))}
           
@@ -0,0 +1,203 @@
+/**
+ * CptSearchPanel Component
+ * ========================
+ *
+ * Searches the deployment's licensed CPT file (GET /api/cpt) and adds codes
+ * to the condition's procedure list. Renders nothing when no CPT file is
+ * configured, so deployments without a CPT license never see it.
+ *
+ * Used by:
+ * - ResultCard (procedures section)
+ *
+ * FEATURES:
+ * - Search by words ("knee arthroscopy"), code prefix ("992") or code
+ * - Adds a result to the procedure list as a CPT ProcedureResult
+ * - AMA copyright notice, as CPT licenses require
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback, memo } from 'react';
+import {
+  ChevronUp,
+  ChevronDown,
+  Search,
+  Plus,
+  Check,
+  Loader2,
+  AlertCircle,
+  FileText
+} from 'lucide-react';
+import { ProcedureResult } from '../types/icd';
+
+// =============================================================================
+// Props Interface
+// =============================================================================
+
+interface CptSearchPanelProps {
+  /** Called with the chosen CPT code as a procedure */
+  onAdd: (procedure: ProcedureResult) => void;
+
+  /** Codes already in the procedure list (the add button is disabled for them) */
+  existingCodes?: string[];
+}
+
+// =============================================================================
+// Component
+// =============================================================================
+
+function CptSearchPanel({ onAdd, existingCodes = [] }: CptSearchPanelProps) {
+  // =========================================================================
+  // State
+  // =========================================================================
+  const [isAvailable, setIsAvailable] = useState(false);
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<ProcedureResult[] | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Only show the panel when the server has a CPT file
+  useEffect(() => {
+    let cancelled = false;
+    fetch('/api/cpt')
+      .then(response => (response.ok ? response.json() : null))
+      .then(data => {
+        if (!cancelled) setIsAvailable(data?.available === true);
+      })
+      .catch(err => console.error('[CPT] Status check failed:', err));
+    return () => { cancelled = true; };
+  }, []);
+
+  // =========================================================================
+  // Handlers
+  // =========================================================================
+
+  const handleSearch = useCallback(async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!query.trim()) return;
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/cpt?q=${encodeURIComponent(query.trim())}`);
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'CPT search failed');
+      setResults(data.procedures ?? []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'CPT search failed');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [query]);
+
+  // =========================================================================
+  // Render
+  // =========================================================================
+
+  if (!isAvailable) return null;
+
+  return (
+    <div className="mt-3 pt-3 border-t border-teal-100 dark:border-teal-900">
+      {/* CPT Search Button (Teal) */}
+      <button
+        type="button"
+        onClick={() => setIsExpanded(prev => !prev)}
+        className={`
+          flex
+          items-center
+          gap-1.5
+          px-3
+          py-1.5
+          rounded-lg
+          text-xs
+          font-medium
+          transition-all
+          duration-200
+          ${isExpanded
+            ? 'bg-teal-500 text-white hover:bg-teal-600'
+            : 'bg-teal-50 dark:bg-teal-900/30 text-teal-700 dark:text-teal-400 hover:bg-teal-100 dark:hover:bg-teal-900/50'
+          }
+        `}
+      >
+        <FileText className="w-3.5 h-3.5" />
+        <span>{isExpanded ? 'Hide CPT Search' : 'Search CPT Codes'}</span>
+        {isExpanded
+          ? <ChevronUp className="w-3 h-3 ml-0.5" />
+          : <ChevronDown className="w-3 h-3 ml-0.5" />
+        }
+      </button>
+
+      {/* Expandable Search Section */}
+      {isExpanded && (
+        <div className="mt-3 space-y-3 animate-in slide-in-from-top-2 duration-200">
+          <form onSubmit={handleSearch} className="flex items-center gap-2">
+            <input
+              type="text"
+              value={query}
+              onChange={event => setQuery(event.target.value)}
+              placeholder="e.g. knee arthroscopy, 992, 99213"
+              className="flex-1 min-w-0 px-3 py-1.5 rounded-lg text-xs border border-teal-200 dark:border-teal-800/50 bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 focus:outline-none focus:border-teal-400"
+            />
+            <button
+              type="submit"
+              disabled={isLoading || !query.trim()}
+              className="flex items-center gap-1 px-2.5 py-1.5 rounded-lg text-xs font-medium bg-teal-500 text-white hover:bg-teal-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              {isLoading ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Search className="w-3.5 h-3.5" />}
+              Search
+            </button>
+          </form>
+
+          {/* Error */}
+          {error && (
+            <div className="flex items-center gap-1.5 text-xs text-red-600 dark:text-red-400">
+              <AlertCircle className="w-3 h-3" />
+              <span>{error}</span>
+            </div>
+          )}
+
+          {/* Empty */}
+          {!error && results && results.length === 0 && (
+            <p className="text-xs text-gray-500 dark:text-gray-400">No CPT codes match &ldquo;{query}&rdquo;.</p>
+          )}
+
+          {/* Results */}
+          {!error && results && results.length > 0 && (
+            <ul className="max-h-64 overflow-y-auto space-y-1 pr-1">
+              {results.map(procedure => {
+                const isAdded = existingCodes.includes(procedure.code);
+                return (
+                  <li
+                    key={procedure.code}
+                    className="flex items-start gap-2 px-2 py-1.5 rounded border border-gray-100 dark:border-gray-700 bg-white dark:bg-gray-800"
+                  >
+                    <span className="font-mono font-bold text-xs text-teal-700 dark:text-teal-300 pt-0.5">{procedure.code}</span>
+                    <span className="flex-1 min-w-0 text-xs text-gray-700 dark:text-gray-300">{procedure.description}</span>
+                    <button
+                      type="button"
+                      onClick={() => onAdd(procedure)}
+                      disabled={isAdded}
+                      title={isAdded ? 'Already in procedures' : 'Add to procedures'}
+                      className="flex-shrink-0 p-1 rounded text-teal-600 dark:text-teal-400 hover:bg-teal-50 dark:hover:bg-teal-900/30 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                    >
+                      {isAdded ? <Check className="w-3.5 h-3.5" /> : <Plus className="w-3.5 h-3.5" />}
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+
+          {/* License Notice */}
+          <p className="text-[11px] text-gray-400 dark:text-gray-500">
+            CPT® codes and descriptions © American Medical Association. All rights reserved. CPT is a registered trademark of the AMA.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default memo(CptSearchPanel);
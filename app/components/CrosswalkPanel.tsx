@@ -0,0 +1,179 @@
+/**
+ * CrosswalkPanel Component
+ * ========================
+ *
+ * Shows the GEMs crosswalk for a legacy ICD-9-CM code (or an ICD-10-CM code
+ * mapped back), with the CMS flags spelled out so nobody mistakes an
+ * approximate mapping for an exact one.
+ *
+ * Used by:
+ * - Home page (when detectCodeType() returns 'icd9')
+ *
+ * FEATURES:
+ * - Exact / approximate badge per target
+ * - "No equivalent" state for no-map entries
+ * - Combination scenarios: one code from each choice list, reported together
+ * - Round trip: what each ICD-10-CM target maps back to
+ * - Click a target to look it up
+ */
+
+'use client';
+
+import { useState, useEffect, memo } from 'react';
+import { ArrowRightLeft, ArrowRight, Ban, Layers, Undo2 } from 'lucide-react';
+import { CrosswalkResult, GemMapping } from '../types/icd';
+import { crosswalkIcd10ToIcd9 } from '../lib/gemsCrosswalk';
+
+// =============================================================================
+// Props Interface
+// =============================================================================
+
+interface CrosswalkPanelProps {
+  /** Result of crosswalkIcd9ToIcd10() or crosswalkIcd10ToIcd9() */
+  result: CrosswalkResult;
+
+  /** Called with a target code to run the normal code search */
+  onSelectCode: (code: string) => void;
+}
+
+// =============================================================================
+// Component
+// =============================================================================
+
+function CrosswalkPanel({ result, onSelectCode }: CrosswalkPanelProps) {
+  const toIcd10 = result.direction === 'icd9_to_icd10';
+  const sourceLabel = toIcd10 ? 'ICD-9-CM' : 'ICD-10-CM';
+  const targetLabel = toIcd10 ? 'ICD-10-CM' : 'ICD-9-CM';
+
+  // Backward mapping of each ICD-10-CM target (tagged with its source code)
+  const [roundTrip, setRoundTrip] = useState<{ source: string; back: Map<string, string[]> } | null>(null);
+  const back = roundTrip?.source === result.sourceCode ? roundTrip.back : null;
+
+  useEffect(() => {
+    if (!toIcd10) return;
+    const targets = [
+      ...result.mappings,
+      ...result.scenarios.flatMap(s => s.choiceLists.flat()),
+    ].map(m => m.targetCode);
+    let cancelled = false;
+    Promise.all(targets.map(code => crosswalkIcd10ToIcd9(code)))
+      .then(backward => {
+        if (cancelled) return;
+        const map = new Map<string, string[]>();
+        backward.forEach(b => map.set(b.sourceCode, [
+          ...b.mappings.map(m => m.targetCode),
+          ...b.scenarios.map(s => s.choiceLists.map(list => list.map(m => m.targetCode).join('/')).join(' + ')),
+        ]));
+        setRoundTrip({ source: result.sourceCode, back: map });
+      })
+      .catch(err => console.error('[Crosswalk] Backward mapping failed:', err));
+    return () => { cancelled = true; };
+  }, [result, toIcd10]);
+
+  // ICD-9 V codes need the prefix to be recognized as ICD-9 again
+  const lookUp = (code: string) => onSelectCode(toIcd10 ? code : `ICD-9: ${code}`);
+
+  const renderMapping = (mapping: GemMapping) => {
+    const backCodes = back?.get(mapping.targetCode);
+    return (
+      <li key={mapping.targetCode}>
+        <button
+          type="button"
+          onClick={() => lookUp(mapping.targetCode)}
+          className="w-full flex items-start justify-between gap-3 px-4 py-3 text-left hover:bg-[#1976D2]/5 transition-colors"
+        >
+          <div className="min-w-0">
+            <p className="text-sm text-gray-900 dark:text-gray-100">
+              <span className="font-mono font-bold text-[#1976D2]">{mapping.targetCode}</span>
+              <span className="ml-2">{mapping.targetDescription ?? `Not in the bundled ${targetLabel} code set`}</span>
+            </p>
+            {backCodes && backCodes.length > 0 && (
+              <p className="mt-0.5 flex items-center gap-1 text-xs text-gray-500 dark:text-gray-400">
+                <Undo2 className="w-3 h-3" />
+                Maps back to <span className="font-mono">{backCodes.join(', ')}</span>
+              </p>
+            )}
+          </div>
+          <span className={`flex-shrink-0 px-2 py-0.5 rounded-full text-[11px] font-semibold ${
+            mapping.flags.approximate
+              ? 'bg-amber-50 dark:bg-amber-900/20 text-amber-700 dark:text-amber-400'
+              : 'bg-emerald-50 dark:bg-emerald-900/20 text-emerald-700 dark:text-emerald-400'
+          }`}>
+            {mapping.flags.approximate ? 'Approximate' : 'Exact'}
+          </span>
+        </button>
+      </li>
+    );
+  };
+
+  return (
+    <div className="max-w-2xl mx-auto bg-white dark:bg-gray-800 rounded-2xl border border-gray-200 dark:border-gray-700 shadow-sm overflow-hidden">
+      {/* Header */}
+      <div className="px-5 py-4 border-b border-gray-100 dark:border-gray-700 bg-gray-50/60 dark:bg-gray-900/30">
+        <div className="flex items-center gap-2 text-xs font-semibold text-gray-500 dark:text-gray-400 mb-1">
+          <ArrowRightLeft className="w-3.5 h-3.5 text-[#1976D2]" />
+          GEMs crosswalk • {sourceLabel}
+          <ArrowRight className="w-3 h-3" />
+          {targetLabel}
+        </div>
+        <p className="text-gray-900 dark:text-gray-100">
+          <span className="font-mono font-bold">{result.sourceCode}</span>
+          {result.sourceDescription && <span className="ml-2 text-sm">{result.sourceDescription}</span>}
+        </p>
+      </div>
+
+      {!result.found ? (
+        <p className="px-5 py-6 text-sm text-center text-gray-500 dark:text-gray-400">
+          {result.sample
+            ? `${result.sourceCode} is not in the sample GEM files bundled with the app. Install the full CMS files (see README) or search the condition by name.`
+            : `${result.sourceCode} is not in the GEM files. Check the code or search the condition by name.`}
+        </p>
+      ) : result.noMap ? (
+        <div className="flex items-start gap-2 px-5 py-4 text-sm text-gray-700 dark:text-gray-300">
+          <Ban className="w-4 h-4 mt-0.5 flex-shrink-0 text-red-500" />
+          <p>
+            No {targetLabel} equivalent. CMS flags this code as &ldquo;no map&rdquo; — code from the documentation instead.
+          </p>
+        </div>
+      ) : (
+        <>
+          {result.mappings.length > 0 && (
+            <div>
+              {result.mappings.length > 1 && (
+                <p className="px-5 pt-3 text-xs text-gray-500 dark:text-gray-400">
+                  Choose the one alternative that matches the documentation:
+                </p>
+              )}
+              <ul className="divide-y divide-gray-100 dark:divide-gray-700/60">
+                {result.mappings.map(renderMapping)}
+              </ul>
+            </div>
+          )}
+
+          {result.scenarios.map(scenario => (
+            <div key={scenario.scenario} className="border-t border-gray-100 dark:border-gray-700">
+              <p className="flex items-center gap-1.5 px-5 pt-3 text-xs font-semibold text-purple-700 dark:text-purple-400">
+                <Layers className="w-3.5 h-3.5" />
+                Combination{result.scenarios.length > 1 && ` ${scenario.scenario}`} — report one code from each list together
+              </p>
+              {scenario.choiceLists.map((list, index) => (
+                <div key={index}>
+                  <p className="px-5 pt-2 text-[11px] uppercase tracking-wide text-gray-400">Choice list {index + 1}</p>
+                  <ul className="divide-y divide-gray-100 dark:divide-gray-700/60">
+                    {list.map(renderMapping)}
+                  </ul>
+                </div>
+              ))}
+            </div>
+          ))}
+        </>
+      )}
+
+      <p className="px-5 py-2.5 border-t border-gray-100 dark:border-gray-700 text-[11px] text-gray-400 dark:text-gray-500">
+        CMS General Equivalence Mappings (2018 final release{result.sample ? ', sample' : ''}). GEMs are a translation aid — verify every code against the record.
+      </p>
+    </div>
+  );
+}
+
+export default memo(CrosswalkPanel);
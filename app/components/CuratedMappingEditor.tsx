@@ -0,0 +1,260 @@
+/**
+ * CuratedMappingEditor Component
+ * ==============================
+ *
+ * Add/edit form for one curated mapping on /admin/mappings.
+ *
+ * Lists are edited as plain text, one item per line with " | " between
+ * fields, so a whole drug list or procedure set can be pasted in:
+ *
+ *   drugs        name | note
+ *   procedures   SYSTEM | code | description | category | setting | rationale | score
+ *
+ * The form only shapes the text; the server validates (curatedMappingSchema.ts)
+ * and its messages are shown here.
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { Loader2, Save, X } from 'lucide-react';
+import { ConditionDrugMapping, ConditionProcedureMapping, CuratedMappingType } from '../types/icd';
+
+// =============================================================================
+// Draft <-> entry conversion
+// =============================================================================
+
+/** Form fields as text; which ones are used depends on the mapping type */
+interface Draft {
+  id: string;
+  name: string;
+  codes: string;
+  items: string;
+  notes: string;
+}
+
+const FIELD_SEPARATOR = ' | ';
+
+function toDraft(type: CuratedMappingType, entry: ConditionDrugMapping | ConditionProcedureMapping | null): Draft {
+  if (!entry) return { id: '', name: '', codes: '', items: '', notes: '' };
+
+  if (type === 'drug') {
+    const drug = entry as ConditionDrugMapping;
+    return {
+      id: drug.id,
+      name: drug.category,
+      codes: drug.keywords.join(', '),
+      items: drug.drugs.map(item => (item.note ? [item.name, item.note].join(FIELD_SEPARATOR) : item.name)).join('\n'),
+      notes: drug.notes ?? '',
+    };
+  }
+
+  const procedure = entry as ConditionProcedureMapping;
+  return {
+    id: procedure.id,
+    name: procedure.conditionName,
+    codes: procedure.icd10Codes.join(', '),
+    items: procedure.procedures
+      .map(item => [
+        item.codeSystem, item.code, item.description, item.category, item.setting, item.rationale,
+        ...(item.score !== undefined ? [String(item.score)] : []),
+      ].join(FIELD_SEPARATOR))
+      .join('\n'),
+    notes: procedure.notes ?? '',
+  };
+}
+
+function splitList(text: string): string[] {
+  return text.split(',').map(value => value.trim()).filter(Boolean);
+}
+
+function splitLines(text: string): string[][] {
+  return text
+    .split('\n')
+    .map(line => line.trim())
+    .filter(Boolean)
+    .map(line => line.split('|').map(field => field.trim()));
+}
+
+/** Draft → request body entry (unvalidated; the server checks it) */
+function fromDraft(type: CuratedMappingType, draft: Draft): Record<string, unknown> {
+  const common = {
+    ...(draft.id.trim() ? { id: draft.id.trim() } : {}),
+    notes: draft.notes,
+  };
+
+  if (type === 'drug') {
+    return {
+      ...common,
+      category: draft.name,
+      keywords: splitList(draft.codes),
+      drugs: splitLines(draft.items).map(([name, ...note]) => ({
+        name,
+        note: note.join(FIELD_SEPARATOR) || undefined,
+      })),
+    };
+  }
+
+  return {
+    ...common,
+    conditionName: draft.name,
+    icd10Codes: splitList(draft.codes),
+    procedures: splitLines(draft.items).map(([codeSystem, code, description, category, setting, rationale, score]) => ({
+      codeSystem: codeSystem?.toUpperCase(),
+      code,
+      description,
+      category: category?.toLowerCase(),
+      setting: setting?.toLowerCase(),
+      rationale,
+      score: score ? Number(score) : undefined,
+    })),
+  };
+}
+
+// =============================================================================
+// Props Interface
+// =============================================================================
+
+interface CuratedMappingEditorProps {
+  type: CuratedMappingType;
+  /** Entry being edited, or null to add one */
+  entry: ConditionDrugMapping | ConditionProcedureMapping | null;
+  /** Categories already in use, offered as suggestions (drug mappings) */
+  categories: string[];
+  isSaving: boolean;
+  /** Validation messages from the last save attempt */
+  errors: string[];
+  onSave: (entry: Record<string, unknown>) => void;
+  onCancel: () => void;
+}
+
+const INPUT_CLASS = 'w-full px-3 py-2 rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900 text-sm text-gray-900 dark:text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-cyan-500/30 focus:border-cyan-500';
+const LABEL_CLASS = 'block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1';
+
+// =============================================================================
+// Component
+// =============================================================================
+
+export default function CuratedMappingEditor({
+  type,
+  entry,
+  categories,
+  isSaving,
+  errors,
+  onSave,
+  onCancel,
+}: CuratedMappingEditorProps) {
+  const [draft, setDraft] = useState<Draft>(() => toDraft(type, entry));
+  const isDrug = type === 'drug';
+
+  const update = (field: keyof Draft) =>
+    (event: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) =>
+      setDraft(prev => ({ ...prev, [field]: event.target.value }));
+
+  return (
+    <form
+      onSubmit={(event) => {
+        event.preventDefault();
+        onSave(fromDraft(type, draft));
+      }}
+      className="p-4 rounded-xl border border-cyan-200 dark:border-cyan-800/50 bg-white dark:bg-gray-900 space-y-3"
+    >
+      <div className="flex items-center justify-between">
+        <h2 className="text-sm font-semibold text-gray-900 dark:text-white">
+          {entry ? `Edit "${entry.id}"` : `New ${isDrug ? 'condition → drug' : 'condition → procedure'} mapping`}
+        </h2>
+        <button type="button" onClick={onCancel} className="text-gray-400 hover:text-gray-600" aria-label="Close editor">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="grid sm:grid-cols-2 gap-3">
+        <div>
+          <label className={LABEL_CLASS}>{isDrug ? 'Category' : 'Condition name'}</label>
+          <input
+            value={draft.name}
+            onChange={update('name')}
+            list={isDrug ? 'curated-categories' : undefined}
+            placeholder={isDrug ? 'Cardiovascular Conditions' : 'Type 2 Diabetes Mellitus'}
+            className={INPUT_CLASS}
+          />
+          {isDrug && (
+            <datalist id="curated-categories">
+              {categories.map(category => <option key={category} value={category} />)}
+            </datalist>
+          )}
+        </div>
+        <div>
+          <label className={LABEL_CLASS}>Id {entry ? '(fixed)' : '(optional, derived from the first keyword or name)'}</label>
+          <input
+            value={draft.id}
+            onChange={update('id')}
+            disabled={entry !== null}
+            placeholder={isDrug ? 'heart-failure' : 'type-2-diabetes-mellitus'}
+            className={`${INPUT_CLASS} font-mono disabled:opacity-60`}
+          />
+        </div>
+      </div>
+
+      <div>
+        <label className={LABEL_CLASS}>
+          {isDrug
+            ? 'Keywords, comma separated (matched inside the condition name; the first matching entry wins)'
+            : 'ICD-10-CM codes, comma separated (exact and parent codes)'}
+        </label>
+        <input
+          value={draft.codes}
+          onChange={update('codes')}
+          placeholder={isDrug ? 'heart failure, chf' : 'E11, E11.9, E11.65'}
+          className={`${INPUT_CLASS} font-mono`}
+        />
+      </div>
+
+      <div>
+        <label className={LABEL_CLASS}>
+          {isDrug
+            ? 'Drugs, one per line: name | note (most commonly prescribed first)'
+            : 'Procedures, one per line: SNOMED|ICD10PCS|HCPCS | code | description | category | setting | rationale | score'}
+        </label>
+        <textarea
+          value={draft.items}
+          onChange={update('items')}
+          rows={8}
+          placeholder={isDrug
+            ? 'sacubitril/valsartan | Entresto - ARNI\ncarvedilol | Beta-blocker'
+            : 'SNOMED | 43396009 | Hemoglobin A1c measurement | diagnostic | outpatient | Every 3-6 months per ADA'}
+          className={`${INPUT_CLASS} font-mono text-xs`}
+        />
+      </div>
+
+      <div>
+        <label className={LABEL_CLASS}>Notes for reviewers</label>
+        <textarea value={draft.notes} onChange={update('notes')} rows={3} className={INPUT_CLASS} />
+      </div>
+
+      {errors.length > 0 && (
+        <ul className="p-3 rounded-lg bg-red-50 dark:bg-red-900/20 text-xs text-red-700 dark:text-red-400 space-y-0.5">
+          {errors.map(message => <li key={message}>{message}</li>)}
+        </ul>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-3 py-2 rounded-xl text-sm text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={isSaving}
+          className="inline-flex items-center gap-1.5 px-4 py-2 rounded-xl text-sm font-medium bg-cyan-600 text-white hover:bg-cyan-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+          {entry ? 'Save as reviewed' : 'Add mapping'}
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,286 @@
+/**
+ * DrugAlternativesPanel Component
+ * ===============================
+ *
+ * Expandable panel on DrugCard suggesting what could be prescribed instead:
+ * generic equivalents, biosimilars and other drugs in the same EPC class
+ * (see drugAlternatives.ts).
+ *
+ * FEATURES:
+ * - Lazy loading: alternatives fetched only on first expand
+ * - Generics of the card's dose form, the same strength and quantity marked
+ *   as the exact equivalent
+ * - Biosimilars with the reference product marked
+ * - Class alternatives grouped by EPC class
+ * - Alternatives that are also in the condition's validated drug list are
+ *   marked with that drug and its relevance score
+ */
+
+'use client';
+
+import { useState, useCallback, memo } from 'react';
+import { Loader2, ChevronUp, ChevronDown, AlertCircle, ArrowLeftRight, CheckCircle2 } from 'lucide-react';
+import { DrugAlternative, DrugAlternativesResult } from '../types/icd';
+import { ValidatedDrugResult } from '../lib/drugValidationPipeline';
+
+// =============================================================================
+// Props Interface
+// =============================================================================
+
+interface DrugAlternativesPanelProps {
+  /** RxCUI of the drug on the card */
+  rxcui: string;
+  /** Validated drugs for the card's condition; alternatives among them are marked */
+  listedDrugs?: ValidatedDrugResult[];
+}
+
+// =============================================================================
+// Validated list matching
+// =============================================================================
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * The validated drug an alternative corresponds to: generics by product
+ * RxCUI, ingredients by name in the drug's generic name or ingredients.
+ * A hyphen counts as part of the name, so "adalimumab" doesn't match
+ * "adalimumab-adaz".
+ */
+function findListedDrug(
+  alternative: DrugAlternative,
+  listedDrugs: ValidatedDrugResult[],
+  cardRxcui: string
+): ValidatedDrugResult | undefined {
+  if (alternative.kind === 'generic') {
+    return listedDrugs.find(drug => drug.rxcui === alternative.rxcui);
+  }
+  const pattern = new RegExp(`(?<![\\w-])${escapeRegExp(alternative.name)}(?![\\w-])`, 'i');
+  return listedDrugs.find(drug =>
+    drug.rxcui !== cardRxcui &&
+    [drug.genericName, ...(drug.ingredients ?? [])].some(name => pattern.test(name))
+  );
+}
+
+/** Class alternatives grouped by class name, in the order the classes came */
+function groupByClass(alternatives: DrugAlternative[]): Array<[string, DrugAlternative[]]> {
+  const groups = new Map<string, DrugAlternative[]>();
+  for (const alternative of alternatives) {
+    const className = alternative.className ?? 'Same class';
+    groups.set(className, [...(groups.get(className) ?? []), alternative]);
+  }
+  return [...groups.entries()];
+}
+
+// =============================================================================
+// Sub-components
+// =============================================================================
+
+function AlternativeRow({ alternative, listed }: { alternative: DrugAlternative; listed?: ValidatedDrugResult }) {
+  return (
+    <li
+      className={`
+        flex
+        flex-wrap
+        items-center
+        gap-1.5
+        px-2
+        py-1
+        rounded
+        border
+        ${listed
+          ? 'border-green-200 dark:border-green-800/50 bg-green-50 dark:bg-green-900/20'
+          : 'border-gray-100 dark:border-gray-700'
+        }
+      `}
+      title={alternative.name}
+    >
+      <span className="text-xs font-medium text-gray-800 dark:text-gray-200">
+        {alternative.kind === 'generic'
+          ? [alternative.quantity, alternative.strength, alternative.doseForm].filter(Boolean).join(' ') || alternative.name
+          : alternative.name}
+      </span>
+      {alternative.isExactEquivalent && (
+        <span className="px-1.5 py-0.5 rounded text-[10px] bg-blue-100 dark:bg-blue-900/40 text-blue-700 dark:text-blue-300">
+          exact equivalent
+        </span>
+      )}
+      {alternative.isReference && (
+        <span className="px-1.5 py-0.5 rounded text-[10px] bg-indigo-50 dark:bg-indigo-900/30 text-indigo-700 dark:text-indigo-300">
+          reference product
+        </span>
+      )}
+      {listed && (
+        <span className="ml-auto inline-flex items-center gap-0.5 text-[10px] font-medium text-green-700 dark:text-green-300">
+          <CheckCircle2 className="w-2.5 h-2.5" />
+          In list: {listed.brandName}
+          {listed.relevanceScore >= 0 && ` (${listed.relevanceScore}/10)`}
+        </span>
+      )}
+    </li>
+  );
+}
+
+// =============================================================================
+// Component
+// =============================================================================
+
+function DrugAlternativesPanel({ rxcui, listedDrugs = [] }: DrugAlternativesPanelProps) {
+  // =========================================================================
+  // State
+  // =========================================================================
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [data, setData] = useState<DrugAlternativesResult | null>(null);
+
+  const listedFor = (alternative: DrugAlternative) => findListedDrug(alternative, listedDrugs, rxcui);
+
+  const allAlternatives = data ? [...data.generics, ...data.biosimilars, ...data.classAlternatives] : [];
+  const listedCount = allAlternatives.filter(alternative => listedFor(alternative)).length;
+
+  // =========================================================================
+  // Handlers
+  // =========================================================================
+
+  /**
+   * First click fetches the alternatives and expands;
+   * later clicks just toggle (the result is kept).
+   */
+  const handleToggle = useCallback(async () => {
+    if (data) {
+      setIsExpanded(prev => !prev);
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+    setIsExpanded(true);
+
+    try {
+      const response = await fetch(`/api/drug-alternatives?rxcui=${encodeURIComponent(rxcui)}`);
+      if (!response.ok) throw new Error('Failed to fetch alternatives');
+      setData(await response.json());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load alternatives');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [rxcui, data]);
+
+  // =========================================================================
+  // Render
+  // =========================================================================
+
+  const sectionTitle = 'text-[11px] font-medium text-gray-700 dark:text-gray-300 mb-1';
+
+  return (
+    <div className="mt-3 pt-3 border-t border-gray-100 dark:border-gray-700">
+      {/* Trigger */}
+      <button
+        type="button"
+        onClick={handleToggle}
+        disabled={isLoading}
+        className="
+          flex
+          items-center
+          gap-1.5
+          text-xs
+          font-medium
+          text-blue-600
+          dark:text-blue-400
+          hover:text-blue-700
+          dark:hover:text-blue-300
+          transition-colors
+          disabled:opacity-50
+          disabled:cursor-not-allowed
+        "
+      >
+        {isLoading ? (
+          <Loader2 className="w-3 h-3 animate-spin" />
+        ) : (
+          <ArrowLeftRight className="w-3 h-3" />
+        )}
+        <span>{isLoading ? 'Loading alternatives...' : 'Alternatives'}</span>
+        {data && allAlternatives.length > 0 && (
+          <span className="px-1.5 py-0.5 rounded-full text-[10px] bg-blue-100 dark:bg-blue-900/40 text-blue-700 dark:text-blue-300">
+            {allAlternatives.length}
+          </span>
+        )}
+        {listedCount > 0 && (
+          <span className="px-1.5 py-0.5 rounded-full text-[10px] bg-green-100 dark:bg-green-900/40 text-green-700 dark:text-green-300">
+            {listedCount} in list
+          </span>
+        )}
+        {!isLoading && (isExpanded
+          ? <ChevronUp className="w-3 h-3" />
+          : <ChevronDown className="w-3 h-3" />
+        )}
+      </button>
+
+      {isExpanded && !isLoading && (
+        <div className="mt-2">
+          {/* Error */}
+          {error && (
+            <div className="flex items-center gap-1.5 text-xs text-red-600 dark:text-red-400">
+              <AlertCircle className="w-3 h-3" />
+              <span>{error}</span>
+            </div>
+          )}
+
+          {/* Empty */}
+          {!error && data && allAlternatives.length === 0 && (
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              No generic, biosimilar or same-class alternatives found in RxNorm.
+            </p>
+          )}
+
+          {!error && data && allAlternatives.length > 0 && (
+            <div className="max-h-80 overflow-y-auto space-y-3 pr-1">
+              {/* Generic equivalents */}
+              {data.generics.length > 0 && (
+                <div>
+                  <p className={sectionTitle}>Generic equivalents</p>
+                  <ul className="space-y-1">
+                    {data.generics.map(alternative => (
+                      <AlternativeRow key={alternative.rxcui} alternative={alternative} listed={listedFor(alternative)} />
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {/* Biosimilars */}
+              {data.biosimilars.length > 0 && (
+                <div>
+                  <p className={sectionTitle}>Biosimilars</p>
+                  <ul className="space-y-1">
+                    {data.biosimilars.map(alternative => (
+                      <AlternativeRow key={alternative.rxcui} alternative={alternative} listed={listedFor(alternative)} />
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {/* Same EPC class */}
+              {groupByClass(data.classAlternatives).map(([className, alternatives]) => (
+                <div key={className}>
+                  <p className={sectionTitle}>
+                    Same class <span className="font-normal text-gray-400 dark:text-gray-500">· {className}</span>
+                  </p>
+                  <ul className="space-y-1">
+                    {alternatives.map(alternative => (
+                      <AlternativeRow key={alternative.rxcui} alternative={alternative} listed={listedFor(alternative)} />
+                    ))}
+                  </ul>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default memo(DrugAlternativesPanel);
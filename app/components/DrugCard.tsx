@@ -19,13 +19,26 @@
  * - Manufacturer
  * - Dosage form (e.g., "Oral Tablet - 1 MG")
  * - Optional warnings on hover/expand
+ * - All formulations of the drug's ingredients, with NDC packages
+ *   (see DrugFormulationPanel)
+ * - Generic, biosimilar and same-class alternatives, marked when they are
+ *   also in the condition's validated list (see DrugAlternativesPanel)
+ * - Drug–disease contraindication flags against favorited / encounter
+ *   diagnoses (see drugContraindications.ts)
  */
 
 'use client';
 
-import { useState, memo } from 'react';
-import { Pill, Building2, ChevronDown, ChevronUp, AlertTriangle, CheckCircle2, Info, FlaskConical, Layers } from 'lucide-react';
-import { DrugResult, DrugClass, RelatedDrug } from '../types/icd';
+import { useState, useEffect, memo } from 'react';
+import { Pill, Building2, ChevronDown, ChevronUp, AlertTriangle, CheckCircle2, Info, FlaskConical, Layers, Ban } from 'lucide-react';
+import { DrugResult, DrugClass, RelatedDrug, DrugDiseaseFlag, SessionDiagnosis } from '../types/icd';
+import { useSessionDiagnoses } from '../hooks/useSessionDiagnoses';
+import { checkDrugContraindications } from '../lib/drugContraindications';
+import AddToEncounterButton from './AddToEncounterButton';
+import AddToInteractionCheckButton from './AddToInteractionCheckButton';
+import DrugFormulationPanel from './DrugFormulationPanel';
+import DrugAlternativesPanel from './DrugAlternativesPanel';
+import { ValidatedDrugResult } from '../lib/drugValidationPipeline';
 
 // =============================================================================
 // Props Interface
@@ -39,15 +52,41 @@ interface DrugCardProps {
   drug: DrugResult;
   /** Optional badge indicating FDA approval status */
   badgeType?: DrugBadgeType;
+  /** The condition (ResultCard) this drug is listed under — kept with the drug in the interaction checker */
+  condition?: { code: string; name: string };
+  /** Validated drugs listed for the same condition — alternatives among them are marked */
+  listedDrugs?: ValidatedDrugResult[];
+}
+
+/** Identity of a set of session diagnoses — tags which set the flags belong to */
+function getDiagnosesKey(diagnoses: SessionDiagnosis[]): string {
+  return diagnoses.map(d => `${d.code}:${d.sources.join('+')}`).join(',');
 }
 
 // =============================================================================
 // Component
 // =============================================================================
 
-const DrugCard = memo(function DrugCard({ drug, badgeType }: DrugCardProps) {
+const DrugCard = memo(function DrugCard({ drug, badgeType, condition, listedDrugs }: DrugCardProps) {
   // Track whether the full indication is expanded
   const [isExpanded, setIsExpanded] = useState(false);
+
+  // Contraindication flags, tagged with the diagnoses they were checked against
+  const diagnoses = useSessionDiagnoses();
+  const diagnosesKey = getDiagnosesKey(diagnoses);
+  const [contraindications, setContraindications] = useState<{ key: string; flags: DrugDiseaseFlag[] }>({ key: '', flags: [] });
+  const flags = contraindications.key === diagnosesKey ? contraindications.flags : [];
+
+  useEffect(() => {
+    let cancelled = false;
+    const key = getDiagnosesKey(diagnoses);
+    checkDrugContraindications(drug, diagnoses)
+      .then(result => {
+        if (!cancelled) setContraindications({ key, flags: result });
+      })
+      .catch(err => console.error('[DrugCard] Contraindication check failed:', err));
+    return () => { cancelled = true; };
+  }, [drug, diagnoses]);
   
   return (
     <div 
@@ -163,8 +202,43 @@ const DrugCard = memo(function DrugCard({ drug, badgeType }: DrugCardProps) {
             </div>
           )}
         </div>
+
+        {/* Encounter builder + interaction checker toggles */}
+        <div className="flex-shrink-0 flex flex-col items-end gap-1">
+          <AddToEncounterButton entry={{ kind: 'drug', item: drug }} />
+          <AddToInteractionCheckButton drug={drug} condition={condition} />
+        </div>
       </div>
 
+      {/* Contraindication flags for session diagnoses */}
+      {flags.length > 0 && (
+        <div className="mb-3 space-y-1.5">
+          {flags.map((flag) => (
+            <div
+              key={flag.diagnosis.code}
+              className={`flex items-start gap-1.5 px-2 py-1.5 rounded-lg border text-[11px] leading-snug ${
+                flag.severity === 'contraindicated'
+                  ? 'bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-800/50 text-red-700 dark:text-red-300'
+                  : 'bg-amber-50 dark:bg-amber-900/20 border-amber-200 dark:border-amber-800/50 text-amber-700 dark:text-amber-300'
+              }`}
+              title={flag.labelExcerpt ? `Label: ${flag.labelExcerpt}` : undefined}
+            >
+              {flag.severity === 'contraindicated'
+                ? <Ban className="w-3 h-3 mt-0.5 flex-shrink-0" />
+                : <AlertTriangle className="w-3 h-3 mt-0.5 flex-shrink-0" />}
+              <span>
+                <span className="font-semibold">
+                  {flag.severity === 'contraindicated' ? 'Contraindicated' : 'Caution'} with {flag.diagnosis.code}
+                </span>
+                {' '}({flag.conditionName}, {flag.diagnosis.sources.includes('encounter') ? 'in encounter' : 'favorited'})
+                {' — '}{flag.message}
+                {flag.basis.includes('label') && <span className="italic"> Also noted on the label.</span>}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
       {/* Manufacturer */}
       <div className="flex items-center gap-1.5 mb-3">
         <Building2 className="w-3 h-3 text-gray-400" />
@@ -191,7 +265,7 @@ const DrugCard = memo(function DrugCard({ drug, badgeType }: DrugCardProps) {
         </p>
         
         {/* Expand/Collapse button (if indication is long or has extra data) */}
-        {(drug.indication.length > 100 || drug.ingredients || drug.relatedDrugs) && (
+        {(drug.indication.length > 100 || drug.ingredients || drug.relatedDrugs || drug.rxcui) && (
           <button
             type="button"
             onClick={() => setIsExpanded(!isExpanded)}
@@ -216,7 +290,7 @@ const DrugCard = memo(function DrugCard({ drug, badgeType }: DrugCardProps) {
             ) : (
               <>
                 <ChevronDown className="w-3 h-3" />
-                {drug.ingredients || drug.relatedDrugs ? 'More details' : 'Read more'}
+                {drug.ingredients || drug.relatedDrugs || drug.rxcui ? 'More details' : 'Read more'}
               </>
             )}
           </button>
@@ -289,6 +363,12 @@ const DrugCard = memo(function DrugCard({ drug, badgeType }: DrugCardProps) {
         </div>
       )}
 
+      {/* Formulation panel (all strengths/forms with NDCs) - needs an RxNorm match */}
+      {drug.rxcui && isExpanded && <DrugFormulationPanel rxcui={drug.rxcui} />}
+
+      {/* Alternatives panel (generics, biosimilars, same EPC class) - needs an RxNorm match */}
+      {drug.rxcui && isExpanded && <DrugAlternativesPanel rxcui={drug.rxcui} listedDrugs={listedDrugs} />}
+
       {/* Warnings (if present) */}
       {drug.warnings && isExpanded && (
         <div 
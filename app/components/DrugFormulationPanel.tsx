@@ -0,0 +1,329 @@
+/**
+ * DrugFormulationPanel Component
+ * ==============================
+ *
+ * Expandable panel on DrugCard listing every marketed formulation (RxNorm
+ * SCD/SBD) of the drug's ingredients, grouped by dose form.
+ *
+ * FEATURES:
+ * - Lazy loading: formulations fetched only on first expand
+ * - Dose-form filter via DrugFilterChips (same OR logic as the drug list)
+ * - Per formulation: strength, route, brand or generic, and on demand its
+ *   NDC packages with pack sizes (one RxNav call, so fetched per row)
+ * - The card's own product is highlighted
+ */
+
+'use client';
+
+import { useState, useCallback, useMemo, memo } from 'react';
+import { Loader2, ChevronUp, ChevronDown, AlertCircle, Boxes, Package } from 'lucide-react';
+import { DrugFormulationsResult, DrugPackage } from '../types/icd';
+import DrugFilterChips from './DrugFilterChips';
+
+// =============================================================================
+// Props Interface
+// =============================================================================
+
+interface DrugFormulationPanelProps {
+  /** RxCUI of the drug on the card */
+  rxcui: string;
+}
+
+/** Packages of one formulation, loaded when its row is opened */
+interface PackageState {
+  isLoading: boolean;
+  error: string | null;
+  packages: DrugPackage[];
+}
+
+// =============================================================================
+// Component
+// =============================================================================
+
+function DrugFormulationPanel({ rxcui }: DrugFormulationPanelProps) {
+  // =========================================================================
+  // State
+  // =========================================================================
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [data, setData] = useState<DrugFormulationsResult | null>(null);
+  const [selectedForms, setSelectedForms] = useState<string[]>([]);
+  const [openProduct, setOpenProduct] = useState<string | null>(null);
+  const [packagesByProduct, setPackagesByProduct] = useState<Record<string, PackageState>>({});
+
+  const availableForms = useMemo(
+    () => data?.groups.map(group => group.doseForm) ?? [],
+    [data]
+  );
+
+  const visibleGroups = useMemo(() => {
+    if (!data) return [];
+    if (selectedForms.length === 0) return data.groups;
+    return data.groups.filter(group => selectedForms.includes(group.doseForm));
+  }, [data, selectedForms]);
+
+  const totalFormulations = data?.groups.reduce((sum, group) => sum + group.formulations.length, 0) ?? 0;
+
+  // =========================================================================
+  // Handlers
+  // =========================================================================
+
+  /**
+   * First click fetches the formulations and expands;
+   * later clicks just toggle (the result is kept).
+   */
+  const handleToggle = useCallback(async () => {
+    if (data) {
+      setIsExpanded(prev => !prev);
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+    setIsExpanded(true);
+
+    try {
+      const response = await fetch(`/api/drug-formulations?rxcui=${encodeURIComponent(rxcui)}`);
+      if (!response.ok) throw new Error('Failed to fetch formulations');
+      setData(await response.json());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load formulations');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [rxcui, data]);
+
+  const handleToggleForm = useCallback((form: string) => {
+    setSelectedForms(prev =>
+      prev.includes(form) ? prev.filter(f => f !== form) : [...prev, form]
+    );
+  }, []);
+
+  const handleClearFilters = useCallback(() => {
+    setSelectedForms([]);
+  }, []);
+
+  /** Opens a formulation row, fetching its packages the first time */
+  const handleToggleProduct = useCallback(async (productRxcui: string) => {
+    if (openProduct === productRxcui) {
+      setOpenProduct(null);
+      return;
+    }
+    setOpenProduct(productRxcui);
+
+    const existing = packagesByProduct[productRxcui];
+    if (existing && !existing.error) return;
+
+    setPackagesByProduct(prev => ({
+      ...prev,
+      [productRxcui]: { isLoading: true, error: null, packages: [] },
+    }));
+
+    try {
+      const response = await fetch(`/api/drug-formulations/packages?rxcui=${encodeURIComponent(productRxcui)}`);
+      if (!response.ok) throw new Error('Failed to fetch packages');
+      const { packages } = await response.json() as { packages: DrugPackage[] };
+      setPackagesByProduct(prev => ({
+        ...prev,
+        [productRxcui]: { isLoading: false, error: null, packages },
+      }));
+    } catch (err) {
+      setPackagesByProduct(prev => ({
+        ...prev,
+        [productRxcui]: {
+          isLoading: false,
+          error: err instanceof Error ? err.message : 'Failed to load packages',
+          packages: [],
+        },
+      }));
+    }
+  }, [openProduct, packagesByProduct]);
+
+  // =========================================================================
+  // Render
+  // =========================================================================
+
+  return (
+    <div className="mt-3 pt-3 border-t border-gray-100 dark:border-gray-700">
+      {/* Trigger */}
+      <button
+        type="button"
+        onClick={handleToggle}
+        disabled={isLoading}
+        className="
+          flex
+          items-center
+          gap-1.5
+          text-xs
+          font-medium
+          text-blue-600
+          dark:text-blue-400
+          hover:text-blue-700
+          dark:hover:text-blue-300
+          transition-colors
+          disabled:opacity-50
+          disabled:cursor-not-allowed
+        "
+      >
+        {isLoading ? (
+          <Loader2 className="w-3 h-3 animate-spin" />
+        ) : (
+          <Boxes className="w-3 h-3" />
+        )}
+        <span>{isLoading ? 'Loading formulations...' : 'All Formulations'}</span>
+        {data && totalFormulations > 0 && (
+          <span className="px-1.5 py-0.5 rounded-full text-[10px] bg-blue-100 dark:bg-blue-900/40 text-blue-700 dark:text-blue-300">
+            {totalFormulations}
+          </span>
+        )}
+        {!isLoading && (isExpanded
+          ? <ChevronUp className="w-3 h-3" />
+          : <ChevronDown className="w-3 h-3" />
+        )}
+      </button>
+
+      {isExpanded && !isLoading && (
+        <div className="mt-2">
+          {/* Error */}
+          {error && (
+            <div className="flex items-center gap-1.5 text-xs text-red-600 dark:text-red-400">
+              <AlertCircle className="w-3 h-3" />
+              <span>{error}</span>
+            </div>
+          )}
+
+          {/* Empty */}
+          {!error && data && data.groups.length === 0 && (
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              No RxNorm formulations found for this drug.
+            </p>
+          )}
+
+          {!error && data && data.groups.length > 0 && (
+            <>
+              <DrugFilterChips
+                availableForms={availableForms}
+                selectedForms={selectedForms}
+                onToggleForm={handleToggleForm}
+                onClearFilters={handleClearFilters}
+              />
+
+              <div className="max-h-80 overflow-y-auto space-y-3 pr-1">
+                {visibleGroups.map(group => (
+                  <div key={group.doseForm}>
+                    {/* Dose form header */}
+                    <div className="flex items-center gap-1.5 mb-1">
+                      <span className="text-xs font-medium text-gray-700 dark:text-gray-300">
+                        {group.doseForm}
+                      </span>
+                      <span className="text-[10px] text-gray-400 dark:text-gray-500">
+                        {group.route} · {group.formulations.length}
+                      </span>
+                    </div>
+
+                    <ul className="space-y-1">
+                      {group.formulations.map(formulation => {
+                        const isCurrent = formulation.rxcui === rxcui;
+                        const isOpen = openProduct === formulation.rxcui;
+                        const packageState = packagesByProduct[formulation.rxcui];
+
+                        return (
+                          <li
+                            key={formulation.rxcui}
+                            className={`
+                              rounded
+                              border
+                              ${isCurrent
+                                ? 'border-blue-300 dark:border-blue-700 bg-blue-50 dark:bg-blue-900/20'
+                                : 'border-gray-100 dark:border-gray-700'
+                              }
+                            `}
+                          >
+                            <button
+                              type="button"
+                              onClick={() => handleToggleProduct(formulation.rxcui)}
+                              title={formulation.name}
+                              className="w-full flex items-center gap-2 px-2 py-1 text-left"
+                            >
+                              <span className="text-xs font-medium text-gray-800 dark:text-gray-200">
+                                {formulation.strength || 'Strength n/a'}
+                              </span>
+                              {formulation.quantity && (
+                                <span className="text-[10px] text-gray-500 dark:text-gray-400">
+                                  {formulation.quantity}
+                                </span>
+                              )}
+                              <span
+                                className={`
+                                  px-1.5
+                                  py-0.5
+                                  rounded
+                                  text-[10px]
+                                  ${formulation.tty === 'SBD'
+                                    ? 'bg-indigo-50 dark:bg-indigo-900/30 text-indigo-700 dark:text-indigo-300'
+                                    : 'bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300'
+                                  }
+                                `}
+                              >
+                                {formulation.brandName ?? 'Generic'}
+                              </span>
+                              {isCurrent && (
+                                <span className="text-[10px] text-blue-600 dark:text-blue-400">
+                                  this product
+                                </span>
+                              )}
+                              <span className="ml-auto flex items-center gap-0.5 text-[10px] text-gray-400 dark:text-gray-500">
+                                <Package className="w-2.5 h-2.5" />
+                                NDCs
+                                {isOpen ? <ChevronUp className="w-2.5 h-2.5" /> : <ChevronDown className="w-2.5 h-2.5" />}
+                              </span>
+                            </button>
+
+                            {/* Packages (NDCs + pack sizes) */}
+                            {isOpen && packageState && (
+                              <div className="px-2 pb-1.5">
+                                {packageState.isLoading && (
+                                  <div className="flex items-center gap-1 text-[10px] text-gray-500 dark:text-gray-400">
+                                    <Loader2 className="w-2.5 h-2.5 animate-spin" />
+                                    Loading packages...
+                                  </div>
+                                )}
+                                {packageState.error && (
+                                  <p className="text-[10px] text-red-600 dark:text-red-400">{packageState.error}</p>
+                                )}
+                                {!packageState.isLoading && !packageState.error && packageState.packages.length === 0 && (
+                                  <p className="text-[10px] text-gray-500 dark:text-gray-400">No active NDCs listed.</p>
+                                )}
+                                {packageState.packages.length > 0 && (
+                                  <ul className="space-y-0.5">
+                                    {packageState.packages.map(pkg => (
+                                      <li key={pkg.ndc} className="text-[10px] text-gray-600 dark:text-gray-400">
+                                        <span className="font-mono text-gray-800 dark:text-gray-200">{pkg.ndc}</span>
+                                        {' — '}
+                                        {pkg.packaging}
+                                        {pkg.labeler && (
+                                          <span className="text-gray-400 dark:text-gray-500"> · {pkg.labeler}</span>
+                                        )}
+                                      </li>
+                                    ))}
+                                  </ul>
+                                )}
+                              </div>
+                            )}
+                          </li>
+                        );
+                      })}
+                    </ul>
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default memo(DrugFormulationPanel);
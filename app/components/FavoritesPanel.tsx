@@ -17,15 +17,24 @@
  * - Export favorites as JSON file
  * - Import favorites from JSON file
  * - Merge imported with existing (no duplicates)
+ * 
+ * Excludes1 check:
+ * - Warns when two favorites have an Excludes1 note against each other
+ *
+ * Fiscal year check:
+ * - Flags favorites deleted or expanded (no longer billable) in the current code set
  */
 
 'use client';
 
-import { useState, useRef } from 'react';
-import { X, Star, Search, Trash2, Clock, Download, Upload, CheckCircle, AlertCircle, FileSpreadsheet } from 'lucide-react';
-import { FavoriteICD, getCategoryColor } from '../types/icd';
+import { useState, useRef, useEffect, useMemo } from 'react';
+import { X, Star, Search, Trash2, Clock, Download, Upload, CheckCircle, AlertCircle, AlertTriangle, FileSpreadsheet, CalendarClock } from 'lucide-react';
+import { FavoriteICD, Excludes1Conflict, CodeYearStatus, getCategoryColor } from '../types/icd';
 import { formatRelativeTime } from '../lib/favoritesStorage';
 import { getChapter } from '../lib/chapterMapping';
+import { findExcludes1Conflicts } from '../lib/icd10Notes';
+import { getCodeYearStatuses } from '../lib/icd10CodeChanges';
+import { CURRENT_ICD10_FISCAL_YEAR } from '../lib/icd10cmLocalData';
 
 // =============================================================================
 // Props Interface
@@ -80,6 +89,44 @@ export default function FavoritesPanel({
   const [statusMessage, setStatusMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   
+  // Excludes1 conflicts between saved codes
+  const [conflicts, setConflicts] = useState<Excludes1Conflict[]>([]);
+  
+  useEffect(() => {
+    let cancelled = false;
+    findExcludes1Conflicts(favorites.map(f => f.code))
+      .then(found => { if (!cancelled) setConflicts(found); })
+      .catch(() => { if (!cancelled) setConflicts([]); });
+    return () => { cancelled = true; };
+  }, [favorites]);
+  
+  // Codes involved in any conflict (for row badges)
+  const conflictingCodes = useMemo(() => {
+    const codes = new Set<string>();
+    for (const c of conflicts) {
+      codes.add(c.code);
+      codes.add(c.excludedCode);
+    }
+    return codes;
+  }, [conflicts]);
+  
+  // Fiscal year status of each favorite (deleted / needs specificity)
+  const [yearStatuses, setYearStatuses] = useState<Map<string, CodeYearStatus>>(new Map());
+  
+  useEffect(() => {
+    let cancelled = false;
+    getCodeYearStatuses(favorites.map(f => f.code))
+      .then(found => { if (!cancelled) setYearStatuses(found); })
+      .catch(() => { if (!cancelled) setYearStatuses(new Map()); });
+    return () => { cancelled = true; };
+  }, [favorites]);
+  
+  // Favorites that can no longer be billed as saved
+  const outdated = useMemo(
+    () => [...yearStatuses.values()].filter(s => s.status === 'deleted' || s.status === 'needs_specificity'),
+    [yearStatuses]
+  );
+  
   // Clear status message after 3 seconds
   const showStatus = (type: 'success' | 'error', text: string) => {
     setStatusMessage({ type, text });
@@ -323,11 +370,67 @@ export default function FavoritesPanel({
             </div>
           )}
           
+          {/* Excludes1 Conflict Warning */}
+          {conflicts.length > 0 && (
+            <div
+              role="alert"
+              className="
+                mx-6 mt-4 p-3
+                rounded-lg
+                bg-red-50 dark:bg-red-900/20
+                border border-red-200 dark:border-red-800/50
+                text-xs text-red-700 dark:text-red-400
+                flex items-start gap-2
+              "
+            >
+              <AlertTriangle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+              <div className="space-y-0.5">
+                <p className="font-semibold">Excludes1 conflicts in your favorites</p>
+                {conflicts.map(conflict => (
+                  <p key={`${conflict.code}-${conflict.excludedCode}`}>
+                    <span className="font-mono font-bold">{conflict.code}</span> excludes{' '}
+                    <span className="font-mono font-bold">{conflict.excludedCode}</span>
+                    {' '}({conflict.note.text})
+                  </p>
+                ))}
+                <p className="text-red-500/80 dark:text-red-400/70">
+                  These codes should not be reported together unless the conditions are unrelated.
+                </p>
+              </div>
+            </div>
+          )}
+          
+          {/* Fiscal Year Warning */}
+          {outdated.length > 0 && (
+            <div
+              role="status"
+              className="
+                mx-6 mt-4 p-3
+                rounded-lg
+                bg-amber-50 dark:bg-amber-900/20
+                border border-amber-200 dark:border-amber-800/50
+                text-xs text-amber-700 dark:text-amber-400
+                flex items-start gap-2
+              "
+            >
+              <CalendarClock className="w-4 h-4 flex-shrink-0 mt-0.5" />
+              <div className="space-y-0.5">
+                <p className="font-semibold">
+                  {outdated.length} {outdated.length === 1 ? 'favorite is' : 'favorites are'} not billable in FY{CURRENT_ICD10_FISCAL_YEAR}
+                </p>
+                <p className="text-amber-600/80 dark:text-amber-400/70">
+                  Codes change every October 1st. Replace deleted or expanded codes with a current code.
+                </p>
+              </div>
+            </div>
+          )}
+          
           {/* Favorites List */}
           {favorites.length > 0 && (
             <div className="divide-y divide-gray-100 dark:divide-gray-800">
               {favorites.map((favorite) => {
                 const colors = getCategoryColor(favorite.code);
+                const yearStatus = yearStatuses.get(favorite.code);
                 
                 return (
                   <div
@@ -359,11 +462,82 @@ export default function FavoritesPanel({
                           {favorite.code}
                         </div>
                         
+                        {/* Excludes1 Badge */}
+                        {conflictingCodes.has(favorite.code.toUpperCase()) && (
+                          <span className="
+                            ml-2 inline-flex items-center gap-1
+                            px-1.5 py-0.5 rounded
+                            bg-red-100 dark:bg-red-900/30
+                            text-red-600 dark:text-red-400
+                            text-[10px] font-semibold
+                          ">
+                            <AlertTriangle className="w-3 h-3" />
+                            Excludes1
+                          </span>
+                        )}
+                        
+                        {/* Fiscal Year Badge */}
+                        {yearStatus?.status === 'deleted' && (
+                          <span
+                            className="
+                              ml-2 inline-flex items-center gap-1
+                              px-1.5 py-0.5 rounded
+                              bg-red-100 dark:bg-red-900/30
+                              text-red-600 dark:text-red-400
+                              text-[10px] font-semibold
+                            "
+                            title={yearStatus.message}
+                          >
+                            <CalendarClock className="w-3 h-3" />
+                            Deleted FY{yearStatus.fiscalYear}
+                          </span>
+                        )}
+                        {yearStatus?.status === 'needs_specificity' && (
+                          <span
+                            className="
+                              ml-2 inline-flex items-center gap-1
+                              px-1.5 py-0.5 rounded
+                              bg-amber-100 dark:bg-amber-900/30
+                              text-amber-700 dark:text-amber-400
+                              text-[10px] font-semibold
+                            "
+                            title={yearStatus.message}
+                          >
+                            <CalendarClock className="w-3 h-3" />
+                            Needs specificity
+                          </span>
+                        )}
+                        
                         {/* Name */}
                         <p className="text-sm text-gray-700 dark:text-gray-300 line-clamp-2 mb-1">
                           {favorite.name}
                         </p>
                         
+                        {/* Replacement codes for expanded favorites */}
+                        {yearStatus?.status === 'needs_specificity' && yearStatus.replacementCodes && yearStatus.replacementCodes.length > 0 && (
+                          <div className="flex flex-wrap items-center gap-1 mb-1 text-[11px] text-amber-700 dark:text-amber-400">
+                            <span>Use:</span>
+                            {yearStatus.replacementCodes.slice(0, 6).map(code => (
+                              <button
+                                key={code}
+                                onClick={() => {
+                                  onSearch(code);
+                                  onClose();
+                                }}
+                                className="font-mono font-semibold hover:underline"
+                              >
+                                {code}
+                              </button>
+                            ))}
+                            {yearStatus.replacementCodes.length > 6 && (
+                              <span>+{yearStatus.replacementCodes.length - 6} more</span>
+                            )}
+                          </div>
+                        )}
+                        {yearStatus?.status === 'deleted' && (
+                          <p className="mb-1 text-[11px] text-red-600 dark:text-red-400">{yearStatus.message}</p>
+                        )}
+                        
                         {/* Metadata */}
                         <div className="flex items-center gap-3 text-xs text-gray-400 dark:text-gray-500">
                           <span className="flex items-center gap-1">
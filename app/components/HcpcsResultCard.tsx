@@ -1,9 +1,11 @@
 'use client';
 
-import { useState } from 'react';
+import { useState, useMemo } from 'react';
 import { ChevronDown, ChevronUp, Tag, Calendar, Activity, Info, Shield } from 'lucide-react';
 import { HCPCSResult } from '../types/icd';
 import { getMedicareCoverage } from '../lib/hcpcsLocalData';
+import AddToEncounterButton from './AddToEncounterButton';
+import MedicalNecessityChecker from './MedicalNecessityChecker';
 
 // ============================================================
 // Props
@@ -38,6 +40,12 @@ export default function HcpcsResultCard({ result, rank }: HcpcsResultCardProps)
     pricingDescription,
   } = result;
 
+  // Procedure side of the medical necessity check (stable for the memoized checker)
+  const necessityProcedure = useMemo(
+    () => ({ code, codeSystem: 'HCPCS' as const, description: longDescription || shortDescription }),
+    [code, longDescription, shortDescription]
+  );
+
   // Format dates for display (from "YYYYMMDD" or "YYYY-MM-DD" to readable)
   const formatDate = (dateStr: string | null): string => {
     if (!dateStr) return '—';
@@ -197,6 +205,9 @@ export default function HcpcsResultCard({ result, rank }: HcpcsResultCardProps)
           {detailsExpanded ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
         </button>
 
+        {/* Encounter builder toggle */}
+        <AddToEncounterButton entry={{ kind: 'hcpcs', item: result }} />
+
         {/* Medicare Coverage Badge */}
         {(() => {
           const covInfo = getMedicareCoverage(result.coverageCode);
@@ -232,6 +243,9 @@ export default function HcpcsResultCard({ result, rank }: HcpcsResultCardProps)
             </div>
           );
         })()}
+
+        {/* Medical Necessity Check */}
+        <MedicalNecessityChecker procedure={necessityProcedure} />
       </div>
 
       {/* ── Expandable Details Section ── */}
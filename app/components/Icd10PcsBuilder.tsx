@@ -0,0 +1,328 @@
+/**
+ * Icd10PcsBuilder Component
+ * =========================
+ *
+ * Builds a 7-character ICD-10-PCS code one axis at a time from the local
+ * PCS tables (see icd10pcsTables.ts), the way inpatient coders work from
+ * the CMS table pages. Renders its own trigger button and an expandable
+ * picker, like SeventhCharacterBuilder.
+ *
+ * Used by:
+ * - ResultCard (procedures section)
+ *
+ * FEATURES:
+ * - One slot per character; clicking a picked slot goes back to that axis
+ * - Only values valid with everything picked so far are offered
+ * - Root operation definition (and examples) shown once it is picked
+ * - Plain-English description of the finished code
+ * - Copies the code, or adds it to the condition's procedure list
+ */
+
+'use client';
+
+import { useState, useCallback, memo } from 'react';
+import {
+  ChevronUp,
+  ChevronDown,
+  Blocks,
+  Copy,
+  Check,
+  Plus,
+  Loader2,
+  AlertCircle,
+  RotateCcw
+} from 'lucide-react';
+import { PcsAxisOptions, PcsBuiltCode, PcsRootOperation, ProcedureResult } from '../types/icd';
+import {
+  buildPcsCode,
+  getPcsAxisOptions,
+  getPcsRootOperation,
+  getPcsTablesVersion,
+  pcsCodeToProcedure,
+  PCS_CODE_LENGTH
+} from '../lib/icd10pcsTables';
+
+// =============================================================================
+// Props Interface
+// =============================================================================
+
+interface Icd10PcsBuilderProps {
+  /** Called with the finished code as a procedure */
+  onAdd: (procedure: ProcedureResult) => void;
+
+  /** Codes already in the procedure list (the add button is disabled for them) */
+  existingCodes?: string[];
+}
+
+// =============================================================================
+// Component
+// =============================================================================
+
+function Icd10PcsBuilder({ onAdd, existingCodes = [] }: Icd10PcsBuilderProps) {
+  // =========================================================================
+  // State
+  // =========================================================================
+  const [builderExpanded, setBuilderExpanded] = useState(false);
+  const [picked, setPicked] = useState('');
+  const [labels, setLabels] = useState<string[]>([]);
+  const [options, setOptions] = useState<PcsAxisOptions | null>(null);
+  const [operation, setOperation] = useState<PcsRootOperation | null>(null);
+  const [built, setBuilt] = useState<PcsBuiltCode | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const isAdded = built !== null && existingCodes.includes(built.code);
+  const tablesVersion = getPcsTablesVersion();
+
+  // =========================================================================
+  // Handlers
+  // =========================================================================
+
+  /**
+   * Moves the builder to a new prefix: loads the next axis, or builds the
+   * code once all seven characters are picked.
+   */
+  const goTo = useCallback(async (prefix: string, prefixLabels: string[]) => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const [nextOptions, nextOperation, nextBuilt] = await Promise.all([
+        prefix.length < PCS_CODE_LENGTH ? getPcsAxisOptions(prefix) : Promise.resolve(null),
+        prefix.length >= 3 ? getPcsRootOperation(prefix) : Promise.resolve(null),
+        prefix.length === PCS_CODE_LENGTH ? buildPcsCode(prefix) : Promise.resolve(null),
+      ]);
+      setPicked(prefix);
+      setLabels(prefixLabels);
+      setOptions(nextOptions);
+      setOperation(nextOperation);
+      setBuilt(nextBuilt);
+    } catch (err) {
+      console.error('[PCS Builder] Failed to load tables:', err);
+      setError('Unable to load the ICD-10-PCS tables. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  /** First open loads the section axis; later clicks just toggle */
+  const handleToggle = useCallback(() => {
+    if (!builderExpanded && !options && !built) goTo('', []);
+    setBuilderExpanded(prev => !prev);
+  }, [builderExpanded, options, built, goTo]);
+
+  const handlePick = useCallback((code: string, label: string) => {
+    goTo(picked + code, [...labels, label]);
+  }, [goTo, picked, labels]);
+
+  /** Clicking a picked slot re-opens that axis */
+  const handleSlotClick = useCallback((position: number) => {
+    goTo(picked.slice(0, position - 1), labels.slice(0, position - 1));
+  }, [goTo, picked, labels]);
+
+  const handleCopy = useCallback(async () => {
+    if (!built) return;
+    try {
+      await navigator.clipboard.writeText(built.code);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error('[PCS Builder] Copy failed:', err);
+    }
+  }, [built]);
+
+  const handleAdd = useCallback(() => {
+    if (built) onAdd(pcsCodeToProcedure(built));
+  }, [built, onAdd]);
+
+  // =========================================================================
+  // Render
+  // =========================================================================
+
+  return (
+    <div className="mt-3 pt-3 border-t border-teal-100 dark:border-teal-900">
+      {/* PCS Builder Button (Teal) */}
+      <button
+        type="button"
+        onClick={handleToggle}
+        className={`
+          flex
+          items-center
+          gap-1.5
+          px-3
+          py-1.5
+          rounded-lg
+          text-xs
+          font-medium
+          transition-all
+          duration-200
+          ${builderExpanded
+            ? 'bg-teal-500 text-white hover:bg-teal-600'
+            : 'bg-teal-50 dark:bg-teal-900/30 text-teal-700 dark:text-teal-400 hover:bg-teal-100 dark:hover:bg-teal-900/50'
+          }
+        `}
+      >
+        <Blocks className="w-3.5 h-3.5" />
+        <span>{builderExpanded ? 'Hide PCS Builder' : 'Build ICD-10-PCS Code'}</span>
+        {builderExpanded
+          ? <ChevronUp className="w-3 h-3 ml-0.5" />
+          : <ChevronDown className="w-3 h-3 ml-0.5" />
+        }
+      </button>
+
+      {/* Expandable Builder Section */}
+      {builderExpanded && (
+        <div className="mt-3 space-y-3 animate-in slide-in-from-top-2 duration-200">
+          {/* Character Slots */}
+          <div className="flex items-center gap-1.5">
+            {Array.from({ length: PCS_CODE_LENGTH }, (_, index) => {
+              const position = index + 1;
+              const char = picked[index];
+              const isCurrent = position === picked.length + 1;
+              return (
+                <button
+                  key={position}
+                  type="button"
+                  onClick={() => handleSlotClick(position)}
+                  disabled={!char || isLoading}
+                  title={char ? `${labels[index]} (click to change)` : undefined}
+                  className={`
+                    w-8 h-9
+                    rounded-md
+                    border
+                    font-mono
+                    font-bold
+                    text-sm
+                    transition-colors
+                    ${char
+                      ? 'bg-white dark:bg-gray-800 border-teal-300 dark:border-teal-700 text-teal-700 dark:text-teal-300 hover:border-teal-500'
+                      : isCurrent
+                        ? 'border-teal-500 border-dashed text-teal-400'
+                        : 'border-gray-200 dark:border-gray-700 text-gray-300 dark:text-gray-600'
+                    }
+                    disabled:cursor-default
+                  `}
+                >
+                  {char ?? (isCurrent ? '?' : '·')}
+                </button>
+              );
+            })}
+            {picked.length > 0 && (
+              <button
+                type="button"
+                onClick={() => goTo('', [])}
+                disabled={isLoading}
+                className="ml-1 flex items-center gap-1 text-[11px] text-gray-500 dark:text-gray-400 hover:text-teal-600 dark:hover:text-teal-400 transition-colors"
+              >
+                <RotateCcw className="w-3 h-3" />
+                Start over
+              </button>
+            )}
+          </div>
+
+          {/* Root Operation */}
+          {operation && (
+            <div className="p-3 rounded-lg bg-teal-50 dark:bg-teal-950/30 border border-teal-100 dark:border-teal-900">
+              <p className="text-xs text-teal-800 dark:text-teal-200">
+                <span className="font-semibold">{operation.label}</span>
+                <span className="text-teal-600 dark:text-teal-400"> · {operation.bodySystem}</span>
+              </p>
+              <p className="text-xs text-gray-600 dark:text-gray-400 mt-0.5">{operation.definition}</p>
+              {operation.examples && (
+                <p className="text-[11px] text-gray-500 dark:text-gray-500 mt-0.5">Examples: {operation.examples}</p>
+              )}
+            </div>
+          )}
+
+          {/* Loading / Error */}
+          {isLoading && (
+            <div className="flex items-center gap-2 text-xs text-teal-600 dark:text-teal-400">
+              <Loader2 className="w-3.5 h-3.5 animate-spin" />
+              <span>Loading PCS tables...</span>
+            </div>
+          )}
+          {error && !isLoading && (
+            <div className="flex items-center gap-1.5 text-xs text-red-600 dark:text-red-400">
+              <AlertCircle className="w-3 h-3" />
+              <span>{error}</span>
+            </div>
+          )}
+
+          {/* Next Axis Options */}
+          {options && !isLoading && (
+            <div>
+              <p className="text-[11px] font-medium text-gray-700 dark:text-gray-300 mb-1.5">
+                Character {options.position}: {options.title}
+              </p>
+              <div className="flex flex-wrap gap-2 max-h-56 overflow-y-auto pr-1">
+                {options.values.map(value => (
+                  <button
+                    key={value.code}
+                    type="button"
+                    onClick={() => handlePick(value.code, value.label)}
+                    title={value.label}
+                    className="
+                      flex items-center gap-1.5
+                      px-2.5 py-1.5
+                      rounded-lg
+                      text-xs
+                      border
+                      bg-white dark:bg-gray-800
+                      border-teal-200 dark:border-teal-800/50
+                      text-gray-700 dark:text-gray-300
+                      hover:border-teal-400
+                      transition-colors
+                    "
+                  >
+                    <span className="font-mono font-bold">{value.code}</span>
+                    <span className="max-w-[16rem] truncate">{value.label}</span>
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Built Code */}
+          {built && !isLoading && (
+            <div className="flex items-center justify-between gap-3 p-3 rounded-lg bg-white dark:bg-gray-800 border border-teal-200 dark:border-teal-800/50">
+              <div className="min-w-0">
+                <p className="font-mono font-bold text-sm text-gray-900 dark:text-gray-100">{built.code}</p>
+                <p className="text-xs text-gray-500 dark:text-gray-400">{built.description}</p>
+              </div>
+              <div className="flex-shrink-0 flex items-center gap-1.5">
+                <button
+                  type="button"
+                  onClick={handleCopy}
+                  className="flex items-center gap-1 px-2.5 py-1.5 rounded-lg text-xs font-medium bg-teal-100 dark:bg-teal-900/30 text-teal-700 dark:text-teal-400 hover:bg-teal-200 dark:hover:bg-teal-900/50 transition-colors"
+                >
+                  {copied ? <Check className="w-3.5 h-3.5" /> : <Copy className="w-3.5 h-3.5" />}
+                  {copied ? 'Copied' : 'Copy'}
+                </button>
+                <button
+                  type="button"
+                  onClick={handleAdd}
+                  disabled={isAdded}
+                  className="flex items-center gap-1 px-2.5 py-1.5 rounded-lg text-xs font-medium bg-teal-500 text-white hover:bg-teal-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                  {isAdded ? <Check className="w-3.5 h-3.5" /> : <Plus className="w-3.5 h-3.5" />}
+                  {isAdded ? 'In procedures' : 'Add to procedures'}
+                </button>
+              </div>
+            </div>
+          )}
+
+          {/* Table Version */}
+          {tablesVersion && (
+            <p className="text-[11px] text-gray-400 dark:text-gray-500">
+              ICD-10-PCS FY{tablesVersion.fiscalYear} tables (effective {tablesVersion.effectiveDate}),
+              {' '}{tablesVersion.totalTables} tables bundled — not every PCS table is included.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default memo(Icd10PcsBuilder);
@@ -0,0 +1,317 @@
+/**
+ * IndexNavigator Component
+ * ========================
+ *
+ * Alphabetic Index search mode for SearchBar. Works the way coders use the
+ * printed Index: find the main term, walk down the indented subterms, and
+ * end at a suggested code — which is then verified against the Tabular List
+ * before it is looked up.
+ *
+ * Used by:
+ * - SearchBar (when the "Alphabetic Index" mode is selected)
+ *
+ * FEATURES:
+ * - Matching Index paths as you type ("diabetes type 2 nephropathy")
+ * - Breadcrumb of main term → subterms, each level clickable
+ * - Indented subterm list with nonessential modifiers in gray
+ * - "see" / "see also" references jump to the target entry
+ * - Tabular verification of the suggested code (billable, header, needs 7th character)
+ * - Bracketed manifestation codes shown with their "code second" rule
+ */
+
+'use client';
+
+import { useState, useEffect, memo } from 'react';
+import {
+  BookOpen,
+  ChevronRight,
+  CornerDownRight,
+  ArrowRight,
+  CheckCircle2,
+  AlertTriangle,
+  Loader2,
+} from 'lucide-react';
+import { ICD10IndexTerm, ICD10IndexMatch, IndexCodeVerification } from '../types/icd';
+import {
+  searchIndexTerms,
+  getIndexTerm,
+  resolveIndexReference,
+  verifyIndexCode,
+} from '../lib/icd10IndexData';
+
+// =============================================================================
+// Props Interface
+// =============================================================================
+
+interface IndexNavigatorProps {
+  /** Current text in the search input */
+  query: string;
+
+  /** Called with a verified code to run the normal code search */
+  onSelectCode: (code: string) => void;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Minimum characters before the Index is searched */
+const MIN_QUERY_LENGTH = 2;
+
+// =============================================================================
+// Component
+// =============================================================================
+
+function IndexNavigator({ query, onSelectCode }: IndexNavigatorProps) {
+  const trimmed = query.trim();
+
+  // =========================================================================
+  // State (each result is tagged with the input it belongs to)
+  // =========================================================================
+  const [matches, setMatches] = useState<{ query: string; items: ICD10IndexMatch[] } | null>(null);
+  const [selection, setSelection] = useState<{ query: string; path: string[] } | null>(null);
+  const [entry, setEntry] = useState<{ key: string; term: ICD10IndexTerm | null } | null>(null);
+  const [verification, setVerification] = useState<IndexCodeVerification | null>(null);
+
+  // A drill-down only applies to the query it was started from
+  const path = selection?.query === trimmed ? selection.path : null;
+  const pathKey = path?.join('\u0000') ?? '';
+  const term = entry?.key === pathKey ? entry.term : null;
+  const currentVerification = term?.code && verification?.indexCode === term.code ? verification : null;
+
+  // =========================================================================
+  // Effects
+  // =========================================================================
+
+  // Search the Index as the user types
+  useEffect(() => {
+    if (trimmed.length < MIN_QUERY_LENGTH) return;
+    let cancelled = false;
+    searchIndexTerms(trimmed)
+      .then(items => { if (!cancelled) setMatches({ query: trimmed, items }); })
+      .catch(err => console.error('[Index] Search failed:', err));
+    return () => { cancelled = true; };
+  }, [trimmed]);
+
+  // Load the selected entry with its subterms
+  useEffect(() => {
+    if (!pathKey) return;
+    let cancelled = false;
+    getIndexTerm(pathKey.split('\u0000'))
+      .then(found => { if (!cancelled) setEntry({ key: pathKey, term: found }); })
+      .catch(err => console.error('[Index] Lookup failed:', err));
+    return () => { cancelled = true; };
+  }, [pathKey]);
+
+  // Verify the suggested code against the Tabular List
+  const termCode = term?.code;
+  useEffect(() => {
+    if (!termCode) return;
+    let cancelled = false;
+    verifyIndexCode(termCode)
+      .then(result => { if (!cancelled) setVerification(result); })
+      .catch(err => console.error('[Index] Verification failed:', err));
+    return () => { cancelled = true; };
+  }, [termCode]);
+
+  // =========================================================================
+  // Handlers
+  // =========================================================================
+
+  const goTo = (nextPath: string[]) => setSelection({ query: trimmed, path: nextPath });
+
+  const followReference = (reference: string[]) => {
+    resolveIndexReference(reference)
+      .then(resolved => { if (resolved) goTo(resolved); })
+      .catch(err => console.error('[Index] Reference failed:', err));
+  };
+
+  // =========================================================================
+  // Render
+  // =========================================================================
+
+  if (trimmed.length < MIN_QUERY_LENGTH) {
+    return (
+      <p className="mt-2 text-xs text-center text-gray-500 dark:text-gray-400">
+        Type a main term from the Alphabetic Index, e.g. &ldquo;diabetes type 2 nephropathy&rdquo; or &ldquo;fracture radius&rdquo;.
+      </p>
+    );
+  }
+
+  const items = matches?.query === trimmed ? matches.items : null;
+
+  return (
+    <div className="mt-3 bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700 shadow-sm overflow-hidden text-left">
+      {/* Header / Breadcrumb */}
+      <div className="flex items-center gap-1.5 flex-wrap px-4 py-2.5 border-b border-gray-100 dark:border-gray-700 bg-gray-50/60 dark:bg-gray-900/30 text-xs">
+        <BookOpen className="w-3.5 h-3.5 text-[#1976D2]" />
+        <button
+          type="button"
+          onClick={() => setSelection(null)}
+          className="font-semibold text-gray-700 dark:text-gray-300 hover:text-[#1976D2]"
+        >
+          Alphabetic Index
+        </button>
+        {path?.map((title, index) => (
+          <span key={`${index}-${title}`} className="flex items-center gap-1.5">
+            <ChevronRight className="w-3 h-3 text-gray-400" />
+            <button
+              type="button"
+              onClick={() => goTo(path.slice(0, index + 1))}
+              className={index === path.length - 1
+                ? 'font-semibold text-gray-900 dark:text-gray-100'
+                : 'text-gray-600 dark:text-gray-400 hover:text-[#1976D2]'}
+            >
+              {title}
+            </button>
+          </span>
+        ))}
+      </div>
+
+      {!path ? (
+        /* ── Matching Index entries ── */
+        items === null ? (
+          <div className="flex items-center justify-center gap-2 py-6 text-sm text-gray-500">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            Searching the Index...
+          </div>
+        ) : items.length === 0 ? (
+          <p className="px-4 py-6 text-sm text-center text-gray-500 dark:text-gray-400">
+            No Index entry for &ldquo;{trimmed}&rdquo;. Try the main condition first (e.g. &ldquo;failure heart&rdquo;).
+          </p>
+        ) : (
+          <ul className="divide-y divide-gray-100 dark:divide-gray-700/60">
+            {items.map(match => (
+              <li key={match.path.join('\u0000')}>
+                <button
+                  type="button"
+                  onClick={() => goTo(match.path)}
+                  className="w-full flex items-center justify-between gap-3 px-4 py-2.5 text-left hover:bg-[#1976D2]/5 transition-colors"
+                >
+                  <span className="text-sm text-gray-800 dark:text-gray-200 min-w-0">
+                    <span className="font-semibold">{match.path[0]}</span>
+                    {match.path.slice(1).map((title, i) => (
+                      <span key={i} className="text-gray-600 dark:text-gray-400">, {title}</span>
+                    ))}
+                    {match.term.see && (
+                      <span className="italic text-gray-500"> — see {match.term.see.join(', ')}</span>
+                    )}
+                  </span>
+                  {match.term.code && (
+                    <span className="flex-shrink-0 font-mono text-xs font-bold text-[#1976D2]">
+                      {match.term.code}
+                      {match.term.manifestationCode && ` [${match.term.manifestationCode}]`}
+                    </span>
+                  )}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )
+      ) : !term ? (
+        <div className="flex items-center justify-center gap-2 py-6 text-sm text-gray-500">
+          <Loader2 className="w-4 h-4 animate-spin" />
+        </div>
+      ) : (
+        /* ── Selected entry ── */
+        <div className="p-4 space-y-3">
+          <p className="text-sm text-gray-900 dark:text-gray-100">
+            <span className="font-semibold">{term.title}</span>
+            {term.nonessential && <span className="text-gray-500 dark:text-gray-400"> {term.nonessential}</span>}
+            {term.code && <span className="ml-2 font-mono font-bold text-[#1976D2]">{term.code}</span>}
+            {term.manifestationCode && (
+              <span className="ml-1 font-mono font-bold text-purple-600 dark:text-purple-400">[{term.manifestationCode}]</span>
+            )}
+          </p>
+
+          {/* see / see also */}
+          {[{ label: 'see', ref: term.see }, { label: 'see also', ref: term.seeAlso }].map(({ label, ref }) => ref && (
+            <button
+              key={label}
+              type="button"
+              onClick={() => followReference(ref)}
+              className="flex items-center gap-1.5 text-sm italic text-[#1976D2] hover:underline"
+            >
+              <ArrowRight className="w-3.5 h-3.5" />
+              {label} {ref.join(', ')}
+            </button>
+          ))}
+
+          {/* Tabular verification */}
+          {term.code && (
+            currentVerification ? (
+              <div className={`flex items-start justify-between gap-3 p-3 rounded-lg border ${
+                currentVerification.validation.billable
+                  ? 'bg-emerald-50 dark:bg-emerald-900/20 border-emerald-200 dark:border-emerald-800/50'
+                  : 'bg-amber-50 dark:bg-amber-900/20 border-amber-200 dark:border-amber-800/50'
+              }`}>
+                <div className="flex items-start gap-2 min-w-0">
+                  {currentVerification.validation.billable
+                    ? <CheckCircle2 className="w-4 h-4 mt-0.5 flex-shrink-0 text-emerald-600 dark:text-emerald-400" />
+                    : <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0 text-amber-600 dark:text-amber-400" />}
+                  <div className="min-w-0 text-xs">
+                    <p className="font-semibold text-gray-800 dark:text-gray-200">
+                      Tabular: <span className="font-mono">{currentVerification.validation.code}</span>
+                      {currentVerification.validation.description && ` ${currentVerification.validation.description}`}
+                    </p>
+                    <p className="text-gray-600 dark:text-gray-400">
+                      {!currentVerification.complete && 'The Index code is incomplete — '}
+                      {currentVerification.validation.message}
+                    </p>
+                    {term.manifestationCode && (
+                      <p className="mt-1 text-purple-700 dark:text-purple-400">
+                        Also code {term.manifestationCode}, sequenced after {currentVerification.validation.code}.
+                      </p>
+                    )}
+                  </div>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => onSelectCode(currentVerification.validation.code)}
+                  className="flex-shrink-0 inline-flex items-center gap-1 px-3 py-1.5 rounded-lg text-xs font-semibold bg-[#1976D2] text-white hover:bg-[#1565C0] transition-colors"
+                >
+                  Look up {currentVerification.validation.code}
+                </button>
+              </div>
+            ) : (
+              <div className="flex items-center gap-2 text-xs text-gray-500">
+                <Loader2 className="w-3.5 h-3.5 animate-spin" />
+                Verifying {term.code} in the Tabular List...
+              </div>
+            )
+          )}
+
+          {/* Indented subterms */}
+          {term.subterms && term.subterms.length > 0 && (
+            <ul className="space-y-0.5">
+              {term.subterms.map(sub => (
+                <li key={sub.title}>
+                  <button
+                    type="button"
+                    onClick={() => goTo([...path, sub.title])}
+                    className="w-full flex items-center justify-between gap-3 pl-2 pr-2 py-1.5 rounded-lg text-left hover:bg-[#1976D2]/5 transition-colors"
+                  >
+                    <span className="flex items-center gap-1.5 text-sm text-gray-800 dark:text-gray-200 min-w-0">
+                      <CornerDownRight className="w-3.5 h-3.5 flex-shrink-0 text-gray-400" />
+                      <span className="truncate">
+                        {sub.title}
+                        {sub.nonessential && <span className="text-gray-400"> {sub.nonessential}</span>}
+                        {sub.see && <span className="italic text-gray-500"> — see {sub.see.join(', ')}</span>}
+                      </span>
+                    </span>
+                    <span className="flex items-center gap-1.5 flex-shrink-0">
+                      {sub.code && <span className="font-mono text-xs font-bold text-[#1976D2]">{sub.code}</span>}
+                      {sub.subterms && <ChevronRight className="w-3.5 h-3.5 text-gray-400" />}
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default memo(IndexNavigator);
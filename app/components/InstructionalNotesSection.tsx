@@ -0,0 +1,280 @@
+/**
+ * InstructionalNotesSection Component
+ * ===================================
+ *
+ * Shows the Tabular List instructional notes for an ICD-10-CM code and
+ * warns about Excludes1 conflicts with other codes the user is working with.
+ * Renders its own trigger button and expandable note list, like
+ * MedicareCoverageSection.
+ *
+ * Used by:
+ * - ResultCard (notes for the card's code; conflicts against favorites)
+ *
+ * FEATURES:
+ * - Notes come from the local ICD-10-CM data file (no network call)
+ * - Category-level notes are inherited by every code below them
+ * - Excludes1 conflict banner is always visible, even when collapsed
+ * - Button is hidden for codes with no notes in the bundled data set
+ */
+
+'use client';
+
+import { useState, useEffect, memo } from 'react';
+import {
+  ChevronUp,
+  ChevronDown,
+  AlertTriangle,
+  BookOpen
+} from 'lucide-react';
+import { ICD10InstructionalNotes, ICD10NoteType, Excludes1Conflict } from '../types/icd';
+import { getLocalInstructionalNotes } from '../lib/icd10cmLocalData';
+import { findExcludes1Conflicts } from '../lib/icd10Notes';
+
+// =============================================================================
+// Props Interface
+// =============================================================================
+
+interface InstructionalNotesSectionProps {
+  /** The ICD-10-CM code to show notes for */
+  code: string;
+
+  /**
+   * Other codes this one is being compared against (e.g., favorites).
+   * Any Excludes1 conflict between them is shown as a warning.
+   */
+  comparedCodes?: string[];
+}
+
+// =============================================================================
+// Display Config
+// =============================================================================
+
+/** Heading and colors for each note type, in Tabular print order */
+const NOTE_SECTIONS: { type: ICD10NoteType; label: string; hint: string; className: string }[] = [
+  {
+    type: 'excludes1',
+    label: 'Excludes1',
+    hint: 'Not coded here — never report together',
+    className: 'text-red-700 dark:text-red-400',
+  },
+  {
+    type: 'excludes2',
+    label: 'Excludes2',
+    hint: 'Not included here — both may be reported',
+    className: 'text-amber-700 dark:text-amber-400',
+  },
+  {
+    type: 'codeFirst',
+    label: 'Code First',
+    hint: 'Sequence the underlying condition first',
+    className: 'text-blue-700 dark:text-blue-400',
+  },
+  {
+    type: 'useAdditionalCode',
+    label: 'Use Additional Code',
+    hint: 'Add a secondary code when applicable',
+    className: 'text-indigo-700 dark:text-indigo-400',
+  },
+  {
+    type: 'includes',
+    label: 'Includes',
+    hint: 'Terms classified to this code',
+    className: 'text-gray-700 dark:text-gray-300',
+  },
+];
+
+function countNotes(notes: ICD10InstructionalNotes): number {
+  return NOTE_SECTIONS.reduce((sum, section) => sum + notes[section.type].length, 0);
+}
+
+// =============================================================================
+// Component
+// =============================================================================
+
+function InstructionalNotesSection({ code, comparedCodes }: InstructionalNotesSectionProps) {
+  // =========================================================================
+  // State
+  // =========================================================================
+  const [notes, setNotes] = useState<ICD10InstructionalNotes | null>(null);
+  const [notesExpanded, setNotesExpanded] = useState(false);
+  const [conflicts, setConflicts] = useState<Excludes1Conflict[]>([]);
+
+  // Stable key so a new array with the same codes doesn't re-run the check
+  const comparedKey = (comparedCodes ?? []).join('|');
+
+  // Load notes from the local data set (cheap — no network)
+  useEffect(() => {
+    let cancelled = false;
+    getLocalInstructionalNotes(code)
+      .then(result => { if (!cancelled) setNotes(result); })
+      .catch(() => { if (!cancelled) setNotes(null); });
+    return () => { cancelled = true; };
+  }, [code]);
+
+  // Check Excludes1 conflicts against the compared codes
+  useEffect(() => {
+    let cancelled = false;
+    const others = comparedKey ? comparedKey.split('|') : [];
+    findExcludes1Conflicts([code, ...others])
+      .then(found => {
+        if (cancelled) return;
+        const upper = code.toUpperCase();
+        setConflicts(found.filter(c => c.code === upper || c.excludedCode === upper));
+      })
+      .catch(() => { if (!cancelled) setConflicts([]); });
+    return () => { cancelled = true; };
+  }, [code, comparedKey]);
+
+  const noteCount = notes ? countNotes(notes) : 0;
+
+  // =========================================================================
+  // Render
+  // =========================================================================
+
+  return (
+    <>
+      {/* Excludes1 Conflict Warning (always visible) */}
+      {conflicts.length > 0 && (
+        <div
+          role="alert"
+          className="
+            basis-full
+            order-first
+            flex
+            items-start
+            gap-2
+            px-3
+            py-2
+            mt-3
+            rounded-lg
+            bg-red-50
+            dark:bg-red-900/20
+            border
+            border-red-200
+            dark:border-red-800/50
+            text-xs
+            text-red-700
+            dark:text-red-400
+          "
+        >
+          <AlertTriangle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+          <div className="space-y-0.5">
+            <p className="font-semibold">Excludes1 conflict</p>
+            {conflicts.map(conflict => (
+              <p key={`${conflict.code}-${conflict.excludedCode}`}>
+                <span className="font-mono font-bold">{conflict.code}</span> excludes{' '}
+                <span className="font-mono font-bold">{conflict.excludedCode}</span>
+                {' '}({conflict.note.text}, per {conflict.note.fromCode}) — do not report both unless the conditions are unrelated.
+              </p>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Coding Notes Button (Slate) */}
+      {noteCount > 0 && (
+        <button
+          type="button"
+          onClick={() => setNotesExpanded(prev => !prev)}
+          className={`
+            flex
+            items-center
+            gap-1.5
+            px-3
+            py-1.5
+            rounded-lg
+            text-xs
+            font-medium
+            transition-all
+            duration-200
+            ${notesExpanded
+              ? 'bg-slate-600 text-white hover:bg-slate-700'
+              : 'bg-slate-100 dark:bg-slate-800/60 text-slate-700 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-800'
+            }
+          `}
+        >
+          <BookOpen className="w-3.5 h-3.5" />
+          <span>{notesExpanded ? 'Hide Notes' : 'Coding Notes'}</span>
+          <span
+            className={`
+              ml-1
+              px-1.5
+              py-0.5
+              rounded-full
+              text-[10px]
+              font-bold
+              ${notesExpanded
+                ? 'bg-white/20 text-white'
+                : 'bg-slate-500/20 text-slate-700 dark:text-slate-300'
+              }
+            `}
+          >
+            {noteCount}
+          </span>
+          {notesExpanded
+            ? <ChevronUp className="w-3 h-3 ml-0.5" />
+            : <ChevronDown className="w-3 h-3 ml-0.5" />
+          }
+        </button>
+      )}
+
+      {/* Expandable Notes Section (Slate Theme) */}
+      {notesExpanded && notes && (
+        <div
+          className="
+            basis-full
+            w-full
+            order-last
+            -mx-5
+            mt-2
+            -mb-4
+            border-t
+            border-slate-200
+            dark:border-slate-700/50
+            bg-slate-50/60
+            dark:bg-slate-900/20
+            animate-in
+            slide-in-from-top-2
+            duration-200
+          "
+        >
+          <div className="p-4 space-y-3">
+            {NOTE_SECTIONS.filter(section => notes[section.type].length > 0).map(section => (
+              <div key={section.type}>
+                <p className={`text-xs font-semibold uppercase tracking-wide ${section.className}`}>
+                  {section.label}
+                  <span className="ml-2 normal-case font-normal tracking-normal text-gray-400 dark:text-gray-500">
+                    {section.hint}
+                  </span>
+                </p>
+                <ul className="mt-1 space-y-0.5">
+                  {notes[section.type].map((entry, i) => (
+                    <li key={i} className="text-sm text-gray-700 dark:text-gray-300 pl-3">
+                      {entry.text}
+                      {entry.codes.length > 0 && (
+                        <span className="ml-1 font-mono text-xs text-gray-500 dark:text-gray-400">
+                          ({entry.codes.join(', ')})
+                        </span>
+                      )}
+                      {entry.fromCode.toUpperCase() !== code.toUpperCase() && (
+                        <span className="ml-1.5 text-[10px] text-gray-400 dark:text-gray-500">
+                          from {entry.fromCode}
+                        </span>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+
+            <p className="text-[10px] text-gray-400 dark:text-gray-500 text-center pt-2 border-t border-slate-200 dark:border-slate-700/50">
+              Source: ICD-10-CM Tabular List • Notes at a category apply to every code below it
+            </p>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
+
+export default memo(InstructionalNotesSection);
@@ -0,0 +1,317 @@
+/**
+ * MedicalNecessityChecker Component
+ * =================================
+ *
+ * Checks whether a diagnosis supports a procedure (see checkMedicalNecessity
+ * in medicalNecessity.ts) and shows the verdict with its evidence. Renders
+ * its own trigger button and expandable panel, like MedicareCoverageSection.
+ *
+ * Used by:
+ * - ProcedureCard (expanded details; diagnosis = the ResultCard's code)
+ * - HcpcsResultCard (action buttons; no diagnosis until one is entered)
+ *
+ * FEATURES:
+ * - Checks the given diagnosis on first expand
+ * - ICD-10-CM code input plus one-click favorited / encounter diagnoses
+ * - Codes outside the bundled code set are named from the picked diagnosis
+ * - Supported / unsupported / unknown verdict with a one-line summary
+ * - Evidence list: curated mapping, SNOMED CT, NCD / LCD (linked to CMS)
+ * - Sources that couldn't be checked (e.g., SNOMED CT not configured)
+ */
+
+'use client';
+
+import { useState, useCallback, useMemo, memo } from 'react';
+import {
+  ChevronUp,
+  ChevronDown,
+  Loader2,
+  AlertCircle,
+  Scale,
+  CheckCircle2,
+  XCircle,
+  HelpCircle,
+  Link2,
+  ExternalLink
+} from 'lucide-react';
+import {
+  MedicalNecessityResult,
+  NecessityEvidenceSource,
+  NecessityEvidenceWeight,
+  NecessityProcedure,
+  NecessityVerdict
+} from '../types/icd';
+import { checkMedicalNecessity } from '../lib/medicalNecessity';
+import { useSessionDiagnoses } from '../hooks/useSessionDiagnoses';
+
+// =============================================================================
+// Props Interface
+// =============================================================================
+
+interface MedicalNecessityCheckerProps {
+  /** The procedure to check */
+  procedure: NecessityProcedure;
+
+  /** Diagnosis to check first (e.g., the condition the procedure was listed for) */
+  diagnosis?: { code: string; name: string };
+}
+
+// =============================================================================
+// Styling
+// =============================================================================
+
+/** Banner styling per verdict */
+const VERDICT_STYLES: Record<NecessityVerdict, { label: string; className: string; icon: typeof CheckCircle2 }> = {
+  supported: {
+    label: 'Supported',
+    className: 'bg-emerald-50 dark:bg-emerald-900/20 text-emerald-700 dark:text-emerald-400 border-emerald-200 dark:border-emerald-800/40',
+    icon: CheckCircle2,
+  },
+  unsupported: {
+    label: 'Not supported',
+    className: 'bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-400 border-red-200 dark:border-red-800/40',
+    icon: XCircle,
+  },
+  unknown: {
+    label: 'Unknown',
+    className: 'bg-amber-50 dark:bg-amber-900/20 text-amber-700 dark:text-amber-400 border-amber-200 dark:border-amber-800/40',
+    icon: HelpCircle,
+  },
+};
+
+/** Icon per evidence weight */
+const WEIGHT_ICONS: Record<NecessityEvidenceWeight, { icon: typeof CheckCircle2; className: string }> = {
+  supports: { icon: CheckCircle2, className: 'text-emerald-500' },
+  related: { icon: Link2, className: 'text-amber-500' },
+  against: { icon: XCircle, className: 'text-red-500' },
+};
+
+const SOURCE_LABELS: Record<NecessityEvidenceSource, string> = {
+  curated: 'Curated',
+  snomed: 'SNOMED CT',
+  ncd: 'NCD',
+  lcd: 'LCD',
+};
+
+// =============================================================================
+// Component
+// =============================================================================
+
+function MedicalNecessityChecker({ procedure, diagnosis }: MedicalNecessityCheckerProps) {
+  // =========================================================================
+  // State
+  // =========================================================================
+  const sessionDiagnoses = useSessionDiagnoses();
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [diagnosisCode, setDiagnosisCode] = useState(diagnosis?.code ?? '');
+  const [result, setResult] = useState<MedicalNecessityResult | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const quickPicks = useMemo(() => [
+    ...(diagnosis ? [diagnosis] : []),
+    ...sessionDiagnoses.filter(d => d.code !== diagnosis?.code),
+  ], [diagnosis, sessionDiagnoses]);
+
+  // =========================================================================
+  // Handlers
+  // =========================================================================
+
+  const runCheck = useCallback(async (icd10Code: string) => {
+    if (!icd10Code.trim()) return;
+
+    setDiagnosisCode(icd10Code);
+    setIsLoading(true);
+    setError(null);
+
+    // Names the diagnosis when the bundled code set doesn't have the code
+    const normalized = icd10Code.trim().toUpperCase();
+    const picked = quickPicks.find(d => d.code.toUpperCase() === normalized);
+
+    try {
+      setResult(await checkMedicalNecessity(procedure, icd10Code, picked?.name));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Medical necessity check failed');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [procedure, quickPicks]);
+
+  /** First expand checks the given diagnosis; later clicks just toggle */
+  const handleToggle = useCallback(() => {
+    if (!isExpanded && !result && diagnosis) runCheck(diagnosis.code);
+    setIsExpanded(prev => !prev);
+  }, [isExpanded, result, diagnosis, runCheck]);
+
+  const handleSubmit = useCallback((event: React.FormEvent) => {
+    event.preventDefault();
+    runCheck(diagnosisCode);
+  }, [diagnosisCode, runCheck]);
+
+  // =========================================================================
+  // Render
+  // =========================================================================
+
+  const verdictStyle = result ? VERDICT_STYLES[result.verdict] : null;
+
+  return (
+    <div className="w-full">
+      {/* Medical Necessity Button (Indigo) */}
+      <button
+        type="button"
+        onClick={handleToggle}
+        className={`
+          flex
+          items-center
+          gap-1.5
+          px-3
+          py-1.5
+          rounded-lg
+          text-xs
+          font-medium
+          transition-all
+          duration-200
+          ${isExpanded
+            ? 'bg-indigo-500 text-white hover:bg-indigo-600'
+            : 'bg-indigo-50 dark:bg-indigo-900/30 text-indigo-700 dark:text-indigo-400 hover:bg-indigo-100 dark:hover:bg-indigo-900/50'
+          }
+        `}
+      >
+        <Scale className="w-3.5 h-3.5" />
+        <span>{isExpanded ? 'Hide Medical Necessity' : 'Check Medical Necessity'}</span>
+        {isExpanded
+          ? <ChevronUp className="w-3 h-3 ml-0.5" />
+          : <ChevronDown className="w-3 h-3 ml-0.5" />
+        }
+      </button>
+
+      {/* Expandable Checker */}
+      {isExpanded && (
+        <div className="mt-3 space-y-3 animate-in slide-in-from-top-2 duration-200">
+          {/* Diagnosis Input */}
+          <form onSubmit={handleSubmit} className="flex items-center gap-2">
+            <input
+              type="text"
+              value={diagnosisCode}
+              onChange={event => setDiagnosisCode(event.target.value)}
+              placeholder="Diagnosis code, e.g. E11.9"
+              className="flex-1 min-w-0 px-3 py-1.5 rounded-lg text-xs font-mono border border-indigo-200 dark:border-indigo-800/50 bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 focus:outline-none focus:border-indigo-400"
+            />
+            <button
+              type="submit"
+              disabled={isLoading || !diagnosisCode.trim()}
+              className="flex items-center gap-1 px-2.5 py-1.5 rounded-lg text-xs font-medium bg-indigo-500 text-white hover:bg-indigo-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              {isLoading ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Scale className="w-3.5 h-3.5" />}
+              Check
+            </button>
+          </form>
+
+          {/* Quick Picks */}
+          {quickPicks.length > 0 && (
+            <div className="flex flex-wrap gap-1.5">
+              {quickPicks.map(d => (
+                <button
+                  key={d.code}
+                  type="button"
+                  onClick={() => runCheck(d.code)}
+                  disabled={isLoading}
+                  title={d.name}
+                  className="px-2 py-0.5 rounded-full text-[11px] font-mono border border-indigo-200 dark:border-indigo-800/50 text-indigo-700 dark:text-indigo-300 hover:bg-indigo-50 dark:hover:bg-indigo-900/30 disabled:opacity-50 transition-colors"
+                >
+                  {d.code}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {/* Error */}
+          {error && (
+            <div className="flex items-center gap-1.5 text-xs text-red-600 dark:text-red-400">
+              <AlertCircle className="w-3 h-3" />
+              <span>{error}</span>
+            </div>
+          )}
+
+          {/* Loading */}
+          {isLoading && !result && (
+            <div className="flex items-center gap-2 text-xs text-gray-500 dark:text-gray-400">
+              <Loader2 className="w-3.5 h-3.5 animate-spin" />
+              Checking curated mappings, SNOMED CT and Medicare coverage...
+            </div>
+          )}
+
+          {/* Result */}
+          {result && verdictStyle && (
+            <div className={`space-y-2 ${isLoading ? 'opacity-60' : ''}`}>
+              {/* Verdict */}
+              <div className={`flex items-start gap-2 px-3 py-2 rounded-lg border text-xs ${verdictStyle.className}`}>
+                <verdictStyle.icon className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                <div>
+                  <p>
+                    <span className="font-semibold">{verdictStyle.label}</span>
+                    <span className="font-mono"> · {procedure.code} + {result.icd10Code}</span>
+                  </p>
+                  {result.diagnosisName && <p className="opacity-80">{result.diagnosisName}</p>}
+                  <p className="mt-0.5">{result.summary}</p>
+                </div>
+              </div>
+
+              {/* Evidence */}
+              {result.evidence.length > 0 && (
+                <ul className="space-y-1">
+                  {result.evidence.map((item, idx) => {
+                    const weight = WEIGHT_ICONS[item.weight];
+                    return (
+                      <li
+                        key={`${item.source}-${idx}`}
+                        className="flex items-start gap-2 px-2 py-1.5 rounded border border-gray-100 dark:border-gray-700 bg-white dark:bg-gray-800"
+                      >
+                        <weight.icon className={`w-3.5 h-3.5 mt-0.5 flex-shrink-0 ${weight.className}`} />
+                        <div className="min-w-0 flex-1 text-xs">
+                          <p className="text-gray-900 dark:text-gray-100">
+                            <span className="inline-block px-1.5 mr-1.5 rounded bg-gray-100 dark:bg-gray-700 text-[10px] font-medium text-gray-600 dark:text-gray-300">
+                              {SOURCE_LABELS[item.source]}
+                            </span>
+                            {item.url ? (
+                              <a
+                                href={item.url}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="font-medium hover:text-indigo-600 dark:hover:text-indigo-400"
+                              >
+                                {item.title}
+                                <ExternalLink className="inline w-3 h-3 ml-1" />
+                              </a>
+                            ) : (
+                              <span className="font-medium">{item.title}</span>
+                            )}
+                          </p>
+                          <p className="text-gray-600 dark:text-gray-400 mt-0.5">{item.detail}</p>
+                        </div>
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+
+              {/* Unchecked Sources */}
+              {result.uncheckedSources.length > 0 && (
+                <p className="text-[11px] text-gray-500 dark:text-gray-400">
+                  Not checked: {result.uncheckedSources.join('; ')}
+                </p>
+              )}
+            </div>
+          )}
+
+          {/* Disclaimer */}
+          <p className="text-[11px] text-gray-400 dark:text-gray-500">
+            For reference only — payer policies and clinical documentation determine medical necessity.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default memo(MedicalNecessityChecker);
@@ -0,0 +1,151 @@
+/**
+ * PcsDecoderPanel Component
+ * =========================
+ *
+ * Explains an entered ICD-10-PCS code one character at a time: the axis
+ * each character sits on and what its value means (see decodePcsCode in
+ * icd10pcsTables.ts).
+ *
+ * Used by:
+ * - Home page (when detectCodeType() returns 'icd10pcs')
+ *
+ * FEATURES:
+ * - One row per character: axis title, value label, valid / invalid mark
+ * - The first character that doesn't fit is flagged with the reason
+ *   (not a value of its axis, or not valid with the characters before it)
+ * - Root operation definition for the code's table
+ * - Codes from tables outside the bundled subset: section decoded and the
+ *   ClinicalTables description shown
+ */
+
+'use client';
+
+import { memo } from 'react';
+import { Binary, CheckCircle2, XCircle, AlertTriangle, Circle } from 'lucide-react';
+import { PcsCharacterStatus, PcsDecodeResult, PcsDecodeStatus } from '../types/icd';
+
+// =============================================================================
+// Props Interface
+// =============================================================================
+
+interface PcsDecoderPanelProps {
+  /** Result of decodePcsCode() */
+  result: PcsDecodeResult;
+}
+
+// =============================================================================
+// Styling
+// =============================================================================
+
+/** Banner styling per decode status */
+const STATUS_STYLES: Record<PcsDecodeStatus, { label: string; className: string }> = {
+  valid: {
+    label: 'Valid code',
+    className: 'bg-emerald-50 dark:bg-emerald-900/20 text-emerald-700 dark:text-emerald-400',
+  },
+  invalid: {
+    label: 'Invalid code',
+    className: 'bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-400',
+  },
+  not_bundled: {
+    label: 'Not fully decoded',
+    className: 'bg-amber-50 dark:bg-amber-900/20 text-amber-700 dark:text-amber-400',
+  },
+};
+
+function StatusIcon({ status, className }: { status: PcsCharacterStatus | PcsDecodeStatus; className: string }) {
+  switch (status) {
+    case 'valid': return <CheckCircle2 className={`${className} text-emerald-500`} />;
+    case 'invalid': return <XCircle className={`${className} text-red-500`} />;
+    case 'not_bundled': return <AlertTriangle className={`${className} text-amber-500`} />;
+    default: return <Circle className={`${className} text-gray-300 dark:text-gray-600`} />;
+  }
+}
+
+// =============================================================================
+// Component
+// =============================================================================
+
+function PcsDecoderPanel({ result }: PcsDecoderPanelProps) {
+  const statusStyle = STATUS_STYLES[result.status];
+
+  return (
+    <div className="max-w-2xl mx-auto bg-white dark:bg-gray-800 rounded-2xl border border-gray-200 dark:border-gray-700 shadow-sm overflow-hidden">
+      {/* Header */}
+      <div className="px-5 py-4 border-b border-gray-100 dark:border-gray-700 bg-gray-50/60 dark:bg-gray-900/30">
+        <div className="flex items-center gap-2 text-xs font-semibold text-gray-500 dark:text-gray-400 mb-1">
+          <Binary className="w-3.5 h-3.5 text-teal-600" />
+          ICD-10-PCS decoder
+        </div>
+        <p className="text-gray-900 dark:text-gray-100">
+          <span className="font-mono font-bold">{result.code}</span>
+          {result.description && <span className="ml-2 text-sm">{result.description}</span>}
+        </p>
+      </div>
+
+      {/* Status */}
+      <div className={`flex items-start gap-2 px-5 py-3 text-sm ${statusStyle.className}`}>
+        <StatusIcon status={result.status} className="w-4 h-4 mt-0.5 flex-shrink-0" />
+        <p>
+          <span className="font-semibold">{statusStyle.label}</span> — {result.message}
+        </p>
+      </div>
+
+      {/* Root Operation */}
+      {result.operation && (
+        <div className="px-5 py-3 border-b border-gray-100 dark:border-gray-700">
+          <p className="text-xs text-teal-800 dark:text-teal-200">
+            <span className="font-semibold">{result.operation.label}</span>
+            <span className="text-teal-600 dark:text-teal-400"> · {result.operation.bodySystem}</span>
+          </p>
+          <p className="text-xs text-gray-600 dark:text-gray-400 mt-0.5">{result.operation.definition}</p>
+          {result.operation.examples && (
+            <p className="text-[11px] text-gray-500 mt-0.5">Examples: {result.operation.examples}</p>
+          )}
+        </div>
+      )}
+
+      {/* Characters */}
+      <ol className="divide-y divide-gray-100 dark:divide-gray-700">
+        {result.characters.map(character => (
+          <li
+            key={character.position}
+            className={`flex items-start gap-3 px-5 py-2.5 ${
+              character.status === 'invalid' ? 'bg-red-50/60 dark:bg-red-900/10' : ''
+            }`}
+          >
+            <span className="w-4 pt-0.5 text-[11px] text-gray-400 dark:text-gray-500 text-right">
+              {character.position}
+            </span>
+            <span className={`w-7 h-7 flex-shrink-0 flex items-center justify-center rounded-md border font-mono font-bold text-sm ${
+              character.status === 'invalid'
+                ? 'border-red-300 dark:border-red-800 text-red-600 dark:text-red-400'
+                : 'border-teal-200 dark:border-teal-800 text-teal-700 dark:text-teal-300'
+            }`}>
+              {character.code}
+            </span>
+            <div className="min-w-0 flex-1">
+              <p className="text-[11px] font-medium text-gray-500 dark:text-gray-400">
+                {character.title ?? 'Unknown axis'}
+              </p>
+              <p className={`text-sm ${character.label ? 'text-gray-900 dark:text-gray-100' : 'text-gray-400 dark:text-gray-500'}`}>
+                {character.label ?? (character.status === 'unchecked' ? 'Not decoded' : 'Not a value of this axis')}
+              </p>
+              {character.message && (
+                <p className="text-xs text-red-600 dark:text-red-400 mt-0.5">{character.message}</p>
+              )}
+            </div>
+            <StatusIcon status={character.status} className="w-4 h-4 mt-1 flex-shrink-0" />
+          </li>
+        ))}
+      </ol>
+
+      {/* Source Attribution */}
+      <p className="px-5 py-3 text-[11px] text-gray-400 dark:text-gray-500 border-t border-gray-100 dark:border-gray-700">
+        Decoded from a bundled subset of the CMS ICD-10-PCS tables. Procedure codes are for reference only — verify with institutional coding guidelines.
+      </p>
+    </div>
+  );
+}
+
+export default memo(PcsDecoderPanel);
@@ -13,6 +13,8 @@ import {
   Info,
 } from 'lucide-react';
 import { ProcedureResult } from '../types/icd';
+import AddToEncounterButton from './AddToEncounterButton';
+import MedicalNecessityChecker from './MedicalNecessityChecker';
 
 // ============================================================
 // Props
@@ -20,6 +22,8 @@ import { ProcedureResult } from '../types/icd';
 
 interface ProcedureCardProps {
   procedure: ProcedureResult;
+  /** Diagnosis the procedure was listed for (checked by the medical necessity checker) */
+  diagnosis?: { code: string; name: string };
 }
 
 // ============================================================
@@ -83,6 +87,7 @@ function getCodeSystemLabel(codeSystem: ProcedureResult['codeSystem']) {
     case 'SNOMED': return 'SNOMED CT';
     case 'ICD10PCS': return 'ICD-10-PCS';
     case 'HCPCS': return 'HCPCS Level II';
+    case 'CPT': return 'CPT®';
     default: return codeSystem;
   }
 }
@@ -101,7 +106,7 @@ function getSettingLabel(setting?: string) {
 // Component
 // ============================================================
 
-const ProcedureCard = memo(function ProcedureCard({ procedure }: ProcedureCardProps) {
+const ProcedureCard = memo(function ProcedureCard({ procedure, diagnosis }: ProcedureCardProps) {
   const [expanded, setExpanded] = useState(false);
   const theme = getCategoryTheme(procedure.category);
   const IconComponent = theme.icon;
@@ -155,6 +160,11 @@ const ProcedureCard = memo(function ProcedureCard({ procedure }: ProcedureCardPr
           </div>
         </div>
 
+        {/* Encounter builder toggle */}
+        <div className="flex-shrink-0">
+          <AddToEncounterButton entry={{ kind: 'procedure', item: procedure }} />
+        </div>
+
         {/* Expand/Collapse */}
         <div className="flex-shrink-0 text-gray-400 dark:text-gray-500 group-hover:text-gray-600 dark:group-hover:text-gray-300 transition-colors">
           {expanded ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
@@ -185,11 +195,19 @@ const ProcedureCard = memo(function ProcedureCard({ procedure }: ProcedureCardPr
             <span className="text-gray-500 dark:text-gray-400 font-medium">Source:</span>
             <span className="text-gray-600 dark:text-gray-400 capitalize">
               {procedure.source === 'umls_api' ? 'UMLS API' :
+               procedure.source === 'snomed_rf2' ? 'SNOMED CT Release (RF2)' :
                procedure.source === 'clinicaltables' ? 'ClinicalTables (NLM)' :
                procedure.source === 'ai_generated' ? 'AI Generated' :
+               procedure.source === 'pcs_builder' ? 'PCS Table Builder' :
+               procedure.source === 'cpt_file' ? 'Licensed CPT File (© AMA)' :
                'Curated (Clinical Guidelines)'}
             </span>
           </div>
+
+          {/* Medical Necessity (clicks stay inside, not toggling the card) */}
+          <div className="pt-1" onClick={e => e.stopPropagation()}>
+            <MedicalNecessityChecker procedure={procedure} diagnosis={diagnosis} />
+          </div>
         </div>
       )}
     </div>
@@ -1,14 +1,15 @@
 'use client';
 
 import { memo } from 'react';
-import { Activity, Heart, Stethoscope, Package, Layers } from 'lucide-react';
+import { Activity, Heart, Stethoscope, Package, Layers, FileText } from 'lucide-react';
 import { ProcedureCategory } from '../types/icd';
 
 // ============================================================
 // Types
 // ============================================================
 
-type FilterOption = 'all' | ProcedureCategory;
+/** A category, or 'cpt' for CPT codes (shown only when a licensed CPT file supplied some) */
+type FilterOption = 'all' | ProcedureCategory | 'cpt';
 
 interface ProcedureFilterChipsProps {
   activeFilter: FilterOption;
@@ -57,6 +58,12 @@ const FILTERS: Array<{
     icon: Package,
     activeColors: 'bg-violet-600 text-white border-violet-600 dark:bg-violet-500 dark:border-violet-500',
   },
+  {
+    key: 'cpt',
+    label: 'CPT',
+    icon: FileText,
+    activeColors: 'bg-rose-600 text-white border-rose-600 dark:bg-rose-500 dark:border-rose-500',
+  },
 ];
 
 // ============================================================
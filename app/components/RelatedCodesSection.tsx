@@ -98,6 +98,9 @@ interface RelatedCodesSectionProps {
   
   /** Callback when trials are loaded for a code (for caching) */
   onTrialsLoaded?: (icdCode: string, trials: ClinicalTrialResult[]) => void;
+
+  /** Codes to check each related code against for Excludes1 conflicts */
+  comparedCodes?: string[];
 }
 
 // =============================================================================
@@ -112,6 +115,7 @@ export default function RelatedCodesSection({
   onToggleFavorite,
   onDrugsLoaded,
   onTrialsLoaded,
+  comparedCodes,
 }: RelatedCodesSectionProps) {
   // Collapsed by default to avoid overwhelming the user
   const [isExpanded, setIsExpanded] = useState(false);
@@ -323,6 +327,7 @@ export default function RelatedCodesSection({
                 }
                 onDrugsLoaded={onDrugsLoaded}
                 onTrialsLoaded={onTrialsLoaded}
+                comparedCodes={comparedCodes}
               />
             ))}
           </div>
@@ -11,6 +11,8 @@
  * - ICD code badge with branded colors
  * - Expandable drug section (blue theme)
  * - Expandable trial section (purple theme)
+ * - Tabular coding notes with Excludes1 conflict warning
+ * - Billable/header badge and 7th character builder (local code set)
  * - Loading states and error handling
  * - Cached API responses (won't re-fetch)
  */
@@ -29,8 +31,9 @@ import {
   Star,
   Scissors
 } from 'lucide-react';
-import { DrugResult, ClinicalTrialResult, TrialStatus } from '../types/icd';
+import { DrugResult, ClinicalTrialResult, TrialStatus, CodeValidationResult } from '../types/icd';
 import { ValidatedDrugResult, DRUG_SCORE_THRESHOLDS } from '../lib/drugValidationPipeline';
+import { readDrugValidationStream, mergeStreamedDrug } from '../lib/drugValidationStream';
 import { searchTrialsByCondition } from '../lib/clinicalTrialsApi';
 import DrugCard from './DrugCard';
 import DrugFilterChips from './DrugFilterChips';
@@ -40,7 +43,13 @@ import { ProcedureResult } from '../types/icd';
 import { getCuratedProcedures } from '../lib/conditionProcedureMappings';
 import ProcedureCard from './ProcedureCard';
 import ProcedureFilterChips, { FilterOption } from './ProcedureFilterChips';
+import Icd10PcsBuilder from './Icd10PcsBuilder';
+import CptSearchPanel from './CptSearchPanel';
 import MedicareCoverageSection from './MedicareCoverageSection';
+import InstructionalNotesSection from './InstructionalNotesSection';
+import SeventhCharacterBuilder from './SeventhCharacterBuilder';
+import { validateIcd10Code } from '../lib/icd10Validation';
+import AddToEncounterButton from './AddToEncounterButton';
 
 // =============================================================================
 // Props Interface
@@ -70,8 +79,31 @@ interface ResultCardProps {
   
   /** Phase 6: Callback to toggle favorite status */
   onToggleFavorite?: () => void;
+
+  /** Codes to check for Excludes1 conflicts with this one (e.g., favorites) */
+  comparedCodes?: string[];
 }
 
+/**
+ * Badge shown next to the code for each validation status.
+ * Statuses without an entry (not_found, ...) show no badge, since
+ * the local code set is a subset and can't prove a code is invalid.
+ */
+const VALIDATION_BADGES: Partial<Record<CodeValidationResult['status'], { label: string; className: string }>> = {
+  billable: {
+    label: 'Billable',
+    className: 'bg-emerald-50 dark:bg-emerald-900/20 border-emerald-200 dark:border-emerald-700/50 text-emerald-700 dark:text-emerald-400',
+  },
+  header: {
+    label: 'Header — not billable',
+    className: 'bg-gray-50 dark:bg-gray-800 border-gray-200 dark:border-gray-700 text-gray-600 dark:text-gray-400',
+  },
+  needs_seventh: {
+    label: 'Needs 7th character',
+    className: 'bg-orange-50 dark:bg-orange-900/20 border-orange-200 dark:border-orange-700/50 text-orange-700 dark:text-orange-400',
+  },
+};
+
 // =============================================================================
 // Component
 // =============================================================================
@@ -85,6 +117,7 @@ function ResultCard({
   rank,
   isFavorite = false,
   onToggleFavorite,
+  comparedCodes,
 }: ResultCardProps) {
   // =========================================================================
   // Animation Control - Prevent animation replay on re-renders
@@ -104,6 +137,8 @@ function ResultCard({
   const [drugsError, setDrugsError] = useState<string | null>(null);
   const [drugsExpanded, setDrugsExpanded] = useState(false);
   const [hasFetchedDrugs, setHasFetchedDrugs] = useState(false);
+  /** Streaming progress while drugs load: candidates found / scores received */
+  const [drugProgress, setDrugProgress] = useState<{ candidates: number; scored: number } | null>(null);
   
   // =========================================================================
   // Trial State (Phase 3B)
@@ -125,6 +160,19 @@ function ResultCard({
   const [hasFetchedProcedures, setHasFetchedProcedures] = useState(false);
   const [procedureCategoryFilter, setProcedureCategoryFilter] = useState<FilterOption>('all');
 
+  // =========================================================================
+  // Code Validation State (billable vs. header, 7th character)
+  // =========================================================================
+  const [validation, setValidation] = useState<CodeValidationResult | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    validateIcd10Code(code)
+      .then(result => { if (!cancelled) setValidation(result); })
+      .catch(() => { if (!cancelled) setValidation(null); });
+    return () => { cancelled = true; };
+  }, [code]);
+
   // =========================================================================
   // Trial Filter State (Phase 9: Enhanced Trial Filtering)
   // =========================================================================
@@ -195,6 +243,9 @@ function ResultCard({
    */
   const [selectedDrugForms, setSelectedDrugForms] = useState<string[]>([]);
 
+  /** This condition, passed to DrugCards for the interaction checker (stable for memo) */
+  const drugCondition = useMemo(() => ({ code, name }), [code, name]);
+
   /**
    * Available dosage forms extracted from loaded drugs.
    * Memoized to avoid recalculating on every render.
@@ -254,6 +305,18 @@ function ResultCard({
   // Memoized Drug Filters (calculate once, not multiple times in render)
   // =========================================================================
 
+  /**
+   * The condition's validated drug list, unfiltered: drugs scored at least
+   * off-label, or every drug when none could be scored. DrugCard marks
+   * alternatives that appear here.
+   */
+  const listedDrugs = useMemo(
+    () => drugs.every(d => d.relevanceScore === -1)
+      ? drugs
+      : drugs.filter(d => d.relevanceScore >= DRUG_SCORE_THRESHOLDS.OFF_LABEL),
+    [drugs]
+  );
+
   /**
    * FDA-approved drugs (score >= 7), filtered by dosage form.
    * These are drugs specifically approved for this indication.
@@ -285,6 +348,7 @@ function ResultCard({
 
   const filteredProcedures = useMemo(() => {
     if (procedureCategoryFilter === 'all') return procedures;
+    if (procedureCategoryFilter === 'cpt') return procedures.filter(p => p.codeSystem === 'CPT');
     return procedures.filter(p => p.category === procedureCategoryFilter);
   }, [procedures, procedureCategoryFilter]);
 
@@ -296,11 +360,13 @@ function ResultCard({
       monitoring: 0,
       equipment: 0,
       other: 0,
+      cpt: 0,
     };
     for (const p of procedures) {
       if (p.category in counts) {
         counts[p.category as FilterOption]++;
       }
+      if (p.codeSystem === 'CPT') counts.cpt++;
     }
     return counts;
   }, [procedures]);
@@ -316,6 +382,12 @@ function ResultCard({
    * 
    * Note: We call /api/validate-drugs instead of importing validateDrugs directly
    * because the ANTHROPIC_API_KEY is only available server-side.
+   * 
+   * A ?scorer=rules or ?scorer=compare page parameter is passed through, so
+   * the rule-based scorer can be checked against Claude from the normal UI.
+   * 
+   * The response is streamed: drugs that pass the off-label threshold are
+   * shown as their scores arrive, then replaced by the final ranking.
    */
   const handleToggleDrugs = async () => {
     // Prevent multiple simultaneous requests
@@ -331,17 +403,23 @@ function ResultCard({
     setDrugsLoading(true);
     setDrugsError(null);
     setDrugsExpanded(true);
+    setDrugs([]);
+    setDrugProgress(null);
     
     try {
+      const scorer = new URLSearchParams(window.location.search).get('scorer');
+
       // Call server-side API for AI validation (has access to ANTHROPIC_API_KEY)
       const response = await fetch('/api/validate-drugs', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          'Accept': 'text/event-stream',
         },
         body: JSON.stringify({
           conditionName: name,
           icdCode: code,
+          ...(scorer && { scorer }),
         }),
       });
 
@@ -351,9 +429,17 @@ function ResultCard({
         throw new Error(errorData.error || `Server error: ${response.status}`);
       }
 
-      // Parse response
-      const data = await response.json();
-      const validatedResults: ValidatedDrugResult[] = data.drugs || [];
+      // Read the stream: provisional drugs as they're scored, then the final ranking
+      const validatedResults = await readDrugValidationStream(response, event => {
+        if (event.type === 'candidates') {
+          setDrugProgress({ candidates: event.drugs.length, scored: 0 });
+        } else {
+          setDrugProgress(prev => prev && { ...prev, scored: prev.scored + 1 });
+          if (event.drug.relevanceScore >= DRUG_SCORE_THRESHOLDS.OFF_LABEL) {
+            setDrugs(prev => mergeStreamedDrug(prev, event.drug));
+          }
+        }
+      });
       
       setDrugs(validatedResults);
       setHasFetchedDrugs(true);
@@ -367,6 +453,7 @@ function ResultCard({
       setDrugsError(message);
     } finally {
       setDrugsLoading(false);
+      setDrugProgress(null);
     }
   };
   
@@ -480,6 +567,20 @@ function ResultCard({
     }
   }, [proceduresExpanded, hasFetchedProcedures, code, name]);
 
+  /**
+   * Adds a code built in the PCS builder or found in the CPT search to the
+   * top of the procedure list.
+   */
+  const handleAddProcedure = useCallback((procedure: ProcedureResult) => {
+    setProcedures(prev => [procedure, ...prev.filter(p => p.code !== procedure.code)]);
+    setProcedureCategoryFilter('all');
+  }, []);
+
+  const procedureCodes = useMemo(() => procedures.map(p => p.code), [procedures]);
+
+  // Stable object so memoized ProcedureCards don't re-render
+  const procedureDiagnosis = useMemo(() => ({ code, name }), [code, name]);
+
   // =========================================================================
   // Render
   // =========================================================================
@@ -611,6 +712,26 @@ function ResultCard({
                   </span>
                 </div>
               )}
+
+              {/* Billable / Header Badge (only for codes in the local code set) */}
+              {validation && VALIDATION_BADGES[validation.status] && (
+                <div
+                  className={`
+                    inline-flex
+                    items-center
+                    px-2
+                    py-1
+                    rounded-full
+                    border
+                    text-xs
+                    font-medium
+                    ${VALIDATION_BADGES[validation.status]!.className}
+                  `}
+                  title={validation.message}
+                >
+                  {VALIDATION_BADGES[validation.status]!.label}
+                </div>
+              )}
             </div>
             
             {/* Condition Name */}
@@ -897,6 +1018,21 @@ function ResultCard({
 
         {/* Medicare Coverage (self-contained component) */}
         <MedicareCoverageSection searchTerm={name} />
+
+        {/* Tabular instructional notes + Excludes1 warning (self-contained component) */}
+        <InstructionalNotesSection code={code} comparedCodes={comparedCodes} />
+
+        {/* 7th character builder for S/T codes (self-contained component) */}
+        {validation?.status === 'needs_seventh' && validation.seventhCharacterOptions && (
+          <SeventhCharacterBuilder
+            baseCode={validation.code}
+            baseDescription={validation.description ?? name}
+            options={validation.seventhCharacterOptions}
+          />
+        )}
+
+        {/* Encounter builder toggle */}
+        <AddToEncounterButton entry={{ kind: 'diagnosis', item: { code, name } }} />
       </div>
       
       {/* Expandable Drugs Section (Blue Theme) */}
@@ -914,16 +1050,22 @@ function ResultCard({
           "
         >
           <div className="p-4">
-            {/* Loading State */}
-            {drugsLoading && (
+            {/* Loading State (until the first relevant drug streams in) */}
+            {drugsLoading && drugs.length === 0 && (
               <div className="flex items-center justify-center py-6">
                 <div className="flex flex-col items-center gap-2">
                   <Loader2 className="w-6 h-6 text-blue-500 animate-spin" />
                   <p className="text-sm text-gray-500 dark:text-gray-400">
-                    Validating drug relevance...
+                    {drugProgress
+                      ? `Scoring ${drugProgress.candidates} candidate drugs...`
+                      : 'Validating drug relevance...'
+                    }
                   </p>
                   <p className="text-xs text-gray-400 dark:text-gray-500">
-                    Finding clinically relevant treatments
+                    {drugProgress && drugProgress.scored > 0
+                      ? `${drugProgress.scored} of ${drugProgress.candidates} scored`
+                      : 'Finding clinically relevant treatments'
+                    }
                   </p>
                 </div>
               </div>
@@ -957,9 +1099,19 @@ function ResultCard({
               </div>
             )}
             
-            {/* Drugs List - Categorized by FDA Approval Status */}
-            {!drugsLoading && !drugsError && drugs.length > 0 && (
+            {/* Drugs List - Categorized by FDA Approval Status (provisional while streaming) */}
+            {!drugsError && drugs.length > 0 && (
               <div className="space-y-4">
+                {/* Streaming progress */}
+                {drugsLoading && (
+                  <div className="flex items-center gap-2 text-xs text-gray-500 dark:text-gray-400">
+                    <Loader2 className="w-3.5 h-3.5 text-blue-500 animate-spin" />
+                    <span>
+                      Still scoring{drugProgress ? ` (${drugProgress.scored} of ${drugProgress.candidates})` : ''}; ranking may change
+                    </span>
+                  </div>
+                )}
+
                 {/* Show notice if AI was unavailable */}
                 {drugs.some(d => d.relevanceScore === -1) && (
                   <div className="flex items-center gap-2 p-2 rounded-lg bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800/50">
@@ -970,6 +1122,48 @@ function ResultCard({
                   </div>
                 )}
 
+                {/* Show notice if rule-based scores were used instead of Claude */}
+                {drugs.some(d => d.scoredBy === 'rules') && !drugs.some(d => d.scoreComparison) && (
+                  <div className="flex items-center gap-2 p-2 rounded-lg bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800/50">
+                    <Info className="w-4 h-4 text-amber-600 dark:text-amber-400 flex-shrink-0" />
+                    <span className="text-xs text-amber-700 dark:text-amber-300">
+                      Scored by rules (FDA label, MED-RT, curated list) instead of AI
+                    </span>
+                  </div>
+                )}
+
+                {/* Score comparison (?scorer=compare) */}
+                {drugs.some(d => d.scoreComparison) && (
+                  <div className="rounded-lg border border-gray-200 dark:border-gray-700 overflow-hidden">
+                    <p className="px-3 py-2 text-xs font-semibold text-gray-700 dark:text-gray-300 bg-gray-50 dark:bg-gray-800/50">
+                      Score comparison — AI vs rules
+                    </p>
+                    <table className="w-full text-xs">
+                      <tbody className="divide-y divide-gray-100 dark:divide-gray-800">
+                        {drugs.map((drug, index) => {
+                          const comparison = drug.scoreComparison;
+                          if (!comparison) return null;
+                          // Disagreements that move a drug across a section boundary
+                          const band = (score: number) =>
+                            score >= DRUG_SCORE_THRESHOLDS.FDA_APPROVED ? 2 : score >= DRUG_SCORE_THRESHOLDS.OFF_LABEL ? 1 : 0;
+                          const disagrees = comparison.aiScore !== null && band(comparison.aiScore) !== band(comparison.ruleScore);
+                          return (
+                            <tr key={`compare-${drug.brandName}-${index}`} className={disagrees ? 'bg-amber-50/60 dark:bg-amber-900/10' : ''}>
+                              <td className="px-3 py-1.5 font-medium text-gray-800 dark:text-gray-200">{drug.brandName}</td>
+                              <td className="px-3 py-1.5 text-gray-600 dark:text-gray-400" title={comparison.aiReasoning}>
+                                AI {comparison.aiScore ?? '—'}
+                              </td>
+                              <td className="px-3 py-1.5 text-gray-600 dark:text-gray-400" title={comparison.ruleReasoning}>
+                                Rules {comparison.ruleScore}
+                              </td>
+                            </tr>
+                          );
+                        })}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+
                 {/* Dosage Form Filter Chips */}
                 <DrugFilterChips
                   availableForms={availableDrugForms}
@@ -1015,6 +1209,8 @@ function ResultCard({
                           key={`fda-${drug.brandName}-${index}`} 
                           drug={drug} 
                           badgeType="fda-approved"
+                          condition={drugCondition}
+                          listedDrugs={listedDrugs}
                         />
                       ))}
                     </div>
@@ -1042,6 +1238,8 @@ function ResultCard({
                           key={`offlabel-${drug.brandName}-${index}`} 
                           drug={drug} 
                           badgeType="off-label"
+                          condition={drugCondition}
+                          listedDrugs={listedDrugs}
                         />
                       ))}
                     </div>
@@ -1057,7 +1255,7 @@ function ResultCard({
                     </p>
                     <div className="grid gap-2 sm:grid-cols-1">
                       {filterDrugsByForm(drugs).map((drug, index) => (
-                        <DrugCard key={`unscored-${drug.brandName}-${index}`} drug={drug} />
+                        <DrugCard key={`unscored-${drug.brandName}-${index}`} drug={drug} condition={drugCondition} listedDrugs={listedDrugs} />
                       ))}
                     </div>
                   </div>
@@ -1100,8 +1298,8 @@ function ResultCard({
               </div>
             )}
 
-            {/* Results */}
-            {!proceduresLoading && !proceduresError && procedures.length > 0 && (
+            {/* Results (built codes are listed even after a failed fetch) */}
+            {!proceduresLoading && procedures.length > 0 && (
               <div className="space-y-3">
                 {/* Header + Filter Chips */}
                 <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
@@ -1119,16 +1317,24 @@ function ResultCard({
                 {/* Procedure Cards */}
                 <div className="space-y-2">
                   {filteredProcedures.map((proc, idx) => (
-                    <ProcedureCard key={`${proc.code}-${idx}`} procedure={proc} />
+                    <ProcedureCard key={`${proc.code}-${idx}`} procedure={proc} diagnosis={procedureDiagnosis} />
                   ))}
                 </div>
 
                 {/* Source Attribution */}
                 <p className="text-[11px] text-gray-400 dark:text-gray-500 pt-2 border-t border-teal-100 dark:border-teal-900">
-                  Sources: Curated clinical guidelines, SNOMED CT, ICD-10-PCS, HCPCS Level II. Procedure codes are for reference only — verify with institutional coding guidelines.
+                  Sources: Curated clinical guidelines, SNOMED CT, ICD-10-PCS, HCPCS Level II{procedureCategoryCounts.cpt > 0 && ', CPT® (licensed file; © American Medical Association)'}. Procedure codes are for reference only — verify with institutional coding guidelines.
                 </p>
               </div>
             )}
+
+            {/* ICD-10-PCS Table Builder and CPT Search (licensed file only) */}
+            {!proceduresLoading && (
+              <>
+                <Icd10PcsBuilder onAdd={handleAddProcedure} existingCodes={procedureCodes} />
+                <CptSearchPanel onAdd={handleAddProcedure} existingCodes={procedureCodes} />
+              </>
+            )}
           </div>
         </div>
       )}
@@ -22,14 +22,24 @@
  * - NIH Conditions API fallback (cached 24hr)
  * - Keyboard navigation (↑↓ Enter Esc)
  * - Source transparency ([Local] vs [NIH])
+ * 
+ * ALPHABETIC INDEX MODE:
+ * - Toggle between free-text search and the ICD-10-CM Alphabetic Index
+ * - IndexNavigator walks main term → subterms to a suggested code
+ * - The code is verified in the Tabular List, then searched like any code
+ * 
+ * DRUG MODE:
+ * - Search by drug name (brand or generic) for the conditions it treats
+ * - Submits through onDrugSearch; only offered when the page handles it
  */
 
 'use client';
 
 import { useState, useRef, useEffect, useCallback } from 'react';
-import { Search, Loader2, Clock, Info } from 'lucide-react';
+import { Search, Loader2, Clock, Info, BookOpen, Pill } from 'lucide-react';
 import { useAutocomplete, type AutocompleteSuggestion } from '../hooks/useAutocomplete';
 import AutocompleteDropdown from './AutocompleteDropdown';
+import IndexNavigator from './IndexNavigator';
 
 // =============================================================================
 // Props Interface
@@ -37,23 +47,30 @@ import AutocompleteDropdown from './AutocompleteDropdown';
 
 interface SearchBarProps {
   onSearch: (query: string) => void;
+  /** Drug name search (conditions a drug treats); enables the Drug mode */
+  onDrugSearch?: (drugName: string) => void;
   isLoading?: boolean;
   recentSearches?: string[];  // Array of recent search terms
   /** Whether to auto-trigger search when selecting from autocomplete (default: false) */
   autoSearchOnSelect?: boolean;
 }
 
+/** Free-text search (default), Alphabetic Index navigation or drug → conditions */
+type SearchMode = 'search' | 'index' | 'drug';
+
 // =============================================================================
 // Component
 // =============================================================================
 
 export default function SearchBar({ 
   onSearch, 
+  onDrugSearch,
   isLoading = false,
   recentSearches = [],
   autoSearchOnSelect = false
 }: SearchBarProps) {
   const [showTooltip, setShowTooltip] = useState(false);
+  const [mode, setMode] = useState<SearchMode>('search');
   const tooltipRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
   const blurTimeoutRef = useRef<NodeJS.Timeout | null>(null);
@@ -98,6 +115,8 @@ export default function SearchBar({
     maxLocalResults: 5,
     maxNihResults: 5,
     nihTriggerThreshold: 3,
+    // Condition suggestions only; the Alphabetic Index mode shows IndexNavigator instead
+    enabled: mode === 'search',
   });
   
   // ==========================================================================
@@ -132,11 +151,34 @@ export default function SearchBar({
     e.preventDefault();
     clearSuggestions();
     const trimmedQuery = query.trim();
-    if (trimmedQuery) {
+    if (!trimmedQuery) return;
+    if (mode === 'drug' && onDrugSearch) {
+      onDrugSearch(trimmedQuery);
+    } else {
       onSearch(trimmedQuery);
     }
   };
   
+  /**
+   * Run a condition search from a recent/suggested term. Leaves drug mode,
+   * since those terms are conditions.
+   */
+  const runConditionSearch = (term: string) => {
+    if (mode === 'drug') setMode('search');
+    setQuery(term);
+    onSearch(term);
+  };
+  
+  /**
+   * Handle a code chosen in the Alphabetic Index: switch back to normal
+   * search mode and look the code up like any typed code.
+   */
+  const handleIndexCodeSelect = useCallback((code: string) => {
+    setMode('search');
+    setQuery(code);
+    onSearch(code);
+  }, [onSearch, setQuery]);
+  
   /**
    * Handle input change - delegates to autocomplete hook.
    */
@@ -184,6 +226,45 @@ export default function SearchBar({
   
   return (
     <form onSubmit={handleSubmit} className="w-full">
+      {/* Search Mode Toggle */}
+      <div className="flex justify-center gap-1 mb-3" role="radiogroup" aria-label="Search mode">
+        {([
+          { value: 'search', label: 'Search', icon: Search },
+          { value: 'index', label: 'Alphabetic Index', icon: BookOpen },
+          ...(onDrugSearch ? [{ value: 'drug', label: 'Drug', icon: Pill }] as const : []),
+        ] as const).map(({ value, label, icon: Icon }) => (
+          <button
+            key={value}
+            type="button"
+            role="radio"
+            aria-checked={mode === value}
+            onClick={() => {
+              setMode(value);
+              clearSuggestions();
+            }}
+            className={`
+              inline-flex
+              items-center
+              gap-1.5
+              px-3
+              py-1
+              rounded-full
+              text-xs
+              font-semibold
+              transition-colors
+              duration-200
+              ${mode === value
+                ? 'bg-[#1976D2] text-white'
+                : 'bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700'
+              }
+            `}
+          >
+            <Icon className="w-3.5 h-3.5" />
+            {label}
+          </button>
+        ))}
+      </div>
+      
       {/* Search Input Container */}
       <div className="flex flex-col sm:flex-row gap-3">
         {/* Input Wrapper with Icon and Autocomplete Dropdown */}
@@ -202,11 +283,15 @@ export default function SearchBar({
             onKeyDown={handleInputKeyDown}
             onBlur={handleInputBlur}
             onFocus={handleInputFocus}
-            placeholder="Search (e.g., heart attack, diabetes, I21.9)"
+            placeholder={mode === 'index'
+              ? 'Index main term (e.g., diabetes type 2 nephropathy)'
+              : mode === 'drug'
+                ? 'Drug name (e.g., semaglutide, Ozempic, lisinopril)'
+                : 'Search (e.g., heart attack, diabetes, I21.9)'}
             disabled={isLoading}
             autoComplete="off"
             role="combobox"
-            aria-expanded={showDropdown}
+            aria-expanded={mode === 'search' && showDropdown}
             aria-haspopup="listbox"
             aria-controls="autocomplete-listbox"
             aria-activedescendant={
@@ -251,8 +336,8 @@ export default function SearchBar({
             "
           />
           
-          {/* Autocomplete Dropdown */}
-          {showDropdown && (
+          {/* Autocomplete Dropdown (free-text mode only) */}
+          {mode === 'search' && showDropdown && (
             <AutocompleteDropdown
               suggestions={suggestions}
               isLoading={isAutocompleteLoading}
@@ -320,6 +405,22 @@ export default function SearchBar({
                       Search directly with &ldquo;myocardial infarction&rdquo; or &ldquo;fracture&rdquo;
                     </span>
                   </li>
+                  <li className="flex items-start gap-2">
+                    <span className="text-[#1976D2] font-bold">•</span>
+                    <span>
+                      <strong className="text-gray-700 dark:text-gray-300">Alphabetic Index:</strong>{' '}
+                      Walk main term → subterms like a coder (&ldquo;diabetes, type 2, with, nephropathy&rdquo;)
+                    </span>
+                  </li>
+                  {onDrugSearch && (
+                    <li className="flex items-start gap-2">
+                      <span className="text-[#1976D2] font-bold">•</span>
+                      <span>
+                        <strong className="text-gray-700 dark:text-gray-300">Drugs:</strong>{' '}
+                        Switch to Drug mode to see the conditions a drug treats (&ldquo;semaglutide&rdquo;)
+                      </span>
+                    </li>
+                  )}
                   <li className="flex items-start gap-2">
                     <span className="text-[#1976D2] font-bold">•</span>
                     <span>
@@ -397,6 +498,11 @@ export default function SearchBar({
         </button>
       </div>
       
+      {/* Alphabetic Index Navigator */}
+      {mode === 'index' && (
+        <IndexNavigator query={query} onSelectCode={handleIndexCodeSelect} />
+      )}
+      
       {/* Suggestions Section */}
       <div className="mt-4 space-y-3">
         {/* Recent Searches - Only show if there are recent searches */}
@@ -410,10 +516,7 @@ export default function SearchBar({
               <button
                 key={term}
                 type="button"
-                onClick={() => {
-                  setQuery(term);
-                  onSearch(term);  // Immediately search when clicking recent
-                }}
+                onClick={() => runConditionSearch(term)}
                 className="
                   px-3.5
                   py-1.5
@@ -449,14 +552,14 @@ export default function SearchBar({
           {/* Common terms (will be translated) */}
           <button 
             type="button"
-            onClick={() => { setQuery('diabetes'); onSearch('diabetes'); }}
+            onClick={() => runConditionSearch('diabetes')}
             className="px-3 py-1 rounded-full bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors cursor-pointer"
           >
             diabetes
           </button>
           <button 
             type="button"
-            onClick={() => { setQuery('heart failure'); onSearch('heart failure'); }}
+            onClick={() => runConditionSearch('heart failure')}
             className="px-3 py-1 rounded-full bg-blue-50 dark:bg-blue-900/30 text-blue-600 dark:text-blue-400 hover:bg-blue-100 dark:hover:bg-blue-900/50 transition-colors cursor-pointer"
             title="Translates to: congestive heart failure"
           >
@@ -464,21 +567,21 @@ export default function SearchBar({
           </button>
           <button 
             type="button"
-            onClick={() => { setQuery('COPD'); onSearch('COPD'); }}
+            onClick={() => runConditionSearch('COPD')}
             className="px-3 py-1 rounded-full bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors cursor-pointer"
           >
             COPD
           </button>
           <button 
             type="button"
-            onClick={() => { setQuery('breast cancer'); onSearch('breast cancer'); }}
+            onClick={() => runConditionSearch('breast cancer')}
             className="px-3 py-1 rounded-full bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors cursor-pointer"
           >
             breast cancer
           </button>
           <button 
             type="button"
-            onClick={() => { setQuery('chronic kidney disease'); onSearch('chronic kidney disease'); }}
+            onClick={() => runConditionSearch('chronic kidney disease')}
             className="px-3 py-1 rounded-full bg-blue-50 dark:bg-blue-900/30 text-blue-600 dark:text-blue-400 hover:bg-blue-100 dark:hover:bg-blue-900/50 transition-colors cursor-pointer"
             title="Translates to: chronic renal failure"
           >
@@ -12,6 +12,7 @@
  * - Favorites support
  * - Category grouping by ICD-10 chapter (Phase 7)
  * - Expand/Collapse all controls
+ * - Drug search: conditions a drug treats, with the resolved drug and its indications
  */
 
 'use client';
@@ -29,9 +30,11 @@ import {
   ChevronsUpDown,
   ChevronsDownUp,
   Target,
-  AlertTriangle
+  AlertTriangle,
+  HardDrive,
+  Pill
 } from 'lucide-react';
-import { ScoredICD10Result, DrugResult, ClinicalTrialResult, TranslationResult, FavoriteICD, GroupedSearchResults } from '../types/icd';
+import { ScoredICD10Result, DrugResult, ClinicalTrialResult, TranslationResult, FavoriteICD, GroupedSearchResults, ICD10DataSource, DrugConditionSearchResult } from '../types/icd';
 import ResultCard from './ResultCard';
 import CategorySection from './CategorySection';
 import ChapterFilterDropdown from './ChapterFilterDropdown';
@@ -95,6 +98,82 @@ function TranslationBadge({ translation }: TranslationBadgeProps) {
   );
 }
 
+// =============================================================================
+// Drug Search Badge Component
+// =============================================================================
+
+interface DrugSearchBadgeProps {
+  drugSearch: DrugConditionSearchResult;
+}
+
+const INDICATION_SOURCE_LABELS = {
+  curated: 'Curated',
+  medrt: 'MED-RT',
+} as const;
+
+function DrugSearchBadge({ drugSearch }: DrugSearchBadgeProps) {
+  const { drug, indications } = drugSearch;
+  if (!drug) return null;
+  
+  return (
+    <div className="
+      mb-4
+      p-3
+      rounded-xl
+      bg-gradient-to-r from-teal-50 to-emerald-50
+      dark:from-teal-900/20 dark:to-emerald-900/20
+      border border-teal-200/50
+      dark:border-teal-800/50
+      animate-in fade-in slide-in-from-top-2
+      duration-300
+    ">
+      <div className="flex items-start gap-3">
+        <div className="
+          flex-shrink-0
+          w-8 h-8
+          rounded-lg
+          bg-teal-100 dark:bg-teal-800/30
+          flex items-center justify-center
+        ">
+          <Pill className="w-4 h-4 text-teal-600 dark:text-teal-400" />
+        </div>
+        
+        <div className="flex-1 min-w-0">
+          <p className="text-sm text-gray-700 dark:text-gray-300">
+            Conditions treated by{' '}
+            <span className="font-semibold text-teal-700 dark:text-teal-300">
+              {drug.brandName}
+            </span>
+            {drug.genericName.toLowerCase() !== drug.brandName.toLowerCase() && (
+              <span className="text-gray-500 dark:text-gray-400"> ({drug.genericName})</span>
+            )}
+          </p>
+          <p className="text-xs text-gray-500 dark:text-gray-400 mt-0.5">
+            You searched: &ldquo;{drugSearch.query}&rdquo; • RxCUI {drug.rxcui}
+          </p>
+          
+          {indications.length > 0 && (
+            <ul className="mt-2 flex flex-wrap gap-1.5">
+              {indications.map(indication => (
+                <li
+                  key={indication.condition}
+                  className="inline-flex items-center gap-1.5 px-2 py-0.5 rounded-full bg-white/70 dark:bg-gray-800/60 border border-teal-200/60 dark:border-teal-800/50 text-xs text-gray-700 dark:text-gray-300"
+                  title={indication.codes.length > 0 ? `ICD-10-CM: ${indication.codes.join(', ')}` : 'No matching ICD-10-CM code'}
+                >
+                  <span className="capitalize">{indication.condition}</span>
+                  <span className="text-[10px] font-semibold text-teal-600 dark:text-teal-400">
+                    {indication.sources.map(source => INDICATION_SOURCE_LABELS[source]).join(' + ')}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
 // =============================================================================
 // Skeleton Card Component
 // =============================================================================
@@ -155,6 +234,13 @@ interface SearchResultsProps {
   // Phase 5: Translation metadata for displaying translation notice
   translation?: TranslationResult;
   
+  // Drug search: the resolved drug and its indications (results are its conditions)
+  drugSearch?: DrugConditionSearchResult | null;
+  
+  // Offline data: which source answered and the bundled dataset version label
+  dataSource?: ICD10DataSource;
+  dataVersion?: string;
+  
   // Phase 6: Favorites functionality
   favorites?: FavoriteICD[];
   favoritesMap?: Map<string, FavoriteICD>;
@@ -197,6 +283,9 @@ export default function SearchResults({
   onLoadMore,
   isLoadingMore = false,
   translation,
+  drugSearch = null,
+  dataSource,
+  dataVersion,
   // Phase 6: Favorites props
   favorites = [],
   favoritesMap = new Map(),
@@ -439,6 +528,12 @@ export default function SearchResults({
     if (isFavorited) return isFavorited(code);
     return favoritesMap.has(code);
   }, [isFavorited, favoritesMap]);
+
+  /**
+   * Favorited codes, passed to each ResultCard so it can warn about
+   * Excludes1 conflicts between the result and a saved code.
+   */
+  const favoriteCodes = useMemo(() => favorites.map(f => f.code), [favorites]);
   
   /**
    * Toggle favorite for a result in grouped view.
@@ -525,17 +620,29 @@ export default function SearchResults({
             No Results Found
           </h3>
           <p className="text-gray-500 dark:text-gray-400 text-sm mb-4">
-            We couldn&apos;t find any ICD-10 codes matching your search.
+            {!drugSearch
+              ? "We couldn't find any ICD-10 codes matching your search."
+              : drugSearch.drug
+                ? `No indications with ICD-10 codes were found for ${drugSearch.drug.genericName}.`
+                : `"${drugSearch.query}" wasn't found in RxNorm.`}
           </p>
           <div className="text-left bg-white dark:bg-gray-800 rounded-xl p-4 border border-gray-100 dark:border-gray-700">
             <p className="text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wide mb-2">
               Search Tips
             </p>
-            <ul className="text-sm text-gray-600 dark:text-gray-300 space-y-1">
-              <li>• Try a different spelling</li>
-              <li>• Use broader terms (e.g., &quot;diabetes&quot; instead of &quot;diabetic&quot;)</li>
-              <li>• Search by ICD-10 code directly (e.g., &quot;E11&quot;)</li>
-            </ul>
+            {drugSearch ? (
+              <ul className="text-sm text-gray-600 dark:text-gray-300 space-y-1">
+                <li>• Check the spelling of the drug name</li>
+                <li>• Try the generic name (e.g., &quot;semaglutide&quot; instead of &quot;Ozempic&quot;)</li>
+                <li>• Search a single ingredient of a combination product</li>
+              </ul>
+            ) : (
+              <ul className="text-sm text-gray-600 dark:text-gray-300 space-y-1">
+                <li>• Try a different spelling</li>
+                <li>• Use broader terms (e.g., &quot;diabetes&quot; instead of &quot;diabetic&quot;)</li>
+                <li>• Search by ICD-10 code directly (e.g., &quot;E11&quot;)</li>
+              </ul>
+            )}
           </div>
         </div>
       </div>
@@ -608,6 +715,16 @@ export default function SearchResults({
                 Code Lookup
               </span>
             )}
+            {/* Offline: results answered by the bundled ICD-10-CM data file */}
+            {dataSource === 'local' && (
+              <span
+                className="ml-2 inline-flex items-center gap-1 text-xs font-normal text-amber-700 bg-amber-100 dark:bg-amber-900/30 dark:text-amber-400 px-2 py-0.5 rounded-full"
+                title="ClinicalTables was unavailable or disabled — results come from the bundled code set, which may not include every code"
+              >
+                <HardDrive className="w-3 h-3" />
+                Offline{dataVersion ? ` • ${dataVersion}` : ''}
+              </span>
+            )}
           </h3>
           <p className="text-sm text-gray-500 dark:text-gray-400">
             {/* Phase 10: Special message for specific code search */}
@@ -750,6 +867,11 @@ export default function SearchResults({
         <TranslationBadge translation={translation} />
       )}
       
+      {/* Drug search: which drug the name resolved to and where its indications came from */}
+      {drugSearch && (
+        <DrugSearchBadge drugSearch={drugSearch} />
+      )}
+      
       {/* ================================================================= */}
       {/* Phase 10: Specific Code Search View (Related Codes) */}
       {/* ================================================================= */}
@@ -795,6 +917,7 @@ export default function SearchResults({
                   rank={1}
                   isFavorite={isFavorited ? isFavorited(exactMatch.code) : favoritesMap.has(exactMatch.code)}
                   onToggleFavorite={onToggleFavorite ? () => onToggleFavorite(exactMatch) : undefined}
+                  comparedCodes={favoriteCodes}
                 />
               </div>
             </div>
@@ -830,6 +953,7 @@ export default function SearchResults({
             onToggleFavorite={handleToggleFavoriteGrouped}
             onDrugsLoaded={onDrugsLoaded}
             onTrialsLoaded={onTrialsLoaded}
+            comparedCodes={favoriteCodes}
           />
         </div>
       ) : (
@@ -857,6 +981,7 @@ export default function SearchResults({
                     isFavorite={checkIsFavorite}
                     onDrugsLoaded={onDrugsLoaded}
                     onTrialsLoaded={onTrialsLoaded}
+                    comparedCodes={favoriteCodes}
                   />
                 </div>
               ))}
@@ -883,6 +1008,7 @@ export default function SearchResults({
                       // Phase 6: Favorites props
                       isFavorite={isFavorited ? isFavorited(result.code) : favoritesMap.has(result.code)}
                       onToggleFavorite={onToggleFavorite ? () => onToggleFavorite(result) : undefined}
+                      comparedCodes={favoriteCodes}
                     />
                   </div>
                 );
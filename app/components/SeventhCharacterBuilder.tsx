@@ -0,0 +1,200 @@
+/**
+ * SeventhCharacterBuilder Component
+ * =================================
+ *
+ * Interactive helper for categories that require a 7th character
+ * (mostly S/T injury codes). Renders its own trigger button and an
+ * expandable picker, like MedicareCoverageSection.
+ *
+ * Used by:
+ * - ResultCard (when validateIcd10Code returns 'needs_seventh')
+ *
+ * FEATURES:
+ * - One chip per 7th character defined for the category (A/D/S, fracture set, ...)
+ * - Pads with placeholder "X" automatically (T78.40 + A → T78.40XA)
+ * - Highlights the placeholder and 7th character in the built code
+ * - Copies the finished code to the clipboard
+ */
+
+'use client';
+
+import { useState, useCallback, memo } from 'react';
+import {
+  ChevronUp,
+  ChevronDown,
+  Wand2,
+  Copy,
+  Check
+} from 'lucide-react';
+import { SeventhCharacterOption } from '../types/icd';
+import { buildSeventhCharacterCode, PLACEHOLDER_CHARACTER } from '../lib/icd10Validation';
+
+// =============================================================================
+// Props Interface
+// =============================================================================
+
+interface SeventhCharacterBuilderProps {
+  /** The 6-or-fewer character code that needs a 7th character */
+  baseCode: string;
+
+  /** The code's description (7th character meaning is appended) */
+  baseDescription: string;
+
+  /** Allowed 7th characters for the category */
+  options: SeventhCharacterOption[];
+}
+
+// =============================================================================
+// Component
+// =============================================================================
+
+function SeventhCharacterBuilder({ baseCode, baseDescription, options }: SeventhCharacterBuilderProps) {
+  // =========================================================================
+  // State
+  // =========================================================================
+  const [builderExpanded, setBuilderExpanded] = useState(false);
+  const [selected, setSelected] = useState<SeventhCharacterOption | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const builtCode = selected ? buildSeventhCharacterCode(baseCode, selected.char) : null;
+  // Number of placeholder X's inserted between the base code and the 7th character
+  const placeholderCount = Math.max(0, 6 - baseCode.replace('.', '').length);
+
+  // =========================================================================
+  // Handler
+  // =========================================================================
+
+  const handleCopy = useCallback(async () => {
+    if (!builtCode) return;
+    try {
+      await navigator.clipboard.writeText(builtCode);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error('[7thChar] Copy failed:', err);
+    }
+  }, [builtCode]);
+
+  // =========================================================================
+  // Render
+  // =========================================================================
+
+  return (
+    <>
+      {/* 7th Character Button (Orange) */}
+      <button
+        type="button"
+        onClick={() => setBuilderExpanded(prev => !prev)}
+        className={`
+          flex
+          items-center
+          gap-1.5
+          px-3
+          py-1.5
+          rounded-lg
+          text-xs
+          font-medium
+          transition-all
+          duration-200
+          ${builderExpanded
+            ? 'bg-orange-500 text-white hover:bg-orange-600'
+            : 'bg-orange-50 dark:bg-orange-900/30 text-orange-700 dark:text-orange-400 hover:bg-orange-100 dark:hover:bg-orange-900/50'
+          }
+        `}
+      >
+        <Wand2 className="w-3.5 h-3.5" />
+        <span>{builderExpanded ? 'Hide Builder' : 'Add 7th Character'}</span>
+        {builderExpanded
+          ? <ChevronUp className="w-3 h-3 ml-0.5" />
+          : <ChevronDown className="w-3 h-3 ml-0.5" />
+        }
+      </button>
+
+      {/* Expandable Builder Section (Orange Theme) */}
+      {builderExpanded && (
+        <div
+          className="
+            basis-full
+            w-full
+            order-last
+            -mx-5
+            mt-2
+            -mb-4
+            border-t
+            border-orange-100
+            dark:border-orange-900/30
+            bg-orange-50/50
+            dark:bg-orange-900/10
+            animate-in
+            slide-in-from-top-2
+            duration-200
+          "
+        >
+          <div className="p-4 space-y-3">
+            <p className="text-xs text-gray-600 dark:text-gray-400">
+              <span className="font-mono font-bold">{baseCode}</span> is not billable until a 7th character is added
+              {placeholderCount > 0 && (
+                <> — {placeholderCount} placeholder <span className="font-mono font-bold">{PLACEHOLDER_CHARACTER}</span> will be inserted</>
+              )}.
+            </p>
+
+            {/* 7th Character Options */}
+            <div className="flex flex-wrap gap-2">
+              {options.map(option => (
+                <button
+                  key={option.char}
+                  type="button"
+                  onClick={() => setSelected(option)}
+                  title={option.description}
+                  className={`
+                    flex items-center gap-1.5
+                    px-2.5 py-1.5
+                    rounded-lg
+                    text-xs
+                    border
+                    transition-colors
+                    ${selected?.char === option.char
+                      ? 'bg-orange-500 border-orange-500 text-white'
+                      : 'bg-white dark:bg-gray-800 border-orange-200 dark:border-orange-800/50 text-gray-700 dark:text-gray-300 hover:border-orange-400'
+                    }
+                  `}
+                >
+                  <span className="font-mono font-bold">{option.char}</span>
+                  <span className="max-w-[14rem] truncate">{option.description}</span>
+                </button>
+              ))}
+            </div>
+
+            {/* Built Code */}
+            {builtCode && selected && (
+              <div className="flex items-center justify-between gap-3 p-3 rounded-lg bg-white dark:bg-gray-800 border border-orange-200 dark:border-orange-800/50">
+                <div className="min-w-0">
+                  <p className="font-mono font-bold text-sm text-gray-900 dark:text-gray-100">
+                    {baseCode}
+                    {placeholderCount > 0 && (
+                      <span className="text-orange-400">{PLACEHOLDER_CHARACTER.repeat(placeholderCount)}</span>
+                    )}
+                    <span className="text-orange-600 dark:text-orange-400">{selected.char}</span>
+                  </p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                    {baseDescription}, {selected.description}
+                  </p>
+                </div>
+                <button
+                  type="button"
+                  onClick={handleCopy}
+                  className="flex-shrink-0 flex items-center gap-1 px-2.5 py-1.5 rounded-lg text-xs font-medium bg-orange-100 dark:bg-orange-900/30 text-orange-700 dark:text-orange-400 hover:bg-orange-200 dark:hover:bg-orange-900/50 transition-colors"
+                >
+                  {copied ? <Check className="w-3.5 h-3.5" /> : <Copy className="w-3.5 h-3.5" />}
+                  {copied ? 'Copied' : 'Copy'}
+                </button>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
+
+export default memo(SeventhCharacterBuilder);
@@ -0,0 +1,348 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import Image from 'next/image';
+import {
+  ArrowLeft,
+  ArrowUp,
+  ArrowDown,
+  ClipboardList,
+  Crown,
+  Download,
+  Trash2,
+  X,
+  AlertCircle,
+  AlertTriangle,
+  Info,
+  CheckCircle2,
+  Loader2,
+} from 'lucide-react';
+import { EncounterIssue, EncounterItem } from '../types/icd';
+import { useEncounter } from '../hooks/useEncounter';
+import { countEncounterItems } from '../lib/encounterStorage';
+import { checkEncounterSequencing, exportEncounterClaim } from '../lib/encounterRules';
+
+/** Styling per issue severity */
+const ISSUE_STYLES: Record<EncounterIssue['severity'], { icon: typeof Info; className: string }> = {
+  error: {
+    icon: AlertCircle,
+    className: 'bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-800/50 text-red-700 dark:text-red-400',
+  },
+  warning: {
+    icon: AlertTriangle,
+    className: 'bg-amber-50 dark:bg-amber-900/20 border-amber-200 dark:border-amber-800/50 text-amber-700 dark:text-amber-400',
+  },
+  info: {
+    icon: Info,
+    className: 'bg-blue-50 dark:bg-blue-900/20 border-blue-200 dark:border-blue-800/50 text-blue-700 dark:text-blue-400',
+  },
+};
+
+/** A removable row in one of the non-diagnosis sections */
+function ItemRow({ code, label, detail, entry, onRemove }: {
+  code: string;
+  label: string;
+  detail?: string;
+  entry: EncounterItem;
+  onRemove: (entry: EncounterItem) => void;
+}) {
+  return (
+    <div className="flex items-center justify-between gap-3 px-5 py-3">
+      <div className="flex items-center gap-3 min-w-0">
+        <span className="flex-shrink-0 px-2.5 py-1 rounded-lg bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300 text-xs font-mono font-bold">
+          {code}
+        </span>
+        <div className="min-w-0">
+          <span className="block text-sm text-gray-900 dark:text-white truncate">{label}</span>
+          {detail && <span className="block text-xs text-gray-400 dark:text-gray-500">{detail}</span>}
+        </div>
+      </div>
+      <button
+        type="button"
+        onClick={() => onRemove(entry)}
+        className="flex-shrink-0 p-1.5 rounded-lg text-gray-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors"
+        aria-label={`Remove ${code}`}
+      >
+        <X className="w-4 h-4" />
+      </button>
+    </div>
+  );
+}
+
+export default function EncounterPage() {
+  const { encounter, remove, move, clear } = useEncounter();
+
+  // Sequencing issues for the current encounter
+  const [issues, setIssues] = useState<EncounterIssue[]>([]);
+  const [checkedAt, setCheckedAt] = useState<string | null>(null);
+  const isChecking = checkedAt !== encounter.updatedAt;
+
+  // Re-check whenever the encounter changes
+  useEffect(() => {
+    let cancelled = false;
+    checkEncounterSequencing(encounter)
+      .then(result => {
+        if (!cancelled) {
+          setIssues(result);
+          setCheckedAt(encounter.updatedAt);
+        }
+      })
+      .catch(err => console.error('[Encounter] Sequencing check failed:', err));
+    return () => { cancelled = true; };
+  }, [encounter]);
+
+  const handleExport = useCallback(() => {
+    const claim = exportEncounterClaim(encounter, issues);
+    const blob = new Blob([JSON.stringify(claim, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `claim-${encounter.id}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }, [encounter, issues]);
+
+  const itemCount = countEncounterItems(encounter);
+  const errorCount = issues.filter(i => i.severity === 'error').length;
+  const issuesFor = (code: string) => issues.filter(i => i.codes.includes(code) && i.severity !== 'info');
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-950">
+      {/* ── Header ── */}
+      <header className="sticky top-0 z-40 bg-white/80 dark:bg-gray-900/80 backdrop-blur-xl border-b border-gray-200/50 dark:border-gray-800/50">
+        <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-3 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <Link
+              href="/"
+              className="inline-flex items-center gap-1.5 text-sm text-gray-500 hover:text-indigo-600 dark:text-gray-400 dark:hover:text-indigo-400 transition-colors"
+            >
+              <ArrowLeft className="w-4 h-4" />
+              Back to Search
+            </Link>
+          </div>
+          <Link href="/" className="flex items-center gap-2">
+            <Image
+              src="/medcodemap-svg.svg"
+              alt="MedCodeMap"
+              width={28}
+              height={28}
+              className="rounded-lg"
+            />
+            <span className="font-display text-lg font-bold text-gray-900 dark:text-white">
+              MedCodeMap
+            </span>
+          </Link>
+        </div>
+      </header>
+
+      <main className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* ── Page Title ── */}
+        <div className="text-center mb-8">
+          <div className="inline-flex items-center gap-2 px-3 py-1.5 rounded-full bg-indigo-50 dark:bg-indigo-900/20 text-indigo-700 dark:text-indigo-400 text-xs font-medium mb-3">
+            <ClipboardList className="w-3.5 h-3.5" />
+            Encounter Builder • {itemCount} {itemCount === 1 ? 'item' : 'items'}
+          </div>
+          <h1 className="text-2xl sm:text-3xl font-display font-bold text-gray-900 dark:text-white mb-2">
+            Build an Encounter
+          </h1>
+          <p className="text-sm text-gray-500 dark:text-gray-400 max-w-xl mx-auto">
+            Add diagnoses, procedures, HCPCS codes and drugs from any result card, put the diagnoses in claim order and export the claim lines as JSON.
+          </p>
+        </div>
+
+        {itemCount === 0 ? (
+          <div className="text-center py-16 text-gray-400 dark:text-gray-500">
+            <ClipboardList className="w-10 h-10 mx-auto mb-3 opacity-50" />
+            <p className="text-sm">
+              This encounter is empty. Use the <span className="font-medium text-indigo-600 dark:text-indigo-400">Encounter</span> button on any result to add it here.
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {/* ── Actions ── */}
+            <div className="flex flex-wrap items-center justify-end gap-2">
+              <button
+                type="button"
+                onClick={clear}
+                className="inline-flex items-center gap-1.5 px-3 py-2 rounded-xl text-sm font-medium text-gray-600 dark:text-gray-400 bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-800 hover:text-red-600 hover:border-red-200 dark:hover:border-red-800/50 transition-colors"
+              >
+                <Trash2 className="w-4 h-4" />
+                Clear
+              </button>
+              <button
+                type="button"
+                onClick={handleExport}
+                disabled={isChecking}
+                className="inline-flex items-center gap-1.5 px-4 py-2 rounded-xl text-sm font-medium bg-indigo-600 text-white hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                <Download className="w-4 h-4" />
+                Export Claim JSON
+              </button>
+            </div>
+
+            {/* ── Sequencing Issues ── */}
+            <section>
+              <h2 className="flex items-center gap-2 text-sm font-semibold text-gray-900 dark:text-white mb-2">
+                Sequencing Check
+                {isChecking && <Loader2 className="w-3.5 h-3.5 animate-spin text-gray-400" />}
+              </h2>
+              {!isChecking && issues.length === 0 ? (
+                <div className="flex items-center gap-2 p-3 rounded-xl border bg-emerald-50 dark:bg-emerald-900/20 border-emerald-200 dark:border-emerald-800/50 text-emerald-700 dark:text-emerald-400 text-sm">
+                  <CheckCircle2 className="w-4 h-4 flex-shrink-0" />
+                  No sequencing problems found
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  {issues.map((issue, index) => {
+                    const { icon: Icon, className } = ISSUE_STYLES[issue.severity];
+                    return (
+                      <div key={`${issue.rule}-${index}`} className={`flex items-start gap-2 p-3 rounded-xl border text-sm ${className}`}>
+                        <Icon className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                        <span>{issue.message}</span>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </section>
+
+            {/* ── Diagnoses ── */}
+            <section>
+              <h2 className="text-sm font-semibold text-gray-900 dark:text-white mb-2">
+                Diagnoses <span className="font-normal text-gray-400">({encounter.diagnoses.length}/12, first = primary)</span>
+              </h2>
+              {encounter.diagnoses.length === 0 ? (
+                <p className="text-sm text-gray-400 dark:text-gray-500">No diagnoses yet.</p>
+              ) : (
+                <div className="bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-800 rounded-xl divide-y divide-gray-100 dark:divide-gray-800 overflow-hidden">
+                  {encounter.diagnoses.map((dx, index) => {
+                    const rowIssues = issuesFor(dx.code);
+                    const hasError = rowIssues.some(i => i.severity === 'error');
+                    return (
+                      <div key={dx.code} className="flex items-center justify-between gap-3 px-5 py-3">
+                        <div className="flex items-center gap-3 min-w-0">
+                          <span className="flex-shrink-0 w-6 text-center text-xs font-mono text-gray-400">
+                            {/* Only A–L fit on the claim; the rest are left off the export */}
+                            {index < 12 ? String.fromCharCode(65 + index) : '—'}
+                          </span>
+                          <span className={`flex-shrink-0 px-2.5 py-1 rounded-lg text-xs font-mono font-bold ${
+                            hasError
+                              ? 'bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-400'
+                              : 'bg-blue-50 dark:bg-blue-900/20 text-blue-700 dark:text-blue-400'
+                          }`}>
+                            {dx.code}
+                          </span>
+                          <div className="min-w-0">
+                            <span className="block text-sm text-gray-900 dark:text-white truncate">{dx.name}</span>
+                            {index === 0 && (
+                              <span className="inline-flex items-center gap-1 text-[11px] font-medium text-indigo-600 dark:text-indigo-400">
+                                <Crown className="w-3 h-3" />
+                                Primary diagnosis
+                              </span>
+                            )}
+                          </div>
+                        </div>
+                        <div className="flex items-center gap-1 flex-shrink-0">
+                          {index > 0 && (
+                            <button
+                              type="button"
+                              onClick={() => move(dx.code, 0)}
+                              className="px-2 py-1 rounded-lg text-xs font-medium text-indigo-600 dark:text-indigo-400 hover:bg-indigo-50 dark:hover:bg-indigo-900/20 transition-colors"
+                            >
+                              Make primary
+                            </button>
+                          )}
+                          <button
+                            type="button"
+                            onClick={() => move(dx.code, index - 1)}
+                            disabled={index === 0}
+                            className="p-1.5 rounded-lg text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-800 disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
+                            aria-label={`Move ${dx.code} up`}
+                          >
+                            <ArrowUp className="w-4 h-4" />
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => move(dx.code, index + 1)}
+                            disabled={index === encounter.diagnoses.length - 1}
+                            className="p-1.5 rounded-lg text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-800 disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
+                            aria-label={`Move ${dx.code} down`}
+                          >
+                            <ArrowDown className="w-4 h-4" />
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => remove({ kind: 'diagnosis', item: dx })}
+                            className="p-1.5 rounded-lg text-gray-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors"
+                            aria-label={`Remove ${dx.code}`}
+                          >
+                            <X className="w-4 h-4" />
+                          </button>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </section>
+
+            {/* ── Procedures & HCPCS ── */}
+            {(encounter.procedures.length > 0 || encounter.hcpcs.length > 0) && (
+              <section>
+                <h2 className="text-sm font-semibold text-gray-900 dark:text-white mb-2">Procedures &amp; Services</h2>
+                <div className="bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-800 rounded-xl divide-y divide-gray-100 dark:divide-gray-800 overflow-hidden">
+                  {encounter.hcpcs.map(h => (
+                    <ItemRow
+                      key={`hcpcs-${h.code}`}
+                      code={h.code}
+                      label={h.shortDescription || h.longDescription}
+                      detail="HCPCS Level II"
+                      entry={{ kind: 'hcpcs', item: h }}
+                      onRemove={remove}
+                    />
+                  ))}
+                  {encounter.procedures.map(p => (
+                    <ItemRow
+                      key={`${p.codeSystem}-${p.code}`}
+                      code={p.code}
+                      label={p.description}
+                      detail={p.codeSystem === 'SNOMED' ? 'SNOMED CT • documentation only' : p.codeSystem}
+                      entry={{ kind: 'procedure', item: p }}
+                      onRemove={remove}
+                    />
+                  ))}
+                </div>
+              </section>
+            )}
+
+            {/* ── Drugs ── */}
+            {encounter.drugs.length > 0 && (
+              <section>
+                <h2 className="text-sm font-semibold text-gray-900 dark:text-white mb-2">Medications</h2>
+                <div className="bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-800 rounded-xl divide-y divide-gray-100 dark:divide-gray-800 overflow-hidden">
+                  {encounter.drugs.map(d => (
+                    <ItemRow
+                      key={d.rxcui ?? d.brandName}
+                      code={d.rxcui ? `RX ${d.rxcui}` : 'RX'}
+                      label={d.brandName}
+                      detail={d.genericName}
+                      entry={{ kind: 'drug', item: d }}
+                      onRemove={remove}
+                    />
+                  ))}
+                </div>
+              </section>
+            )}
+
+            {errorCount > 0 && (
+              <p className="text-xs text-center text-gray-400 dark:text-gray-500">
+                The export still works with errors — they are listed under <span className="font-mono">validation</span> in the JSON.
+              </p>
+            )}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -87,6 +87,8 @@ export interface UseAutocompleteOptions {
   maxNihResults?: number;
   /** Threshold for triggering NIH fetch (default: 3) */
   nihTriggerThreshold?: number;
+  /** When false, the input is tracked but no suggestions are fetched (default: true) */
+  enabled?: boolean;
 }
 
 /**
@@ -182,6 +184,7 @@ export function useAutocomplete(
     maxLocalResults = 5,
     maxNihResults = 5,
     nihTriggerThreshold = 3,
+    enabled = true,
   } = options;
 
   // State
@@ -353,8 +356,8 @@ export function useAutocomplete(
       // Cancel any pending operations
       cancelPending();
       
-      // Empty input - clear immediately
-      if (!value.trim()) {
+      // Empty input (or autocomplete disabled) - clear immediately
+      if (!value.trim() || !enabled) {
         clearSuggestions();
         return;
       }
@@ -364,7 +367,7 @@ export function useAutocomplete(
         processInput(value.trim());
       }, debounceMs);
     },
-    [debounceMs, cancelPending, clearSuggestions, processInput]
+    [debounceMs, enabled, cancelPending, clearSuggestions, processInput]
   );
 
   /**
@@ -0,0 +1,71 @@
+/**
+ * useEncounter Hook
+ * =================
+ *
+ * Keeps a component in sync with the working encounter in localStorage.
+ * Any card can add/remove items; every mounted useEncounter() re-reads the
+ * encounter when ENCOUNTER_CHANGED_EVENT fires (same tab) or when the
+ * 'storage' event fires (other tabs).
+ *
+ * @example
+ * ```tsx
+ * const { encounter, add, remove, contains } = useEncounter();
+ *
+ * <button onClick={() => add({ kind: 'diagnosis', item: result })}>
+ *   {contains({ kind: 'diagnosis', item: result }) ? 'Added' : 'Add'}
+ * </button>
+ * ```
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Encounter, EncounterItem } from '../types/icd';
+import {
+  ENCOUNTER_KEY,
+  ENCOUNTER_CHANGED_EVENT,
+  createEmptyEncounter,
+  getEncounter,
+  addToEncounter,
+  removeFromEncounter,
+  moveDiagnosis,
+  clearEncounter,
+  isInEncounter,
+} from '../lib/encounterStorage';
+
+// =============================================================================
+// Hook
+// =============================================================================
+
+export function useEncounter() {
+  // Start empty so server and first client render match; load after mount
+  const [encounter, setEncounter] = useState<Encounter>(createEmptyEncounter);
+
+  useEffect(() => {
+    let cancelled = false;
+    const sync = () => {
+      if (!cancelled) setEncounter(getEncounter());
+    };
+    const onStorage = (e: StorageEvent) => {
+      if (e.key === ENCOUNTER_KEY) sync();
+    };
+
+    // Defer the initial read so it isn't a synchronous setState in the effect
+    Promise.resolve().then(sync);
+    window.addEventListener(ENCOUNTER_CHANGED_EVENT, sync);
+    window.addEventListener('storage', onStorage);
+    return () => {
+      cancelled = true;
+      window.removeEventListener(ENCOUNTER_CHANGED_EVENT, sync);
+      window.removeEventListener('storage', onStorage);
+    };
+  }, []);
+
+  const add = useCallback((entry: EncounterItem) => setEncounter(addToEncounter(entry)), []);
+  const remove = useCallback((entry: EncounterItem) => setEncounter(removeFromEncounter(entry)), []);
+  const move = useCallback((code: string, toIndex: number) => setEncounter(moveDiagnosis(code, toIndex)), []);
+  const clear = useCallback(() => setEncounter(clearEncounter()), []);
+  const contains = useCallback((entry: EncounterItem) => isInEncounter(encounter, entry), [encounter]);
+
+  return { encounter, add, remove, move, clear, contains };
+}
@@ -0,0 +1,75 @@
+/**
+ * useInteractionList Hook
+ * =======================
+ *
+ * Keeps a component in sync with the drug interaction check list in
+ * localStorage — the same approach as useEncounter. Any DrugCard can
+ * add/remove drugs; every mounted hook re-reads the list when
+ * INTERACTION_LIST_CHANGED_EVENT fires (same tab) or 'storage' fires
+ * (other tabs).
+ *
+ * @example
+ * ```tsx
+ * const { drugs, add, remove, contains } = useInteractionList();
+ *
+ * <button onClick={() => add(drug, { code, name })}>
+ *   {contains(drug) ? 'Added' : 'Check interactions'}
+ * </button>
+ * ```
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { DrugResult, InteractionListDrug } from '../types/icd';
+import {
+  INTERACTION_LIST_KEY,
+  INTERACTION_LIST_CHANGED_EVENT,
+  getInteractionList,
+  getInteractionDrugKey,
+  addToInteractionList,
+  removeFromInteractionList,
+  clearInteractionList,
+} from '../lib/interactionStorage';
+
+// =============================================================================
+// Hook
+// =============================================================================
+
+export function useInteractionList() {
+  // Start empty so server and first client render match; load after mount
+  const [drugs, setDrugs] = useState<InteractionListDrug[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const sync = () => {
+      if (!cancelled) setDrugs(getInteractionList());
+    };
+    const onStorage = (e: StorageEvent) => {
+      if (e.key === INTERACTION_LIST_KEY) sync();
+    };
+
+    // Defer the initial read so it isn't a synchronous setState in the effect
+    Promise.resolve().then(sync);
+    window.addEventListener(INTERACTION_LIST_CHANGED_EVENT, sync);
+    window.addEventListener('storage', onStorage);
+    return () => {
+      cancelled = true;
+      window.removeEventListener(INTERACTION_LIST_CHANGED_EVENT, sync);
+      window.removeEventListener('storage', onStorage);
+    };
+  }, []);
+
+  const add = useCallback(
+    (drug: DrugResult, condition?: { code: string; name: string }) => setDrugs(addToInteractionList(drug, condition)),
+    []
+  );
+  const remove = useCallback((key: string) => setDrugs(removeFromInteractionList(key)), []);
+  const clear = useCallback(() => setDrugs(clearInteractionList()), []);
+  const contains = useCallback(
+    (drug: DrugResult) => drugs.some(d => d.key === getInteractionDrugKey(drug)),
+    [drugs]
+  );
+
+  return { drugs, add, remove, clear, contains };
+}
@@ -0,0 +1,69 @@
+/**
+ * useSessionDiagnoses Hook
+ * ========================
+ *
+ * The diagnoses the user is currently working with: favorited codes plus
+ * the diagnoses in the working encounter, merged by code. DrugCard checks
+ * each drug against these for drug–disease contraindications.
+ *
+ * Favorites are re-read when FAVORITES_CHANGED_EVENT fires (same tab) or
+ * 'storage' fires (other tabs); the encounter comes from useEncounter.
+ *
+ * @example
+ * ```tsx
+ * const diagnoses = useSessionDiagnoses();
+ * // → [{ code: "N18.3", name: "Chronic kidney disease, stage 3", sources: ["favorite", "encounter"] }]
+ * ```
+ */
+
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import { FavoriteICD, SessionDiagnosis } from '../types/icd';
+import { FAVORITES_KEY, FAVORITES_CHANGED_EVENT, getFavorites } from '../lib/favoritesStorage';
+import { useEncounter } from './useEncounter';
+
+// =============================================================================
+// Hook
+// =============================================================================
+
+export function useSessionDiagnoses(): SessionDiagnosis[] {
+  const { encounter } = useEncounter();
+  // Start empty so server and first client render match; load after mount
+  const [favorites, setFavorites] = useState<FavoriteICD[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    // Deferred: favorites are saved inside the home page's state updaters
+    const sync = () => {
+      Promise.resolve().then(() => {
+        if (!cancelled) setFavorites(getFavorites());
+      });
+    };
+    const onStorage = (e: StorageEvent) => {
+      if (e.key === FAVORITES_KEY) sync();
+    };
+
+    sync();
+    window.addEventListener(FAVORITES_CHANGED_EVENT, sync);
+    window.addEventListener('storage', onStorage);
+    return () => {
+      cancelled = true;
+      window.removeEventListener(FAVORITES_CHANGED_EVENT, sync);
+      window.removeEventListener('storage', onStorage);
+    };
+  }, []);
+
+  return useMemo(() => {
+    const byCode = new Map<string, SessionDiagnosis>();
+    const addDiagnosis = (code: string, name: string, source: SessionDiagnosis['sources'][number]) => {
+      const existing = byCode.get(code);
+      if (existing) existing.sources.push(source);
+      else byCode.set(code, { code, name, sources: [source] });
+    };
+
+    for (const favorite of favorites) addDiagnosis(favorite.code, favorite.name, 'favorite');
+    for (const diagnosis of encounter.diagnoses) addDiagnosis(diagnosis.code, diagnosis.name, 'encounter');
+    return [...byCode.values()];
+  }, [favorites, encounter.diagnoses]);
+}
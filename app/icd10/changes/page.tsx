@@ -0,0 +1,209 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import Image from 'next/image';
+import { ArrowLeft, ArrowRight, CalendarClock, Loader2, Plus, Minus, PenLine, GitBranch } from 'lucide-react';
+import { diffFiscalYears, countCodeChanges } from '../../lib/icd10CodeChanges';
+import { ICD10_FISCAL_YEARS, CURRENT_ICD10_FISCAL_YEAR, getIcd10DataVersion } from '../../lib/icd10cmLocalData';
+import { CodeChange, CodeSetDiff } from '../../types/icd';
+
+/** Heading, icon and colors of each change section */
+const SECTIONS: { key: 'added' | 'deleted' | 'retitled' | 'expanded'; title: string; hint: string; icon: typeof Plus; badge: string }[] = [
+  {
+    key: 'expanded',
+    title: 'Expanded',
+    hint: 'Was billable, now a header — choose one of the new codes',
+    icon: GitBranch,
+    badge: 'bg-amber-50 dark:bg-amber-900/20 text-amber-700 dark:text-amber-400',
+  },
+  {
+    key: 'deleted',
+    title: 'Deleted',
+    hint: 'No longer valid on claims',
+    icon: Minus,
+    badge: 'bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-400',
+  },
+  {
+    key: 'added',
+    title: 'Added',
+    hint: 'New codes and headers',
+    icon: Plus,
+    badge: 'bg-emerald-50 dark:bg-emerald-900/20 text-emerald-700 dark:text-emerald-400',
+  },
+  {
+    key: 'retitled',
+    title: 'Retitled',
+    hint: 'Same code, new description',
+    icon: PenLine,
+    badge: 'bg-blue-50 dark:bg-blue-900/20 text-blue-700 dark:text-blue-400',
+  },
+];
+
+function ChangeRow({ change }: { change: CodeChange }) {
+  return (
+    <li className="px-5 py-3">
+      <div className="flex items-start gap-3">
+        <span className="flex-shrink-0 px-2.5 py-1 rounded-lg bg-gray-100 dark:bg-gray-800 text-gray-800 dark:text-gray-200 text-xs font-mono font-bold">
+          {change.code}
+        </span>
+        <div className="min-w-0 text-sm">
+          {change.changeType === 'retitled' ? (
+            <>
+              <p className="text-gray-400 dark:text-gray-500 line-through">{change.oldDescription}</p>
+              <p className="text-gray-900 dark:text-white">{change.newDescription}</p>
+            </>
+          ) : (
+            <p className="text-gray-900 dark:text-white">{change.newDescription ?? change.oldDescription}</p>
+          )}
+          {change.newCodes && change.newCodes.length > 0 && (
+            <p className="mt-1 text-xs text-amber-700 dark:text-amber-400">
+              Now use: <span className="font-mono font-semibold">{change.newCodes.join(', ')}</span>
+            </p>
+          )}
+        </div>
+      </div>
+    </li>
+  );
+}
+
+export default function Icd10ChangesPage() {
+  const [fromYear, setFromYear] = useState(ICD10_FISCAL_YEARS[0]);
+  const [toYear, setToYear] = useState(CURRENT_ICD10_FISCAL_YEAR);
+  // Diff tagged with the year pair it was computed for; partial = either year is a curated subset
+  const [result, setResult] = useState<{ key: string; diff: CodeSetDiff | null; partial?: boolean; error?: string } | null>(null);
+
+  const key = `${fromYear}-${toYear}`;
+  const current = result?.key === key ? result : null;
+  const diff = current?.diff ?? null;
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([diffFiscalYears(fromYear, toYear), getIcd10DataVersion(fromYear), getIcd10DataVersion(toYear)])
+      .then(([found, from, to]) => {
+        if (!cancelled) setResult({ key: `${fromYear}-${toYear}`, diff: found, partial: from.partial || to.partial });
+      })
+      .catch(() => {
+        if (!cancelled) setResult({ key: `${fromYear}-${toYear}`, diff: null, error: 'Failed to load the code sets. Please try again.' });
+      });
+    return () => { cancelled = true; };
+  }, [fromYear, toYear]);
+
+  const selectClass = 'px-3 py-2 rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900 text-sm font-medium text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500/30';
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-950">
+      {/* ── Header ── */}
+      <header className="sticky top-0 z-40 bg-white/80 dark:bg-gray-900/80 backdrop-blur-xl border-b border-gray-200/50 dark:border-gray-800/50">
+        <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-3 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <Link
+              href="/icd10"
+              className="inline-flex items-center gap-1.5 text-sm text-gray-500 hover:text-blue-600 dark:text-gray-400 dark:hover:text-blue-400 transition-colors"
+            >
+              <ArrowLeft className="w-4 h-4" />
+              Back to Tabular List
+            </Link>
+          </div>
+          <Link href="/" className="flex items-center gap-2">
+            <Image
+              src="/medcodemap-svg.svg"
+              alt="MedCodeMap"
+              width={28}
+              height={28}
+              className="rounded-lg"
+            />
+            <span className="font-display text-lg font-bold text-gray-900 dark:text-white">
+              MedCodeMap
+            </span>
+          </Link>
+        </div>
+      </header>
+
+      <main className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* ── Page Title ── */}
+        <div className="text-center mb-8">
+          <div className="inline-flex items-center gap-2 px-3 py-1.5 rounded-full bg-blue-50 dark:bg-blue-900/20 text-blue-700 dark:text-blue-400 text-xs font-medium mb-3">
+            <CalendarClock className="w-3.5 h-3.5" />
+            ICD-10-CM Fiscal Years FY{ICD10_FISCAL_YEARS[0]}–FY{ICD10_FISCAL_YEARS[ICD10_FISCAL_YEARS.length - 1]}
+          </div>
+          <h1 className="text-2xl sm:text-3xl font-display font-bold text-gray-900 dark:text-white mb-2">
+            What Changed
+          </h1>
+          <p className="text-sm text-gray-500 dark:text-gray-400 max-w-xl mx-auto">
+            New code sets take effect every October 1st. Compare two fiscal years to find codes that were added, deleted, retitled or expanded.
+          </p>
+          {current?.partial && (
+            <p className="text-xs text-amber-700 dark:text-amber-400 max-w-xl mx-auto mt-2">
+              The bundled code sets are curated subsets, so only changes among their codes are listed. Import the full CMS code sets to see every change (see README).
+            </p>
+          )}
+        </div>
+
+        {/* ── Year Pickers ── */}
+        <div className="flex items-center justify-center gap-3 mb-8">
+          <select
+            value={fromYear}
+            onChange={(e) => setFromYear(Number(e.target.value))}
+            className={selectClass}
+            aria-label="From fiscal year"
+          >
+            {ICD10_FISCAL_YEARS.map(year => (
+              <option key={year} value={year}>FY{year}</option>
+            ))}
+          </select>
+          <ArrowRight className="w-4 h-4 text-gray-400" />
+          <select
+            value={toYear}
+            onChange={(e) => setToYear(Number(e.target.value))}
+            className={selectClass}
+            aria-label="To fiscal year"
+          >
+            {ICD10_FISCAL_YEARS.map(year => (
+              <option key={year} value={year}>FY{year}</option>
+            ))}
+          </select>
+        </div>
+
+        {/* ── Changes ── */}
+        {!current ? (
+          <div className="flex flex-col items-center justify-center py-12 text-blue-600">
+            <Loader2 className="w-8 h-8 animate-spin mb-3" />
+            <span className="text-sm font-medium">Comparing code sets...</span>
+          </div>
+        ) : !diff ? (
+          <div className="text-center py-6 text-red-500 text-sm">{current.error}</div>
+        ) : countCodeChanges(diff) === 0 ? (
+          <div className="text-center py-8 text-gray-500 dark:text-gray-400 text-sm">
+            {fromYear === toYear
+              ? 'Pick two different fiscal years to compare.'
+              : `No changes to the bundled codes between FY${fromYear} and FY${toYear}.`}
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {SECTIONS.map(({ key: sectionKey, title, hint, icon: Icon, badge }) => {
+              const changes = diff[sectionKey];
+              if (changes.length === 0) return null;
+              return (
+                <section key={sectionKey}>
+                  <div className="flex items-center gap-2 mb-2">
+                    <span className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-semibold ${badge}`}>
+                      <Icon className="w-3.5 h-3.5" />
+                      {title} ({changes.length})
+                    </span>
+                    <span className="text-xs text-gray-400 dark:text-gray-500">{hint}</span>
+                  </div>
+                  <ul className="bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-800 rounded-xl divide-y divide-gray-100 dark:divide-gray-800 overflow-hidden">
+                    {changes.map(change => (
+                      <ChangeRow key={`${change.changeType}-${change.code}`} change={change} />
+                    ))}
+                  </ul>
+                </section>
+              );
+            })}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
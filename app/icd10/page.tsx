@@ -0,0 +1,328 @@
+'use client';
+
+import { useState, useCallback, useEffect } from 'react';
+import Link from 'next/link';
+import Image from 'next/image';
+import { ChevronRight, ArrowLeft, ListTree, Search, Loader2, CheckCircle2, CalendarClock } from 'lucide-react';
+import { getTabularChapters, getTabularChildren, getTabularPath } from '../lib/icd10Hierarchy';
+import { searchLocalIcd10, getIcd10DataVersion, LocalICD10Code } from '../lib/icd10cmLocalData';
+import { TabularNode } from '../types/icd';
+import ResultCard from '../components/ResultCard';
+
+/** Singular/plural noun for the children of each level */
+const CHILD_LABELS: Record<TabularNode['level'], [string, string]> = {
+  chapter: ['block', 'blocks'],
+  block: ['category', 'categories'],
+  category: ['code', 'codes'],
+  subcategory: ['code', 'codes'],
+  code: ['code', 'codes'],
+};
+
+function nodeBadge(node: TabularNode): string {
+  return node.level === 'chapter' ? `Ch. ${node.id}` : node.id;
+}
+
+export default function Icd10BrowsePage() {
+  // Current drill-down path (empty = chapter list)
+  const [path, setPath] = useState<TabularNode[]>([]);
+  // Rows shown at the current level
+  const [nodes, setNodes] = useState<TabularNode[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [dataVersion, setDataVersion] = useState<string | null>(null);
+
+  // Search within the page
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchResults, setSearchResults] = useState<LocalICD10Code[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [hasSearched, setHasSearched] = useState(false);
+
+  // Load chapters on mount
+  useEffect(() => {
+    getTabularChapters().then(chapters => {
+      setNodes(chapters);
+      setIsLoading(false);
+    }).catch(() => {
+      setError('Failed to load the ICD-10-CM Tabular List. Please try again.');
+      setIsLoading(false);
+    });
+    getIcd10DataVersion().then(v => setDataVersion(`${v.version} • ${v.totalCodes} codes${v.partial ? ' (partial)' : ''}`)).catch(() => {});
+  }, []);
+
+  const navigateTo = useCallback(async (newPath: TabularNode[]) => {
+    setPath(newPath);
+    setError(null);
+
+    const current = newPath[newPath.length - 1];
+    // Leaf code: nothing to list, the ResultCard takes over
+    if (current && current.childCount === 0) {
+      setNodes([]);
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const children = current ? await getTabularChildren(current) : await getTabularChapters();
+      setNodes(children);
+    } catch {
+      setError('Failed to load this section. Please try again.');
+      setNodes([]);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const handleSearch = useCallback(async (e: React.FormEvent) => {
+    e.preventDefault();
+    const query = searchQuery.trim();
+    if (!query) return;
+
+    setIsSearching(true);
+    setHasSearched(true);
+
+    try {
+      const results = await searchLocalIcd10(query, 30);
+      setSearchResults(results);
+    } catch {
+      setSearchResults([]);
+    } finally {
+      setIsSearching(false);
+    }
+  }, [searchQuery]);
+
+  const clearSearch = useCallback(() => {
+    setSearchQuery('');
+    setSearchResults([]);
+    setHasSearched(false);
+  }, []);
+
+  // Jump from a search hit to its place in the tree
+  const handleSearchResultClick = useCallback(async (code: string) => {
+    const codePath = await getTabularPath(code);
+    if (codePath.length === 0) return;
+    clearSearch();
+    await navigateTo(codePath);
+  }, [clearSearch, navigateTo]);
+
+  const current = path[path.length - 1];
+  const isLeaf = !!current && current.childCount === 0 && current.level !== 'chapter' && current.level !== 'block';
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-950">
+      {/* ── Header ── */}
+      <header className="sticky top-0 z-40 bg-white/80 dark:bg-gray-900/80 backdrop-blur-xl border-b border-gray-200/50 dark:border-gray-800/50">
+        <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-3 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <Link
+              href="/"
+              className="inline-flex items-center gap-1.5 text-sm text-gray-500 hover:text-blue-600 dark:text-gray-400 dark:hover:text-blue-400 transition-colors"
+            >
+              <ArrowLeft className="w-4 h-4" />
+              Back to Search
+            </Link>
+            <Link
+              href="/icd10/changes"
+              className="inline-flex items-center gap-1.5 text-sm text-gray-500 hover:text-blue-600 dark:text-gray-400 dark:hover:text-blue-400 transition-colors"
+            >
+              <CalendarClock className="w-4 h-4" />
+              Code Changes
+            </Link>
+          </div>
+          <Link href="/" className="flex items-center gap-2">
+            <Image
+              src="/medcodemap-svg.svg"
+              alt="MedCodeMap"
+              width={28}
+              height={28}
+              className="rounded-lg"
+            />
+            <span className="font-display text-lg font-bold text-gray-900 dark:text-white">
+              MedCodeMap
+            </span>
+          </Link>
+        </div>
+      </header>
+
+      <main className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* ── Page Title ── */}
+        <div className="text-center mb-8">
+          <div className="inline-flex items-center gap-2 px-3 py-1.5 rounded-full bg-blue-50 dark:bg-blue-900/20 text-blue-700 dark:text-blue-400 text-xs font-medium mb-3">
+            <ListTree className="w-3.5 h-3.5" />
+            ICD-10-CM Tabular List{dataVersion && ` • ${dataVersion}`}
+          </div>
+          <h1 className="text-2xl sm:text-3xl font-display font-bold text-gray-900 dark:text-white mb-2">
+            Browse ICD-10-CM Codes
+          </h1>
+          <p className="text-sm text-gray-500 dark:text-gray-400 max-w-xl mx-auto">
+            Drill down from chapter to block, category and billable code to see the siblings and neighbors of any diagnosis.
+          </p>
+        </div>
+
+        {/* ── Search Bar ── */}
+        <div className="max-w-xl mx-auto mb-8">
+          <form onSubmit={handleSearch} className="relative">
+            <Search className="absolute left-3.5 top-1/2 -translate-y-1/2 w-4.5 h-4.5 text-gray-400" />
+            <input
+              type="text"
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              placeholder="Jump to a code (e.g., E11.65, I21, migraine)..."
+              className="w-full pl-10 pr-20 py-3 rounded-xl border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900 text-sm text-gray-900 dark:text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500/30 focus:border-blue-500 transition-all"
+            />
+            <div className="absolute right-2 top-1/2 -translate-y-1/2 flex items-center gap-1">
+              {hasSearched && (
+                <button
+                  type="button"
+                  onClick={clearSearch}
+                  className="px-2 py-1 text-xs text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+                >
+                  Clear
+                </button>
+              )}
+              <button
+                type="submit"
+                disabled={isSearching || !searchQuery.trim()}
+                className="px-3 py-1.5 rounded-lg bg-blue-600 text-white text-xs font-medium hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                {isSearching ? 'Searching...' : 'Search'}
+              </button>
+            </div>
+          </form>
+        </div>
+
+        {/* ── Search Results (when active) ── */}
+        {hasSearched && (
+          <div className="mb-10">
+            {isSearching ? (
+              <div className="flex flex-col items-center justify-center py-12 text-blue-600">
+                <Loader2 className="w-8 h-8 animate-spin mb-3" />
+                <span className="text-sm font-medium">Searching ICD-10-CM codes...</span>
+              </div>
+            ) : searchResults.length > 0 ? (
+              <div className="bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-800 rounded-xl divide-y divide-gray-100 dark:divide-gray-800 overflow-hidden">
+                {searchResults.map((result) => (
+                  <button
+                    key={result.code}
+                    onClick={() => handleSearchResultClick(result.code)}
+                    className="w-full flex items-center gap-3 px-5 py-3 text-left hover:bg-gray-50 dark:hover:bg-gray-800/50 transition-colors"
+                  >
+                    <span className="flex-shrink-0 px-2.5 py-1 rounded-lg bg-blue-50 dark:bg-blue-900/20 text-blue-700 dark:text-blue-400 text-xs font-mono font-bold">
+                      {result.code}
+                    </span>
+                    <span className="flex-1 text-sm text-gray-900 dark:text-white">{result.name}</span>
+                    <span className="text-xs text-gray-400">Show in tree</span>
+                  </button>
+                ))}
+              </div>
+            ) : (
+              <div className="text-center py-8 text-gray-500 dark:text-gray-400 text-sm">
+                No ICD-10-CM codes found for &quot;{searchQuery}&quot;. Try a different term.
+              </div>
+            )}
+          </div>
+        )}
+
+        {!hasSearched && (
+          <>
+            {/* ── Breadcrumb ── */}
+            <nav className="flex flex-wrap items-center gap-1 mb-4 text-sm" aria-label="Tabular breadcrumb">
+              <button
+                onClick={() => navigateTo([])}
+                className={`px-2 py-1 rounded-md transition-colors ${path.length === 0 ? 'font-semibold text-gray-900 dark:text-white' : 'text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20'}`}
+              >
+                All chapters
+              </button>
+              {path.map((node, i) => (
+                <span key={`${node.level}-${node.id}`} className="flex items-center gap-1">
+                  <ChevronRight className="w-3.5 h-3.5 text-gray-400" />
+                  <button
+                    onClick={() => navigateTo(path.slice(0, i + 1))}
+                    disabled={i === path.length - 1}
+                    title={node.label}
+                    className={`px-2 py-1 rounded-md font-mono transition-colors ${i === path.length - 1 ? 'font-semibold text-gray-900 dark:text-white' : 'text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20'}`}
+                  >
+                    {nodeBadge(node)}
+                  </button>
+                </span>
+              ))}
+            </nav>
+
+            {current && (
+              <div className="mb-4">
+                <h2 className="text-lg font-semibold text-gray-900 dark:text-white">{current.label}</h2>
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  {current.billable
+                    ? 'Billable code — valid for claims'
+                    : isLeaf
+                      ? 'Requires a 7th character to be billable'
+                      : `${current.billableCount} billable ${current.billableCount === 1 ? 'code' : 'codes'} below`}
+                </p>
+              </div>
+            )}
+
+            {/* ── Selected billable code ── */}
+            {isLeaf && current && (
+              <div className="max-w-xl">
+                <ResultCard code={current.id} name={current.label} />
+              </div>
+            )}
+
+            {/* ── Rows at the current level ── */}
+            {isLoading ? (
+              <div className="flex flex-col items-center justify-center py-12 text-blue-600">
+                <Loader2 className="w-8 h-8 animate-spin mb-3" />
+                <span className="text-sm font-medium">Loading Tabular List...</span>
+              </div>
+            ) : error ? (
+              <div className="text-center py-6 text-red-500 text-sm">{error}</div>
+            ) : !isLeaf && (
+              <div className="space-y-2">
+                {nodes.map((node) => {
+                  const isEmpty = node.childCount === 0 && (node.level === 'chapter' || node.level === 'block');
+                  const [one, many] = CHILD_LABELS[node.level];
+                  return (
+                    <button
+                      key={`${node.level}-${node.id}`}
+                      onClick={() => navigateTo([...path, node])}
+                      disabled={isEmpty}
+                      className="w-full flex items-center justify-between gap-3 px-5 py-3.5 text-left bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-800 rounded-xl transition-all hover:border-blue-300 dark:hover:border-blue-800 hover:bg-gray-50 dark:hover:bg-gray-800/50 disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:border-gray-200 disabled:hover:bg-white dark:disabled:hover:bg-gray-900"
+                    >
+                      <div className="flex items-center gap-3 min-w-0">
+                        <span className="flex-shrink-0 px-2.5 py-1 rounded-lg bg-blue-50 dark:bg-blue-900/20 text-blue-700 dark:text-blue-400 text-xs font-mono font-bold">
+                          {nodeBadge(node)}
+                        </span>
+                        <div className="min-w-0">
+                          <span className="block text-sm font-semibold text-gray-900 dark:text-white truncate">
+                            {node.label}
+                          </span>
+                          <span className="block text-xs text-gray-400 dark:text-gray-500 mt-0.5">
+                            {node.childCount > 0
+                              ? `${node.childCount} ${node.childCount === 1 ? one : many} • ${node.billableCount} billable`
+                              : isEmpty
+                                ? 'Not in the bundled code set'
+                                : node.billable
+                                  ? 'No further subdivisions'
+                                  : 'Add a 7th character to bill'}
+                          </span>
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-2 flex-shrink-0">
+                        {node.billable && (
+                          <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full bg-emerald-50 dark:bg-emerald-900/20 text-emerald-700 dark:text-emerald-400 text-[11px] font-medium">
+                            <CheckCircle2 className="w-3 h-3" />
+                            Billable
+                          </span>
+                        )}
+                        <ChevronRight className="w-4 h-4 text-gray-400" />
+                      </div>
+                    </button>
+                  );
+                })}
+              </div>
+            )}
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,245 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import Image from 'next/image';
+import {
+  ArrowLeft,
+  ShieldAlert,
+  Trash2,
+  X,
+  Ban,
+  AlertCircle,
+  AlertTriangle,
+  Info,
+  CheckCircle2,
+  Loader2,
+  Copy,
+} from 'lucide-react';
+import { InteractionCheckResult, InteractionSeverity } from '../types/icd';
+import { useInteractionList } from '../hooks/useInteractionList';
+import { checkDrugInteractions } from '../lib/drugInteractions';
+import { MAX_INTERACTION_DRUGS } from '../lib/interactionStorage';
+
+/** Styling per severity */
+const SEVERITY_STYLES: Record<InteractionSeverity, { label: string; icon: typeof Info; className: string; badge: string }> = {
+  contraindicated: {
+    label: 'Contraindicated',
+    icon: Ban,
+    className: 'bg-red-50 dark:bg-red-900/20 border-red-300 dark:border-red-700/60 text-red-800 dark:text-red-300',
+    badge: 'bg-red-600 text-white',
+  },
+  major: {
+    label: 'Major',
+    icon: AlertCircle,
+    className: 'bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-800/50 text-red-700 dark:text-red-400',
+    badge: 'bg-red-100 dark:bg-red-900/40 text-red-700 dark:text-red-300',
+  },
+  moderate: {
+    label: 'Moderate',
+    icon: AlertTriangle,
+    className: 'bg-amber-50 dark:bg-amber-900/20 border-amber-200 dark:border-amber-800/50 text-amber-700 dark:text-amber-400',
+    badge: 'bg-amber-100 dark:bg-amber-900/40 text-amber-700 dark:text-amber-300',
+  },
+  minor: {
+    label: 'Minor',
+    icon: Info,
+    className: 'bg-blue-50 dark:bg-blue-900/20 border-blue-200 dark:border-blue-800/50 text-blue-700 dark:text-blue-400',
+    badge: 'bg-blue-100 dark:bg-blue-900/40 text-blue-700 dark:text-blue-300',
+  },
+};
+
+export default function InteractionsPage() {
+  const { drugs, remove, clear } = useInteractionList();
+
+  // Result of the last check, tagged with the list it was computed for
+  const listKey = drugs.map(d => d.key).join(',');
+  const [check, setCheck] = useState<{ listKey: string; result: InteractionCheckResult } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const result = check?.listKey === listKey ? check.result : null;
+  const isChecking = drugs.length > 1 && !result && !error;
+
+  // Re-check whenever the list changes
+  useEffect(() => {
+    if (drugs.length < 2) return;
+    let cancelled = false;
+    checkDrugInteractions(drugs)
+      .then(checked => {
+        if (!cancelled) {
+          setCheck({ listKey: drugs.map(d => d.key).join(','), result: checked });
+          setError(null);
+        }
+      })
+      .catch(err => {
+        console.error('[Interactions] Check failed:', err);
+        if (!cancelled) setError('Failed to load the interaction data. Please try again.');
+      });
+    return () => { cancelled = true; };
+  }, [drugs]);
+
+  const findingCount = result?.findings.length ?? 0;
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-950">
+      {/* ── Header ── */}
+      <header className="sticky top-0 z-40 bg-white/80 dark:bg-gray-900/80 backdrop-blur-xl border-b border-gray-200/50 dark:border-gray-800/50">
+        <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-3 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <Link
+              href="/"
+              className="inline-flex items-center gap-1.5 text-sm text-gray-500 hover:text-rose-600 dark:text-gray-400 dark:hover:text-rose-400 transition-colors"
+            >
+              <ArrowLeft className="w-4 h-4" />
+              Back to Search
+            </Link>
+          </div>
+          <Link href="/" className="flex items-center gap-2">
+            <Image
+              src="/medcodemap-svg.svg"
+              alt="MedCodeMap"
+              width={28}
+              height={28}
+              className="rounded-lg"
+            />
+            <span className="font-display text-lg font-bold text-gray-900 dark:text-white">
+              MedCodeMap
+            </span>
+          </Link>
+        </div>
+      </header>
+
+      <main className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* ── Page Title ── */}
+        <div className="text-center mb-8">
+          <div className="inline-flex items-center gap-2 px-3 py-1.5 rounded-full bg-rose-50 dark:bg-rose-900/20 text-rose-700 dark:text-rose-400 text-xs font-medium mb-3">
+            <ShieldAlert className="w-3.5 h-3.5" />
+            Interaction Checker • {drugs.length}/{MAX_INTERACTION_DRUGS} drugs
+          </div>
+          <h1 className="text-2xl sm:text-3xl font-display font-bold text-gray-900 dark:text-white mb-2">
+            Check Drug Interactions
+          </h1>
+          <p className="text-sm text-gray-500 dark:text-gray-400 max-w-xl mx-auto">
+            Collect drugs from any number of conditions and every pair is checked for interactions and duplicated ingredients. Runs on a local dataset — no network needed.
+          </p>
+        </div>
+
+        {drugs.length === 0 ? (
+          <div className="text-center py-16 text-gray-400 dark:text-gray-500">
+            <ShieldAlert className="w-10 h-10 mx-auto mb-3 opacity-50" />
+            <p className="text-sm">
+              No drugs yet. Use the <span className="font-medium text-rose-600 dark:text-rose-400">Interactions</span> button on any drug card to add it here.
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {/* ── Drug List ── */}
+            <section>
+              <div className="flex items-center justify-between mb-2">
+                <h2 className="text-sm font-semibold text-gray-900 dark:text-white">Drugs</h2>
+                <button
+                  type="button"
+                  onClick={clear}
+                  className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-xl text-xs font-medium text-gray-600 dark:text-gray-400 bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-800 hover:text-red-600 hover:border-red-200 dark:hover:border-red-800/50 transition-colors"
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                  Clear
+                </button>
+              </div>
+              <div className="bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-800 rounded-xl divide-y divide-gray-100 dark:divide-gray-800 overflow-hidden">
+                {drugs.map(drug => (
+                  <div key={drug.key} className="flex items-center justify-between gap-3 px-5 py-3">
+                    <div className="min-w-0">
+                      <span className="block text-sm font-medium text-gray-900 dark:text-white truncate">{drug.brandName}</span>
+                      <span className="block text-xs text-gray-500 dark:text-gray-400 truncate">
+                        {drug.genericName}
+                        {drug.condition && (
+                          <> • for <span className="font-mono">{drug.condition.code}</span> {drug.condition.name}</>
+                        )}
+                      </span>
+                    </div>
+                    <button
+                      type="button"
+                      onClick={() => remove(drug.key)}
+                      className="flex-shrink-0 p-1.5 rounded-lg text-gray-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors"
+                      aria-label={`Remove ${drug.brandName}`}
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </section>
+
+            {/* ── Findings ── */}
+            <section>
+              <h2 className="flex items-center gap-2 text-sm font-semibold text-gray-900 dark:text-white mb-2">
+                Interactions
+                {result && <span className="font-normal text-gray-400">({result.pairsChecked} pairs checked)</span>}
+                {isChecking && <Loader2 className="w-3.5 h-3.5 animate-spin text-gray-400" />}
+              </h2>
+
+              {error && <p className="text-sm text-red-500">{error}</p>}
+
+              {drugs.length < 2 ? (
+                <p className="text-sm text-gray-400 dark:text-gray-500">Add at least one more drug to check for interactions.</p>
+              ) : result && findingCount === 0 ? (
+                <div className="flex items-center gap-2 p-3 rounded-xl border bg-emerald-50 dark:bg-emerald-900/20 border-emerald-200 dark:border-emerald-800/50 text-emerald-700 dark:text-emerald-400 text-sm">
+                  <CheckCircle2 className="w-4 h-4 flex-shrink-0" />
+                  No known interactions between these drugs in the local dataset
+                </div>
+              ) : result && (
+                <div className="space-y-2">
+                  {result.findings.map(finding => {
+                    const { label, icon: Icon, className, badge } = SEVERITY_STYLES[finding.severity];
+                    const [a, b] = finding.drugs;
+                    const [ingredientA, ingredientB] = finding.ingredients;
+                    return (
+                      <div
+                        key={`${a.key}-${b.key}-${ingredientA.rxcui}-${ingredientB.rxcui}`}
+                        className={`p-3 rounded-xl border text-sm ${className}`}
+                      >
+                        <div className="flex flex-wrap items-center gap-2 mb-1">
+                          {finding.kind === 'duplicate' ? <Copy className="w-4 h-4 flex-shrink-0" /> : <Icon className="w-4 h-4 flex-shrink-0" />}
+                          <span className="font-semibold">
+                            {a.brandName} + {b.brandName}
+                          </span>
+                          <span className={`px-1.5 py-0.5 rounded text-[10px] font-bold uppercase tracking-wide ${badge}`}>
+                            {finding.kind === 'duplicate' ? 'Duplicate' : label}
+                          </span>
+                          <span className="text-xs opacity-75">
+                            {finding.kind === 'duplicate' ? ingredientA.name : `${ingredientA.name} × ${ingredientB.name}`}
+                          </span>
+                        </div>
+                        <p>{finding.description}</p>
+                        {finding.management && (
+                          <p className="mt-1 text-xs opacity-90">
+                            <span className="font-semibold">Management:</span> {finding.management}
+                          </p>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+
+              {result && result.unrecognized.length > 0 && (
+                <div className="mt-3 flex items-start gap-2 p-3 rounded-xl border bg-gray-100 dark:bg-gray-800/50 border-gray-200 dark:border-gray-700 text-xs text-gray-600 dark:text-gray-400">
+                  <Info className="w-4 h-4 flex-shrink-0" />
+                  <span>
+                    Not in the interaction dataset, so not checked: {result.unrecognized.map(d => d.brandName).join(', ')}
+                  </span>
+                </div>
+              )}
+            </section>
+
+            {result && (
+              <p className="text-xs text-center text-gray-400 dark:text-gray-500">
+                Local interaction dataset v{result.dataVersion} — a curated subset of clinically significant interactions. Absence of a warning does not mean a combination is safe.
+              </p>
+            )}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
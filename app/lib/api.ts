@@ -18,12 +18,18 @@
  * - "heart attack" → searches "myocardial infarction"
  * - Combines results from both original and translated terms
  * - Returns translation metadata for UI display
+ * 
+ * Offline Update: Bundled ICD-10-CM code set
+ * - Falls back to public/data/icd10cm-*.json when ClinicalTables fails
+ * - NEXT_PUBLIC_ICD10_SOURCE=local makes the local data the primary source
+ * - Results report which source answered (dataSource)
  */
 
-import { ICD10Result, SearchResponse, SearchResultsWithTranslation, ScoredICD10Result } from '../types/icd';
+import { ICD10Result, SearchResponse, SearchResultsWithTranslation, ScoredICD10Result, ICD10DataSource } from '../types/icd';
 import { scoreAndRankResults } from './scoring';
 import { translateQuery } from './termMapper';
 import { normalizeQuery } from './queryNormalizer';
+import { getPrimaryIcd10Source, searchLocalIcd10, getLocalCodeFamily } from './icd10cmLocalData';
 
 // =============================================================================
 // Query Sanitization
@@ -177,12 +183,14 @@ export async function searchICD10(query: string): Promise<SearchResultsWithTrans
   try {
     let allResults: ICD10Result[] = [];
     let maxTotalCount = 0;
+    let dataSource: ICD10DataSource = getPrimaryIcd10Source();
     
     // Search for each term in searchTerms array
     for (const searchTerm of searchTerms) {
-      const { results, totalCount } = await searchSingleTerm(searchTerm);
+      const { results, totalCount, source } = await searchSingleTerm(searchTerm);
       allResults = allResults.concat(results);
       maxTotalCount = Math.max(maxTotalCount, totalCount);
+      if (source === 'local') dataSource = 'local';
     }
     
     // Step 6: Deduplicate results by ICD code
@@ -209,7 +217,8 @@ export async function searchICD10(query: string): Promise<SearchResultsWithTrans
       totalCount: maxTotalCount,
       displayedCount: displayResults.length,
       hasMore: maxTotalCount > displayResults.length,
-      translation: translation.wasTranslated ? translation : undefined
+      translation: translation.wasTranslated ? translation : undefined,
+      dataSource
     };
     
   } catch (error) {
@@ -221,32 +230,64 @@ export async function searchICD10(query: string): Promise<SearchResultsWithTrans
 }
 
 /**
- * Searches the API for a single term (internal helper).
+ * Searches a single term (internal helper).
+ * 
+ * Tries the configured primary source first. When ClinicalTables is the
+ * primary source and the request fails (network error, non-OK status),
+ * the bundled ICD-10-CM data answers instead so search keeps working.
  * 
  * @param term - The search term
- * @returns Raw results and total count
+ * @param limit - Maximum number of results to fetch
+ * @returns Raw results, total count, and which source answered
  */
-async function searchSingleTerm(term: string): Promise<{ results: ICD10Result[]; totalCount: number }> {
+async function searchSingleTerm(
+  term: string,
+  limit: number = FETCH_LIMIT
+): Promise<{ results: ICD10Result[]; totalCount: number; source: ICD10DataSource }> {
   const sanitizedTerm = sanitizeSearchTerm(term);
   
-  const params = new URLSearchParams({
-    sf: 'code,name',
-    terms: sanitizedTerm,
-    maxList: String(FETCH_LIMIT)
-  });
-  
-  const url = `${API_BASE_URL}?${params.toString()}`;
-  const response = await fetch(url);
-  
-  if (!response.ok) {
-    throw new Error(`API request failed with status: ${response.status}`);
+  if (getPrimaryIcd10Source() === 'local') {
+    return searchLocalTerm(sanitizedTerm, limit);
   }
   
-  const data: SearchResponse = await response.json();
-  const totalCount = data[0];
-  const results = parseSearchResponse(data);
-  
-  return { results, totalCount };
+  try {
+    const params = new URLSearchParams({
+      sf: 'code,name',
+      terms: sanitizedTerm,
+      maxList: String(limit)
+    });
+    
+    const url = `${API_BASE_URL}?${params.toString()}`;
+    const response = await fetch(url);
+    
+    if (!response.ok) {
+      throw new Error(`API request failed with status: ${response.status}`);
+    }
+    
+    const data: SearchResponse = await response.json();
+    const totalCount = data[0];
+    const results = parseSearchResponse(data);
+    
+    return { results, totalCount, source: 'api' };
+  } catch (error) {
+    console.warn(`[Search] ClinicalTables unavailable for "${sanitizedTerm}", using local ICD-10-CM data:`, error);
+    return searchLocalTerm(sanitizedTerm, limit);
+  }
+}
+
+/**
+ * Searches the bundled ICD-10-CM data for a single term (internal helper).
+ * 
+ * @param term - The sanitized search term
+ * @param limit - Maximum number of results to return
+ */
+async function searchLocalTerm(
+  term: string,
+  limit: number
+): Promise<{ results: ICD10Result[]; totalCount: number; source: ICD10DataSource }> {
+  const localResults = await searchLocalIcd10(term, limit);
+  const results = localResults.map(({ code, name }) => ({ code, name }));
+  return { results, totalCount: results.length, source: 'local' };
 }
 
 /**
@@ -310,28 +351,15 @@ export async function searchICD10More(
   try {
     let allResults: ICD10Result[] = [];
     let maxTotalCount = 0;
+    let dataSource: ICD10DataSource = getPrimaryIcd10Source();
     
     // Search for each term
     for (const searchTerm of translation.searchTerms) {
-      const params = new URLSearchParams({
-        sf: 'code,name',
-        terms: searchTerm,
-        maxList: String(fetchLimit)
-      });
-      
-      const url = `${API_BASE_URL}?${params.toString()}`;
-      const response = await fetch(url);
-      
-      if (!response.ok) {
-        throw new Error(`API request failed with status: ${response.status}`);
-      }
-      
-      const data: SearchResponse = await response.json();
-      const totalCount = data[0];
-      const results = parseSearchResponse(data);
+      const { results, totalCount, source } = await searchSingleTerm(searchTerm, fetchLimit);
       
       allResults = allResults.concat(results);
       maxTotalCount = Math.max(maxTotalCount, totalCount);
+      if (source === 'local') dataSource = 'local';
     }
     
     // Deduplicate and score
@@ -350,7 +378,8 @@ export async function searchICD10More(
       totalCount: maxTotalCount,
       displayedCount: displayResults.length,
       hasMore: maxTotalCount > displayResults.length && scoredResults.length > displayResults.length,
-      translation: translation.wasTranslated ? translation : undefined
+      translation: translation.wasTranslated ? translation : undefined,
+      dataSource
     };
     
   } catch (error) {
@@ -454,6 +483,9 @@ export function extractParentCode(code: string): string {
 /**
  * Checks if an ICD-10 code is specific (has a decimal) vs category-only.
  * 
+ * This is a string check only — E11.6 passes but is not billable.
+ * Use validateIcd10Code() from icd10Validation.ts to check billability.
+ * 
  * @param code - Any ICD-10 code
  * @returns True if code has a decimal (specific), false if category-only
  * 
@@ -495,25 +527,39 @@ export async function getRelatedCodes(code: string): Promise<ICD10Result[]> {
   }
   
   try {
-    console.log(`${logPrefix} 🔍 Fetching from API for parent "${parentCode}"...`);
-    
-    const params = new URLSearchParams({
-      sf: 'code,name',
-      terms: parentCode,
-      maxList: String(RELATED_CODES_LIMIT)
-    });
+    let allCodes: ICD10Result[];
+    // Set when the API failed and the partial local subset stood in for it
+    let usedFallback = false;
     
-    const url = `${API_BASE_URL}?${params.toString()}`;
-    const response = await fetch(url);
-    
-    if (!response.ok) {
-      console.error(`${logPrefix} API request failed with status: ${response.status}`);
-      return [];
+    if (getPrimaryIcd10Source() === 'local') {
+      allCodes = await getLocalFamilyResults(parentCode);
+    } else {
+      console.log(`${logPrefix} 🔍 Fetching from API for parent "${parentCode}"...`);
+      
+      const params = new URLSearchParams({
+        sf: 'code,name',
+        terms: parentCode,
+        maxList: String(RELATED_CODES_LIMIT)
+      });
+      
+      const url = `${API_BASE_URL}?${params.toString()}`;
+      
+      try {
+        const response = await fetch(url);
+        
+        if (!response.ok) {
+          throw new Error(`API request failed with status: ${response.status}`);
+        }
+        
+        const data: SearchResponse = await response.json();
+        allCodes = parseSearchResponse(data);
+      } catch (apiError) {
+        console.warn(`${logPrefix} API unavailable, using local ICD-10-CM data:`, apiError);
+        allCodes = await getLocalFamilyResults(parentCode);
+        usedFallback = true;
+      }
     }
     
-    const data: SearchResponse = await response.json();
-    const allCodes = parseSearchResponse(data);
-    
     // Filter to only codes that start with the parent category
     const familyCodes = allCodes.filter(r => 
       r.code.toUpperCase().startsWith(parentCode)
@@ -522,11 +568,14 @@ export async function getRelatedCodes(code: string): Promise<ICD10Result[]> {
     // Sort by code
     familyCodes.sort((a, b) => a.code.localeCompare(b.code));
     
-    // Cache the full family
-    relatedCodesCache.set(parentCode, {
-      data: familyCodes,
-      timestamp: Date.now(),
-    });
+    // Cache the full family; a fallback family may be incomplete, so the
+    // next lookup asks the API again
+    if (!usedFallback) {
+      relatedCodesCache.set(parentCode, {
+        data: familyCodes,
+        timestamp: Date.now(),
+      });
+    }
     
     console.log(`${logPrefix} ✅ Found ${familyCodes.length} codes in family "${parentCode}"`);
     
@@ -539,6 +588,16 @@ export async function getRelatedCodes(code: string): Promise<ICD10Result[]> {
   }
 }
 
+/**
+ * Loads a code family from the bundled ICD-10-CM data (internal helper).
+ * 
+ * @param parentCode - The 3-character category (e.g., "I21")
+ */
+async function getLocalFamilyResults(parentCode: string): Promise<ICD10Result[]> {
+  const family = await getLocalCodeFamily(parentCode);
+  return family.map(({ code, name }) => ({ code, name }));
+}
+
 /**
  * Clears the related codes cache.
  */
@@ -0,0 +1,177 @@
+/**
+ * apiV1.ts — Shared helpers for the versioned REST API (/api/v1/*)
+ *
+ * Every v1 route answers with the same envelopes so integrations can
+ * handle all endpoints with one client:
+ *
+ *   200  { data: {...}, meta?: {...} }                       ← single resource
+ *   200  { data: [...], pagination: {...}, meta?: {...} }    ← list
+ *   4xx  { error: { status, code, message, details? } }      ← any error
+ *
+ * Lists are paginated with ?page= (1-based) and ?pageSize= (max 100).
+ * The OpenAPI document describing all of this lives in openApiSpec.ts.
+ */
+
+import { NextResponse } from 'next/server';
+import {
+  ApiErrorCode,
+  ApiErrorResponse,
+  ApiItemResponse,
+  ApiListResponse,
+  ApiPagination,
+  CodeValidationResult,
+} from '../types/icd';
+import { isICD10Code } from './conditionsApi';
+import { formatIcd10Code, validateIcd10Code } from './icd10Validation';
+import { searchICD10 } from './api';
+
+// ── Configuration ──
+
+/** Sent as X-API-Version on every v1 response */
+export const API_VERSION = '1.0.0';
+
+export const DEFAULT_PAGE_SIZE = 25;
+export const MAX_PAGE_SIZE = 100;
+
+const VERSION_HEADERS = { 'X-API-Version': API_VERSION };
+
+// ── Errors ──
+
+/**
+ * Thrown inside a route handler to end the request with an error envelope.
+ * withApiErrors() turns it into the response.
+ */
+export class ApiError extends Error {
+  constructor(
+    public readonly status: number,
+    public readonly code: ApiErrorCode,
+    message: string,
+    public readonly details?: Record<string, unknown>
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+export function apiError(
+  status: number,
+  code: ApiErrorCode,
+  message: string,
+  details?: Record<string, unknown>
+): NextResponse<ApiErrorResponse> {
+  return NextResponse.json(
+    { error: { status, code, message, ...(details && { details }) } },
+    { status, headers: VERSION_HEADERS }
+  );
+}
+
+/**
+ * Wraps a route handler: ApiErrors become their envelope, anything else
+ * is logged and returned as a 500 without leaking internals.
+ *
+ * @example
+ * export const GET = withApiErrors('icd10/search', async (request) => { ... });
+ */
+export function withApiErrors<Args extends unknown[]>(
+  name: string,
+  handler: (...args: Args) => Promise<NextResponse>
+): (...args: Args) => Promise<NextResponse> {
+  return async (...args: Args) => {
+    try {
+      return await handler(...args);
+    } catch (err) {
+      if (err instanceof ApiError) return apiError(err.status, err.code, err.message, err.details);
+      console.error(`[API:v1/${name}] Error:`, err);
+      return apiError(500, 'internal_error', 'Unexpected server error. Please try again.');
+    }
+  };
+}
+
+// ── Success envelopes ──
+
+export function apiItem<T>(data: T, meta?: Record<string, unknown>): NextResponse<ApiItemResponse<T>> {
+  return NextResponse.json({ data, ...(meta && { meta }) }, { headers: VERSION_HEADERS });
+}
+
+export function apiList<T>(
+  items: T[],
+  page: { page: number; pageSize: number },
+  meta?: Record<string, unknown>
+): NextResponse<ApiListResponse<T>> {
+  const { data, pagination } = paginate(items, page);
+  return NextResponse.json({ data, pagination, ...(meta && { meta }) }, { headers: VERSION_HEADERS });
+}
+
+// ── Pagination ──
+
+/**
+ * Reads ?page= and ?pageSize= (defaults 1 and DEFAULT_PAGE_SIZE).
+ *
+ * @throws ApiError 400 for non-numeric, zero or too-large values
+ */
+export function parsePagination(searchParams: URLSearchParams): { page: number; pageSize: number } {
+  const read = (name: string, fallback: number, max?: number): number => {
+    const raw = searchParams.get(name);
+    if (raw === null || raw === '') return fallback;
+    const value = Number(raw);
+    if (!Number.isSafeInteger(value) || value < 1 || (max !== undefined && value > max)) {
+      const range = max === undefined ? 'a positive integer' : `an integer between 1 and ${max}`;
+      throw new ApiError(400, 'bad_request', `${name} must be ${range}`, { [name]: raw });
+    }
+    return value;
+  };
+
+  return {
+    page: read('page', 1),
+    pageSize: read('pageSize', DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE),
+  };
+}
+
+/** Slices one page out of a full result list */
+export function paginate<T>(items: T[], { page, pageSize }: { page: number; pageSize: number }): {
+  data: T[];
+  pagination: ApiPagination;
+} {
+  const total = items.length;
+  const totalPages = Math.max(1, Math.ceil(total / pageSize));
+  const start = (page - 1) * pageSize;
+  return {
+    data: items.slice(start, start + pageSize),
+    pagination: { page, pageSize, total, totalPages, hasMore: start + pageSize < total },
+  };
+}
+
+// ── Lookups shared by several routes ──
+
+/**
+ * Resolves an ICD-10-CM code for the API: the bundled code set first
+ * (with billability), then the ClinicalTables search for codes outside
+ * the bundled subset (description only).
+ *
+ * @throws ApiError 400 for malformed codes, 404 if neither source knows the code
+ */
+export async function findIcd10Code(rawCode: string, fiscalYear?: number): Promise<{
+  code: string;
+  description: string;
+  validation: CodeValidationResult | null;
+  source: 'local' | 'clinicaltables';
+}> {
+  // "E119" and "e11.9" are both E11.9
+  const input = formatIcd10Code(rawCode);
+  if (!isICD10Code(input)) {
+    throw new ApiError(400, 'invalid_code', `"${rawCode.trim()}" is not a valid ICD-10-CM code format`);
+  }
+
+  const validation = await validateIcd10Code(input, fiscalYear);
+  if (validation.status === 'unsupported_year') {
+    throw new ApiError(400, 'bad_request', validation.message, { fiscalYear });
+  }
+  if (validation.description) {
+    return { code: validation.code, description: validation.description, validation, source: 'local' };
+  }
+
+  const { results } = await searchICD10(validation.code);
+  const match = results.find(r => r.code.toUpperCase() === validation.code);
+  if (!match) throw new ApiError(404, 'not_found', `ICD-10-CM code ${validation.code} not found`);
+  return { code: match.code, description: match.name, validation: null, source: 'clinicaltables' };
+}
@@ -0,0 +1,272 @@
+/**
+ * batchLookup.ts — Validate a pasted list or spreadsheet of codes at once
+ *
+ * Takes free text (a pasted column, a comma separated list, a CSV export),
+ * pulls out everything shaped like a code with detectCodeType() and resolves
+ * each one through the same local data the single-code views use:
+ *
+ *   "E11.9, J0120\nI10 ... 250.00"
+ *   → E11.9   ICD-10-CM  Type 2 diabetes...  Endocrine  billable   active
+ *     J0120   HCPCS      Injection, tetra... —          billable   active  (coverage: Carrier Judgment)
+ *     250.00  ICD-9-CM   Diabetes mellitus... —         no         terminated → E11.9
+ *     0DTJ4ZZ ICD-10-PCS Resection of Appe... —         billable   active
+ *
+ * ICD-10-CM codes outside the bundled subset are looked up on ClinicalTables
+ * (like findIcd10Code in apiV1.ts); when it can't be reached they come back
+ * 'unverified' rather than 'not_found'.
+ *
+ * Used by the /batch page (in the browser) and /api/batch-lookup (server).
+ */
+
+import { BatchLookupResult, BatchLookupRow } from '../types/icd';
+import { searchICD10 } from './api';
+import { detectCodeType } from './conditionsApi';
+import { lookupLocalHcpcs, getMedicareCoverage } from './hcpcsLocalData';
+import { validateIcd10Code } from './icd10Validation';
+import { getCodeYearStatus } from './icd10CodeChanges';
+import { crosswalkIcd9ToIcd10 } from './gemsCrosswalk';
+import { decodePcsCode } from './icd10pcsTables';
+import { getChapter } from './chapterMapping';
+
+// ── Configuration ──
+
+/** Maximum number of distinct codes looked up per batch */
+export const MAX_BATCH_CODES = 1000;
+
+/** Column order of the CSV download */
+const CSV_COLUMNS: { header: string; value: (row: BatchLookupRow) => string }[] = [
+  { header: 'Input', value: row => neutralizeFormula(row.input) },
+  { header: 'Code', value: row => row.code },
+  { header: 'Type', value: row => row.codeType },
+  { header: 'Description', value: row => row.description ?? '' },
+  { header: 'Chapter', value: row => row.chapter ?? '' },
+  { header: 'Billable', value: row => row.billable === null ? '' : row.billable ? 'Yes' : 'No' },
+  { header: 'Medicare Coverage', value: row => row.coverage ?? '' },
+  { header: 'Status', value: row => row.status },
+  { header: 'Notes', value: row => row.message },
+];
+
+// ── Helpers ──
+
+/**
+ * Prefixes a quote to text a spreadsheet would run as a formula. Input is
+ * pasted by the user, so "=HYPERLINK(...)" must stay plain text in the CSV.
+ */
+function neutralizeFormula(value: string): string {
+  return /^[=+\-@]/.test(value) ? `'${value}` : value;
+}
+
+// ── Parsing ──
+
+/**
+ * Extracts code tokens from pasted text or CSV content, in order and
+ * without duplicates. Words (headers, descriptions) are ignored; tokens
+ * that look like codes but aren't one we know (CPT "99213") are reported
+ * as skipped.
+ *
+ * @example
+ * parseBatchInput("Code,Description\nE11.9,Diabetes\nJ0120,Tetracycline\n99213")
+ * // → { codes: ["E11.9", "J0120"], skipped: ["99213"] }
+ */
+export function parseBatchInput(text: string): { codes: string[]; skipped: string[] } {
+  const codes: string[] = [];
+  const skipped: string[] = [];
+  const seen = new Set<string>();
+
+  // "ICD-9: V58.61" and "PCS: B2151ZZ" keep their prefix so the code is read right
+  const tokens = text.match(/(?:icd-?9(?:-cm)?|(?:icd-?10-?)?pcs):\s*[^\s,;|"]+|[^\s,;|"]+/gi) ?? [];
+
+  for (const token of tokens) {
+    const key = token.toUpperCase();
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    if (detectCodeType(token) !== 'condition') codes.push(token);
+    else if (/^[A-Z]?\d{2,}[\dA-Z.]*$/i.test(token)) skipped.push(token);
+  }
+
+  return { codes, skipped };
+}
+
+// ── Lookup per code type ──
+
+async function lookupHcpcsRow(input: string): Promise<BatchLookupRow> {
+  const code = input.trim().toUpperCase();
+  const result = await lookupLocalHcpcs(code);
+  if (!result) {
+    return {
+      input, code, codeType: 'hcpcs', description: null, chapter: null, billable: null, coverage: null,
+      status: 'not_found', message: 'Not in the bundled HCPCS Level II file',
+    };
+  }
+
+  const coverage = getMedicareCoverage(result.coverageCode);
+  return {
+    input,
+    code: result.code,
+    codeType: 'hcpcs',
+    description: result.longDescription || result.shortDescription,
+    chapter: null,
+    billable: result.isActive,
+    coverage: coverage?.label ?? null,
+    status: result.isActive ? 'active' : 'terminated',
+    message: result.isActive
+      ? coverage?.description ?? ''
+      : `Terminated ${result.termDate ?? ''}`.trim(),
+  };
+}
+
+async function lookupIcd10Row(input: string): Promise<BatchLookupRow> {
+  const validation = await validateIcd10Code(input);
+  const chapter = getChapter(validation.code);
+  const base = {
+    input,
+    code: validation.code,
+    codeType: 'icd10' as const,
+    chapter: chapter.id === 0 ? null : chapter.name,
+    coverage: null,
+  };
+
+  if (validation.status !== 'not_found' && validation.status !== 'invalid_format') {
+    return {
+      ...base,
+      description: validation.description ?? null,
+      billable: validation.billable,
+      status: 'active',
+      message: validation.billable ? '' : validation.message,
+    };
+  }
+
+  if (validation.status === 'invalid_format') {
+    return { ...base, description: null, billable: null, status: 'not_found', message: validation.message };
+  }
+
+  // Not in the current code set — deleted in an earlier fiscal year?
+  const yearStatus = await getCodeYearStatus(validation.code);
+  if (yearStatus.status === 'deleted') {
+    return { ...base, description: null, billable: false, status: 'terminated', message: yearStatus.message };
+  }
+
+  // Or just outside the bundled subset
+  const match = await findClinicalTablesCode(validation.code);
+  if (match === undefined) {
+    return {
+      ...base,
+      description: null,
+      billable: null,
+      status: 'unverified',
+      message: 'Not in the bundled code set and ClinicalTables is unavailable — verify the code',
+    };
+  }
+  return match
+    ? {
+      ...base,
+      description: match.name,
+      billable: null,
+      status: 'active',
+      message: 'Not in the bundled code set — description from ClinicalTables, billability not checked',
+    }
+    : { ...base, description: null, billable: null, status: 'not_found', message: validation.message };
+}
+
+/**
+ * Exact match for a code on ClinicalTables: the result, null if ClinicalTables
+ * doesn't know the code, undefined if it couldn't be asked (the search fell
+ * back to the bundled data).
+ */
+async function findClinicalTablesCode(code: string): Promise<{ code: string; name: string } | null | undefined> {
+  try {
+    const { results, dataSource } = await searchICD10(code);
+    if (dataSource === 'local') return undefined;
+    return results.find(r => r.code.toUpperCase() === code) ?? null;
+  } catch (err) {
+    console.error(`[Batch Lookup] ClinicalTables lookup failed for ${code}:`, err);
+    return undefined;
+  }
+}
+
+async function lookupIcd9Row(input: string): Promise<BatchLookupRow> {
+  const crosswalk = await crosswalkIcd9ToIcd10(input);
+  const targets = [
+    ...crosswalk.mappings.map(m => m.targetCode),
+    ...crosswalk.scenarios.map(s => s.choiceLists.map(list => list[0]?.targetCode).join(' + ')),
+  ];
+
+  return {
+    input,
+    code: crosswalk.sourceCode,
+    codeType: 'icd9',
+    description: crosswalk.sourceDescription,
+    chapter: null,
+    billable: crosswalk.found ? false : null,
+    coverage: null,
+    status: crosswalk.found ? 'terminated' : 'not_found',
+    message: !crosswalk.found
+      ? 'Not in the bundled GEM files'
+      : crosswalk.noMap
+        ? 'ICD-9-CM (retired Oct 1, 2015) — no ICD-10-CM equivalent'
+        : `ICD-9-CM (retired Oct 1, 2015) — maps to ${targets.join(', ')}`,
+  };
+}
+
+/** Only the bundled PCS tables are used: no ClinicalTables call per code */
+async function lookupIcd10PcsRow(input: string): Promise<BatchLookupRow> {
+  const decoded = await decodePcsCode(input, { describeUnbundled: false });
+  const invalid = decoded.characters.find(character => character.status === 'invalid');
+
+  return {
+    input,
+    code: decoded.code,
+    codeType: 'icd10pcs',
+    description: decoded.description,
+    chapter: null,
+    // Every valid 7-character PCS code is billable
+    billable: decoded.status === 'valid' ? true : null,
+    coverage: null,
+    status: decoded.status === 'valid' ? 'active' : 'not_found',
+    message: invalid
+      ? `Character ${invalid.position}: ${invalid.message}`
+      : decoded.status === 'valid' ? '' : decoded.message,
+  };
+}
+
+// ── Public API ──
+
+/**
+ * Looks up every code in a pasted text / CSV.
+ *
+ * @example
+ * const { rows, skipped } = await lookupBatch("E11.9\nJ0120\n250.00");
+ */
+export async function lookupBatch(text: string): Promise<BatchLookupResult> {
+  const { codes, skipped } = parseBatchInput(text);
+  const batch = codes.slice(0, MAX_BATCH_CODES);
+
+  const rows = await Promise.all(batch.map(input => {
+    switch (detectCodeType(input)) {
+      case 'hcpcs': return lookupHcpcsRow(input);
+      case 'icd9': return lookupIcd9Row(input);
+      case 'icd10pcs': return lookupIcd10PcsRow(input);
+      default: return lookupIcd10Row(input);
+    }
+  }));
+
+  return { rows, skipped, truncated: codes.length > batch.length };
+}
+
+/**
+ * Converts batch rows to CSV (header row first).
+ */
+export function batchToCsv(rows: BatchLookupRow[]): string {
+  // Wraps in quotes if contains comma, quote, or line break; escapes internal quotes
+  const escapeCSV = (value: string): string => {
+    if (/[,"\r\n]/.test(value)) {
+      return `"${value.replace(/"/g, '""')}"`;
+    }
+    return value;
+  };
+
+  const header = CSV_COLUMNS.map(c => c.header).join(',');
+  const lines = rows.map(row => CSV_COLUMNS.map(c => escapeCSV(c.value(row))).join(','));
+  return [header, ...lines].join('\n');
+}
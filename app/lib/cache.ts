@@ -0,0 +1,298 @@
+/**
+ * cache.ts — Shared TTL/LRU cache with pluggable storage backends
+ *
+ * Every API client caches through this module instead of keeping its own
+ * Map, so TTL, size limits, eviction and hit/miss counters work the same
+ * everywhere and one endpoint (/api/cache-stats) can report on all of them:
+ *
+ *   const drugCache = createCache<RxNormDrug | null>('rxnorm-drugs', { ttlMs: 24 * 60 * 60 * 1000, maxEntries: 2000 });
+ *   const cached = await drugCache.get('ozempic');   // undefined on miss
+ *   await drugCache.set('ozempic', drug);
+ *
+ * Caches are created with the in-memory backend. On the server,
+ * instrumentation.ts calls configureServerCache() (cacheServer.ts), which
+ * swaps in the filesystem or Redis backend from CACHE_BACKEND so results —
+ * above all the paid Claude drug scores — survive restarts and deploys.
+ * This file has no Node imports, so client components can use it too.
+ *
+ * Values must be JSON-serializable. Cache failures never throw: a backend
+ * error counts as a miss (get) or a dropped write (set).
+ */
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type CacheBackend = 'memory' | 'fs' | 'redis';
+
+/** Shared eviction policy, set per namespace */
+export interface CachePolicy {
+  /** Entries older than this are treated as misses and removed */
+  ttlMs: number;
+  /** Least recently used entries are evicted beyond this count */
+  maxEntries: number;
+}
+
+/** What a backend stores for each key */
+export interface CacheRecord<T = unknown> {
+  value: T;
+  /** Unix timestamp (ms) of the write */
+  storedAt: number;
+}
+
+/**
+ * Storage backend for one namespace. Backends own expiry and LRU eviction
+ * so a shared store (files, Redis) enforces the policy across processes.
+ */
+export interface CacheStore {
+  readonly backend: CacheBackend;
+  /** Returns null for missing or expired keys; refreshes recency on hit */
+  get(key: string): Promise<CacheRecord | null>;
+  /** Returns the number of entries evicted to stay within maxEntries */
+  set(key: string, record: CacheRecord): Promise<number>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+  size(): Promise<number>;
+}
+
+export type CacheStoreFactory = (namespace: string, policy: CachePolicy) => CacheStore;
+
+/** One namespace's entry in the /api/cache-stats response */
+export interface CacheStats {
+  namespace: string;
+  backend: CacheBackend;
+  ttlMs: number;
+  maxEntries: number;
+  /** Null when the backend couldn't be reached */
+  entries: number | null;
+  hits: number;
+  misses: number;
+  /** hits / (hits + misses), null before the first lookup */
+  hitRate: number | null;
+  writes: number;
+  evictions: number;
+  errors: number;
+}
+
+// =============================================================================
+// Memory Backend
+// =============================================================================
+
+/**
+ * In-process LRU store. Map iteration order is insertion order, so
+ * re-inserting on every hit keeps the least recently used key first.
+ */
+export function createMemoryStore(_namespace: string, policy: CachePolicy): CacheStore {
+  const entries = new Map<string, CacheRecord>();
+
+  return {
+    backend: 'memory',
+
+    async get(key) {
+      const record = entries.get(key);
+      if (!record) return null;
+      entries.delete(key);
+      if (Date.now() - record.storedAt >= policy.ttlMs) return null;
+      entries.set(key, record);
+      return record;
+    },
+
+    async set(key, record) {
+      entries.delete(key);
+      entries.set(key, record);
+      let evicted = 0;
+      while (entries.size > policy.maxEntries) {
+        const oldest = entries.keys().next().value;
+        if (oldest === undefined) break;
+        entries.delete(oldest);
+        evicted++;
+      }
+      return evicted;
+    },
+
+    async delete(key) {
+      entries.delete(key);
+    },
+
+    async clear() {
+      entries.clear();
+    },
+
+    async size() {
+      return entries.size;
+    },
+  };
+}
+
+// =============================================================================
+// Registry
+// =============================================================================
+
+/**
+ * Kept on globalThis: Next.js bundles instrumentation and each route
+ * separately, and they must all see the same backend and cache list.
+ */
+interface CacheRegistry {
+  factory: CacheStoreFactory;
+  caches: Map<string, Cache<unknown>>;
+}
+
+const REGISTRY_KEY = Symbol.for('medcodemap.cacheRegistry');
+
+function getRegistry(): CacheRegistry {
+  const scope = globalThis as typeof globalThis & { [REGISTRY_KEY]?: CacheRegistry };
+  scope[REGISTRY_KEY] ??= { factory: createMemoryStore, caches: new Map() };
+  return scope[REGISTRY_KEY];
+}
+
+/**
+ * Switches every cache — existing and future — to a new backend.
+ * Entries in the previous backend are not carried over.
+ */
+export function setCacheStoreFactory(factory: CacheStoreFactory): void {
+  const registry = getRegistry();
+  registry.factory = factory;
+  for (const cache of registry.caches.values()) cache.resetStore();
+}
+
+// =============================================================================
+// Cache
+// =============================================================================
+
+export class Cache<T> {
+  private store: CacheStore | null = null;
+  private hits = 0;
+  private misses = 0;
+  private writes = 0;
+  private evictions = 0;
+  private errors = 0;
+
+  constructor(readonly namespace: string, readonly policy: CachePolicy) {}
+
+  private getStore(): CacheStore {
+    this.store ??= getRegistry().factory(this.namespace, this.policy);
+    return this.store;
+  }
+
+  /** Drops the backend so the next call creates one from the current factory */
+  resetStore(): void {
+    this.store = null;
+  }
+
+  private logError(operation: string, error: unknown): void {
+    this.errors++;
+    const message = error instanceof Error ? error.message : String(error);
+    console.warn(`[Cache:${this.namespace}] ${operation} failed: ${message}`);
+  }
+
+  /**
+   * Returns the value with its write time (for "age" logging),
+   * or null on a miss.
+   */
+  async getEntry(key: string): Promise<CacheRecord<T> | null> {
+    let record: CacheRecord | null;
+    try {
+      record = await this.getStore().get(key);
+    } catch (error) {
+      this.logError('get', error);
+      record = null;
+    }
+
+    // Backends expire entries too; this guards against clock skew between processes
+    if (!record || Date.now() - record.storedAt >= this.policy.ttlMs) {
+      this.misses++;
+      return null;
+    }
+    this.hits++;
+    return record as CacheRecord<T>;
+  }
+
+  /** Returns the cached value, or undefined on a miss (null is a valid value) */
+  async get(key: string): Promise<T | undefined> {
+    const record = await this.getEntry(key);
+    return record ? record.value : undefined;
+  }
+
+  async set(key: string, value: T): Promise<void> {
+    try {
+      this.evictions += await this.getStore().set(key, { value, storedAt: Date.now() });
+      this.writes++;
+    } catch (error) {
+      this.logError('set', error);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      await this.getStore().delete(key);
+    } catch (error) {
+      this.logError('delete', error);
+    }
+  }
+
+  async clear(): Promise<void> {
+    try {
+      await this.getStore().clear();
+    } catch (error) {
+      this.logError('clear', error);
+    }
+  }
+
+  async stats(): Promise<CacheStats> {
+    const store = this.getStore();
+    let entries: number | null;
+    try {
+      entries = await store.size();
+    } catch (error) {
+      this.logError('size', error);
+      entries = null;
+    }
+
+    const lookups = this.hits + this.misses;
+    return {
+      namespace: this.namespace,
+      backend: store.backend,
+      ttlMs: this.policy.ttlMs,
+      maxEntries: this.policy.maxEntries,
+      entries,
+      hits: this.hits,
+      misses: this.misses,
+      hitRate: lookups > 0 ? this.hits / lookups : null,
+      writes: this.writes,
+      evictions: this.evictions,
+      errors: this.errors,
+    };
+  }
+}
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+/**
+ * Creates (or returns the existing) cache for a namespace. Namespaces are
+ * global — they become the directory / key prefix in persistent backends.
+ *
+ * @example
+ * const hcpcsCache = createCache<ProcedureResult[]>('hcpcs-search', { ttlMs: 24 * 60 * 60 * 1000, maxEntries: 1000 });
+ */
+export function createCache<T>(namespace: string, policy: CachePolicy): Cache<T> {
+  const { caches } = getRegistry();
+  const existing = caches.get(namespace);
+  if (existing) return existing as Cache<T>;
+
+  const cache = new Cache<T>(namespace, policy);
+  caches.set(namespace, cache as Cache<unknown>);
+  return cache;
+}
+
+/** Stats for every cache created in this process, sorted by namespace */
+export async function getAllCacheStats(): Promise<CacheStats[]> {
+  const caches = [...getRegistry().caches.values()].sort((a, b) => a.namespace.localeCompare(b.namespace));
+  return Promise.all(caches.map(cache => cache.stats()));
+}
+
+/** Clears every cache created in this process */
+export async function clearAllCaches(): Promise<void> {
+  await Promise.all([...getRegistry().caches.values()].map(cache => cache.clear()));
+}
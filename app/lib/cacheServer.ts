@@ -0,0 +1,471 @@
+/**
+ * cacheServer.ts — Persistent cache backends (server only)
+ *
+ * Picks the backend for every cache.ts cache from the environment. Called
+ * once at startup from instrumentation.ts:
+ *
+ *   CACHE_BACKEND=memory  (default) per-process LRU, lost on restart
+ *   CACHE_BACKEND=fs      one JSON file per entry under CACHE_DIR
+ *   CACHE_BACKEND=redis   any Redis-protocol server at REDIS_URL
+ *                         (Redis, Valkey, KeyDB, Dragonfly, Upstash...)
+ *
+ * Both persistent backends apply the same CachePolicy as memory: entries
+ * expire after ttlMs and the least recently used are evicted beyond
+ * maxEntries. The filesystem backend suits single-host deploys with a
+ * mounted volume; use Redis when several instances share a cache.
+ *
+ * The Redis client speaks RESP directly over node:net / node:tls (GET,
+ * SET PX, DEL and a sorted-set recency index per namespace), so no driver
+ * dependency is needed. There is no SQLite backend: it would need a native
+ * driver (or node:sqlite, Node 22+), and the filesystem backend covers the
+ * same single-host case.
+ */
+
+import { createHash } from 'node:crypto';
+import { promises as fs } from 'node:fs';
+import net from 'node:net';
+import path from 'node:path';
+import tls from 'node:tls';
+import {
+  CacheBackend,
+  CachePolicy,
+  CacheRecord,
+  CacheStore,
+  CacheStoreFactory,
+  setCacheStoreFactory,
+} from './cache';
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+/** Default root for the filesystem backend, relative to the working directory */
+const DEFAULT_CACHE_DIR = '.cache/medcodemap';
+
+/** Default prefix for every Redis key, so the app can share a database */
+const DEFAULT_REDIS_PREFIX = 'medcodemap:';
+
+/** Connecting or waiting on a reply longer than this fails the operation */
+const REDIS_TIMEOUT_MS = 2000;
+
+// =============================================================================
+// Filesystem Backend
+// =============================================================================
+
+/** On-disk format; the key is kept to guard against hash collisions */
+interface FileEntry extends CacheRecord {
+  key: string;
+}
+
+let tempFileCounter = 0;
+
+function isMissingFile(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException).code === 'ENOENT';
+}
+
+/**
+ * Stores each entry as <dir>/<sha1(key)>.json. A file's mtime is its last
+ * access (touched on every hit), which drives LRU eviction.
+ */
+function createFsStore(dir: string, policy: CachePolicy): CacheStore {
+  /** File names on disk; re-read when it matters, since other processes write too */
+  let files: Set<string> | null = null;
+
+  const fileName = (key: string) => `${createHash('sha1').update(key).digest('hex')}.json`;
+
+  async function listFiles(): Promise<Set<string>> {
+    if (!files) {
+      try {
+        files = new Set((await fs.readdir(dir)).filter(name => name.endsWith('.json')));
+      } catch (error) {
+        if (!isMissingFile(error)) throw error;
+        files = new Set();
+      }
+    }
+    return files;
+  }
+
+  async function removeFile(name: string): Promise<void> {
+    await fs.rm(path.join(dir, name), { force: true });
+    files?.delete(name);
+  }
+
+  /** Removes the least recently accessed files until within maxEntries */
+  async function evict(): Promise<number> {
+    files = null;
+    const names = [...(await listFiles())];
+    const accessed = await Promise.all(
+      names.map(async name => {
+        try {
+          return { name, mtimeMs: (await fs.stat(path.join(dir, name))).mtimeMs };
+        } catch {
+          // Removed by another process in the meantime
+          files?.delete(name);
+          return null;
+        }
+      })
+    );
+
+    const present = accessed.filter((entry): entry is { name: string; mtimeMs: number } => entry !== null);
+    present.sort((a, b) => a.mtimeMs - b.mtimeMs);
+    const victims = present.slice(0, Math.max(0, present.length - policy.maxEntries));
+    await Promise.all(victims.map(victim => removeFile(victim.name)));
+    return victims.length;
+  }
+
+  return {
+    backend: 'fs',
+
+    async get(key) {
+      const name = fileName(key);
+      const file = path.join(dir, name);
+
+      let entry: FileEntry;
+      try {
+        entry = JSON.parse(await fs.readFile(file, 'utf8'));
+      } catch (error) {
+        if (isMissingFile(error)) return null;
+        if (error instanceof SyntaxError) {
+          // Truncated by a crash mid-write on a filesystem without atomic rename
+          await removeFile(name);
+          return null;
+        }
+        throw error;
+      }
+
+      if (entry.key !== key) return null;
+      if (Date.now() - entry.storedAt >= policy.ttlMs) {
+        await removeFile(name);
+        return null;
+      }
+
+      const now = new Date();
+      await fs.utimes(file, now, now).catch(() => undefined);
+      return { value: entry.value, storedAt: entry.storedAt };
+    },
+
+    async set(key, record) {
+      const name = fileName(key);
+      const entry: FileEntry = { key, ...record };
+
+      await fs.mkdir(dir, { recursive: true });
+      // Write then rename, so readers never see a half-written file
+      const tempFile = path.join(dir, `${name}.${process.pid}.${++tempFileCounter}.tmp`);
+      await fs.writeFile(tempFile, JSON.stringify(entry));
+      await fs.rename(tempFile, path.join(dir, name));
+
+      const known = await listFiles();
+      known.add(name);
+      return known.size > policy.maxEntries ? evict() : 0;
+    },
+
+    async delete(key) {
+      await removeFile(fileName(key));
+    },
+
+    async clear() {
+      await fs.rm(dir, { recursive: true, force: true });
+      files = new Set();
+    },
+
+    async size() {
+      files = null;
+      return (await listFiles()).size;
+    },
+  };
+}
+
+export function createFsStoreFactory(rootDir: string): CacheStoreFactory {
+  return (namespace, policy) => createFsStore(path.join(rootDir, namespace), policy);
+}
+
+// =============================================================================
+// Redis Protocol (RESP) Client
+// =============================================================================
+
+type RespValue = string | number | null | RespValue[];
+
+/** An error reply from the server ("-ERR ...") */
+class RedisReplyError extends Error {}
+
+/**
+ * Parses one reply starting at offset.
+ * Returns null when the buffer doesn't hold a complete reply yet.
+ */
+function parseReply(buffer: Buffer, offset: number): [RespValue | RedisReplyError, number] | null {
+  const lineEnd = buffer.indexOf('\r\n', offset);
+  if (lineEnd < 0) return null;
+
+  const type = String.fromCharCode(buffer[offset]);
+  const line = buffer.toString('utf8', offset + 1, lineEnd);
+  const next = lineEnd + 2;
+
+  switch (type) {
+    case '+':
+      return [line, next];
+    case '-':
+      return [new RedisReplyError(line), next];
+    case ':':
+      return [Number(line), next];
+    case '$': {
+      const length = Number(line);
+      if (length < 0) return [null, next];
+      if (buffer.length < next + length + 2) return null;
+      return [buffer.toString('utf8', next, next + length), next + length + 2];
+    }
+    case '*': {
+      const count = Number(line);
+      if (count < 0) return [null, next];
+      const items: RespValue[] = [];
+      let cursor = next;
+      for (let i = 0; i < count; i++) {
+        const item = parseReply(buffer, cursor);
+        if (!item) return null;
+        items.push(item[0] as RespValue);
+        cursor = item[1];
+      }
+      return [items, cursor];
+    }
+    default:
+      throw new Error(`Unexpected Redis reply type "${type}"`);
+  }
+}
+
+function encodeCommand(args: (string | number)[]): Buffer {
+  const parts = args.map(String);
+  return Buffer.from(`*${parts.length}\r\n${parts.map(part => `$${Buffer.byteLength(part)}\r\n${part}\r\n`).join('')}`);
+}
+
+interface PendingReply {
+  resolve: (value: RespValue) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * One pipelined connection, opened on first use and re-opened after
+ * errors. Replies arrive in command order, so a FIFO queue matches them.
+ */
+class RedisClient {
+  private socket: net.Socket | null = null;
+  private connecting: Promise<net.Socket> | null = null;
+  private buffer = Buffer.alloc(0);
+  private pending: PendingReply[] = [];
+
+  constructor(private readonly url: URL) {}
+
+  async command(args: (string | number)[]): Promise<RespValue> {
+    return this.send(await this.connect(), args);
+  }
+
+  private connect(): Promise<net.Socket> {
+    if (this.socket) return Promise.resolve(this.socket);
+
+    this.connecting ??= new Promise<net.Socket>((resolve, reject) => {
+      const host = this.url.hostname;
+      const port = Number(this.url.port) || 6379;
+      const secure = this.url.protocol === 'rediss:';
+      const socket = secure ? tls.connect({ host, port, servername: host }) : net.connect({ host, port });
+
+      socket.setTimeout(REDIS_TIMEOUT_MS, () => socket.destroy(new Error('Redis connection timed out')));
+      socket.on('data', chunk => this.onData(socket, chunk));
+      socket.on('error', error => {
+        this.reset(socket, error);
+        reject(error);
+      });
+      socket.on('close', () => this.reset(socket, new Error('Redis connection closed')));
+
+      socket.once(secure ? 'secureConnect' : 'connect', async () => {
+        socket.setTimeout(0);
+        try {
+          const username = decodeURIComponent(this.url.username);
+          const password = decodeURIComponent(this.url.password);
+          if (password) {
+            await this.send(socket, username ? ['AUTH', username, password] : ['AUTH', password]);
+          }
+          const db = this.url.pathname.slice(1);
+          if (db) await this.send(socket, ['SELECT', db]);
+
+          this.socket = socket;
+          this.connecting = null;
+          resolve(socket);
+        } catch (error) {
+          socket.destroy();
+          reject(error);
+        }
+      });
+    });
+
+    return this.connecting;
+  }
+
+  private send(socket: net.Socket, args: (string | number)[]): Promise<RespValue> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(
+        () => socket.destroy(new Error(`Redis ${args[0]} timed out after ${REDIS_TIMEOUT_MS}ms`)),
+        REDIS_TIMEOUT_MS
+      );
+      this.pending.push({ resolve, reject, timer });
+      // Only hold the process open while replies are outstanding
+      socket.ref();
+      socket.write(encodeCommand(args));
+    });
+  }
+
+  private onData(socket: net.Socket, chunk: Buffer): void {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+
+    let offset = 0;
+    try {
+      for (let reply = parseReply(this.buffer, offset); reply; reply = parseReply(this.buffer, offset)) {
+        offset = reply[1];
+        const waiter = this.pending.shift();
+        if (!waiter) continue;
+        clearTimeout(waiter.timer);
+        if (reply[0] instanceof RedisReplyError) waiter.reject(reply[0]);
+        else waiter.resolve(reply[0]);
+      }
+    } catch (error) {
+      socket.destroy(error as Error);
+      return;
+    }
+
+    this.buffer = this.buffer.subarray(offset);
+    if (this.pending.length === 0) socket.unref();
+  }
+
+  /** Fails everything in flight; the next command reconnects */
+  private reset(socket: net.Socket, error: Error): void {
+    if (this.socket === socket) this.socket = null;
+    this.connecting = null;
+    this.buffer = Buffer.alloc(0);
+    for (const waiter of this.pending.splice(0)) {
+      clearTimeout(waiter.timer);
+      waiter.reject(error);
+    }
+  }
+}
+
+// =============================================================================
+// Redis Backend
+// =============================================================================
+
+/** Members per DEL/ZREM when clearing a namespace */
+const REDIS_BATCH_SIZE = 500;
+
+/**
+ * Entries are plain keys with a PX expiry; a sorted set per namespace
+ * scores each key by last access, which drives LRU eviction and size().
+ */
+function createRedisStore(client: RedisClient, prefix: string, policy: CachePolicy): CacheStore {
+  const entryKey = (key: string) => `${prefix}k:${key}`;
+  const indexKey = `${prefix}lru`;
+
+  /** Drops index members whose entries have certainly expired */
+  async function pruneIndex(): Promise<void> {
+    await client.command(['ZREMRANGEBYSCORE', indexKey, '-inf', Date.now() - policy.ttlMs]);
+  }
+
+  async function removeKeys(keys: string[]): Promise<void> {
+    for (let i = 0; i < keys.length; i += REDIS_BATCH_SIZE) {
+      const batch = keys.slice(i, i + REDIS_BATCH_SIZE);
+      await client.command(['DEL', ...batch.map(entryKey)]);
+      await client.command(['ZREM', indexKey, ...batch]);
+    }
+  }
+
+  return {
+    backend: 'redis',
+
+    async get(key) {
+      const raw = await client.command(['GET', entryKey(key)]);
+      if (typeof raw !== 'string') {
+        await client.command(['ZREM', indexKey, key]);
+        return null;
+      }
+      await client.command(['ZADD', indexKey, Date.now(), key]);
+      return JSON.parse(raw) as CacheRecord;
+    },
+
+    async set(key, record) {
+      await client.command(['SET', entryKey(key), JSON.stringify(record), 'PX', policy.ttlMs]);
+      await client.command(['ZADD', indexKey, Date.now(), key]);
+
+      if (Number(await client.command(['ZCARD', indexKey])) <= policy.maxEntries) return 0;
+      await pruneIndex();
+      const count = Number(await client.command(['ZCARD', indexKey]));
+      if (count <= policy.maxEntries) return 0;
+
+      const victims = await client.command(['ZRANGE', indexKey, 0, count - policy.maxEntries - 1]);
+      const keys = Array.isArray(victims) ? victims.map(String) : [];
+      await removeKeys(keys);
+      return keys.length;
+    },
+
+    async delete(key) {
+      await removeKeys([key]);
+    },
+
+    async clear() {
+      const members = await client.command(['ZRANGE', indexKey, 0, -1]);
+      await removeKeys(Array.isArray(members) ? members.map(String) : []);
+      await client.command(['DEL', indexKey]);
+    },
+
+    async size() {
+      await pruneIndex();
+      return Number(await client.command(['ZCARD', indexKey]));
+    },
+  };
+}
+
+export function createRedisStoreFactory(redisUrl: string, keyPrefix: string = DEFAULT_REDIS_PREFIX): CacheStoreFactory {
+  const client = new RedisClient(new URL(redisUrl));
+  return (namespace, policy) => createRedisStore(client, `${keyPrefix}${namespace}:`, policy);
+}
+
+// =============================================================================
+// Setup
+// =============================================================================
+
+/**
+ * Switches all caches to the backend named by CACHE_BACKEND.
+ * Misconfiguration falls back to memory with a warning rather than
+ * stopping the server.
+ *
+ * @returns The backend now in use
+ */
+export function configureServerCache(): CacheBackend {
+  const backend = (process.env.CACHE_BACKEND ?? 'memory').trim().toLowerCase();
+
+  if (backend === 'fs') {
+    const dir = path.resolve(process.env.CACHE_DIR ?? DEFAULT_CACHE_DIR);
+    setCacheStoreFactory(createFsStoreFactory(dir));
+    console.log(`[Cache] Using filesystem backend at ${dir}`);
+    return 'fs';
+  }
+
+  if (backend === 'redis') {
+    const redisUrl = process.env.REDIS_URL;
+    if (!redisUrl) {
+      console.warn('[Cache] CACHE_BACKEND=redis but REDIS_URL is not set — using memory');
+      return 'memory';
+    }
+
+    let factory: CacheStoreFactory;
+    try {
+      factory = createRedisStoreFactory(redisUrl, process.env.CACHE_KEY_PREFIX ?? DEFAULT_REDIS_PREFIX);
+    } catch {
+      console.warn('[Cache] REDIS_URL is not a valid URL — using memory');
+      return 'memory';
+    }
+    setCacheStoreFactory(factory);
+    console.log(`[Cache] Using Redis backend at ${new URL(redisUrl).host}`);
+    return 'redis';
+  }
+
+  if (backend !== 'memory') {
+    console.warn(`[Cache] Unknown CACHE_BACKEND "${backend}" — using memory`);
+  }
+  return 'memory';
+}
@@ -26,6 +26,7 @@
  */
 
 import { ConditionsAPIResult, CodeType } from '../types/icd';
+import { createCache } from './cache';
 
 // =============================================================================
 // Configuration
@@ -67,25 +68,17 @@ const CACHE_MAX_SIZE = 500;
 // =============================================================================
 
 /**
- * Cache entry with TTL tracking.
+ * Shared cache for Conditions API results (see cache.ts), which handles
+ * TTL expiry and LRU eviction.
  */
-interface CacheEntry {
-  result: ConditionsAPIResult;
-  timestamp: number;
-  query: string; // Original query for debugging
-}
-
-/**
- * In-memory cache for Conditions API results.
- * Map maintains insertion order for LRU eviction.
- */
-const cache = new Map<string, CacheEntry>();
+const cache = createCache<ConditionsAPIResult>('conditions-api', {
+  ttlMs: CACHE_TTL_MS,
+  maxEntries: CACHE_MAX_SIZE,
+});
 
 /**
  * Telemetry counters for monitoring.
  */
-let cacheHits = 0;
-let cacheMisses = 0;
 let apiCalls = 0;
 let apiErrors = 0;
 
@@ -103,91 +96,39 @@ function normalizeCacheKey(query: string): string {
 }
 
 /**
- * Checks if a cache entry is still valid.
- * 
- * @param entry - Cache entry to check
- * @returns True if entry is valid (not expired)
- */
-function isCacheValid(entry: CacheEntry): boolean {
-  return Date.now() - entry.timestamp < CACHE_TTL_MS;
-}
-
-/**
- * Gets a result from cache if valid.
- * 
- * @param key - Normalized cache key
- * @returns Cached result or null if not found/expired
- */
-function getFromCache(key: string): ConditionsAPIResult | null {
-  const entry = cache.get(key);
-  
-  if (!entry) {
-    return null;
-  }
-  
-  if (!isCacheValid(entry)) {
-    cache.delete(key);
-    console.log(`[ConditionsAPI:Cache] Expired entry removed: "${key}"`);
-    return null;
-  }
-  
-  // Move to end for LRU (delete and re-add to maintain order)
-  cache.delete(key);
-  cache.set(key, entry);
-  
-  cacheHits++;
-  return entry.result;
-}
-
-/**
- * Stores a result in cache with LRU eviction.
+ * Stores a result in cache.
  * 
  * @param key - Normalized cache key
  * @param result - Result to cache
- * @param query - Original query (for debugging)
  */
-function setInCache(key: string, result: ConditionsAPIResult, query: string): void {
-  // Evict oldest entries if at capacity
-  if (cache.size >= CACHE_MAX_SIZE) {
-    const oldestKey = cache.keys().next().value;
-    if (oldestKey) {
-      cache.delete(oldestKey);
-      console.log(`[ConditionsAPI:Cache] LRU eviction: "${oldestKey}"`);
-    }
-  }
-  
-  cache.set(key, {
-    result,
-    timestamp: Date.now(),
-    query,
-  });
-  
-  console.log(`[ConditionsAPI:Cache] Stored: "${key}" (${cache.size}/${CACHE_MAX_SIZE} entries)`);
+async function setInCache(key: string, result: ConditionsAPIResult): Promise<void> {
+  await cache.set(key, result);
+  console.log(`[ConditionsAPI:Cache] Stored: "${key}"`);
 }
 
 /**
  * Clears the entire cache.
  * Useful for testing or forcing fresh data.
  */
-export function clearConditionsCache(): void {
-  const size = cache.size;
-  cache.clear();
-  console.log(`[ConditionsAPI:Cache] Cleared ${size} entries`);
+export async function clearConditionsCache(): Promise<void> {
+  await cache.clear();
+  console.log('[ConditionsAPI:Cache] Cleared');
 }
 
 /**
  * Gets cache statistics for monitoring.
  */
-export function getConditionsCacheStats() {
+export async function getConditionsCacheStats() {
+  const stats = await cache.stats();
   return {
-    size: cache.size,
+    size: stats.entries ?? 0,
     maxSize: CACHE_MAX_SIZE,
-    hits: cacheHits,
-    misses: cacheMisses,
+    hits: stats.hits,
+    misses: stats.misses,
     apiCalls,
     apiErrors,
-    hitRate: cacheHits + cacheMisses > 0 
-      ? (cacheHits / (cacheHits + cacheMisses) * 100).toFixed(1) + '%'
+    hitRate: stats.hitRate !== null
+      ? (stats.hitRate * 100).toFixed(1) + '%'
       : 'N/A',
   };
 }
@@ -374,13 +315,12 @@ export async function searchConditionsAPI(query: string): Promise<ConditionsAPIR
   const cacheKey = normalizeCacheKey(normalizedQuery);
   
   // Check cache first
-  const cached = getFromCache(cacheKey);
+  const cached = await cache.get(cacheKey);
   if (cached) {
     console.log(`${logPrefix} ✅ CACHE HIT`);
     return cached;
   }
   
-  cacheMisses++;
   console.log(`${logPrefix} 🔍 Fetching from API...`);
   
   // Build API URL
@@ -420,7 +360,7 @@ export async function searchConditionsAPI(query: string): Promise<ConditionsAPIR
     const result = parseResponse(data, normalizedQuery);
     
     // Cache successful results (even empty ones to avoid repeated calls)
-    setInCache(cacheKey, result, normalizedQuery);
+    await setInCache(cacheKey, result);
     
     if (result.found) {
       console.log(`${logPrefix} ✅ Found: "${result.primaryName}" (${result.icdCodes.length} codes)`);
@@ -492,22 +432,88 @@ export function isHCPCSCode(query: string): boolean {
 }
 
 /**
- * Detects whether user input is an ICD-10 code, HCPCS code, or condition name.
+ * Checks if a query looks like an ICD-9-CM diagnosis code (legacy records).
+ * 
+ * ICD-9-CM codes are 3 digits + optional 1-2 digit extension, or an E code
+ * (E800–E999 + optional 1 digit; E000–E799 would be undotted ICD-10-CM
+ * codes like E119). V codes (V58.61) share the shape of
+ * ICD-10-CM external cause codes (V43.52), so they're only treated as
+ * ICD-9 with an explicit "ICD-9:" prefix.
+ * 
+ * @param query - The search query
+ * @returns True if query looks like an ICD-9-CM code
+ * 
+ * @example
+ * isICD9Code("250.00")        // true  — Diabetes, ICD-9
+ * isICD9Code("486")           // true  — Pneumonia, ICD-9
+ * isICD9Code("E849.0")        // true  — Place of occurrence E code
+ * isICD9Code("ICD-9: V58.61") // true  — V code with prefix
+ * isICD9Code("V58.61")        // false — Could be ICD-10-CM
+ * isICD9Code("E11.9")         // false — ICD-10 code
+ * isICD9Code("E119")          // false — ICD-10 code without the dot
+ */
+export function isICD9Code(query: string): boolean {
+  const trimmed = query.trim();
+  const prefix = /^icd-?9(-cm)?[:\s]\s*/i;
+  const code = trimmed.replace(prefix, '');
+  if (/^(\d{3}(\.\d{1,2})?|E[89]\d{2}(\.\d)?)$/i.test(code)) return true;
+  return prefix.test(trimmed) && /^V\d{2}(\.\d{1,2})?$/i.test(code);
+}
+
+/**
+ * Checks if a query looks like an ICD-10-PCS procedure code.
+ *
+ * PCS codes are 7 characters (digits and letters except I and O) starting
+ * with a section character. A leading digit can't be ICD-10-CM, and neither
+ * can a letter followed by a letter (ICD-10-CM's second character is always
+ * a digit). A digit is also required, so words like "DYSPNEA" stay text.
+ * Imaging, nuclear medicine and other letter sections with a digit second
+ * ("B2151ZZ") have the shape of an undotted ICD-10-CM code, so they're
+ * only treated as PCS with a "PCS:" prefix.
+ *
+ * @param query - The search query
+ * @returns True if query looks like an ICD-10-PCS code
+ *
+ * @example
+ * isICD10PCSCode("0DTJ4ZZ")      // true  — Resection of appendix
+ * isICD10PCSCode("BW03ZZZ")      // true  — Plain radiography of chest
+ * isICD10PCSCode("PCS: B2151ZZ") // true  — Prefixed imaging code
+ * isICD10PCSCode("B2151ZZ")      // false — Could be undotted ICD-10-CM
+ * isICD10PCSCode("S72001A")      // false — ICD-10-CM injury code
+ * isICD10PCSCode("dyspnea")      // false — Condition name
+ */
+export function isICD10PCSCode(query: string): boolean {
+  const trimmed = query.trim();
+  const prefix = /^(icd-?10-?)?pcs[:\s]\s*/i;
+  const code = trimmed.replace(prefix, '');
+  if (!/^[0-9BCDFGHX][0-9A-HJ-NP-Z]{6}$/i.test(code)) return false;
+  if (prefix.test(trimmed)) return true;
+  return /^\d|^[A-Z][A-Z]/i.test(code) && /\d/.test(code);
+}
+
+/**
+ * Detects whether user input is an ICD-10 code, ICD-9 code, HCPCS code, or condition name.
  * 
  * Detection priority:
  * 1. HCPCS Level II — checked first because its pattern (letter + 4 digits)
  *    is more specific and would NOT match the ICD-10 regex anyway
- * 2. ICD-10-CM — letter + 1-2 digits + optional dot + more characters
- * 3. Condition name — anything else (free text)
+ * 2. ICD-9-CM — digits or E + 3 digits; sent to the GEMs crosswalk
+ *    (gemsCrosswalk.ts), not the condition search
+ * 3. ICD-10-PCS — 7 characters starting with a section; sent to the PCS
+ *    decoder (decodePcsCode in icd10pcsTables.ts)
+ * 4. ICD-10-CM — letter + 1-2 digits + optional dot + more characters
+ * 5. Condition name — anything else (free text)
  * 
  * @param query - The search query
- * @returns CodeType: 'hcpcs' | 'icd10' | 'condition'
+ * @returns CodeType: 'hcpcs' | 'icd9' | 'icd10pcs' | 'icd10' | 'condition'
  * 
  * @example
  * detectCodeType("E0607")     // 'hcpcs'     — DME code
  * detectCodeType("J0120")     // 'hcpcs'     — Drug injection code
  * detectCodeType("E11.9")     // 'icd10'     — Diabetes code
  * detectCodeType("I21")       // 'icd10'     — Heart attack code
+ * detectCodeType("250.02")    // 'icd9'      — Legacy diabetes code
+ * detectCodeType("0DTJ4ZZ")   // 'icd10pcs'  — Appendectomy procedure code
  * detectCodeType("diabetes")  // 'condition' — Free text
  * detectCodeType("heart attack") // 'condition'
  */
@@ -519,6 +525,12 @@ export function detectCodeType(query: string): CodeType {
   // Check HCPCS first (more specific pattern: letter + exactly 4 digits)
   if (isHCPCSCode(trimmed)) return 'hcpcs';
   
+  // Check ICD-9 (legacy records → GEMs crosswalk)
+  if (isICD9Code(trimmed)) return 'icd9';
+  
+  // Check ICD-10-PCS (inpatient procedure → PCS decoder)
+  if (isICD10PCSCode(trimmed)) return 'icd10pcs';
+  
   // Check ICD-10 (letter + 1-2 digits + optional dot extension)
   if (isICD10Code(trimmed)) return 'icd10';
   
@@ -530,8 +542,8 @@ export function detectCodeType(query: string): CodeType {
  * Logs telemetry periodically.
  * Call this from the main search function to track performance.
  */
-export function logConditionsTelemetry(): void {
-  const stats = getConditionsCacheStats();
+export async function logConditionsTelemetry(): Promise<void> {
+  const stats = await getConditionsCacheStats();
   console.log(
     `[ConditionsAPI:Telemetry] Cache: ${stats.size}/${stats.maxSize} entries, ` +
     `Hit rate: ${stats.hitRate}, API calls: ${stats.apiCalls}, Errors: ${stats.apiErrors}`
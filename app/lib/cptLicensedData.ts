@@ -0,0 +1,274 @@
+/**
+ * cptLicensedData.ts — CPT (HCPCS Level I) codes from a licensed file (server only)
+ *
+ * CPT is owned by the AMA and can't be bundled with the app. Organizations
+ * holding a CPT license point CPT_DATA_PATH at their copy of the code file
+ * and CPT codes then show up next to SNOMED CT, ICD-10-PCS and HCPCS Level II
+ * procedures. Without it, every function here reports CPT as unavailable
+ * and the app behaves as before.
+ *
+ * Accepted file layout: one code per line, the code first and its
+ * descriptor after it, separated by a tab, a pipe, a comma (quoted CSV is
+ * fine) or spaces. That covers the AMA data files (e.g. LONGULT.txt) and a
+ * spreadsheet export:
+ *
+ *   99213\tOffice or other outpatient visit for the evaluation and management of an established patient...
+ *   "29881","Arthroscopy, knee, surgical; with meniscectomy ...","ARTHRS KNEE MNSCC MED/LAT"
+ *
+ * With several descriptor columns (short / medium / long), the longest is
+ * used. Lines that don't start with a CPT code (headers, notes) are skipped.
+ * The file is re-read when its modification time changes.
+ */
+
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { CptFileStatus, ProcedureCategory, ProcedureResult } from '../types/icd';
+
+// ── Configuration ──
+
+/** Category I (5 digits), Category II (…F), Category III (…T), PLA (…U) and MAAA (…M) codes */
+const CPT_CODE_PATTERN = /^\d{4}[\dFTUM]$/;
+
+const MAX_RESULTS = 20;
+
+/** Errors getCptFileStatus() reports; the details, with the file path, go to the server log */
+const CPT_READ_ERROR = 'CPT file could not be read (see server log)';
+const CPT_LOAD_ERROR = 'CPT file could not be loaded (see server log)';
+
+// ── In-memory data store ──
+
+interface CptFile {
+  filePath: string;
+  fileName: string;
+  modifiedMs: number;
+  codes: Map<string, string>;
+  skippedLines: number;
+  loadedAt: string;
+}
+
+let loaded: CptFile | null = null;
+let loadPromise: Promise<CptFile | null> | null = null;
+let loadError: string | null = null;
+
+// ── Parsing ──
+
+/** Splits one CSV line, honoring double-quoted fields */
+function splitCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (inQuotes) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field);
+  return fields;
+}
+
+function splitLine(line: string): string[] {
+  if (line.includes('\t')) return line.split('\t');
+  if (line.includes('|')) return line.split('|');
+  if (/^"?\w{5}"?\s*,/.test(line)) return splitCsvLine(line);
+  const match = line.match(/^(\S+)\s+(.*)$/);
+  return match ? [match[1], match[2]] : [line];
+}
+
+/** Code → descriptor, keeping the longest descriptor per code */
+function parseCptFile(content: string): { codes: Map<string, string>; skippedLines: number } {
+  const codes = new Map<string, string>();
+  let skippedLines = 0;
+
+  for (const line of content.replace(/^\uFEFF/, '').split(/\r?\n/)) {
+    if (!line.trim()) continue;
+
+    const [first, ...rest] = splitLine(line).map(field => field.trim().replace(/^"|"$/g, '').trim());
+    const code = first.toUpperCase();
+    const description = rest.reduce((longest, field) => (field.length > longest.length ? field : longest), '');
+
+    if (!CPT_CODE_PATTERN.test(code) || !description) {
+      skippedLines++;
+      continue;
+    }
+    if ((codes.get(code)?.length ?? 0) < description.length) codes.set(code, description);
+  }
+
+  return { codes, skippedLines };
+}
+
+// ── Data loading ──
+
+function configuredPath(): string | null {
+  const configured = process.env.CPT_DATA_PATH?.trim();
+  return configured ? path.resolve(process.cwd(), configured) : null;
+}
+
+/**
+ * The parsed file, or null when CPT_DATA_PATH is unset or unreadable.
+ * Why it couldn't be read is reported by getCptFileStatus().
+ */
+async function loadData(): Promise<CptFile | null> {
+  const filePath = configuredPath();
+  if (!filePath) return null;
+
+  let modifiedMs: number;
+  try {
+    modifiedMs = (await fs.stat(filePath)).mtimeMs;
+  } catch (err) {
+    // Checked on every lookup: log once, and keep the path out of API responses
+    if (loadError !== CPT_READ_ERROR) console.error('[CPT] Cannot read CPT file:', err);
+    loadError = CPT_READ_ERROR;
+    loaded = null;
+    return null;
+  }
+
+  if (loaded && loaded.filePath === filePath && loaded.modifiedMs === modifiedMs) return loaded;
+  if (loadPromise) return loadPromise;
+
+  loadPromise = (async () => {
+    try {
+      const { codes, skippedLines } = parseCptFile(await fs.readFile(filePath, 'utf8'));
+      if (codes.size === 0) throw new Error('No CPT codes found in the file');
+
+      loaded = {
+        filePath,
+        fileName: path.basename(filePath),
+        modifiedMs,
+        codes,
+        skippedLines,
+        loadedAt: new Date().toISOString(),
+      };
+      loadError = null;
+      console.log(`[CPT] Loaded ${codes.size} codes from ${loaded.fileName} (${skippedLines} lines skipped)`);
+      return loaded;
+    } catch (err) {
+      console.error('[CPT] Cannot load CPT file:', err);
+      loadError = CPT_LOAD_ERROR;
+      loaded = null;
+      return null;
+    } finally {
+      loadPromise = null;
+    }
+  })();
+
+  return loadPromise;
+}
+
+// ── Helpers ──
+
+/**
+ * Clinical category from the CPT code range.
+ *
+ * - 00100-01999: Anesthesia
+ * - 10004-69990: Surgery
+ * - 70010-79999: Radiology
+ * - 80047-89398: Pathology and Laboratory
+ * - 90281-99607: Medicine (incl. Evaluation and Management 99202-99499)
+ * - …F: Category II performance measures; …T: Category III emerging technology
+ * - …U: Proprietary Laboratory Analyses; …M: Multianalyte Assays
+ */
+export function categorizeCptCode(code: string): ProcedureCategory {
+  const suffix = code.charAt(4).toUpperCase();
+  if (suffix === 'F') return 'monitoring';
+  if (suffix === 'U' || suffix === 'M') return 'diagnostic';
+  if (suffix === 'T') return 'other';
+
+  const value = Number(code);
+  if (value >= 10004 && value <= 69990) return 'therapeutic';   // Surgery
+  if (value >= 70010 && value <= 89398) return 'diagnostic';    // Radiology, lab
+  if (value >= 93000 && value <= 93799) return 'diagnostic';    // Cardiovascular testing
+  if (value >= 95700 && value <= 96020) return 'diagnostic';    // Neurology testing
+  if (value >= 99453 && value <= 99458) return 'monitoring';    // Remote physiologic monitoring
+  if (value >= 90281 && value <= 99199) return 'therapeutic';   // Vaccines, dialysis, therapy
+  return 'other';                                                // Anesthesia, E/M
+}
+
+function toProcedure(code: string, description: string): ProcedureResult {
+  return {
+    code,
+    codeSystem: 'CPT',
+    description,
+    category: categorizeCptCode(code),
+    relevanceScore: -1,
+    source: 'cpt_file',
+    setting: 'both', // Professional services in any setting
+  };
+}
+
+// ── Public API ──
+
+/**
+ * Searches the licensed CPT file by code or words.
+ *
+ * A 5-character code returns that code; 1-4 digits match code prefixes
+ * ("992" → 99202...); anything else matches descriptors containing every
+ * word of the query.
+ *
+ * @param query - Code, code prefix or words (e.g., "knee arthroscopy")
+ * @param maxResults - Max results to return (default 20)
+ * @returns Matching codes in code order; empty when CPT isn't available
+ */
+export async function searchCpt(query: string, maxResults: number = MAX_RESULTS): Promise<ProcedureResult[]> {
+  const data = await loadData();
+  const normalized = query.trim().toLowerCase();
+  if (!data || !normalized) return [];
+
+  const exact = data.codes.get(normalized.toUpperCase());
+  if (exact) return [toProcedure(normalized.toUpperCase(), exact)];
+
+  const results: ProcedureResult[] = [];
+  const words = normalized.split(/\s+/);
+  const isPrefix = /^\d{1,4}$/.test(normalized);
+
+  for (const [code, description] of data.codes) {
+    const lower = description.toLowerCase();
+    const matches = isPrefix ? code.startsWith(normalized) : words.every(word => lower.includes(word));
+    if (matches) results.push(toProcedure(code, description));
+  }
+
+  return results
+    .sort((a, b) => a.code.localeCompare(b.code))
+    .slice(0, maxResults);
+}
+
+/**
+ * Looks up a single CPT code.
+ *
+ * @param code - 5-character CPT code (e.g., "99213")
+ * @returns The procedure, or null if it isn't in the file or CPT isn't available
+ */
+export async function lookupCptCode(code: string): Promise<ProcedureResult | null> {
+  const data = await loadData();
+  const normalized = code.trim().toUpperCase();
+  const description = data?.codes.get(normalized);
+  return description ? toProcedure(normalized, description) : null;
+}
+
+/** Availability and size of the licensed CPT file */
+export async function getCptFileStatus(): Promise<CptFileStatus> {
+  const data = await loadData();
+  return {
+    available: data !== null,
+    fileName: data?.fileName ?? null,
+    codeCount: data?.codes.size ?? 0,
+    skippedLines: data?.skippedLines ?? 0,
+    loadedAt: data?.loadedAt ?? null,
+    ...(!data && configuredPath() && loadError ? { error: loadError } : {}),
+  };
+}
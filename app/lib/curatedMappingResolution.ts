@@ -0,0 +1,212 @@
+/**
+ * curatedMappingResolution.ts — Checks that curated drug names and codes resolve
+ *
+ * A curated entry is only as good as its names and codes: a drug RxNorm
+ * can't find is silently dropped by the validation pipeline, and a retired
+ * code shows up in procedure results. This walks entries and asks the same
+ * sources the app uses:
+ *
+ *   drug names        RxNorm (searchRxNormDrug); "a/b" combinations
+ *                     resolve when every ingredient does
+ *   ICD-10-CM codes   local code set (validateIcd10Code), billable or header;
+ *                     a code missing from the partial bundled set is unchecked
+ *   HCPCS             local HCPCS file, active codes only
+ *   ICD-10-PCS        ClinicalTables (lookupIcd10PcsCode)
+ *   SNOMED CT         UMLS or the local RF2 snapshot (getSnomedConcept),
+ *                     unchecked when neither is configured
+ *   CPT               licensed CPT file (lookupCptCode), unchecked without CPT_DATA_PATH
+ *
+ * Each distinct value is looked up once, a few at a time.
+ */
+
+import {
+  ConditionDrugMapping,
+  ConditionProcedureMapping,
+  CuratedMappingType,
+  CuratedResolutionCheck,
+  CuratedResolutionReport,
+  ProcedureCodeSystem,
+} from '../types/icd';
+import { getCptFileStatus, lookupCptCode } from './cptLicensedData';
+import { lookupLocalHcpcs } from './hcpcsLocalData';
+import { validateIcd10Code } from './icd10Validation';
+import { getIcd10DataVersion } from './icd10cmLocalData';
+import { lookupIcd10PcsCode } from './icd10pcsApi';
+import { searchRxNormDrug } from './rxNormApi';
+import { describeMissingSnomedBackend, getSnomedBackend, getSnomedConcept } from './snomedProcedures';
+import { getSnomedRf2Status } from './snomedRf2Data';
+
+// ── Configuration ──
+
+/** Lookups in flight at once (RxNorm and UMLS both rate-limit) */
+const CONCURRENCY = 4;
+
+type Outcome = Pick<CuratedResolutionCheck, 'status' | 'detail'>;
+
+// ── Single lookups ──
+
+async function resolveDrugName(name: string): Promise<Outcome> {
+  const drug = await searchRxNormDrug(name);
+  if (drug) {
+    return { status: 'resolved', detail: `${drug.genericName} (RxCUI ${drug.rxcui})` };
+  }
+
+  const ingredients = name.split('/').map(part => part.trim()).filter(Boolean);
+  if (ingredients.length > 1) {
+    const found = await Promise.all(ingredients.map(ingredient => searchRxNormDrug(ingredient)));
+    const missing = ingredients.filter((_, index) => !found[index]);
+    return missing.length === 0
+      ? { status: 'resolved', detail: `Combination of ${ingredients.join(' + ')}` }
+      : { status: 'unresolved', detail: `Not in RxNorm: ${missing.join(', ')}` };
+  }
+  return { status: 'unresolved', detail: 'Not found in RxNorm' };
+}
+
+async function resolveIcd10Code(code: string): Promise<Outcome> {
+  const validation = await validateIcd10Code(code);
+  if (validation.status === 'billable' || validation.status === 'header') {
+    return { status: 'resolved', detail: validation.description ?? validation.message };
+  }
+  // A code missing from the bundled subset may still be valid
+  if (validation.status === 'not_found' && (await getIcd10DataVersion()).partial) {
+    return { status: 'unchecked', detail: `${validation.message} (bundled subset)` };
+  }
+  return { status: 'unresolved', detail: validation.message };
+}
+
+async function resolveProcedureCode(code: string, codeSystem: ProcedureCodeSystem): Promise<Outcome> {
+  switch (codeSystem) {
+    case 'HCPCS': {
+      const hcpcs = await lookupLocalHcpcs(code);
+      if (!hcpcs) return { status: 'unresolved', detail: 'Not in the HCPCS code set' };
+      return hcpcs.isActive
+        ? { status: 'resolved', detail: hcpcs.shortDescription }
+        : { status: 'unresolved', detail: `Terminated${hcpcs.termDate ? ` ${hcpcs.termDate}` : ''}: ${hcpcs.shortDescription}` };
+    }
+    case 'ICD10PCS': {
+      const pcs = await lookupIcd10PcsCode(code);
+      return pcs
+        ? { status: 'resolved', detail: pcs.description }
+        : { status: 'unresolved', detail: 'Not found in ICD-10-PCS' };
+    }
+    case 'SNOMED': {
+      const backend = getSnomedBackend();
+      if (!backend) {
+        return { status: 'unchecked', detail: describeMissingSnomedBackend() };
+      }
+      if (backend === 'rf2' && !(await getSnomedRf2Status()).available) {
+        return { status: 'unchecked', detail: 'SNOMED CT snapshot (SNOMED_RF2_DIR) could not be loaded' };
+      }
+      const concept = await getSnomedConcept(code);
+      if (!concept) return { status: 'unresolved', detail: 'Not found in SNOMED CT' };
+      return concept.obsolete
+        ? { status: 'unresolved', detail: `Inactive concept: ${concept.name}` }
+        : { status: 'resolved', detail: concept.name };
+    }
+    case 'CPT': {
+      if (!(await getCptFileStatus()).available) {
+        return { status: 'unchecked', detail: 'No licensed CPT file (CPT_DATA_PATH)' };
+      }
+      const cpt = await lookupCptCode(code);
+      return cpt
+        ? { status: 'resolved', detail: cpt.description }
+        : { status: 'unresolved', detail: 'Not in the licensed CPT file' };
+    }
+  }
+}
+
+// ── Batch ──
+
+/**
+ * Runs lookups with at most CONCURRENCY in flight. A lookup that throws
+ * counts as unchecked, since the source didn't answer.
+ */
+async function runLookups(lookups: Map<string, () => Promise<Outcome>>): Promise<Map<string, Outcome>> {
+  const outcomes = new Map<string, Outcome>();
+  const queue = [...lookups.entries()];
+
+  const worker = async () => {
+    for (let next = queue.shift(); next; next = queue.shift()) {
+      const [key, lookup] = next;
+      try {
+        outcomes.set(key, await lookup());
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        outcomes.set(key, { status: 'unchecked', detail: `Lookup failed: ${message}` });
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: CONCURRENCY }, worker));
+  return outcomes;
+}
+
+// ── Public API ──
+
+/**
+ * Checks every drug name (drug entries) or every diagnosis and procedure
+ * code (procedure entries).
+ *
+ * @param type - Which file the entries come from
+ * @param entries - Entries to check, retired ones included if passed
+ * @returns Counts plus the checks that didn't resolve
+ *
+ * @example
+ * const report = await resolveMappings('procedure', [entry]);
+ * // report.unresolved → [{ entryId: "asthma", kind: "procedure", value: "A9999", codeSystem: "HCPCS",
+ * //                        status: "unresolved", detail: "Not in the HCPCS code set" }]
+ */
+export async function resolveMappings(
+  type: CuratedMappingType,
+  entries: Array<ConditionDrugMapping | ConditionProcedureMapping>
+): Promise<CuratedResolutionReport> {
+  const checks: Array<Omit<CuratedResolutionCheck, 'status' | 'detail'> & { key: string }> = [];
+  const lookups = new Map<string, () => Promise<Outcome>>();
+
+  const add = (check: Omit<CuratedResolutionCheck, 'status' | 'detail'>, lookup: () => Promise<Outcome>) => {
+    const key = `${check.kind}:${check.codeSystem ?? ''}:${check.value.toLowerCase()}`;
+    checks.push({ ...check, key });
+    if (!lookups.has(key)) lookups.set(key, lookup);
+  };
+
+  for (const entry of entries) {
+    if (type === 'drug') {
+      for (const drug of (entry as ConditionDrugMapping).drugs) {
+        add({ entryId: entry.id, kind: 'drug', value: drug.name }, () => resolveDrugName(drug.name));
+      }
+    } else {
+      const { icd10Codes, procedures } = entry as ConditionProcedureMapping;
+      for (const code of icd10Codes) {
+        add({ entryId: entry.id, kind: 'icd10', value: code }, () => resolveIcd10Code(code));
+      }
+      for (const { code, codeSystem } of procedures) {
+        add(
+          { entryId: entry.id, kind: 'procedure', value: code, codeSystem },
+          () => resolveProcedureCode(code, codeSystem)
+        );
+      }
+    }
+  }
+
+  const outcomes = await runLookups(lookups);
+  const results: CuratedResolutionCheck[] = checks.map(({ key, ...check }) => ({
+    ...check,
+    ...(outcomes.get(key) as Outcome),
+  }));
+
+  const report: CuratedResolutionReport = {
+    type,
+    checkedAt: new Date().toISOString(),
+    entriesChecked: entries.length,
+    totalChecks: results.length,
+    resolvedCount: results.filter(result => result.status === 'resolved').length,
+    unresolved: results.filter(result => result.status === 'unresolved'),
+    unchecked: results.filter(result => result.status === 'unchecked'),
+  };
+
+  console.log(
+    `[CuratedMappings] Checked ${report.totalChecks} ${type} values (${lookups.size} distinct): ` +
+    `${report.unresolved.length} unresolved, ${report.unchecked.length} unchecked`
+  );
+  return report;
+}
@@ -0,0 +1,287 @@
+/**
+ * curatedMappingSchema.ts — Validation of the curated mapping data files
+ *
+ * The curated condition → drug and condition → procedure tables live in
+ * app/data/curated/*.json, each with a JSON Schema next to it for editors.
+ * This module applies the same rules at runtime, without a schema library,
+ * so it can run wherever the data is used:
+ *
+ *   - conditionDrugMappings.ts / conditionProcedureMappings.ts drop invalid
+ *     entries at load time (logged, never thrown)
+ *   - the admin API rejects invalid entries before writing
+ *   - the admin page shows the same messages while editing
+ *
+ * Validators return a list of messages; an empty list means valid.
+ */
+
+import {
+  ConditionDrugMapping,
+  ConditionProcedureMapping,
+  CuratedMappingFile,
+  CuratedMappingType,
+} from '../types/icd';
+
+// ── Rules ──
+
+export const MAPPING_ID_PATTERN = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+export const DRUG_KEYWORD_PATTERN = /^[a-z0-9][a-z0-9 ,'/-]*$/;
+export const ICD10_CODE_PATTERN = /^[A-Z][0-9][0-9A-Z](\.[0-9A-Z]{1,4})?$/;
+export const PROCEDURE_CODE_PATTERN = /^[A-Z0-9]+$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export const PROCEDURE_CODE_SYSTEMS = ['SNOMED', 'ICD10PCS', 'HCPCS'] as const;
+export const PROCEDURE_CATEGORIES = ['diagnostic', 'therapeutic', 'monitoring', 'equipment', 'other'] as const;
+export const PROCEDURE_SETTINGS = ['inpatient', 'outpatient', 'both'] as const;
+
+const PROVENANCE_FIELDS = ['addedBy', 'addedAt', 'reviewedBy', 'reviewedAt', 'retiredBy', 'retiredAt', 'retiredReason'];
+
+// ── Helpers ──
+
+type Json = Record<string, unknown>;
+
+function isObject(value: unknown): value is Json {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0;
+}
+
+function checkUnknownFields(value: Json, allowed: string[], where: string, errors: string[]): void {
+  for (const key of Object.keys(value)) {
+    if (!allowed.includes(key)) errors.push(`${where}: unknown field "${key}"`);
+  }
+}
+
+function checkStringList(
+  value: unknown,
+  pattern: RegExp,
+  where: string,
+  errors: string[]
+): void {
+  if (!Array.isArray(value) || value.length === 0) {
+    errors.push(`${where}: needs at least one value`);
+    return;
+  }
+  const seen = new Set<string>();
+  for (const item of value) {
+    if (typeof item !== 'string' || !pattern.test(item)) {
+      errors.push(`${where}: "${String(item)}" is not valid`);
+    } else if (seen.has(item)) {
+      errors.push(`${where}: "${item}" is listed twice`);
+    }
+    seen.add(String(item));
+  }
+}
+
+function checkProvenance(value: unknown, status: unknown, errors: string[]): void {
+  if (!isObject(value)) {
+    errors.push('provenance: required');
+    return;
+  }
+  checkUnknownFields(value, PROVENANCE_FIELDS, 'provenance', errors);
+  if (!isNonEmptyString(value.addedBy)) errors.push('provenance.addedBy: required');
+  for (const field of ['addedAt', 'reviewedAt', 'retiredAt']) {
+    const date = value[field];
+    if ((field === 'addedAt' || date !== undefined) && (typeof date !== 'string' || !DATE_PATTERN.test(date))) {
+      errors.push(`provenance.${field}: must be a YYYY-MM-DD date`);
+    }
+  }
+  for (const field of ['reviewedBy', 'retiredBy', 'retiredReason']) {
+    if (value[field] !== undefined && !isNonEmptyString(value[field])) {
+      errors.push(`provenance.${field}: must not be empty`);
+    }
+  }
+  if ((value.reviewedBy === undefined) !== (value.reviewedAt === undefined)) {
+    errors.push('provenance: reviewedBy and reviewedAt go together');
+  }
+  if (status === 'retired' && (!value.retiredBy || !value.retiredAt || !value.retiredReason)) {
+    errors.push('provenance: retired entries need retiredBy, retiredAt and retiredReason');
+  }
+}
+
+function checkCommon(entry: Json, errors: string[]): void {
+  if (typeof entry.id !== 'string' || !MAPPING_ID_PATTERN.test(entry.id)) {
+    errors.push('id: lowercase letters, digits and single hyphens only');
+  }
+  if (entry.notes !== undefined && typeof entry.notes !== 'string') {
+    errors.push('notes: must be text');
+  }
+  if (entry.status !== 'active' && entry.status !== 'retired') {
+    errors.push('status: must be "active" or "retired"');
+  }
+  checkProvenance(entry.provenance, entry.status, errors);
+}
+
+// ── Entry validators ──
+
+/** Checks one condition → drug entry against condition-drug-mappings.schema.json */
+export function validateDrugMapping(entry: unknown): string[] {
+  if (!isObject(entry)) return ['entry: must be an object'];
+  const errors: string[] = [];
+
+  checkUnknownFields(entry, ['id', 'category', 'keywords', 'drugs', 'notes', 'status', 'provenance'], 'entry', errors);
+  checkCommon(entry, errors);
+  if (!isNonEmptyString(entry.category)) errors.push('category: required');
+  checkStringList(entry.keywords, DRUG_KEYWORD_PATTERN, 'keywords', errors);
+
+  if (!Array.isArray(entry.drugs) || entry.drugs.length === 0) {
+    errors.push('drugs: needs at least one drug');
+  } else {
+    entry.drugs.forEach((drug, index) => {
+      const where = `drugs[${index}]`;
+      if (!isObject(drug)) {
+        errors.push(`${where}: must be an object`);
+        return;
+      }
+      checkUnknownFields(drug, ['name', 'note'], where, errors);
+      if (!isNonEmptyString(drug.name)) errors.push(`${where}.name: required`);
+      if (drug.note !== undefined && typeof drug.note !== 'string') errors.push(`${where}.note: must be text`);
+    });
+  }
+  return errors;
+}
+
+/** Checks one condition → procedure entry against condition-procedure-mappings.schema.json */
+export function validateProcedureMapping(entry: unknown): string[] {
+  if (!isObject(entry)) return ['entry: must be an object'];
+  const errors: string[] = [];
+
+  checkUnknownFields(entry, ['id', 'conditionName', 'icd10Codes', 'procedures', 'notes', 'status', 'provenance'], 'entry', errors);
+  checkCommon(entry, errors);
+  if (!isNonEmptyString(entry.conditionName)) errors.push('conditionName: required');
+  checkStringList(entry.icd10Codes, ICD10_CODE_PATTERN, 'icd10Codes', errors);
+
+  if (!Array.isArray(entry.procedures) || entry.procedures.length === 0) {
+    errors.push('procedures: needs at least one procedure');
+  } else {
+    entry.procedures.forEach((procedure, index) => {
+      const where = `procedures[${index}]`;
+      if (!isObject(procedure)) {
+        errors.push(`${where}: must be an object`);
+        return;
+      }
+      checkUnknownFields(procedure, ['code', 'codeSystem', 'description', 'category', 'setting', 'rationale', 'score'], where, errors);
+      if (typeof procedure.code !== 'string' || !PROCEDURE_CODE_PATTERN.test(procedure.code)) {
+        errors.push(`${where}.code: uppercase letters and digits only`);
+      }
+      if (!PROCEDURE_CODE_SYSTEMS.includes(procedure.codeSystem as never)) {
+        errors.push(`${where}.codeSystem: must be one of ${PROCEDURE_CODE_SYSTEMS.join(', ')}`);
+      }
+      if (!PROCEDURE_CATEGORIES.includes(procedure.category as never)) {
+        errors.push(`${where}.category: must be one of ${PROCEDURE_CATEGORIES.join(', ')}`);
+      }
+      if (!PROCEDURE_SETTINGS.includes(procedure.setting as never)) {
+        errors.push(`${where}.setting: must be one of ${PROCEDURE_SETTINGS.join(', ')}`);
+      }
+      if (!isNonEmptyString(procedure.description)) errors.push(`${where}.description: required`);
+      if (!isNonEmptyString(procedure.rationale)) errors.push(`${where}.rationale: required`);
+      if (procedure.score !== undefined &&
+          (typeof procedure.score !== 'number' || procedure.score < 0 || procedure.score > 1)) {
+        errors.push(`${where}.score: must be between 0 and 1`);
+      }
+    });
+  }
+  return errors;
+}
+
+export function validateMappingEntry(type: CuratedMappingType, entry: unknown): string[] {
+  return type === 'drug' ? validateDrugMapping(entry) : validateProcedureMapping(entry);
+}
+
+// ── Cross-entry checks ──
+
+/**
+ * Problems only visible across entries: duplicate ids, a keyword in two
+ * active drug entries, an ICD-10 code in two active procedure entries.
+ * (For keywords and codes, only the first entry would ever be used.)
+ */
+export function findConflicts(
+  type: CuratedMappingType,
+  entries: Array<ConditionDrugMapping | ConditionProcedureMapping>
+): string[] {
+  const conflicts: string[] = [];
+  const ids = new Set<string>();
+  const owners = new Map<string, string>();
+
+  for (const entry of entries) {
+    if (ids.has(entry.id)) conflicts.push(`id "${entry.id}" is used twice`);
+    ids.add(entry.id);
+    if (entry.status !== 'active') continue;
+
+    const values = type === 'drug'
+      ? (entry as ConditionDrugMapping).keywords
+      : (entry as ConditionProcedureMapping).icd10Codes;
+    for (const value of values) {
+      const owner = owners.get(value);
+      if (owner && owner !== entry.id) {
+        conflicts.push(`${type === 'drug' ? 'keyword' : 'code'} "${value}" is in both "${owner}" and "${entry.id}"`);
+      } else {
+        owners.set(value, entry.id);
+      }
+    }
+  }
+  return conflicts;
+}
+
+/**
+ * Drug keywords that can never match: an earlier active entry's keyword is
+ * contained in them ("pain" before "back pain"), and the first contained
+ * keyword wins.
+ */
+export function findShadowedKeywords(
+  entries: ConditionDrugMapping[]
+): Array<{ entryId: string; keyword: string; shadowedBy: string; shadowingEntryId: string }> {
+  const shadowed: Array<{ entryId: string; keyword: string; shadowedBy: string; shadowingEntryId: string }> = [];
+  const earlier: Array<{ keyword: string; entryId: string }> = [];
+
+  for (const entry of entries) {
+    if (entry.status !== 'active') continue;
+    for (const keyword of entry.keywords) {
+      const match = earlier.find(other => other.entryId !== entry.id && keyword.includes(other.keyword));
+      if (match) {
+        shadowed.push({ entryId: entry.id, keyword, shadowedBy: match.keyword, shadowingEntryId: match.entryId });
+      }
+    }
+    entry.keywords.forEach(keyword => earlier.push({ keyword, entryId: entry.id }));
+  }
+  return shadowed;
+}
+
+// ── Loading ──
+
+/**
+ * Returns the valid entries of a data file, logging and skipping the rest,
+ * so one bad edit can't take every curated mapping down with it.
+ */
+export function loadMappingEntries<T extends ConditionDrugMapping | ConditionProcedureMapping>(
+  type: CuratedMappingType,
+  file: CuratedMappingFile<unknown>
+): T[] {
+  if (!Array.isArray(file?.entries)) {
+    console.error(`[CuratedMappings] ${type} mappings file has no entries array`);
+    return [];
+  }
+
+  return file.entries.filter((entry, index): entry is T => {
+    const errors = validateMappingEntry(type, entry);
+    if (errors.length > 0) {
+      const id = isObject(entry) && typeof entry.id === 'string' ? entry.id : `#${index}`;
+      console.error(`[CuratedMappings] Skipping invalid ${type} mapping ${id}: ${errors.join('; ')}`);
+      return false;
+    }
+    return true;
+  });
+}
+
+// ── Editing helpers ──
+
+/** Slug for a new entry's id ("Heart Failure" → "heart-failure") */
+export function toMappingId(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+}
+
+/** Today as YYYY-MM-DD (UTC), the provenance date format */
+export function todayIsoDate(): string {
+  return new Date().toISOString().slice(0, 10);
+}
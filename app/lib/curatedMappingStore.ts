@@ -0,0 +1,363 @@
+/**
+ * curatedMappingStore.ts — Read and edit the curated mapping files (server only)
+ *
+ * Backs /api/admin/mappings. Every change is written straight to
+ * app/data/curated/*.json, stamped with the reviewer and date, and checked
+ * with curatedMappingSchema.ts first, so the files stay loadable.
+ *
+ * The lookup modules import those files at build time: in development an
+ * edit is picked up on the next request, in production it ships with the
+ * next build. Edits are meant to be committed like any other source change.
+ *
+ * Writes need ADMIN_TOKEN (sent as a Bearer token). Without it configured,
+ * writes are allowed only outside production.
+ */
+
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import {
+  ConditionDrugMapping,
+  ConditionProcedureMapping,
+  CuratedMappingFile,
+  CuratedMappingProvenance,
+  CuratedMappingType,
+} from '../types/icd';
+import {
+  findConflicts,
+  todayIsoDate,
+  toMappingId,
+  validateMappingEntry,
+} from './curatedMappingSchema';
+
+// ── Configuration ──
+
+const DATA_DIR = path.join(process.cwd(), 'app', 'data', 'curated');
+
+const FILE_NAMES: Record<CuratedMappingType, string> = {
+  drug: 'condition-drug-mappings.json',
+  procedure: 'condition-procedure-mappings.json',
+};
+
+/** Entry type stored in each file */
+export interface MappingEntryByType {
+  drug: ConditionDrugMapping;
+  procedure: ConditionProcedureMapping;
+}
+
+/** What an editor submits: the content, without status and provenance */
+export type MappingInput<K extends CuratedMappingType> =
+  Omit<MappingEntryByType[K], 'id' | 'status' | 'provenance'> & { id?: string };
+
+// ── Errors ──
+
+/** A rejected edit; status is the HTTP status the API answers with */
+export class MappingStoreError extends Error {
+  constructor(
+    public readonly status: number,
+    message: string,
+    public readonly details?: string[]
+  ) {
+    super(message);
+    this.name = 'MappingStoreError';
+  }
+}
+
+// ── Access ──
+
+/**
+ * Checks a write request's credentials.
+ *
+ * @returns Error message to answer with, or null when the request may write
+ */
+export function checkAdminAccess(request: Request): string | null {
+  const token = process.env.ADMIN_TOKEN;
+  if (!token) {
+    return process.env.NODE_ENV === 'production'
+      ? 'Editing is disabled: set ADMIN_TOKEN to enable the mappings editor'
+      : null;
+  }
+  const header = request.headers.get('authorization') ?? '';
+  return header === `Bearer ${token}` ? null : 'Invalid or missing admin token';
+}
+
+// ── File access ──
+
+/** Serializes writes within this process so concurrent edits don't drop each other */
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+export async function readMappingFile<K extends CuratedMappingType>(
+  type: K
+): Promise<CuratedMappingFile<MappingEntryByType[K]>> {
+  const raw = await fs.readFile(path.join(DATA_DIR, FILE_NAMES[type]), 'utf8');
+  return JSON.parse(raw) as CuratedMappingFile<MappingEntryByType[K]>;
+}
+
+async function writeMappingFile<K extends CuratedMappingType>(
+  type: K,
+  file: CuratedMappingFile<MappingEntryByType[K]>
+): Promise<void> {
+  const target = path.join(DATA_DIR, FILE_NAMES[type]);
+  const temp = `${target}.${process.pid}.tmp`;
+  try {
+    await fs.writeFile(temp, `${JSON.stringify(file, null, 2)}\n`, 'utf8');
+    await fs.rename(temp, target);
+  } catch (error) {
+    await fs.rm(temp, { force: true });
+    const code = (error as NodeJS.ErrnoException).code;
+    if (code === 'EROFS' || code === 'EACCES' || code === 'EPERM') {
+      throw new MappingStoreError(503, 'The curated data files are read-only on this deployment');
+    }
+    throw error;
+  }
+}
+
+function assertValid(type: CuratedMappingType, entry: unknown): void {
+  const errors = validateMappingEntry(type, entry);
+  if (errors.length > 0) {
+    throw new MappingStoreError(400, 'The entry is not valid', errors);
+  }
+}
+
+/**
+ * Runs one read-modify-write of a file: validates the changed entry and
+ * the whole file's conflicts before anything is written.
+ */
+function editMappingFile<K extends CuratedMappingType, R>(
+  type: K,
+  edit: (entries: MappingEntryByType[K][]) => { entry: MappingEntryByType[K]; result: R }
+): Promise<R> {
+  const run = async () => {
+    const file = await readMappingFile(type);
+    const { entry, result } = edit(file.entries);
+
+    assertValid(type, entry);
+    const conflicts = findConflicts(type, file.entries);
+    if (conflicts.length > 0) {
+      throw new MappingStoreError(409, 'The entry conflicts with another entry', conflicts);
+    }
+
+    await writeMappingFile(type, file);
+    console.log(`[CuratedMappings] ${type} mapping "${entry.id}" saved`);
+    return result;
+  };
+
+  const next = writeQueue.then(run, run);
+  writeQueue = next.catch(() => undefined);
+  return next;
+}
+
+// ── Entry building ──
+
+/** Trims text; anything else is left for the validator to reject */
+function text(value: unknown): unknown {
+  return typeof value === 'string' ? value.trim() : value;
+}
+
+function list(value: unknown, map: (item: unknown) => unknown): unknown {
+  return Array.isArray(value) ? value.map(map) : value;
+}
+
+function field(item: unknown, key: string): unknown {
+  return typeof item === 'object' && item !== null ? (item as Record<string, unknown>)[key] : undefined;
+}
+
+/**
+ * Rebuilds submitted content in the file's field order: text trimmed,
+ * keywords lowercased, codes uppercased, unknown fields dropped.
+ */
+function buildEntry<K extends CuratedMappingType>(
+  type: K,
+  id: string,
+  input: MappingInput<K>,
+  status: ConditionDrugMapping['status'],
+  provenance: CuratedMappingProvenance
+): MappingEntryByType[K] {
+  const notes = text(input.notes) || undefined;
+
+  if (type === 'drug') {
+    return {
+      id,
+      category: text(field(input, 'category')),
+      keywords: list(field(input, 'keywords'), keyword =>
+        typeof keyword === 'string' ? keyword.toLowerCase().trim() : keyword
+      ),
+      drugs: list(field(input, 'drugs'), drug => ({
+        name: text(field(drug, 'name')),
+        note: text(field(drug, 'note')) || undefined,
+      })),
+      notes,
+      status,
+      provenance,
+    } as MappingEntryByType[K];
+  }
+
+  return {
+    id,
+    conditionName: text(field(input, 'conditionName')),
+    icd10Codes: list(field(input, 'icd10Codes'), code =>
+      typeof code === 'string' ? code.toUpperCase().trim() : code
+    ),
+    procedures: list(field(input, 'procedures'), procedure => {
+      const code = field(procedure, 'code');
+      return {
+        code: typeof code === 'string' ? code.toUpperCase().trim() : code,
+        codeSystem: field(procedure, 'codeSystem'),
+        description: text(field(procedure, 'description')),
+        category: field(procedure, 'category'),
+        setting: field(procedure, 'setting'),
+        rationale: text(field(procedure, 'rationale')),
+        score: field(procedure, 'score'),
+      };
+    }),
+    notes,
+    status,
+    provenance,
+  } as MappingEntryByType[K];
+}
+
+function findIndex<K extends CuratedMappingType>(entries: MappingEntryByType[K][], id: string): number {
+  const index = entries.findIndex(entry => entry.id === id);
+  if (index === -1) {
+    throw new MappingStoreError(404, `No mapping with id "${id}"`);
+  }
+  return index;
+}
+
+/**
+ * Where a new drug entry goes: before the first active entry with a keyword
+ * contained in one of its keywords ("back pain" before "pain"), so the more
+ * specific entry can match. Other entries go last.
+ */
+function insertionIndex(entries: ConditionDrugMapping[], entry: ConditionDrugMapping): number {
+  const index = entries.findIndex(other =>
+    other.status === 'active' &&
+    other.keywords.some(keyword => entry.keywords.some(own => own.includes(keyword)))
+  );
+  return index === -1 ? entries.length : index;
+}
+
+/** The fields the admin search looks at */
+function searchableText(type: CuratedMappingType, entry: ConditionDrugMapping | ConditionProcedureMapping): string[] {
+  if (type === 'drug') {
+    const { id, category, keywords, drugs } = entry as ConditionDrugMapping;
+    return [id, category, ...keywords, ...drugs.map(drug => drug.name)];
+  }
+  const { id, conditionName, icd10Codes, procedures } = entry as ConditionProcedureMapping;
+  return [id, conditionName, ...icd10Codes, ...procedures.flatMap(procedure => [procedure.code, procedure.description])];
+}
+
+// ── Public API ──
+
+/**
+ * Lists a file's entries, optionally filtered by a search text matched
+ * against ids, names, keywords, codes and drug names.
+ */
+export async function listMappings<K extends CuratedMappingType>(
+  type: K,
+  query = ''
+): Promise<MappingEntryByType[K][]> {
+  const { entries } = await readMappingFile(type);
+  const needle = query.toLowerCase().trim();
+  if (!needle) return entries;
+
+  return entries.filter(entry => searchableText(type, entry).some(value => value.toLowerCase().includes(needle)));
+}
+
+/**
+ * Adds an entry, recorded as added and reviewed by the reviewer today.
+ *
+ * @throws MappingStoreError 400 (invalid), 409 (id, keyword or code taken)
+ */
+export function addMapping<K extends CuratedMappingType>(
+  type: K,
+  input: MappingInput<K>,
+  reviewer: string
+): Promise<MappingEntryByType[K]> {
+  return editMappingFile(type, entries => {
+    // Without an explicit id, the first keyword or the condition name names it
+    const source = input.id ?? (type === 'drug' ? field(field(input, 'keywords'), '0') : field(input, 'conditionName'));
+    const id = toMappingId(typeof source === 'string' ? source : '');
+    if (entries.some(entry => entry.id === id)) {
+      throw new MappingStoreError(409, `A mapping with id "${id}" already exists`);
+    }
+
+    const today = todayIsoDate();
+    const entry = buildEntry(type, id, input, 'active', {
+      addedBy: reviewer,
+      addedAt: today,
+      reviewedBy: reviewer,
+      reviewedAt: today,
+    });
+    assertValid(type, entry);
+
+    const index = type === 'drug'
+      ? insertionIndex(entries as ConditionDrugMapping[], entry as ConditionDrugMapping)
+      : entries.length;
+    entries.splice(index, 0, entry);
+    return { entry, result: entry };
+  });
+}
+
+/**
+ * Replaces an entry's content and records the reviewer. The id, position,
+ * status and who added it are kept.
+ *
+ * @throws MappingStoreError 400, 404, 409
+ */
+export function updateMapping<K extends CuratedMappingType>(
+  type: K,
+  id: string,
+  input: MappingInput<K>,
+  reviewer: string
+): Promise<MappingEntryByType[K]> {
+  return editMappingFile(type, entries => {
+    const index = findIndex(entries, id);
+    const existing = entries[index];
+    const entry = buildEntry(type, id, input, existing.status, {
+      ...existing.provenance,
+      reviewedBy: reviewer,
+      reviewedAt: todayIsoDate(),
+    });
+    entries[index] = entry;
+    return { entry, result: entry };
+  });
+}
+
+/**
+ * Retires an entry (kept in the file, never matched) or restores it.
+ * Retiring needs a reason; restoring clears the retirement and counts as
+ * a review.
+ *
+ * @throws MappingStoreError 400, 404, 409 (restoring into a taken keyword or code)
+ */
+export function setMappingStatus<K extends CuratedMappingType>(
+  type: K,
+  id: string,
+  status: ConditionDrugMapping['status'],
+  reviewer: string,
+  reason?: string
+): Promise<MappingEntryByType[K]> {
+  return editMappingFile(type, entries => {
+    const index = findIndex(entries, id);
+    const existing = entries[index];
+    const today = todayIsoDate();
+    const kept = { ...existing.provenance };
+    delete kept.retiredBy;
+    delete kept.retiredAt;
+    delete kept.retiredReason;
+
+    let provenance: CuratedMappingProvenance;
+    if (status === 'retired') {
+      if (!reason?.trim()) {
+        throw new MappingStoreError(400, 'Retiring a mapping needs a reason');
+      }
+      provenance = { ...kept, retiredBy: reviewer, retiredAt: today, retiredReason: reason.trim() };
+    } else {
+      provenance = { ...kept, reviewedBy: reviewer, reviewedAt: today };
+    }
+
+    const entry = { ...existing, status, provenance };
+    entries[index] = entry;
+    return { entry, result: entry };
+  });
+}
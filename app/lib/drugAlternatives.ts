@@ -0,0 +1,155 @@
+/**
+ * drugAlternatives.ts — Generic, biosimilar and same-class alternatives for a drug
+ *
+ * Formulary questions come down to "what else could be prescribed instead?".
+ * For the drug on a DrugCard this lists:
+ *
+ *   generics      generic (SCD) products of the same ingredients, from
+ *                 getDrugFormulations, in the card's own dose form; the
+ *                 same strength and quantity is marked the exact equivalent
+ *   biosimilars   members of the drug's EPC class named after the same
+ *                 biologic with an FDA four-letter suffix (adalimumab →
+ *                 adalimumab-adaz), or the reference product for a biosimilar
+ *   class         the other ingredients of the drug's EPC classes
+ *                 (getDrugClasses + getClassMembers)
+ *
+ * Which alternatives are also in the condition's validated drug list is
+ * decided on the client, against the ValidatedDrugResult list it already has.
+ */
+
+import { DrugAlternative, DrugAlternativesResult, DrugFormulation } from '../types/icd';
+import { createCache } from './cache';
+import { getDrugFormulations } from './drugFormulations';
+import { getClassMembers, getDrugClasses } from './umlsRxClassApi';
+
+// ── Configuration ──
+
+/** EPC classes looked at per drug (combination drugs have one per ingredient) */
+const MAX_CLASSES = 2;
+
+/** Generic products listed (a common generic can have dozens of strengths) */
+const MAX_GENERICS = 8;
+
+/** Class alternatives listed across all classes */
+const MAX_CLASS_ALTERNATIVES = 12;
+
+const alternativesCache = createCache<DrugAlternativesResult>('drug-alternatives', {
+  ttlMs: 24 * 60 * 60 * 1000,
+  maxEntries: 500,
+});
+
+/** FDA biologic suffix: four lowercase letters after a hyphen */
+const BIOSIMILAR_SUFFIX = /-[a-z]{4}$/;
+
+// ── Helpers ──
+
+/** Biologic name without its FDA suffix ("adalimumab-adaz" → "adalimumab") */
+function biologicBase(name: string): string {
+  return name.replace(BIOSIMILAR_SUFFIX, '');
+}
+
+/**
+ * Generic products of the card's ingredients. When the card's own product
+ * is known, only its dose form is kept and the same strength comes first.
+ */
+function findGenerics(rxcui: string, formulations: DrugFormulation[]): DrugAlternative[] {
+  const current = formulations.find(formulation => formulation.rxcui === rxcui);
+  const isExact = (formulation: DrugFormulation) =>
+    current !== undefined &&
+    formulation.strength === current.strength &&
+    formulation.quantity === current.quantity;
+
+  return formulations
+    .filter(formulation => formulation.tty === 'SCD' && formulation.rxcui !== rxcui)
+    .filter(formulation => !current || formulation.doseForm === current.doseForm)
+    .sort((a, b) => Number(isExact(b)) - Number(isExact(a)))
+    .slice(0, MAX_GENERICS)
+    .map(formulation => ({
+      rxcui: formulation.rxcui,
+      name: formulation.name,
+      kind: 'generic',
+      strength: formulation.strength,
+      doseForm: formulation.doseForm,
+      quantity: formulation.quantity,
+      isExactEquivalent: isExact(formulation),
+    }));
+}
+
+// ── Public API ──
+
+/**
+ * Lists generic equivalents, biosimilars and same-EPC-class alternatives.
+ *
+ * @param rxcui - RxCUI of the drug shown on the card (any product of the drug)
+ * @returns The three lists; each is empty when RxNorm/RxClass has nothing
+ *
+ * @example
+ * const { classAlternatives } = await getDrugAlternatives('617318'); // Lipitor 10 MG
+ * // classAlternatives → [{ name: "fluvastatin", kind: "class", className: "HMG-CoA Reductase Inhibitor" }, ...]
+ */
+export async function getDrugAlternatives(rxcui: string): Promise<DrugAlternativesResult> {
+  const cached = await alternativesCache.get(rxcui);
+  if (cached) {
+    console.log(`[Alternatives] Cache HIT: ${rxcui}`);
+    return cached;
+  }
+
+  const [formulations, classes] = await Promise.all([
+    getDrugFormulations(rxcui),
+    getDrugClasses(rxcui),
+  ]);
+
+  const ingredients = formulations.ingredients.map(name => name.toLowerCase());
+  const ingredientBases = new Set(ingredients.map(biologicBase));
+  const epcClasses = classes.filter(cls => cls.classType === 'EPC').slice(0, MAX_CLASSES);
+  const memberLists = await Promise.all(epcClasses.map(cls => getClassMembers(cls.classId)));
+
+  const biosimilars: DrugAlternative[] = [];
+  const classAlternatives: DrugAlternative[] = [];
+  const seen = new Set<string>(ingredients);
+
+  epcClasses.forEach((cls, index) => {
+    for (const member of memberLists[index]) {
+      if (seen.has(member.name)) continue;
+      seen.add(member.name);
+
+      const base = biologicBase(member.name);
+      if (ingredientBases.has(base)) {
+        biosimilars.push({
+          rxcui: member.rxcui,
+          name: member.name,
+          kind: 'biosimilar',
+          className: cls.className,
+          isReference: base === member.name,
+        });
+      } else if (classAlternatives.length < MAX_CLASS_ALTERNATIVES) {
+        classAlternatives.push({
+          rxcui: member.rxcui,
+          name: member.name,
+          kind: 'class',
+          className: cls.className,
+        });
+      }
+    }
+  });
+
+  const result: DrugAlternativesResult = {
+    rxcui,
+    ingredients,
+    epcClasses,
+    generics: findGenerics(rxcui, formulations.groups.flatMap(group => group.formulations)),
+    // Reference product first, then biosimilars by name
+    biosimilars: biosimilars.sort((a, b) => Number(b.isReference) - Number(a.isReference)),
+    classAlternatives,
+  };
+
+  console.log(
+    `[Alternatives] ${rxcui}: ${result.generics.length} generics, ` +
+    `${result.biosimilars.length} biosimilars, ${result.classAlternatives.length} class alternatives`
+  );
+
+  if (result.generics.length + result.biosimilars.length + result.classAlternatives.length > 0) {
+    await alternativesCache.set(rxcui, result);
+  }
+  return result;
+}
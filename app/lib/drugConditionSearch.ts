@@ -0,0 +1,204 @@
+/**
+ * drugConditionSearch.ts — Drug-centric search: which conditions does a drug treat?
+ *
+ * The reverse of the diagnosis → drug flow. A drug name ("Ozempic",
+ * "semaglutide") is resolved through RxNorm, then its indications come
+ * from two sources:
+ *
+ * - curated: CONDITION_DRUG_MAPPINGS keys whose list contains the drug
+ *            (brand, generic or an ingredient); aliases sharing one list
+ *            ('obesity', 'weight', 'bmi', ...) count as one condition
+ * - medrt:   MED-RT "may_treat" diseases of each ingredient (RxClass)
+ *
+ * Each condition is searched like a typed query (searchICD10, with its
+ * translation and local fallback) and the best few codes are kept. Codes
+ * are ranked by how well they are supported — both sources > MED-RT >
+ * curated — then by their own search relevance, so the results are
+ * ordinary ScoredICD10Results for SearchResults.
+ */
+
+import { DrugConditionSearchResult, DrugIndication, DrugIndicationSource, ScoredICD10Result } from '../types/icd';
+import { searchICD10 } from './api';
+import { createCache } from './cache';
+import { CONDITION_DRUG_MAPPINGS } from './conditionDrugMappings';
+import { getRxNormIngredients, searchRxNormDrug } from './rxNormApi';
+import { getMayTreatConditions } from './umlsRxClassApi';
+
+// ── Configuration ──
+
+/** Conditions searched per drug (MED-RT lists can run to dozens of diseases) */
+const MAX_INDICATIONS = 10;
+
+/** ICD-10-CM codes kept per condition */
+const CODES_PER_INDICATION = 3;
+
+/** Score floor by indication support; the code's search relevance adds up to 50 */
+const SUPPORT_SCORES = {
+  both: 50,
+  medrt: 40,
+  curated: 35,
+} as const;
+
+const resultCache = createCache<DrugConditionSearchResult>('drug-conditions', {
+  ttlMs: 24 * 60 * 60 * 1000,
+  maxEntries: 500,
+});
+
+// ── Indications ──
+
+/**
+ * Curated conditions whose drug list names the drug. Returns the first
+ * key of each list, so aliases of a shared list collapse into one.
+ */
+function findCuratedIndications(names: Set<string>): string[] {
+  const seenLists = new Set<string[]>();
+  const conditions: string[] = [];
+
+  for (const [key, drugs] of Object.entries(CONDITION_DRUG_MAPPINGS)) {
+    if (seenLists.has(drugs)) continue;
+    if (drugs.some(drug => names.has(drug.toLowerCase()))) {
+      seenLists.add(drugs);
+      conditions.push(key);
+    }
+  }
+  return conditions;
+}
+
+/** MED-RT diseases for all ingredients, in first-seen order */
+async function findMedrtIndications(ingredients: string[]): Promise<string[]> {
+  const perIngredient = await Promise.all(ingredients.map(ingredient => getMayTreatConditions(ingredient)));
+  return [...new Set(perIngredient.flat())];
+}
+
+/**
+ * Merges both sources by condition name (case-insensitive) and keeps the
+ * best supported conditions: both sources first, then MED-RT, then curated.
+ */
+function mergeIndications(curated: string[], medrt: string[]): DrugIndication[] {
+  const byName = new Map<string, DrugIndication>();
+  const add = (condition: string, source: DrugIndicationSource) => {
+    const key = condition.toLowerCase();
+    const existing = byName.get(key);
+    if (existing) {
+      if (!existing.sources.includes(source)) existing.sources.push(source);
+    } else {
+      byName.set(key, { condition, sources: [source], codes: [] });
+    }
+  };
+  medrt.forEach(condition => add(condition, 'medrt'));
+  curated.forEach(condition => add(condition, 'curated'));
+
+  const rank = (indication: DrugIndication) =>
+    indication.sources.length === 2 ? 0 : indication.sources[0] === 'medrt' ? 1 : 2;
+
+  // Stable sort keeps MED-RT's order within each rank
+  return [...byName.values()]
+    .sort((a, b) => rank(a) - rank(b))
+    .slice(0, MAX_INDICATIONS);
+}
+
+function supportScore(sources: DrugIndicationSource[]): number {
+  if (sources.length === 2) return SUPPORT_SCORES.both;
+  return sources[0] === 'medrt' ? SUPPORT_SCORES.medrt : SUPPORT_SCORES.curated;
+}
+
+// ── Code resolution ──
+
+/** Best codes for a condition name; [] when the search fails */
+async function resolveCodes(condition: string): Promise<ScoredICD10Result[]> {
+  try {
+    const { results } = await searchICD10(condition);
+    return results.slice(0, CODES_PER_INDICATION);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.warn(`[DrugSearch] ICD-10 search failed for "${condition}":`, message);
+    return [];
+  }
+}
+
+// ── Public API ──
+
+/**
+ * Finds the conditions a drug treats, as ranked ICD-10-CM results.
+ *
+ * @param drugName - Brand or generic name
+ * @returns The resolved drug, its indications and ranked codes;
+ *          drug is null (and results empty) when RxNorm doesn't know the name
+ *
+ * @example
+ * const { drug, results } = await searchConditionsForDrug('semaglutide');
+ * // drug.brandName → "Ozempic", results[0].code → "E11.9"
+ */
+export async function searchConditionsForDrug(drugName: string): Promise<DrugConditionSearchResult> {
+  const query = drugName.trim();
+  const cacheKey = query.toLowerCase();
+  const empty: DrugConditionSearchResult = { query, drug: null, indications: [], results: [] };
+  if (!query) return empty;
+
+  const cached = await resultCache.get(cacheKey);
+  if (cached) {
+    console.log(`[DrugSearch] Cache HIT: ${query}`);
+    return cached;
+  }
+
+  const rxDrug = await searchRxNormDrug(query);
+  if (!rxDrug) {
+    console.log(`[DrugSearch] Not in RxNorm: ${query}`);
+    return empty;
+  }
+
+  const rxIngredients = await getRxNormIngredients(rxDrug.rxcui);
+  const ingredients = rxIngredients.length > 0
+    ? rxIngredients.map(ingredient => ingredient.name)
+    : rxDrug.genericName.split('/').map(name => name.trim().toLowerCase()).filter(Boolean);
+
+  const names = new Set([query, rxDrug.brandName, rxDrug.genericName, ...ingredients].map(name => name.toLowerCase()));
+  const indications = mergeIndications(
+    findCuratedIndications(names),
+    await findMedrtIndications(ingredients)
+  );
+
+  // A code reached from a curated key and a MED-RT disease ("diabetes" and
+  // "Diabetes Mellitus, Type 2") has both sources, whichever condition found it
+  const resolved = await Promise.all(indications.map(indication => resolveCodes(indication.condition)));
+  const byCode = new Map<string, { result: ScoredICD10Result; sources: Set<DrugIndicationSource> }>();
+
+  indications.forEach((indication, index) => {
+    for (const result of resolved[index]) {
+      indication.codes.push(result.code);
+      const existing = byCode.get(result.code);
+      if (existing) {
+        indication.sources.forEach(source => existing.sources.add(source));
+        if (result.score > existing.result.score) existing.result = result;
+      } else {
+        byCode.set(result.code, { result, sources: new Set(indication.sources) });
+      }
+    }
+  });
+
+  const results = [...byCode.values()]
+    .map(({ result, sources }) => ({
+      ...result,
+      score: Math.min(100, Math.round(supportScore([...sources]) + result.score / 2)),
+    }))
+    .sort((a, b) => b.score - a.score);
+  const searchResult: DrugConditionSearchResult = {
+    query,
+    drug: {
+      rxcui: rxDrug.rxcui,
+      brandName: rxDrug.brandName,
+      genericName: rxDrug.genericName,
+      ingredients,
+    },
+    indications,
+    results,
+  };
+
+  console.log(`[DrugSearch] ${query} → ${rxDrug.genericName}: ${indications.length} conditions, ${results.length} codes`);
+
+  // Don't pin an empty answer for a day when the lookups may just have failed
+  if (results.length > 0) {
+    await resultCache.set(cacheKey, searchResult);
+  }
+  return searchResult;
+}
@@ -0,0 +1,200 @@
+/**
+ * drugContraindications.ts — Drug–disease contraindication checks (offline)
+ *
+ * drugRelevanceAgent.ts asks "does this drug treat the condition?". This
+ * module asks the opposite question for the *other* diagnoses in the
+ * session (favorites + encounter): is the drug contraindicated, or does
+ * it need caution, with any of them?
+ *
+ *   Advil (ibuprofen)  +  favorite N18.3 CKD stage 3     → caution
+ *   Wegovy (semaglutide) + encounter E31.22 MEN 2A        → contraindicated
+ *
+ * Two sources are cross-referenced:
+ * - rule:  public/data/drug-disease-contraindications.json — curated
+ *          condition groups (ICD-10 prefixes) × drug names / class terms
+ * - label: the drug's own DrugResult.warnings text, searched for the
+ *          condition group's terms ("renal impairment", "asthma", ...)
+ *
+ * A label match alone is only flagged when the sentence says
+ * "contraindicated" or "do not use"; otherwise label text just backs up
+ * a rule (shown as the excerpt).
+ */
+
+import { DrugDiseaseFlag, DrugResult, SessionDiagnosis } from '../types/icd';
+import { fetchStaticData } from './staticData';
+
+// ── Types for the raw JSON structure ──
+
+interface RawCondition {
+  id: string;
+  name: string;
+  /** Code prefixes; "N18" matches N18.1 … N18.9 */
+  icd10: string[];
+  /** Lowercase phrases that mean this condition in label text */
+  labelTerms: string[];
+}
+
+interface RawRule {
+  condition: string;
+  severity: DrugDiseaseFlag['severity'];
+  message: string;
+  /** Lowercase ingredient names, matched as whole words */
+  ingredients?: string[];
+  /** Lowercase fragments of DrugClass.className ("nonsteroidal anti-inflammatory") */
+  classTerms?: string[];
+  /** Narrower ICD-10 prefixes than the condition's, for stage-specific rules */
+  icd10?: string[];
+}
+
+interface RawContraindicationData {
+  version: string;
+  source: string;
+  conditions: RawCondition[];
+  rules: RawRule[];
+}
+
+// ── Configuration ──
+
+const DATA_PATH = '/data/drug-disease-contraindications.json';
+
+/** Label sentences with these words are treated as contraindications */
+const LABEL_CONTRAINDICATION_PATTERN = /contraindicat|do not use|must not be used/i;
+
+// ── In-memory data store ──
+
+let conditions: RawCondition[] = [];
+let rulesByCondition: Map<string, RawRule[]> = new Map();
+let isLoaded = false;
+let loadPromise: Promise<void> | null = null;
+
+// ── Data loading ──
+
+async function loadData(): Promise<void> {
+  if (isLoaded) return;
+  if (loadPromise) return loadPromise;
+
+  loadPromise = (async () => {
+    try {
+      const response = await fetchStaticData(DATA_PATH);
+      if (!response.ok) throw new Error(`Failed to load drug contraindications: ${response.status}`);
+      const data: RawContraindicationData = await response.json();
+
+      conditions = data.conditions;
+      rulesByCondition = new Map();
+      for (const rule of data.rules) {
+        const list = rulesByCondition.get(rule.condition);
+        if (list) list.push(rule);
+        else rulesByCondition.set(rule.condition, [rule]);
+      }
+
+      isLoaded = true;
+    } catch (err) {
+      console.error('Failed to load drug contraindication data:', err);
+      loadPromise = null;
+      throw err;
+    }
+  })();
+
+  return loadPromise;
+}
+
+// ── Matching helpers ──
+
+function matchesPrefix(code: string, prefixes: string[]): boolean {
+  const upper = code.toUpperCase();
+  return prefixes.some(prefix => upper.startsWith(prefix));
+}
+
+function containsWord(text: string, word: string): boolean {
+  return new RegExp(`\\b${word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`, 'i').test(text);
+}
+
+/** Whether a rule's ingredient names or class terms apply to the drug */
+function ruleMatchesDrug(rule: RawRule, drug: DrugResult): boolean {
+  const names = [drug.genericName, ...(drug.ingredients ?? [])];
+  if (rule.ingredients?.some(ingredient => names.some(name => containsWord(name, ingredient)))) {
+    return true;
+  }
+  const classNames = (drug.drugClasses ?? []).map(c => c.className.toLowerCase());
+  return rule.classTerms?.some(term => classNames.some(name => name.includes(term))) ?? false;
+}
+
+/**
+ * First warnings sentence mentioning one of the terms — preferring one
+ * that also states a contraindication.
+ */
+function findLabelSentence(warnings: string, terms: string[]): string | undefined {
+  const sentences = warnings
+    .split(/(?<=[.;])\s+/)
+    .filter(sentence => terms.some(term => sentence.toLowerCase().includes(term)));
+  return (sentences.find(sentence => LABEL_CONTRAINDICATION_PATTERN.test(sentence)) ?? sentences[0])?.trim();
+}
+
+// ── Public API ──
+
+/**
+ * Checks one drug against the session diagnoses. Flags are sorted with
+ * contraindications first; at most one flag per diagnosis.
+ *
+ * @param drug - Drug shown on a DrugCard
+ * @param diagnoses - Favorited / encounter diagnoses (see useSessionDiagnoses)
+ *
+ * @example
+ * await checkDrugContraindications(ibuprofen, [{ code: "N18.4", name: "CKD stage 4", sources: ["favorite"] }])
+ * // → [{ severity: "caution", conditionName: "Chronic kidney disease", basis: ["rule"], ... }]
+ */
+export async function checkDrugContraindications(
+  drug: DrugResult,
+  diagnoses: SessionDiagnosis[]
+): Promise<DrugDiseaseFlag[]> {
+  if (diagnoses.length === 0) return [];
+  await loadData();
+
+  const flags: DrugDiseaseFlag[] = [];
+
+  for (const diagnosis of diagnoses) {
+    let best: DrugDiseaseFlag | null = null;
+
+    for (const condition of conditions) {
+      if (!matchesPrefix(diagnosis.code, condition.icd10)) continue;
+
+      const labelExcerpt = drug.warnings ? findLabelSentence(drug.warnings, condition.labelTerms) : undefined;
+      const rules = (rulesByCondition.get(condition.id) ?? [])
+        .filter(rule => !rule.icd10 || matchesPrefix(diagnosis.code, rule.icd10))
+        .filter(rule => ruleMatchesDrug(rule, drug));
+
+      let flag: DrugDiseaseFlag | null = null;
+      // Stage-specific contraindications win over general cautions
+      const rule = rules.find(r => r.severity === 'contraindicated') ?? rules[0];
+      if (rule) {
+        flag = {
+          severity: rule.severity,
+          diagnosis,
+          conditionName: condition.name,
+          message: rule.message,
+          basis: labelExcerpt ? ['rule', 'label'] : ['rule'],
+          ...(labelExcerpt && { labelExcerpt }),
+        };
+      } else if (labelExcerpt && LABEL_CONTRAINDICATION_PATTERN.test(labelExcerpt)) {
+        flag = {
+          severity: 'contraindicated',
+          diagnosis,
+          conditionName: condition.name,
+          message: `The drug label lists ${condition.name.toLowerCase()} as a contraindication.`,
+          basis: ['label'],
+          labelExcerpt,
+        };
+      }
+
+      if (flag && (!best || (flag.severity === 'contraindicated' && best.severity !== 'contraindicated'))) {
+        best = flag;
+      }
+    }
+
+    if (best) flags.push(best);
+  }
+
+  return flags.sort((a, b) =>
+    a.severity === b.severity ? 0 : a.severity === 'contraindicated' ? -1 : 1
+  );
+}
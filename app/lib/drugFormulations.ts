@@ -0,0 +1,265 @@
+/**
+ * drugFormulations.ts — Every marketed formulation of a drug, grouped by dose form
+ *
+ * DrugResult carries one dosageForm/strength and a handful of relatedDrugs.
+ * The formulation panel needs the full picture, so this lists every SCD
+ * (generic) and SBD (branded) product of the drug's ingredients:
+ *
+ *   1. ingredients of the product RxCUI (RxNorm related tty=IN)
+ *   2. SCD/SBD products of each ingredient (getRelatedDrugs on the IN RxCUI);
+ *      for combination drugs only products of all ingredients are kept
+ *   3. strength, dose form and route parsed from the RxNorm names
+ *
+ * Packages (pack sizes and NDCs) are one RxNav call per product, so they are
+ * fetched separately when a formulation is opened (getFormulationPackages).
+ */
+
+import { DrugFormulation, DrugFormulationGroup, DrugFormulationsResult, DrugPackage } from '../types/icd';
+import { createCache } from './cache';
+import { getRxNormIngredients } from './rxNormApi';
+import { getRelatedDrugs } from './umlsRxClassApi';
+
+// ── Configuration ──
+
+const RXNORM_BASE_URL = 'https://rxnav.nlm.nih.gov/REST';
+
+/** Packages listed per formulation (some generics have dozens of repackagers) */
+const MAX_PACKAGES = 25;
+
+const formulationCache = createCache<DrugFormulationsResult>('drug-formulations', {
+  ttlMs: 24 * 60 * 60 * 1000,
+  maxEntries: 500,
+});
+
+const packageCache = createCache<DrugPackage[]>('drug-packages', {
+  ttlMs: 24 * 60 * 60 * 1000,
+  maxEntries: 2000,
+});
+
+/**
+ * Route by dose-form keyword, most specific first ("Sublingual Tablet"
+ * before "Tablet", "Rectal Cream" before "Cream").
+ */
+const ROUTE_KEYWORDS: Array<[string, string[]]> = [
+  ['Sublingual', ['sublingual']],
+  ['Buccal', ['buccal']],
+  ['Inhalation', ['inhal', 'metered dose']],
+  ['Nasal', ['nasal']],
+  ['Ophthalmic', ['ophthalmic']],
+  ['Otic', ['otic']],
+  ['Transdermal', ['transdermal']],
+  ['Rectal', ['rectal', 'enema']],
+  ['Vaginal', ['vaginal']],
+  ['Injection', ['inject', 'syringe', 'cartridge', 'implant']],
+  ['Oral', ['oral', 'tablet', 'capsule', 'syrup', 'elixir', 'lozenge', 'chewing gum']],
+  ['Topical', ['topical', 'cream', 'ointment', 'gel', 'lotion', 'shampoo', 'foam', 'paste', 'spray']],
+];
+
+// ── RxNav NDC properties ──
+
+interface NdcPropertiesResponse {
+  ndcPropertyList?: {
+    ndcProperty?: Array<{
+      ndc10?: string;
+      packagingList?: { packaging?: string[] };
+      propertyConceptList?: {
+        propertyConcept?: Array<{ propName: string; propValue: string }>;
+      };
+    }>;
+  };
+}
+
+// ── Name parsing ──
+
+/** Leading quantity factor: "0.5 ML semaglutide ...", "24 HR metformin ..." */
+const QUANTITY_PREFIX = /^(\d+(?:\.\d+)?\s+(?:ML|HR|ACTUAT|G))\s+/;
+
+/**
+ * Strength tokens. RxNorm units are upper case and ingredient names lower
+ * case, so "500 MG", "0.5 MG/ML", "0.25 MG/0.5 ML" and "0.1 %" match but
+ * the ingredient and dose form words don't.
+ */
+const STRENGTH_TOKEN = /\d+(?:\.\d+)?\s+(?:[A-Z]+|%)(?:\/(?:\d+(?:\.\d+)?\s+)?[A-Z]+)*(?=\s|$)/g;
+
+/** Route for an RxNorm dose form, "Other" when no keyword matches */
+function routeForDoseForm(doseForm: string): string {
+  const lower = doseForm.toLowerCase();
+  const match = ROUTE_KEYWORDS.find(([, keywords]) => keywords.some(keyword => lower.includes(keyword)));
+  return match ? match[0] : 'Other';
+}
+
+/**
+ * Splits an SCD/SBD name into its parts.
+ *
+ * @example
+ * parseFormulationName('1143', 'metformin hydrochloride 500 MG / sitagliptin 50 MG Oral Tablet [Janumet]')
+ * // → { tty: "SBD", brandName: "Janumet", strength: "500 MG / 50 MG", doseForm: "Oral Tablet", route: "Oral", ... }
+ */
+function parseFormulationName(rxcui: string, name: string): DrugFormulation {
+  const brandMatch = name.match(/\s*\[([^\]]+)\]\s*$/);
+  let base = brandMatch ? name.slice(0, brandMatch.index) : name;
+
+  const quantityMatch = base.match(QUANTITY_PREFIX);
+  if (quantityMatch) base = base.slice(quantityMatch[0].length);
+
+  const strengths = [...base.matchAll(STRENGTH_TOKEN)];
+  const last = strengths[strengths.length - 1];
+  const doseForm = last
+    ? base.slice((last.index ?? 0) + last[0].length).trim() || 'Unknown'
+    : 'Unknown';
+
+  return {
+    rxcui,
+    name,
+    tty: brandMatch ? 'SBD' : 'SCD',
+    brandName: brandMatch?.[1],
+    strength: strengths.map(match => match[0]).join(' / '),
+    doseForm,
+    route: routeForDoseForm(doseForm),
+    quantity: quantityMatch?.[1],
+  };
+}
+
+/** Lowest strength first, generic before branded */
+function compareFormulations(a: DrugFormulation, b: DrugFormulation): number {
+  const strengthDiff = (parseFloat(a.strength) || 0) - (parseFloat(b.strength) || 0);
+  if (strengthDiff !== 0) return strengthDiff;
+  if (a.tty !== b.tty) return a.tty === 'SCD' ? -1 : 1;
+  return a.name.localeCompare(b.name);
+}
+
+/** Groups by dose form; the most common forms first */
+function groupByDoseForm(formulations: DrugFormulation[]): DrugFormulationGroup[] {
+  const groups = new Map<string, DrugFormulationGroup>();
+  for (const formulation of formulations) {
+    const group = groups.get(formulation.doseForm);
+    if (group) {
+      group.formulations.push(formulation);
+    } else {
+      groups.set(formulation.doseForm, {
+        doseForm: formulation.doseForm,
+        route: formulation.route,
+        formulations: [formulation],
+      });
+    }
+  }
+
+  return [...groups.values()]
+    .map(group => ({ ...group, formulations: group.formulations.sort(compareFormulations) }))
+    .sort((a, b) => b.formulations.length - a.formulations.length || a.doseForm.localeCompare(b.doseForm));
+}
+
+// ── Public API ──
+
+/**
+ * Lists every SCD/SBD product of a drug's ingredients, grouped by dose form.
+ *
+ * @param rxcui - RxCUI of the drug shown on the card (any product of the drug)
+ * @returns Ingredients and dose-form groups; groups are empty when RxNorm has no products
+ *
+ * @example
+ * const { groups } = await getDrugFormulations('860975');
+ * // groups[0] → { doseForm: "Oral Tablet", route: "Oral", formulations: [{ strength: "500 MG", ... }, ...] }
+ */
+export async function getDrugFormulations(rxcui: string): Promise<DrugFormulationsResult> {
+  const cached = await formulationCache.get(rxcui);
+  if (cached) {
+    console.log(`[Formulations] Cache HIT: ${rxcui}`);
+    return cached;
+  }
+
+  const ingredients = await getRxNormIngredients(rxcui);
+  if (ingredients.length === 0) {
+    console.log(`[Formulations] No ingredients for rxcui: ${rxcui}`);
+    return { rxcui, ingredients: [], groups: [] };
+  }
+
+  // getRelatedDrugs caches the full list, so an unbounded limit costs nothing extra
+  const productLists = await Promise.all(
+    ingredients.map(ingredient => getRelatedDrugs(ingredient.rxcui, Number.POSITIVE_INFINITY))
+  );
+
+  // A combination drug's products are the ones every ingredient lists
+  const [first, ...rest] = productLists;
+  const restIds = rest.map(products => new Set(products.map(product => product.rxcui)));
+  const shared = first.filter(product => restIds.every(ids => ids.has(product.rxcui)));
+
+  // ...and exactly these ingredients: metformin alone shouldn't list Janumet
+  const formulations = shared
+    .map(product => parseFormulationName(product.rxcui, product.name))
+    .filter(formulation => formulation.strength.split(' / ').length === ingredients.length);
+
+  const result: DrugFormulationsResult = {
+    rxcui,
+    ingredients: ingredients.map(ingredient => ingredient.name),
+    groups: groupByDoseForm(formulations),
+  };
+
+  console.log(`[Formulations] ${rxcui}: ${formulations.length} products in ${result.groups.length} dose forms`);
+
+  if (formulations.length > 0) {
+    await formulationCache.set(rxcui, result);
+  }
+  return result;
+}
+
+/**
+ * Gets the NDC packages of one formulation (active NDCs only).
+ *
+ * @param rxcui - SCD or SBD RxCUI
+ * @returns Packages with pack size descriptions, empty array if none or on failure
+ *
+ * @example
+ * const packages = await getFormulationPackages('861007');
+ * // [{ ndc: "0093-1048-01", packaging: "100 TABLET, FILM COATED in 1 BOTTLE", labeler: "Teva", ... }]
+ */
+export async function getFormulationPackages(rxcui: string): Promise<DrugPackage[]> {
+  const cached = await packageCache.get(rxcui);
+  if (cached) {
+    return cached;
+  }
+
+  try {
+    const url = `${RXNORM_BASE_URL}/ndcproperties.json?id=${encodeURIComponent(rxcui)}&ndcstatus=active`;
+    const response = await fetch(url);
+
+    if (!response.ok) {
+      console.warn(`[Formulations] NDC properties error: ${response.status} ${response.statusText}`);
+      return [];
+    }
+
+    const data: NdcPropertiesResponse = await response.json();
+    const packages: DrugPackage[] = [];
+
+    for (const property of data.ndcPropertyList?.ndcProperty ?? []) {
+      if (!property.ndc10) continue;
+      const concepts = property.propertyConceptList?.propertyConcept ?? [];
+      const conceptValue = (propName: string) => concepts.find(concept => concept.propName === propName)?.propValue;
+
+      // Packaging text ends with its own NDC in parentheses, which the row already shows
+      const packaging = (property.packagingList?.packaging ?? [])
+        .map(text => text.replace(/\s*\([\d-]+\)\s*$/, ''))
+        .join('; ');
+
+      packages.push({
+        ndc: property.ndc10,
+        packaging: packaging || 'Package details unavailable',
+        labeler: conceptValue('LABELER'),
+        marketingCategory: conceptValue('MARKETING_CATEGORY'),
+      });
+    }
+
+    const result = packages
+      .sort((a, b) => a.ndc.localeCompare(b.ndc))
+      .slice(0, MAX_PACKAGES);
+
+    await packageCache.set(rxcui, result);
+    console.log(`[Formulations] ${result.length} packages for rxcui: ${rxcui}`);
+    return result;
+
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.warn(`[Formulations] Failed to fetch packages for ${rxcui}:`, message);
+    return [];
+  }
+}
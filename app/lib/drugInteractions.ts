@@ -0,0 +1,216 @@
+/**
+ * drugInteractions.ts — Pairwise drug–drug interaction checks (offline)
+ *
+ * Works at the ingredient level: every drug on the list is resolved to
+ * RxNorm ingredient (IN) concepts, then every pair of drugs is compared
+ * against the local interaction table:
+ *
+ *   Coumadin (warfarin)  ×  Bayer (aspirin)      → major: additive bleeding risk
+ *   Zestril (lisinopril) ×  Aldactone (spironolactone) → major: hyperkalemia
+ *   Glucophage (metformin) × Janumet (sitagliptin / metformin) → duplicate ingredient
+ *
+ * Ingredients are resolved from the drug's rxcui, its generic name and
+ * ingredient list, so no network is needed. Only when none of those match
+ * is RxNorm asked for the product's ingredients (getRxNormIngredients);
+ * offline, such drugs are reported as unrecognized.
+ *
+ * Loads public/data/drug-interactions.json — a curated subset of
+ * clinically significant interactions, not a complete database.
+ */
+
+import {
+  DrugInteractionFinding,
+  InteractionCheckResult,
+  InteractionIngredient,
+  InteractionListDrug,
+  InteractionSeverity,
+} from '../types/icd';
+import { getRxNormIngredients } from './rxNormApi';
+import { fetchStaticData } from './staticData';
+
+// ── Types for the raw JSON structure ──
+
+interface RawIngredient {
+  rxcui: string;
+  name: string;
+  /** Salt forms, brand names */
+  synonyms?: string[];
+}
+
+interface RawInteraction {
+  a: string;
+  b: string;
+  severity: InteractionSeverity;
+  description: string;
+  management?: string;
+}
+
+interface RawInteractionData {
+  version: string;
+  source: string;
+  ingredients: RawIngredient[];
+  interactions: RawInteraction[];
+}
+
+// ── Configuration ──
+
+const DATA_PATH = '/data/drug-interactions.json';
+
+/** Sort order, most severe first */
+export const SEVERITY_RANK: Record<InteractionSeverity, number> = {
+  contraindicated: 0,
+  major: 1,
+  moderate: 2,
+  minor: 3,
+};
+
+// ── In-memory data store ──
+
+let ingredients: RawIngredient[] = [];
+let ingredientsByRxcui: Map<string, RawIngredient> = new Map();
+let interactionsByPair: Map<string, RawInteraction> = new Map();
+/** One word-boundary pattern per ingredient, built from name + synonyms */
+let namePatterns: { ingredient: RawIngredient; pattern: RegExp }[] = [];
+let dataVersion = '';
+let isLoaded = false;
+let loadPromise: Promise<void> | null = null;
+
+// ── Data loading ──
+
+function pairKey(a: string, b: string): string {
+  return a < b ? `${a}|${b}` : `${b}|${a}`;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+async function loadData(): Promise<void> {
+  if (isLoaded) return;
+  if (loadPromise) return loadPromise;
+
+  loadPromise = (async () => {
+    try {
+      const response = await fetchStaticData(DATA_PATH);
+      if (!response.ok) throw new Error(`Failed to load drug interactions: ${response.status}`);
+      const data: RawInteractionData = await response.json();
+
+      ingredients = data.ingredients;
+      ingredientsByRxcui = new Map(data.ingredients.map(i => [i.rxcui, i]));
+      interactionsByPair = new Map(data.interactions.map(x => [pairKey(x.a, x.b), x]));
+      namePatterns = data.ingredients.map(ingredient => {
+        const names = [ingredient.name, ...(ingredient.synonyms ?? [])].map(escapeRegExp);
+        return { ingredient, pattern: new RegExp(`\\b(?:${names.join('|')})\\b`, 'i') };
+      });
+      dataVersion = data.version;
+
+      isLoaded = true;
+    } catch (err) {
+      console.error('Failed to load drug interaction data:', err);
+      loadPromise = null;
+      throw err;
+    }
+  })();
+
+  return loadPromise;
+}
+
+// ── Ingredient resolution ──
+
+function toIngredient(raw: RawIngredient): InteractionIngredient {
+  return { rxcui: raw.rxcui, name: raw.name };
+}
+
+/** Local-only resolution: rxcui, then names */
+function matchLocally(drug: InteractionListDrug): RawIngredient[] {
+  if (drug.rxcui) {
+    const direct = ingredientsByRxcui.get(drug.rxcui);
+    if (direct) return [direct];
+  }
+
+  const texts = [drug.genericName, ...(drug.ingredients ?? []), drug.brandName];
+  return namePatterns
+    .filter(({ pattern }) => texts.some(text => pattern.test(text)))
+    .map(({ ingredient }) => ingredient);
+}
+
+/**
+ * Resolves a drug to the ingredients in the local dataset.
+ * Falls back to RxNorm's product → ingredient relation when nothing
+ * matches locally and the drug carries an rxcui.
+ */
+async function resolveIngredients(drug: InteractionListDrug, useRxNorm: boolean): Promise<RawIngredient[]> {
+  const local = matchLocally(drug);
+  if (local.length > 0 || !drug.rxcui || !useRxNorm) return local;
+
+  const related = await getRxNormIngredients(drug.rxcui);
+  return related
+    .map(r => ingredientsByRxcui.get(r.rxcui) ?? ingredients.find(i => i.name === r.name))
+    .filter((i): i is RawIngredient => i !== undefined);
+}
+
+// ── Public API ──
+
+/**
+ * Checks every pair of drugs on the list for interactions and duplicated
+ * ingredients. Findings are sorted most severe first.
+ *
+ * @param options.useRxNorm - Ask RxNorm for ingredients of drugs that don't
+ *   match locally (default true; failures are ignored)
+ *
+ * @example
+ * const { findings } = await checkDrugInteractions([warfarin, aspirin, metformin]);
+ * // → [{ severity: "major", ingredients: [{ name: "warfarin" }, { name: "aspirin" }], ... }]
+ */
+export async function checkDrugInteractions(
+  drugs: InteractionListDrug[],
+  options: { useRxNorm?: boolean } = {}
+): Promise<InteractionCheckResult> {
+  await loadData();
+  const useRxNorm = options.useRxNorm ?? true;
+
+  const resolved = await Promise.all(drugs.map(drug => resolveIngredients(drug, useRxNorm)));
+  const findings: DrugInteractionFinding[] = [];
+  let pairsChecked = 0;
+
+  for (let i = 0; i < drugs.length; i++) {
+    for (let j = i + 1; j < drugs.length; j++) {
+      pairsChecked++;
+      for (const a of resolved[i]) {
+        for (const b of resolved[j]) {
+          if (a.rxcui === b.rxcui) {
+            findings.push({
+              kind: 'duplicate',
+              severity: 'moderate',
+              drugs: [drugs[i], drugs[j]],
+              ingredients: [toIngredient(a), toIngredient(b)],
+              description: `Both products contain ${a.name} — possible therapeutic duplication.`,
+              management: 'Confirm both are intended; combined doses may exceed the maximum daily dose.',
+            });
+            continue;
+          }
+
+          const interaction = interactionsByPair.get(pairKey(a.rxcui, b.rxcui));
+          if (!interaction) continue;
+          findings.push({
+            kind: 'interaction',
+            severity: interaction.severity,
+            drugs: [drugs[i], drugs[j]],
+            ingredients: [toIngredient(a), toIngredient(b)],
+            description: interaction.description,
+            ...(interaction.management && { management: interaction.management }),
+          });
+        }
+      }
+    }
+  }
+
+  findings.sort((x, y) => SEVERITY_RANK[x.severity] - SEVERITY_RANK[y.severity]);
+
+  return {
+    findings,
+    unrecognized: drugs.filter((_, index) => resolved[index].length === 0),
+    pairsChecked,
+    dataVersion,
+  };
+}
@@ -68,6 +68,8 @@ Output Format Requirements:
  * 
  * @param conditionName - The medical condition (e.g., "Morbid obesity")
  * @param drugs - Array of drugs to evaluate
+ * @param options.onScore - Called with each score as soon as Claude has written it
+ *                          (streams the response); the returned array is still authoritative
  * @returns Promise resolving to array of scored drugs
  * 
  * @example
@@ -86,7 +88,8 @@ Output Format Requirements:
  */
 export async function scoreDrugRelevance(
   conditionName: string,
-  drugs: DrugInput[]
+  drugs: DrugInput[],
+  options: { onScore?: (score: DrugScore) => void } = {}
 ): Promise<DrugScore[]> {
   // Validate API key
   const apiKey = process.env.ANTHROPIC_API_KEY;
@@ -153,8 +156,7 @@ Example Scoring Logic:
 
 Now evaluate the drugs listed above for "${conditionName}":`;
 
-    // Call Claude API
-    const message = await anthropic.messages.create({
+    const request: Anthropic.MessageCreateParamsNonStreaming = {
       model: 'claude-sonnet-4-20250514',
       max_tokens: 2000,
       temperature: 0, // Deterministic for reproducible scoring
@@ -165,7 +167,17 @@ Now evaluate the drugs listed above for "${conditionName}":`;
           content: userPrompt,
         },
       ],
-    });
+    };
+
+    // Call Claude API - streamed when the caller wants scores as they are written
+    let message: Anthropic.Message;
+    if (options.onScore) {
+      const stream = anthropic.messages.stream(request);
+      stream.on('text', createScoreStreamParser(options.onScore));
+      message = await stream.finalMessage();
+    } else {
+      message = await anthropic.messages.create(request);
+    }
 
     // Extract text content from response
     const responseContent = message.content[0];
@@ -263,18 +275,9 @@ function parseJsonResponse(rawResponse: string): DrugScore[] {
     const validated: DrugScore[] = [];
     
     for (const item of parsed) {
-      if (
-        typeof item === 'object' &&
-        item !== null &&
-        typeof item.drugName === 'string' &&
-        typeof item.score === 'number' &&
-        typeof item.reasoning === 'string'
-      ) {
-        validated.push({
-          drugName: item.drugName,
-          score: Math.max(0, Math.min(10, Math.round(item.score))), // Clamp to 0-10
-          reasoning: item.reasoning.slice(0, 150), // Truncate if too long
-        });
+      const score = normalizeScore(item);
+      if (score) {
+        validated.push(score);
       } else {
         console.warn('[DrugRelevanceAgent] Invalid item in response:', item);
       }
@@ -288,3 +291,81 @@ function parseJsonResponse(rawResponse: string): DrugScore[] {
     return [];
   }
 }
+
+/**
+ * Validates one item of Claude's array and normalizes it.
+ * @returns The DrugScore, or null if the item doesn't have the expected shape
+ */
+function normalizeScore(item: unknown): DrugScore | null {
+  if (typeof item !== 'object' || item === null) {
+    return null;
+  }
+  const { drugName, score, reasoning } = item as Record<string, unknown>;
+  if (typeof drugName !== 'string' || typeof score !== 'number' || typeof reasoning !== 'string') {
+    return null;
+  }
+  return {
+    drugName,
+    score: Math.max(0, Math.min(10, Math.round(score))), // Clamp to 0-10
+    reasoning: reasoning.slice(0, 150), // Truncate if too long
+  };
+}
+
+// =============================================================================
+// Streaming Parser
+// =============================================================================
+
+/**
+ * Creates a text-delta handler that finds each object of the streamed JSON
+ * array as soon as its closing brace arrives and passes it to onScore.
+ * 
+ * Only braces outside of strings count, so reasoning text like "see {x}"
+ * doesn't confuse it. Markdown fences around the array are skipped for free.
+ * 
+ * @param onScore - Receives each valid score, in the order Claude writes them
+ * @returns Handler for the stream's 'text' events
+ */
+function createScoreStreamParser(onScore: (score: DrugScore) => void): (delta: string) => void {
+  let buffer = '';
+  let position = 0;
+  let depth = 0;
+  let objectStart = -1;
+  let inString = false;
+  let escaped = false;
+
+  return (delta: string) => {
+    buffer += delta;
+
+    for (; position < buffer.length; position++) {
+      const char = buffer[position];
+
+      if (inString) {
+        if (escaped) {
+          escaped = false;
+        } else if (char === '\\') {
+          escaped = true;
+        } else if (char === '"') {
+          inString = false;
+        }
+        continue;
+      }
+
+      if (char === '"') {
+        inString = true;
+      } else if (char === '{') {
+        if (depth === 0) objectStart = position;
+        depth++;
+      } else if (char === '}' && depth > 0) {
+        depth--;
+        if (depth === 0) {
+          try {
+            const score = normalizeScore(JSON.parse(buffer.slice(objectStart, position + 1)));
+            if (score) onScore(score);
+          } catch {
+            // Malformed item - the final parse reports it
+          }
+        }
+      }
+    }
+  };
+}
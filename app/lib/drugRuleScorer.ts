@@ -0,0 +1,216 @@
+/**
+ * drugRuleScorer.ts — Deterministic drug relevance scoring (no AI)
+ *
+ * Produces the same DrugScore shape as drugRelevanceAgent.ts from three
+ * public evidence sources, so the pipeline still filters and ranks drugs
+ * when ANTHROPIC_API_KEY is missing (and scores can be compared with
+ * Claude's):
+ *
+ * - label:     the FDA label's "Indications and Usage" text mentions the
+ *              condition (openFdaApi.ts, with its synonym expansion)
+ * - may_treat: MED-RT lists a matching disease for one of the drug's
+ *              ingredients (umlsRxClassApi.ts)
+ * - curated:   the drug is in the curated list for the condition
+ *              (conditionDrugMappings.ts)
+ *
+ * Scores follow the Claude rubric's bands (7+ FDA-approved, 4-6 off-label):
+ *
+ *   label + (may_treat or curated) → 10     may_treat alone          → 7
+ *   label alone                    → 8      curated + related disease → 7
+ *   may_treat + curated            → 8      curated alone            → 6
+ *   related disease only           → 4      no evidence              → 1
+ *
+ * "Related disease" is a may_treat disease sharing a specific word with the
+ * condition ("Diabetes Mellitus, Type 1" for type 2 diabetes) rather than
+ * covering all of its words.
+ */
+
+import { DrugInput, DrugScore } from './drugRelevanceAgent';
+import { findCuratedMapping } from './conditionDrugMappings';
+import { getMayTreatConditions } from './umlsRxClassApi';
+import { getLabelIndications, findIndicationMatch } from './openFdaApi';
+
+// ── Types ──
+
+/** DrugInput plus the ingredients RxClass enrichment found for combo drugs */
+export interface RuleScoringInput extends DrugInput {
+  ingredients?: string[];
+}
+
+type DiseaseMatch = { level: 'full' | 'related'; disease: string } | null;
+
+// ── Configuration ──
+
+/** Claude's reasoning limit, kept so both scorers fit the same UI */
+const MAX_REASONING_LENGTH = 100;
+
+/** Qualifiers that don't change which drugs treat a condition */
+const STOP_WORDS = new Set([
+  'with', 'without', 'unspecified', 'specified', 'other', 'nos', 'nec',
+  'due', 'to', 'of', 'the', 'a', 'an', 'and', 'or', 'in', 'by', 'for', 'not',
+  'elsewhere', 'classified', 'complications', 'complication', 'type',
+  'acute', 'chronic', 'primary', 'secondary', 'severe', 'mild', 'moderate',
+  'left', 'right', 'bilateral', 'initial', 'subsequent', 'episode',
+  'encounter', 'sequela',
+]);
+
+/** Words too general to make two diseases "related" on their own */
+const GENERIC_TERMS = new Set([
+  'disease', 'disorder', 'syndrome', 'infection', 'condition', 'failure',
+  'deficiency', 'neoplasm', 'injury', 'pain',
+]);
+
+// ── Matching helpers ──
+
+/** Strips plural "s" so "Diabetes" and "diabetes" and "Infections" line up */
+function stem(word: string): string {
+  return word.length > 4 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word;
+}
+
+function tokenize(text: string): Set<string> {
+  return new Set(
+    text
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter(word => word && !STOP_WORDS.has(word) && (word.length > 1 || /\d/.test(word)))
+      .map(stem)
+  );
+}
+
+/**
+ * Best may_treat disease for the condition: 'full' when every word of the
+ * disease appears in the condition ("Obesity" ⊂ "Morbid (severe) obesity"),
+ * 'related' when they only share a specific word.
+ */
+function matchDiseases(conditionTokens: Set<string>, diseases: string[]): DiseaseMatch {
+  let related: DiseaseMatch = null;
+
+  for (const disease of diseases) {
+    const diseaseTokens = [...tokenize(disease)];
+    if (diseaseTokens.length === 0) continue;
+
+    if (diseaseTokens.every(token => conditionTokens.has(token))) {
+      return { level: 'full', disease };
+    }
+    if (!related && diseaseTokens.some(token =>
+      conditionTokens.has(token) && !GENERIC_TERMS.has(token) && !/^\d+$/.test(token)
+    )) {
+      related = { level: 'related', disease };
+    }
+  }
+
+  return related;
+}
+
+/** Combination generics come from RxNorm as "naltrexone/bupropion" */
+function getIngredientNames(drug: RuleScoringInput): string[] {
+  if (drug.ingredients && drug.ingredients.length > 0) return drug.ingredients;
+  return drug.genericName.split('/').map(name => name.trim()).filter(Boolean);
+}
+
+function isCurated(drug: RuleScoringInput, curatedDrugs: string[]): boolean {
+  const names = [drug.brandName, drug.genericName, ...getIngredientNames(drug)].map(name => name.toLowerCase());
+  return curatedDrugs.some(curated => names.includes(curated.toLowerCase()));
+}
+
+function truncate(text: string): string {
+  return text.length > MAX_REASONING_LENGTH ? `${text.slice(0, MAX_REASONING_LENGTH - 1)}…` : text;
+}
+
+// ── Scoring ──
+
+function scoreEvidence(
+  labelTerm: string | null,
+  diseaseMatch: DiseaseMatch,
+  curatedKey: string | null
+): { score: number; reasoning: string } {
+  const mayTreat = diseaseMatch?.level === 'full';
+  const related = diseaseMatch?.level === 'related';
+
+  let score: number;
+  if (labelTerm && (mayTreat || curatedKey)) score = 10;
+  else if (labelTerm) score = 8;
+  else if (mayTreat && curatedKey) score = 8;
+  else if (mayTreat) score = 7;
+  else if (curatedKey && related) score = 7;
+  else if (curatedKey) score = 6;
+  else if (related) score = 4;
+  else score = 1;
+
+  const evidence: string[] = [];
+  if (labelTerm) evidence.push(`FDA label indication: ${labelTerm}`);
+  if (diseaseMatch) evidence.push(`MED-RT may treat ${mayTreat ? '' : 'related '}${diseaseMatch.disease}`);
+  if (curatedKey) evidence.push(`curated for "${curatedKey}"`);
+
+  return {
+    score,
+    reasoning: evidence.length > 0
+      ? truncate(evidence.join('; '))
+      : 'No label, MED-RT or curated evidence for this condition',
+  };
+}
+
+async function scoreDrug(
+  conditionName: string,
+  conditionTokens: Set<string>,
+  curated: { key: string; drugs: string[] } | null,
+  drug: RuleScoringInput
+): Promise<DrugScore> {
+  const [labelText, diseaseLists] = await Promise.all([
+    getLabelIndications(drug.genericName),
+    Promise.all(getIngredientNames(drug).map(getMayTreatConditions)),
+  ]);
+
+  const labelTerm = labelText ? findIndicationMatch(labelText, conditionName) : null;
+  const diseaseMatch = matchDiseases(conditionTokens, diseaseLists.flat());
+  const curatedKey = curated && isCurated(drug, curated.drugs) ? curated.key : null;
+
+  return {
+    drugName: `${drug.brandName} (${drug.genericName})`,
+    ...scoreEvidence(labelTerm, diseaseMatch, curatedKey),
+  };
+}
+
+// ── Public API ──
+
+/**
+ * Scores drug relevance for a condition without AI.
+ *
+ * Never throws: lookup failures count as missing evidence, and an
+ * unexpected error returns an empty array (like scoreDrugRelevance).
+ *
+ * @param conditionName - The medical condition (e.g., "Morbid (severe) obesity")
+ * @param drugs - Drugs to score, with ingredients for combination products
+ * @returns Scores in "Brand (Generic)" format, one per input drug
+ *
+ * @example
+ * await scoreDrugRelevanceByRules("Morbid (severe) obesity", [{ brandName: "Wegovy", genericName: "semaglutide" }])
+ * // → [{ drugName: "Wegovy (semaglutide)", score: 10, reasoning: "FDA label indication: weight management; curated for \"obesity\"" }]
+ */
+export async function scoreDrugRelevanceByRules(
+  conditionName: string,
+  drugs: RuleScoringInput[]
+): Promise<DrugScore[]> {
+  if (drugs.length === 0) {
+    return [];
+  }
+
+  try {
+    const conditionTokens = tokenize(conditionName);
+    const curated = findCuratedMapping(conditionName);
+
+    const scores = await Promise.all(
+      drugs.map(drug => scoreDrug(conditionName, conditionTokens, curated, drug))
+    );
+
+    console.log(`[RuleScorer] Scored ${scores.length} drugs for "${conditionName}":`);
+    scores.forEach((score, index) => {
+      console.log(`  ${index + 1}. ${score.drugName}: ${score.score}/10 — ${score.reasoning}`);
+    });
+
+    return scores;
+  } catch (error) {
+    console.error('[RuleScorer] Scoring failed:', error);
+    return [];
+  }
+}
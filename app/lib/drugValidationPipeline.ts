@@ -3,10 +3,10 @@
  * ========================
  * 
  * Orchestrates the full drug validation flow:
- * 1. Check in-memory cache for existing results
+ * 1. Check the shared cache (cache.ts) for existing results
  * 2. Get candidate drugs from curated condition-drug mappings
  * 3. Fetch drug details from RxNorm API
- * 4. Score relevance with Claude AI
+ * 4. Score relevance with Claude AI (or the rule-based scorer, drugRuleScorer.ts)
  * 5. Filter by confidence threshold
  * 6. Cache and return validated results
  * 
@@ -14,17 +14,21 @@
  * - Curated accuracy: Drug mappings ensure relevant drugs for each condition
  * - RxNorm integration: Complete drug names (brand + generic)
  * - AI validation: Claude scores clinical relevance
- * - Graceful degradation: If AI fails, return unfiltered results
+ * - Graceful degradation: If AI fails, score with rules; if both fail, return unfiltered results
  * - Never throw: UI should never break due to validation failures
  * - Comprehensive logging: Debug issues in production
  * - Caching: Avoid redundant API calls (24-hour TTL)
+ * - Progress: optional onProgress reports candidates and each score as it
+ *   arrives, for the streamed /api/validate-drugs response
  */
 
 import { getDrugsForCondition } from './conditionDrugMappings';
 import { searchMultipleRxNormDrugs, RxNormDrug } from './rxNormApi';
 import { scoreDrugRelevance, DrugScore } from './drugRelevanceAgent';
+import { scoreDrugRelevanceByRules } from './drugRuleScorer';
 import { DrugResult } from '../types/icd';
 import { getFullDrugEnrichment } from './umlsRxClassApi';
+import { createCache, CacheStats } from './cache';
 
 // =============================================================================
 // Configuration
@@ -46,8 +50,9 @@ const OFF_LABEL_THRESHOLD = 4;
 /**
  * Maximum number of validated drugs to return.
  * Increased to accommodate both FDA-approved and off-label options.
+ * Exported for the evaluation harness (eval/evaluate.ts).
  */
-const MAX_RESULTS = 8;
+export const MAX_RESULTS = 8;
 
 /**
  * Maximum number of drugs to fetch from curated mappings.
@@ -80,16 +85,60 @@ const CACHE_STATS_LOG_INTERVAL = 100;
 // Types
 // =============================================================================
 
+/**
+ * Which scorer ranks the drugs.
+ * - 'ai': Claude (default); falls back to rules when the AI is unavailable
+ * - 'rules': deterministic scorer only (drugRuleScorer.ts), no API key needed
+ * - 'compare': both side by side, unfiltered (for diagnosing score disagreements)
+ */
+export type DrugScorer = 'ai' | 'rules' | 'compare';
+
+export const DRUG_SCORERS: readonly DrugScorer[] = ['ai', 'rules', 'compare'];
+
+/**
+ * Both scores for one drug, returned in 'compare' mode.
+ */
+export interface ScoreComparison {
+  /** Null when the AI was unavailable or returned no score for this drug */
+  aiScore: number | null;
+  aiReasoning?: string;
+  ruleScore: number;
+  ruleReasoning: string;
+}
+
 /**
  * Extended DrugResult with relevance score from AI validation.
  */
 export interface ValidatedDrugResult extends DrugResult {
-  /** Relevance score from Claude AI (0-10 scale) */
+  /** Relevance score (0-10 scale), -1 when no scorer produced one */
   relevanceScore: number;
-  /** Brief reasoning from Claude about the score */
+  /** Brief reasoning about the score */
   relevanceReasoning?: string;
+  /** Which scorer produced relevanceScore */
+  scoredBy?: 'ai' | 'rules';
+  /** Present only in 'compare' mode */
+  scoreComparison?: ScoreComparison;
 }
 
+/**
+ * Progress reported while validateDrugs() runs (options.onProgress).
+ * - 'candidates': drugs found in RxNorm, before scoring
+ * - 'scored': one drug as soon as its score is known (Claude scores are
+ *   streamed); includes drugs the final threshold will drop
+ */
+export type DrugValidationProgress =
+  | { type: 'candidates'; drugs: DrugResult[] }
+  | { type: 'scored'; drug: ValidatedDrugResult };
+
+/**
+ * Events of the streamed /api/validate-drugs response: the progress events,
+ * then either the final ranking ('complete') or an 'error'.
+ */
+export type DrugValidationEvent =
+  | DrugValidationProgress
+  | { type: 'complete'; drugs: ValidatedDrugResult[] }
+  | { type: 'error'; error: string };
+
 /**
  * Export thresholds so UI can categorize drugs.
  * - Score >= FDA_APPROVED_THRESHOLD: FDA-approved for this indication
@@ -106,25 +155,26 @@ export const DRUG_SCORE_THRESHOLDS = {
 interface CachedValidation {
   /** Validated drugs array */
   drugs: ValidatedDrugResult[];
-  /** Unix timestamp when cached */
-  timestamp: number;
   /** Original condition name (for debugging) */
   conditionName: string;
 }
 
 // =============================================================================
-// In-Memory Cache
+// Validation Cache
 // =============================================================================
 
 /**
- * In-memory cache for validated drug results.
+ * Shared cache for validated drug results (see cache.ts).
  * Key: Normalized ICD code (e.g., "E66.2")
- * Value: Cached validation with timestamp
+ * Value: Validated drugs with condition name
  * 
- * Note: This cache is lost on server restart. For persistence,
- * consider upgrading to Redis or database storage.
+ * These are the paid Claude scores, so this is the cache that gains the
+ * most from a persistent backend (CACHE_BACKEND=fs or redis).
  */
-const validationCache = new Map<string, CachedValidation>();
+const validationCache = createCache<CachedValidation>('drug-validation', {
+  ttlMs: CACHE_TTL_MS,
+  maxEntries: CACHE_MAX_SIZE,
+});
 
 /**
  * Counter for cache operations (for periodic stats logging).
@@ -137,31 +187,23 @@ let cacheOperationCount = 0;
 
 /**
  * Normalizes ICD code for consistent cache keys.
+ * AI results keep the bare code; other scorers get a suffix ("E66.2|rules").
  * @param icdCode - Raw ICD code
+ * @param scorer - Scorer the results came from
  * @returns Normalized cache key (uppercase, trimmed)
  */
-function getCacheKey(icdCode: string): string {
-  return icdCode.toUpperCase().trim();
-}
-
-/**
- * Checks if a cached entry is still valid (not expired).
- * @param cached - Cached validation entry
- * @returns True if cache is still valid
- */
-function isCacheValid(cached: CachedValidation): boolean {
-  const now = Date.now();
-  const age = now - cached.timestamp;
-  return age < CACHE_TTL_MS;
+function getCacheKey(icdCode: string, scorer: DrugScorer): string {
+  const code = icdCode.toUpperCase().trim();
+  return scorer === 'ai' ? code : `${code}|${scorer}`;
 }
 
 /**
  * Calculates cache entry age in human-readable format.
- * @param cached - Cached validation entry
+ * @param storedAt - When the entry was cached (Unix ms)
  * @returns Age string (e.g., "2.3 hours")
  */
-function getCacheAge(cached: CachedValidation): string {
-  const ageMs = Date.now() - cached.timestamp;
+function getCacheAge(storedAt: number): string {
+  const ageMs = Date.now() - storedAt;
   const ageHours = ageMs / (1000 * 60 * 60);
   
   if (ageHours < 1) {
@@ -171,67 +213,12 @@ function getCacheAge(cached: CachedValidation): string {
   return `${ageHours.toFixed(1)} hours`;
 }
 
-/**
- * Removes expired entries when cache exceeds max size.
- * Uses LRU-style eviction: removes oldest entries first.
- */
-function cleanExpiredCache(): void {
-  if (validationCache.size <= CACHE_MAX_SIZE) {
-    return; // No cleanup needed
-  }
-
-  const now = Date.now();
-  const entriesToDelete: string[] = [];
-
-  // First pass: identify expired entries
-  for (const [key, entry] of validationCache.entries()) {
-    if (!isCacheValid(entry)) {
-      entriesToDelete.push(key);
-    }
-  }
-
-  // Delete expired entries
-  for (const key of entriesToDelete) {
-    validationCache.delete(key);
-  }
-
-  console.log(`[DrugPipeline:Cache] Cleaned ${entriesToDelete.length} expired entries`);
-
-  // If still over limit, remove oldest entries
-  if (validationCache.size > CACHE_MAX_SIZE) {
-    const entries = Array.from(validationCache.entries())
-      .sort((a, b) => a[1].timestamp - b[1].timestamp); // Oldest first
-
-    const toRemove = entries.slice(0, validationCache.size - CACHE_MAX_SIZE);
-    for (const [key] of toRemove) {
-      validationCache.delete(key);
-    }
-
-    console.log(`[DrugPipeline:Cache] Evicted ${toRemove.length} oldest entries (LRU)`);
-  }
-}
-
 /**
  * Gets current cache statistics.
- * @returns Object with total, valid, and expired counts
+ * @returns Entry count, hits/misses and backend for the validation cache
  */
-export function getCacheStats(): { total: number; valid: number; expired: number } {
-  let validCount = 0;
-  let expiredCount = 0;
-
-  for (const entry of validationCache.values()) {
-    if (isCacheValid(entry)) {
-      validCount++;
-    } else {
-      expiredCount++;
-    }
-  }
-
-  return {
-    total: validationCache.size,
-    valid: validCount,
-    expired: expiredCount,
-  };
+export function getCacheStats(): Promise<CacheStats> {
+  return validationCache.stats();
 }
 
 /**
@@ -241,11 +228,13 @@ function maybeLogCacheStats(): void {
   cacheOperationCount++;
   
   if (cacheOperationCount % CACHE_STATS_LOG_INTERVAL === 0) {
-    const stats = getCacheStats();
-    console.log(
-      `[DrugPipeline:Cache] Stats after ${cacheOperationCount} ops: ` +
-      `${stats.valid} valid, ${stats.expired} expired, ${stats.total} total`
-    );
+    const operations = cacheOperationCount;
+    getCacheStats().then(stats => {
+      console.log(
+        `[DrugPipeline:Cache] Stats after ${operations} ops: ` +
+        `${stats.entries ?? '?'} entries, ${stats.hits} hits, ${stats.misses} misses (${stats.backend})`
+      );
+    });
   }
 }
 
@@ -253,19 +242,10 @@ function maybeLogCacheStats(): void {
  * Clears the entire validation cache.
  * Useful for testing or forcing fresh data.
  */
-export function clearCache(): void {
-  const size = validationCache.size;
-  validationCache.clear();
+export async function clearCache(): Promise<void> {
+  await validationCache.clear();
   cacheOperationCount = 0;
-  console.log(`[DrugPipeline:Cache] Cleared ${size} entries`);
-}
-
-/**
- * Gets the current cache size.
- * @returns Number of cached ICD codes
- */
-export function getCacheSize(): number {
-  return validationCache.size;
+  console.log('[DrugPipeline:Cache] Cleared');
 }
 
 // =============================================================================
@@ -277,12 +257,18 @@ export function getCacheSize(): number {
  * 
  * This is the main entry point for drug validation. It:
  * 1. Fetches drug candidates from curated mappings and RxNorm API
- * 2. Scores each drug's relevance using Claude AI
+ * 2. Scores each drug's relevance using Claude AI or the rule-based scorer
  * 3. Filters to only clinically relevant drugs (FDA-approved + off-label)
  * 4. Deduplicates and returns sorted results
  * 
+ * In 'compare' mode step 3 is skipped: every drug is returned with both
+ * scores in scoreComparison.
+ * 
  * @param conditionName - The medical condition (e.g., "Type 2 diabetes mellitus")
  * @param icdCode - The ICD-10 code (e.g., "E11.9") - used for logging
+ * @param options.scorer - Which scorer to use (default 'ai')
+ * @param options.onProgress - Receives candidates and each scored drug as they
+ *                             become known (not called on a cache hit)
  * @returns Promise resolving to validated, filtered drug results
  * 
  * @example
@@ -294,10 +280,13 @@ export function getCacheSize(): number {
  */
 export async function validateDrugs(
   conditionName: string,
-  icdCode: string
+  icdCode: string,
+  options: { scorer?: DrugScorer; onProgress?: (event: DrugValidationProgress) => void } = {}
 ): Promise<ValidatedDrugResult[]> {
-  const logPrefix = `[DrugPipeline:${icdCode}]`;
-  const cacheKey = getCacheKey(icdCode);
+  const scorer = options.scorer ?? 'ai';
+  const { onProgress } = options;
+  const logPrefix = `[DrugPipeline:${icdCode}${scorer === 'ai' ? '' : `:${scorer}`}]`;
+  const cacheKey = getCacheKey(icdCode, scorer);
 
   try {
     // =========================================================================
@@ -305,22 +294,14 @@ export async function validateDrugs(
     // =========================================================================
     maybeLogCacheStats();
     
-    const cached = validationCache.get(cacheKey);
+    const cached = await validationCache.getEntry(cacheKey);
     if (cached) {
-      if (isCacheValid(cached)) {
-        // Cache hit - return cached results immediately
-        const age = getCacheAge(cached);
-        console.log(`${logPrefix} Cache HIT, returning ${cached.drugs.length} cached drugs (age: ${age})`);
-        return cached.drugs;
-      } else {
-        // Cache expired - remove and fetch fresh
-        const age = getCacheAge(cached);
-        console.log(`${logPrefix} Cache EXPIRED (age: ${age}), fetching fresh data`);
-        validationCache.delete(cacheKey);
-      }
-    } else {
-      console.log(`${logPrefix} Cache MISS, fetching fresh data`);
+      // Cache hit - return cached results immediately
+      const age = getCacheAge(cached.storedAt);
+      console.log(`${logPrefix} Cache HIT, returning ${cached.value.drugs.length} cached drugs (age: ${age})`);
+      return cached.value.drugs;
     }
+    console.log(`${logPrefix} Cache MISS, fetching fresh data`);
 
     // =========================================================================
     // Step 2: Get drug candidates from curated mappings (or AI fallback)
@@ -332,7 +313,7 @@ export async function validateDrugs(
     if (candidateDrugNames.length === 0) {
       console.log(`${logPrefix} No drug mappings found for condition`);
       // Cache empty result to avoid repeated lookups
-      storeInCache(cacheKey, [], conditionName, logPrefix);
+      await storeInCache(cacheKey, [], conditionName, logPrefix);
       return [];
     }
     
@@ -353,7 +334,7 @@ export async function validateDrugs(
     
     if (rxNormDrugs.length === 0) {
       console.log(`${logPrefix} No drugs found in RxNorm`);
-      storeInCache(cacheKey, [], conditionName, logPrefix);
+      await storeInCache(cacheKey, [], conditionName, logPrefix);
       return [];
     }
     
@@ -375,57 +356,111 @@ export async function validateDrugs(
     // Step 3.5: Enrich drugs with UMLS data (classes, ingredients, related)
     // =========================================================================
     const enrichedDrugs = await enrichDrugsWithUMLS(rawDrugs, logPrefix);
+    onProgress?.({ type: 'candidates', drugs: enrichedDrugs });
+
+    // Drugs already reported as scored (by index), so each is reported once.
+    // A lone score matches by brand first: with the generic fallback, Wegovy's
+    // score would also land on Ozempic (both semaglutide) before Ozempic's own.
+    const reported = new Set<number>();
+    const reportScore = (score: DrugScore, scoredBy: 'ai' | 'rules') => {
+      const scoreMap = buildScoreMap([score]);
+      const unreported = enrichedDrugs
+        .map((drug, index) => ({ drug, index }))
+        .filter(({ index }) => !reported.has(index));
+      const byBrand = unreported.filter(({ drug }) => scoreMap.has(drug.brandName.toLowerCase()));
+      const matches = byBrand.length > 0
+        ? byBrand
+        : unreported.filter(({ drug }) => findMatchingScore(drug, scoreMap, false));
+
+      for (const { drug, index } of matches) {
+        reported.add(index);
+        onProgress?.({
+          type: 'scored',
+          drug: { ...drug, relevanceScore: score.score, relevanceReasoning: score.reasoning, scoredBy },
+        });
+      }
+    };
 
     // =========================================================================
-    // Step 4: Prepare drugs for AI scoring
+    // Step 4: Score drugs with Claude AI and/or the rule-based scorer
     // =========================================================================
-    const drugInputs = enrichedDrugs.map(drug => ({
-      brandName: drug.brandName,
-      genericName: drug.genericName,
-    }));
+    let aiScores: DrugScore[] = [];
+    if (scorer !== 'rules') {
+      try {
+        aiScores = await scoreDrugRelevance(
+          conditionName,
+          enrichedDrugs.map(drug => ({ brandName: drug.brandName, genericName: drug.genericName })),
+          onProgress ? { onScore: score => reportScore(score, 'ai') } : {}
+        );
+        console.log(`${logPrefix} Received ${aiScores.length} scores from AI`);
+      } catch (scoreError) {
+        console.warn(`${logPrefix} AI scoring failed:`, scoreError);
+      }
+    }
 
-    // =========================================================================
-    // Step 4: Score drugs with Claude AI
-    // =========================================================================
-    let scores: DrugScore[];
-    try {
-      scores = await scoreDrugRelevance(conditionName, drugInputs);
-    } catch (scoreError) {
-      // Graceful degradation: If AI fails, return unfiltered results
-      console.warn(`${logPrefix} AI scoring failed, returning unfiltered results:`, scoreError);
-      const unfilteredDrugs = enrichedDrugs.map(drug => ({
-        ...drug,
-        relevanceScore: -1, // Indicate score not available
-      }));
-      // Don't cache AI failures - retry next time
-      return unfilteredDrugs;
+    // Rules run when asked for, or as the fallback when the AI gave nothing
+    let ruleScores: DrugScore[] = [];
+    if (scorer !== 'ai' || aiScores.length === 0) {
+      if (scorer === 'ai') {
+        console.warn(`${logPrefix} AI scores unavailable, falling back to rule-based scoring`);
+      }
+      ruleScores = await scoreDrugRelevanceByRules(
+        conditionName,
+        enrichedDrugs.map(drug => ({
+          brandName: drug.brandName,
+          genericName: drug.genericName,
+          ingredients: drug.ingredients,
+        }))
+      );
     }
 
-    if (scores.length === 0) {
-      // AI returned no scores - use unfiltered results
-      console.warn(`${logPrefix} AI returned no scores, returning unfiltered results`);
-      const unfilteredDrugs = enrichedDrugs.map(drug => ({
+    const scoredBy = aiScores.length > 0 ? 'ai' : 'rules';
+    const primaryScores = scoredBy === 'ai' ? aiScores : ruleScores;
+
+    // Rule scores arrive all at once; streamed AI scores were reported already
+    if (onProgress) {
+      primaryScores.forEach(score => reportScore(score, scoredBy));
+    }
+
+    // Don't cache fallback results - retry the AI next time
+    const usedFallback = scorer === 'ai' && scoredBy === 'rules';
+
+    if (primaryScores.length === 0) {
+      // Graceful degradation: no scorer worked, return unfiltered results
+      console.warn(`${logPrefix} No scores available, returning unfiltered results`);
+      return enrichedDrugs.map(drug => ({
         ...drug,
-        relevanceScore: -1,
+        relevanceScore: -1, // Indicate score not available
       }));
-      // Don't cache empty AI responses - retry next time
-      return unfilteredDrugs;
     }
 
-    console.log(`${logPrefix} Received ${scores.length} scores from AI`);
-
     // =========================================================================
-    // Step 6: Match scores back to enriched drugs
+    // Step 5: Match scores back to enriched drugs
     // =========================================================================
-    const scoreMap = buildScoreMap(scores);
+    const primaryMap = buildScoreMap(primaryScores);
+    const aiMap = scorer === 'compare' && aiScores.length > 0 ? buildScoreMap(aiScores) : null;
+    const ruleMap = scorer === 'compare' ? buildScoreMap(ruleScores) : null;
 
     const scoredDrugs: ValidatedDrugResult[] = enrichedDrugs.map(drug => {
-      const matchedScore = findMatchingScore(drug, scoreMap);
-      return {
+      const matchedScore = findMatchingScore(drug, primaryMap);
+      const scored: ValidatedDrugResult = {
         ...drug,
         relevanceScore: matchedScore?.score ?? -1,
         relevanceReasoning: matchedScore?.reasoning,
+        scoredBy: matchedScore ? scoredBy : undefined,
       };
+
+      if (ruleMap) {
+        const aiScore = aiMap ? findMatchingScore(drug, aiMap) : undefined;
+        const ruleScore = findMatchingScore(drug, ruleMap);
+        scored.scoreComparison = {
+          aiScore: aiScore?.score ?? null,
+          aiReasoning: aiScore?.reasoning,
+          ruleScore: ruleScore?.score ?? -1,
+          ruleReasoning: ruleScore?.reasoning ?? '',
+        };
+      }
+      return scored;
     });
 
     // =========================================================================
@@ -459,6 +494,16 @@ export async function validateDrugs(
       console.log(`${logPrefix} Removed ${duplicateCount} duplicate ${duplicateCount === 1 ? 'entry' : 'entries'}`);
     }
 
+    // In compare mode, return everything: the point is to see where the scorers disagree
+    if (scorer === 'compare') {
+      const comparedDrugs = deduplicatedDrugs.sort((a, b) => b.relevanceScore - a.relevanceScore);
+      if (aiScores.length > 0) {
+        await storeInCache(cacheKey, comparedDrugs, conditionName, logPrefix);
+      }
+      console.log(`${logPrefix} Returning ${comparedDrugs.length} drugs with AI and rule scores`);
+      return comparedDrugs;
+    }
+
     // =========================================================================
     // Step 6: Filter by relevance threshold (include both FDA-approved and off-label)
     // =========================================================================
@@ -478,7 +523,9 @@ export async function validateDrugs(
     // If no drugs meet minimum threshold, cache empty and return
     if (filteredDrugs.length === 0) {
       console.log(`${logPrefix} No drugs met relevance threshold for this condition`);
-      storeInCache(cacheKey, [], conditionName, logPrefix);
+      if (!usedFallback) {
+        await storeInCache(cacheKey, [], conditionName, logPrefix);
+      }
       return [];
     }
 
@@ -492,7 +539,9 @@ export async function validateDrugs(
     // =========================================================================
     // Step 8: Store in cache before returning
     // =========================================================================
-    storeInCache(cacheKey, finalDrugs, conditionName, logPrefix);
+    if (!usedFallback) {
+      await storeInCache(cacheKey, finalDrugs, conditionName, logPrefix);
+    }
 
     console.log(`${logPrefix} Returning ${finalDrugs.length} validated drugs`);
 
@@ -507,30 +556,16 @@ export async function validateDrugs(
 
 /**
  * Stores validated drugs in cache.
- * Handles cache cleanup if size limit exceeded.
+ * Cache errors are logged by cache.ts and never break the pipeline.
  */
-function storeInCache(
+async function storeInCache(
   cacheKey: string,
   drugs: ValidatedDrugResult[],
   conditionName: string,
   logPrefix: string
-): void {
-  try {
-    // Clean expired entries if cache is getting full
-    cleanExpiredCache();
-
-    // Store new entry
-    validationCache.set(cacheKey, {
-      drugs,
-      timestamp: Date.now(),
-      conditionName,
-    });
-
-    console.log(`${logPrefix} Cached ${drugs.length} validated drugs`);
-  } catch (cacheError) {
-    // Cache errors should never break the pipeline
-    console.warn(`${logPrefix} Failed to cache results:`, cacheError);
-  }
+): Promise<void> {
+  await validationCache.set(cacheKey, { drugs, conditionName });
+  console.log(`${logPrefix} Cached ${drugs.length} validated drugs`);
 }
 
 // =============================================================================
@@ -577,11 +612,13 @@ function buildScoreMap(scores: DrugScore[]): Map<string, DrugScore> {
  * 
  * @param drug - The DrugResult to find a score for
  * @param scoreMap - Map of drug names to scores
+ * @param warnOnMiss - Log drugs without a score (off when probing one score at a time)
  * @returns The matching DrugScore or undefined if no match
  */
 function findMatchingScore(
   drug: DrugResult,
-  scoreMap: Map<string, DrugScore>
+  scoreMap: Map<string, DrugScore>,
+  warnOnMiss: boolean = true
 ): DrugScore | undefined {
   // Strategy 1: Try exact "Brand (Generic)" format
   const fullName = `${drug.brandName} (${drug.genericName})`.toLowerCase();
@@ -620,7 +657,9 @@ function findMatchingScore(
   }
 
   // No match found
-  console.warn(`[DrugPipeline] No score match for: ${drug.brandName} (${drug.genericName})`);
+  if (warnOnMiss) {
+    console.warn(`[DrugPipeline] No score match for: ${drug.brandName} (${drug.genericName})`);
+  }
   return undefined;
 }
 
@@ -0,0 +1,114 @@
+/**
+ * drugValidationStream.ts — Server-sent events for streamed drug validation
+ *
+ * /api/validate-drugs streams DrugValidationEvents when the request asks
+ * for `Accept: text/event-stream`. This module owns the wire format on both
+ * ends:
+ *
+ *   server — encodeDrugValidationEvent() frames one event
+ *   client — readDrugValidationStream() parses the frames, reports progress
+ *            and resolves with the final ranking
+ *
+ * Each frame is `event: <type>` plus one `data:` line holding the whole
+ * event as JSON, so the client only needs the data lines.
+ */
+
+import { DrugValidationEvent, DrugValidationProgress, MAX_RESULTS, ValidatedDrugResult } from './drugValidationPipeline';
+
+// ── Server ──
+
+const encoder = new TextEncoder();
+
+/** Frames one event for a text/event-stream response body */
+export function encodeDrugValidationEvent(event: DrugValidationEvent): Uint8Array {
+  return encoder.encode(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+}
+
+// ── Client ──
+
+/** Parses one frame; null for comments, keep-alives and malformed data */
+function parseFrame(frame: string): DrugValidationEvent | null {
+  const data = frame
+    .split('\n')
+    .filter(line => line.startsWith('data:'))
+    .map(line => line.slice(5).trimStart())
+    .join('\n');
+  if (!data) return null;
+
+  try {
+    return JSON.parse(data) as DrugValidationEvent;
+  } catch {
+    console.warn('[DrugStream] Malformed event:', data.slice(0, 200));
+    return null;
+  }
+}
+
+/**
+ * Reads a streamed /api/validate-drugs response.
+ *
+ * @param response - fetch() response with a text/event-stream body
+ * @param onProgress - Called for each 'candidates' and 'scored' event
+ * @returns The final ranking from the 'complete' event
+ * @throws Error with the server's message on an 'error' event, or when the
+ *         stream ends without a result
+ */
+export async function readDrugValidationStream(
+  response: Response,
+  onProgress: (event: DrugValidationProgress) => void
+): Promise<ValidatedDrugResult[]> {
+  if (!response.body) {
+    throw new Error('Drug validation response has no body');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+
+    // Frames end with a blank line; the last piece may still be incomplete
+    const frames = buffer.split('\n\n');
+    buffer = done ? '' : frames.pop() ?? '';
+
+    for (const frame of frames) {
+      const event = parseFrame(frame);
+      if (!event) continue;
+
+      if (event.type === 'complete') {
+        await reader.cancel();
+        return event.drugs;
+      }
+      if (event.type === 'error') {
+        await reader.cancel();
+        throw new Error(event.error);
+      }
+      onProgress(event);
+    }
+
+    if (done) {
+      throw new Error('Drug validation stream ended before the results');
+    }
+  }
+}
+
+/**
+ * Adds a streamed drug to the provisional list the way the final ranking
+ * will look: one entry per brand (highest score kept), best first, at most
+ * MAX_RESULTS.
+ */
+export function mergeStreamedDrug(
+  drugs: ValidatedDrugResult[],
+  drug: ValidatedDrugResult
+): ValidatedDrugResult[] {
+  const brandKey = drug.brandName.toLowerCase().trim();
+  const existing = drugs.find(d => d.brandName.toLowerCase().trim() === brandKey);
+  if (existing && existing.relevanceScore >= drug.relevanceScore) {
+    return drugs;
+  }
+
+  return [...drugs.filter(d => d !== existing), drug]
+    .sort((a, b) => b.relevanceScore - a.relevanceScore)
+    .slice(0, MAX_RESULTS);
+}
@@ -0,0 +1,266 @@
+/**
+ * Encounter Sequencing Rules & Claim Export
+ * =========================================
+ *
+ * Checks the diagnosis order of an encounter against ICD-10-CM sequencing
+ * conventions, then turns the encounter into claim-line JSON.
+ *
+ * Sequencing rules checked (all driven by the local Tabular data):
+ * - no_primary:                  encounter has procedures/drugs but no diagnosis
+ * - manifestation_primary:       a manifestation code (F02.8-, D63.-) is listed first
+ * - missing_etiology:            a manifestation's "Code first" condition isn't on the encounter
+ * - etiology_after_manifestation: the etiology is present but sequenced after the manifestation
+ * - code_first_order:            any other "Code first" code is present but listed later
+ * - excludes1:                   two diagnoses can never be reported together
+ * - not_billable:                header codes / codes still missing a 7th character
+ * - use_additional_code:         "Use additional code" hints not yet on the encounter (info)
+ * - too_many_diagnoses:          diagnoses past the 12th don't fit on the claim
+ *
+ * @example Usage:
+ * import { checkEncounterSequencing, exportEncounterClaim } from './encounterRules';
+ *
+ * const issues = await checkEncounterSequencing(encounter);
+ * const claim = exportEncounterClaim(encounter, issues);
+ */
+
+import {
+  Encounter,
+  EncounterIssue,
+  ClaimExport,
+  ClaimServiceLine,
+  ICD10NoteEntry,
+} from '../types/icd';
+import { getLocalInstructionalNotes, isLocalManifestationCode } from './icd10cmLocalData';
+import { codeMatchesReference, findExcludes1Conflicts } from './icd10Notes';
+import { validateIcd10Code } from './icd10Validation';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Version of the ClaimExport JSON shape */
+export const CLAIM_EXPORT_VERSION = '1.1';
+
+/** CMS-1500 diagnosis pointer letters (box 21 A–L) */
+const DIAGNOSIS_POINTERS = 'ABCDEFGHIJKL'.split('');
+
+/** A service line may point to at most 4 diagnoses (box 24E) */
+const MAX_POINTERS_PER_LINE = 4;
+
+/** Severity order for sorting issues */
+const SEVERITY_ORDER: Record<EncounterIssue['severity'], number> = { error: 0, warning: 1, info: 2 };
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/** Codes in the encounter covered by any reference of a note entry */
+function findReferencedCodes(entry: ICD10NoteEntry, codes: string[]): string[] {
+  return codes.filter(code => entry.codes.some(ref => codeMatchesReference(code, ref)));
+}
+
+function formatReferences(entry: ICD10NoteEntry): string {
+  return entry.codes.length > 0 ? `${entry.text} (${entry.codes.join(', ')})` : entry.text;
+}
+
+// =============================================================================
+// Sequencing Check
+// =============================================================================
+
+/**
+ * Checks an encounter's diagnoses against sequencing and validity rules.
+ *
+ * @returns Issues sorted by severity (errors first), then by position
+ */
+export async function checkEncounterSequencing(encounter: Encounter): Promise<EncounterIssue[]> {
+  const issues: EncounterIssue[] = [];
+  const codes = encounter.diagnoses.map(d => d.code);
+
+  // ── No primary diagnosis ──
+  if (codes.length === 0) {
+    const hasServices = encounter.procedures.length + encounter.hcpcs.length + encounter.drugs.length > 0;
+    if (hasServices) {
+      issues.push({
+        rule: 'no_primary',
+        severity: 'error',
+        codes: [],
+        message: 'Add at least one diagnosis — every service line needs a diagnosis pointer',
+      });
+    }
+    return issues;
+  }
+
+  const [notesByCode, manifestationFlags, validations] = await Promise.all([
+    Promise.all(codes.map(code => getLocalInstructionalNotes(code))),
+    Promise.all(codes.map(code => isLocalManifestationCode(code))),
+    Promise.all(codes.map(code => validateIcd10Code(code))),
+  ]);
+
+  codes.forEach((code, index) => {
+    const notes = notesByCode[index];
+    const isManifestation = manifestationFlags[index];
+
+    // ── Manifestation codes can never be first-listed ──
+    if (isManifestation && index === 0) {
+      issues.push({
+        rule: 'manifestation_primary',
+        severity: 'error',
+        codes: [code],
+        message: `${code} is a manifestation code and cannot be the primary diagnosis`,
+      });
+    }
+
+    // ── "Code first" ──
+    for (const entry of notes?.codeFirst ?? []) {
+      if (entry.codes.length === 0) continue;
+      const present = findReferencedCodes(entry, codes);
+
+      if (present.length === 0) {
+        // Only manifestations *require* the etiology; elsewhere "code first" applies if present
+        if (isManifestation) {
+          issues.push({
+            rule: 'missing_etiology',
+            severity: 'warning',
+            codes: [code],
+            message: `${code} requires its underlying condition to be coded first: ${formatReferences(entry)}`,
+          });
+        }
+        continue;
+      }
+
+      const later = present.filter(other => codes.indexOf(other) > index);
+      if (later.length > 0 && later.length === present.length) {
+        issues.push({
+          rule: isManifestation ? 'etiology_after_manifestation' : 'code_first_order',
+          severity: isManifestation ? 'error' : 'warning',
+          codes: [code, ...later],
+          message: `${later.join(', ')} must be sequenced before ${code} (Code first ${entry.text})`,
+        });
+      }
+    }
+
+    // ── Billable check ──
+    const validation = validations[index];
+    if (!validation.billable && validation.status !== 'unsupported_year' && validation.status !== 'not_found') {
+      issues.push({
+        rule: 'not_billable',
+        severity: 'error',
+        codes: [code],
+        message: `${code}: ${validation.message}`,
+      });
+    }
+
+    // ── "Use additional code" hints ──
+    for (const entry of notes?.useAdditionalCode ?? []) {
+      if (entry.codes.length === 0) continue;
+      if (findReferencedCodes(entry, codes).length > 0) continue;
+      issues.push({
+        rule: 'use_additional_code',
+        severity: 'info',
+        codes: [code],
+        message: `${code}: use additional code ${formatReferences(entry)}`,
+      });
+    }
+  });
+
+  // ── Only 12 diagnoses fit on a claim ──
+  const omitted = codes.slice(DIAGNOSIS_POINTERS.length);
+  if (omitted.length > 0) {
+    issues.push({
+      rule: 'too_many_diagnoses',
+      severity: 'warning',
+      codes: omitted,
+      message: `A claim holds ${DIAGNOSIS_POINTERS.length} diagnoses (A–L) — ${omitted.join(', ')} will be left off the export`,
+    });
+  }
+
+  // ── Excludes1 — report each pair once, in encounter order ──
+  const conflicts = await findExcludes1Conflicts(codes);
+  const seenPairs = new Set<string>();
+  for (const conflict of conflicts) {
+    const pair = [conflict.code, conflict.excludedCode].sort().join('|');
+    if (seenPairs.has(pair)) continue;
+    seenPairs.add(pair);
+    issues.push({
+      rule: 'excludes1',
+      severity: 'error',
+      codes: [conflict.code, conflict.excludedCode],
+      message: `${conflict.code} Excludes1 ${conflict.excludedCode} (${conflict.note.text}) — they cannot be reported together`,
+    });
+  }
+
+  return issues
+    .map((issue, order) => ({ issue, order }))
+    .sort((a, b) => SEVERITY_ORDER[a.issue.severity] - SEVERITY_ORDER[b.issue.severity] || a.order - b.order)
+    .map(({ issue }) => issue);
+}
+
+// =============================================================================
+// Claim Export
+// =============================================================================
+
+/**
+ * Builds claim-line JSON from an encounter.
+ *
+ * - Diagnoses get pointers A–L in sequence order (A = primary); any past
+ *   the 12th are listed in omittedDiagnoses instead
+ * - HCPCS codes and ICD-10-PCS/HCPCS procedures become service lines
+ *   pointing to the first 4 diagnoses
+ * - SNOMED procedures are listed as clinical documentation only
+ *
+ * @param encounter - The encounter to export
+ * @param issues - Result of checkEncounterSequencing(), embedded for the receiver
+ */
+export function exportEncounterClaim(encounter: Encounter, issues: EncounterIssue[]): ClaimExport {
+  const diagnoses = encounter.diagnoses.slice(0, DIAGNOSIS_POINTERS.length).map((dx, index) => ({
+    pointer: DIAGNOSIS_POINTERS[index],
+    sequence: index + 1,
+    code: dx.code,
+    description: dx.name,
+    isPrimary: index === 0,
+  }));
+  const linePointers = diagnoses.slice(0, MAX_POINTERS_PER_LINE).map(d => d.pointer);
+
+  const serviceLines: ClaimServiceLine[] = [
+    ...encounter.hcpcs.map(h => ({
+      codeSystem: 'HCPCS' as const,
+      code: h.code,
+      description: h.shortDescription || h.longDescription,
+    })),
+    ...encounter.procedures
+      .filter(p => p.codeSystem !== 'SNOMED')
+      .map(p => ({ codeSystem: p.codeSystem, code: p.code, description: p.description })),
+  ].map((line, index) => ({
+    lineNumber: index + 1,
+    ...line,
+    units: 1,
+    diagnosisPointers: linePointers,
+  }));
+
+  return {
+    format: 'medcodemap-claim',
+    version: CLAIM_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    encounterId: encounter.id,
+    diagnoses,
+    omittedDiagnoses: encounter.diagnoses
+      .slice(DIAGNOSIS_POINTERS.length)
+      .map(dx => ({ code: dx.code, description: dx.name })),
+    serviceLines,
+    clinicalProcedures: encounter.procedures
+      .filter(p => p.codeSystem === 'SNOMED')
+      .map(p => ({ code: p.code, codeSystem: p.codeSystem, description: p.description })),
+    medications: encounter.drugs.map(d => ({
+      rxcui: d.rxcui ?? '',
+      name: d.brandName,
+      genericName: d.genericName,
+      dosageForm: d.dosageForm,
+      strength: d.strength,
+    })),
+    validation: {
+      errorCount: issues.filter(i => i.severity === 'error').length,
+      warningCount: issues.filter(i => i.severity === 'warning').length,
+      issues,
+    },
+  };
+}
@@ -0,0 +1,207 @@
+/**
+ * Encounter Storage Utilities
+ * ===========================
+ *
+ * localStorage operations for the encounter builder, following the same
+ * pattern as favoritesStorage.ts. One working encounter is kept at a time.
+ *
+ * Items are added from many places (ResultCard, DrugCard, ProcedureCard,
+ * HcpcsResultCard), so every save broadcasts ENCOUNTER_CHANGED_EVENT on
+ * window. The useEncounter hook listens for it to keep all cards in sync.
+ *
+ * Storage keys:
+ * - 'icd-encounter': The current Encounter object
+ */
+
+import { Encounter, EncounterItem, ProcedureResult } from '../types/icd';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** localStorage key for the working encounter */
+export const ENCOUNTER_KEY = 'icd-encounter';
+
+/** Window event fired after every save */
+export const ENCOUNTER_CHANGED_EVENT = 'encounter-changed';
+
+/** CMS-1500 allows 12 diagnosis pointers (A–L) */
+export const MAX_ENCOUNTER_DIAGNOSES = 12;
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Creates a new, empty encounter.
+ */
+export function createEmptyEncounter(): Encounter {
+  const now = new Date().toISOString();
+  return {
+    id: `enc-${Date.now().toString(36)}`,
+    createdAt: now,
+    updatedAt: now,
+    diagnoses: [],
+    procedures: [],
+    hcpcs: [],
+    drugs: [],
+  };
+}
+
+/** Identity of a procedure across code systems (same code can exist in two systems) */
+function procedureKey(p: ProcedureResult): string {
+  return `${p.codeSystem}:${p.code}`;
+}
+
+/** Stable key for any encounter item — used for "already added" checks */
+export function getEncounterItemKey(entry: EncounterItem): string {
+  switch (entry.kind) {
+    case 'diagnosis': return `dx:${entry.item.code}`;
+    case 'procedure': return `px:${procedureKey(entry.item)}`;
+    case 'hcpcs': return `hcpcs:${entry.item.code}`;
+    case 'drug': return `rx:${entry.item.rxcui ?? entry.item.brandName}`;
+  }
+}
+
+// =============================================================================
+// Encounter Functions
+// =============================================================================
+
+/**
+ * Retrieves the working encounter from localStorage.
+ *
+ * @returns The stored encounter, or a new empty one if none/invalid
+ */
+export function getEncounter(): Encounter {
+  try {
+    const stored = localStorage.getItem(ENCOUNTER_KEY);
+    if (!stored) return createEmptyEncounter();
+
+    const parsed = JSON.parse(stored);
+    if (
+      typeof parsed !== 'object' || parsed === null ||
+      !Array.isArray(parsed.diagnoses) || !Array.isArray(parsed.procedures) ||
+      !Array.isArray(parsed.hcpcs) || !Array.isArray(parsed.drugs)
+    ) {
+      return createEmptyEncounter();
+    }
+    return parsed as Encounter;
+  } catch (error) {
+    // localStorage might not be available (SSR, private browsing, etc.)
+    console.warn('Failed to load encounter:', error);
+    return createEmptyEncounter();
+  }
+}
+
+/**
+ * Saves the encounter and notifies listeners.
+ *
+ * @param encounter - The encounter to save
+ * @returns The saved encounter (with updatedAt refreshed)
+ */
+export function saveEncounter(encounter: Encounter): Encounter {
+  const updated = { ...encounter, updatedAt: new Date().toISOString() };
+  try {
+    localStorage.setItem(ENCOUNTER_KEY, JSON.stringify(updated));
+    window.dispatchEvent(new Event(ENCOUNTER_CHANGED_EVENT));
+  } catch (error) {
+    // Might fail if storage is full
+    console.warn('Failed to save encounter:', error);
+  }
+  return updated;
+}
+
+/**
+ * Adds an item to the encounter. Duplicates are ignored.
+ * The first diagnosis added becomes the primary diagnosis.
+ *
+ * @returns Updated encounter
+ */
+export function addToEncounter(entry: EncounterItem): Encounter {
+  const current = getEncounter();
+  if (isInEncounter(current, entry)) return current;
+
+  switch (entry.kind) {
+    case 'diagnosis':
+      if (current.diagnoses.length >= MAX_ENCOUNTER_DIAGNOSES) return current;
+      // Keep only code + name — notes are looked up again when checking
+      return saveEncounter({
+        ...current,
+        diagnoses: [...current.diagnoses, { code: entry.item.code, name: entry.item.name }],
+      });
+    case 'procedure':
+      return saveEncounter({ ...current, procedures: [...current.procedures, entry.item] });
+    case 'hcpcs':
+      return saveEncounter({ ...current, hcpcs: [...current.hcpcs, entry.item] });
+    case 'drug':
+      return saveEncounter({ ...current, drugs: [...current.drugs, entry.item] });
+  }
+}
+
+/**
+ * Removes an item from the encounter.
+ *
+ * @returns Updated encounter
+ */
+export function removeFromEncounter(entry: EncounterItem): Encounter {
+  const current = getEncounter();
+  const key = getEncounterItemKey(entry);
+
+  return saveEncounter({
+    ...current,
+    diagnoses: current.diagnoses.filter(item => getEncounterItemKey({ kind: 'diagnosis', item }) !== key),
+    procedures: current.procedures.filter(item => getEncounterItemKey({ kind: 'procedure', item }) !== key),
+    hcpcs: current.hcpcs.filter(item => getEncounterItemKey({ kind: 'hcpcs', item }) !== key),
+    drugs: current.drugs.filter(item => getEncounterItemKey({ kind: 'drug', item }) !== key),
+  });
+}
+
+/**
+ * Checks whether an item is already in the encounter.
+ */
+export function isInEncounter(encounter: Encounter, entry: EncounterItem): boolean {
+  const key = getEncounterItemKey(entry);
+  switch (entry.kind) {
+    case 'diagnosis':
+      return encounter.diagnoses.some(item => getEncounterItemKey({ kind: 'diagnosis', item }) === key);
+    case 'procedure':
+      return encounter.procedures.some(item => getEncounterItemKey({ kind: 'procedure', item }) === key);
+    case 'hcpcs':
+      return encounter.hcpcs.some(item => getEncounterItemKey({ kind: 'hcpcs', item }) === key);
+    case 'drug':
+      return encounter.drugs.some(item => getEncounterItemKey({ kind: 'drug', item }) === key);
+  }
+}
+
+/**
+ * Moves a diagnosis to a new position in the sequence.
+ * Moving to index 0 makes it the primary diagnosis.
+ *
+ * @returns Updated encounter
+ */
+export function moveDiagnosis(code: string, toIndex: number): Encounter {
+  const current = getEncounter();
+  const fromIndex = current.diagnoses.findIndex(d => d.code === code);
+  if (fromIndex === -1) return current;
+
+  const diagnoses = [...current.diagnoses];
+  const [moved] = diagnoses.splice(fromIndex, 1);
+  const target = Math.max(0, Math.min(toIndex, diagnoses.length));
+  diagnoses.splice(target, 0, moved);
+  return saveEncounter({ ...current, diagnoses });
+}
+
+/**
+ * Clears the encounter and starts a new one.
+ */
+export function clearEncounter(): Encounter {
+  return saveEncounter(createEmptyEncounter());
+}
+
+/**
+ * Total number of items in an encounter (for header badges).
+ */
+export function countEncounterItems(encounter: Encounter): number {
+  return encounter.diagnoses.length + encounter.procedures.length +
+    encounter.hcpcs.length + encounter.drugs.length;
+}
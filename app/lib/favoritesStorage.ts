@@ -28,6 +28,9 @@ export const FAVORITES_KEY = 'icd-favorites';
 /** localStorage key for enhanced search history */
 export const HISTORY_KEY = 'icd-search-history';
 
+/** Window event fired after favorites are saved (see useSessionDiagnoses) */
+export const FAVORITES_CHANGED_EVENT = 'favorites-changed';
+
 /** Maximum number of favorites to store */
 export const MAX_FAVORITES = 500;
 
@@ -83,6 +86,7 @@ export function saveFavorites(favorites: FavoriteICD[]): void {
     // Limit to MAX_FAVORITES (keep most recent)
     const limited = favorites.slice(0, MAX_FAVORITES);
     localStorage.setItem(FAVORITES_KEY, JSON.stringify(limited));
+    window.dispatchEvent(new Event(FAVORITES_CHANGED_EVENT));
   } catch (error) {
     // Might fail if storage is full
     console.warn('Failed to save favorites:', error);
@@ -143,6 +147,7 @@ export function isFavorite(code: string): boolean {
 export function clearAllFavorites(): void {
   try {
     localStorage.removeItem(FAVORITES_KEY);
+    window.dispatchEvent(new Event(FAVORITES_CHANGED_EVENT));
   } catch (error) {
     console.warn('Failed to clear favorites:', error);
   }
@@ -0,0 +1,243 @@
+/**
+ * gemsCrosswalk.ts — ICD-9-CM ↔ ICD-10-CM General Equivalence Mappings (offline)
+ *
+ * Legacy records are still coded in ICD-9-CM. CMS published the GEMs to
+ * translate between the two code sets; each line is "source target flags":
+ *
+ *   25002 E1165   10000    ← 250.02 → E11.65, approximate
+ *   E1121 25040   10111    ← E11.21 → 250.40 + 583.9 together (combination,
+ *   E1121 5839    10112       scenario 1, choice lists 1 and 2)
+ *   Z3A00 NoDx    11000    ← no ICD-9-CM equivalent
+ *
+ * Loads the GEM files in their native CMS text format from public/data/gems/
+ * (the final 2018 release) plus the ICD-9-CM v32 long descriptions.
+ * ICD-10-CM descriptions come from icd10cmLocalData.ts. The bundled files
+ * are a sample marked by a leading "#" line (CMS files have none); the
+ * full CMS files can be copied over them unchanged.
+ *
+ * Only diagnosis GEMs are covered; the ICD-9-CM Volume 3 ↔ ICD-10-PCS
+ * procedure GEMs are not bundled.
+ */
+
+import { CrosswalkDirection, CrosswalkResult, GemFlags, GemMapping, GemScenario } from '../types/icd';
+import { lookupLocalIcd10 } from './icd10cmLocalData';
+import { formatIcd10Code } from './icd10Validation';
+import { fetchStaticData } from './staticData';
+
+// ── Types for the raw file lines ──
+
+interface GemLine {
+  source: string;
+  target: string;
+  flags: GemFlags;
+}
+
+// ── Configuration ──
+
+const GEM_FILES: Record<CrosswalkDirection, string> = {
+  icd9_to_icd10: '/data/gems/2018_I9gem.txt',
+  icd10_to_icd9: '/data/gems/2018_I10gem.txt',
+};
+
+const ICD9_DESCRIPTIONS_PATH = '/data/gems/CMS32_DESC_LONG_DX.txt';
+
+/** Target written on no-map lines */
+const NO_MAP_TARGET = 'NoDx';
+
+/** First character of the line marking a bundled sample file */
+const SAMPLE_MARKER = '#';
+
+// ── In-memory data store ──
+
+let gems: Record<CrosswalkDirection, Map<string, GemLine[]>> = {
+  icd9_to_icd10: new Map(),
+  icd10_to_icd9: new Map(),
+};
+let icd9Descriptions: Map<string, string> = new Map();
+let isSample = false;
+let isLoaded = false;
+let loadPromise: Promise<void> | null = null;
+
+// ── Data loading ──
+
+async function fetchText(path: string, label: string): Promise<string> {
+  const response = await fetchStaticData(path);
+  if (!response.ok) throw new Error(`Failed to load ${label}: ${response.status}`);
+  return response.text();
+}
+
+/** Parses a GEM file into source code → lines (in file order) */
+function parseGemFile(text: string): Map<string, GemLine[]> {
+  const map = new Map<string, GemLine[]>();
+  for (const line of text.split('\n')) {
+    const match = line.trim().match(/^(\S+)\s+(\S+)\s+([01])([01])([01])(\d)(\d)$/);
+    if (!match) continue;
+    const [, source, target, approximate, noMap, combination, scenario, choiceList] = match;
+    const entry: GemLine = {
+      source,
+      target,
+      flags: {
+        approximate: approximate === '1',
+        noMap: noMap === '1',
+        combination: combination === '1',
+        scenario: Number(scenario),
+        choiceList: Number(choiceList),
+      },
+    };
+    const lines = map.get(source);
+    if (lines) lines.push(entry);
+    else map.set(source, [entry]);
+  }
+  return map;
+}
+
+async function loadData(): Promise<void> {
+  if (isLoaded) return;
+  if (loadPromise) return loadPromise;
+
+  loadPromise = (async () => {
+    try {
+      const [i9gem, i10gem, descriptions] = await Promise.all([
+        fetchText(GEM_FILES.icd9_to_icd10, 'ICD-9-CM to ICD-10-CM GEM'),
+        fetchText(GEM_FILES.icd10_to_icd9, 'ICD-10-CM to ICD-9-CM GEM'),
+        fetchText(ICD9_DESCRIPTIONS_PATH, 'ICD-9-CM descriptions'),
+      ]);
+
+      gems = {
+        icd9_to_icd10: parseGemFile(i9gem),
+        icd10_to_icd9: parseGemFile(i10gem),
+      };
+
+      // "25000 Diabetes mellitus without mention..." → code, description
+      icd9Descriptions = new Map();
+      for (const line of descriptions.split('\n')) {
+        if (line.startsWith(SAMPLE_MARKER)) continue;
+        const space = line.indexOf(' ');
+        if (space > 0) icd9Descriptions.set(line.slice(0, space), line.slice(space + 1).trim());
+      }
+
+      isSample = [i9gem, i10gem, descriptions].some(text => text.startsWith(SAMPLE_MARKER));
+      isLoaded = true;
+    } catch (err) {
+      console.error('Failed to load GEMs crosswalk data:', err);
+      loadPromise = null;
+      throw err;
+    }
+  })();
+
+  return loadPromise;
+}
+
+// ── Helpers ──
+
+/** Removes the dot and any "ICD-9:" prefix the user typed */
+function compactCode(code: string): string {
+  return code.trim().replace(/^icd-?(9|10)(-cm)?[:\s]\s*/i, '').toUpperCase().replace('.', '');
+}
+
+/**
+ * Formats an undotted ICD-9-CM code. E codes keep 4 characters before
+ * the dot, numeric and V codes 3.
+ *
+ * @example
+ * formatIcd9Code("25002") // → "250.02"
+ * formatIcd9Code("V5861") // → "V58.61"
+ * formatIcd9Code("E8490") // → "E849.0"
+ * formatIcd9Code("486")   // → "486"
+ */
+export function formatIcd9Code(code: string): string {
+  const compact = compactCode(code);
+  const head = compact.startsWith('E') ? 4 : 3;
+  return compact.length > head ? `${compact.slice(0, head)}.${compact.slice(head)}` : compact;
+}
+
+async function describeTarget(target: string, direction: CrosswalkDirection): Promise<string | null> {
+  if (direction === 'icd10_to_icd9') return icd9Descriptions.get(target) ?? null;
+  return (await lookupLocalIcd10(target))?.name ?? null;
+}
+
+/** Groups the lines of one source code into alternatives and combinations */
+async function buildResult(code: string, direction: CrosswalkDirection): Promise<CrosswalkResult> {
+  await loadData();
+
+  const compact = compactCode(code);
+  const toIcd10 = direction === 'icd9_to_icd10';
+  const formatSource = toIcd10 ? formatIcd9Code : formatIcd10Code;
+  const formatTarget = toIcd10 ? formatIcd10Code : formatIcd9Code;
+
+  const sourceCode = formatSource(compact);
+  const sourceDescription = toIcd10
+    ? icd9Descriptions.get(compact) ?? null
+    : (await lookupLocalIcd10(compact))?.name ?? null;
+
+  const lines = gems[direction].get(compact) ?? [];
+  const result: CrosswalkResult = {
+    sourceCode,
+    sourceDescription,
+    direction,
+    found: lines.length > 0,
+    sample: isSample,
+    noMap: lines.some(line => line.flags.noMap),
+    mappings: [],
+    scenarios: [],
+  };
+
+  for (const line of lines) {
+    if (line.flags.noMap || line.target === NO_MAP_TARGET) continue;
+
+    const mapping: GemMapping = {
+      sourceCode,
+      targetCode: formatTarget(line.target),
+      targetDescription: await describeTarget(line.target, direction),
+      flags: line.flags,
+    };
+
+    if (!line.flags.combination) {
+      result.mappings.push(mapping);
+      continue;
+    }
+
+    let scenario: GemScenario | undefined = result.scenarios.find(s => s.scenario === line.flags.scenario);
+    if (!scenario) {
+      scenario = { scenario: line.flags.scenario, choiceLists: [] };
+      result.scenarios.push(scenario);
+    }
+    const listIndex = line.flags.choiceList - 1;
+    while (scenario.choiceLists.length <= listIndex) scenario.choiceLists.push([]);
+    scenario.choiceLists[listIndex].push(mapping);
+  }
+
+  return result;
+}
+
+// ── Public API ──
+
+/**
+ * Maps an ICD-9-CM diagnosis code (dotted or not) to ICD-10-CM.
+ *
+ * @example
+ * await crosswalkIcd9ToIcd10("250.02")
+ * // → { sourceCode: "250.02", mappings: [{ targetCode: "E11.65", flags: { approximate: true, ... } }], ... }
+ */
+export async function crosswalkIcd9ToIcd10(code: string): Promise<CrosswalkResult> {
+  return buildResult(code, 'icd9_to_icd10');
+}
+
+/**
+ * Maps an ICD-10-CM code back to ICD-9-CM (the "backward" GEM).
+ *
+ * @example
+ * await crosswalkIcd10ToIcd9("E11.21")
+ * // → { scenarios: [{ scenario: 1, choiceLists: [[{ targetCode: "250.40" }], [{ targetCode: "583.9" }]] }], ... }
+ */
+export async function crosswalkIcd10ToIcd9(code: string): Promise<CrosswalkResult> {
+  return buildResult(code, 'icd10_to_icd9');
+}
+
+/**
+ * Long description of an ICD-9-CM diagnosis code, or null if it isn't bundled.
+ */
+export async function getIcd9Description(code: string): Promise<string | null> {
+  await loadData();
+  return icd9Descriptions.get(compactCode(code)) ?? null;
+}
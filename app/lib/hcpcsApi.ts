@@ -15,13 +15,13 @@
 
 import { 
   ProcedureResult, 
-  CachedProcedures,
   HCPCSResult, 
   HCPCSCategory, 
   HCPCSCategoryPrefix,
   HCPCSCoverageCode,
   HCPCSPricingIndicator 
 } from '../types/icd';
+import { createCache, CacheStats } from './cache';
 
 // ============================================================
 // Constants
@@ -32,6 +32,9 @@ const HCPCS_API_BASE = 'https://clinicaltables.nlm.nih.gov/api/hcpcs/v3/search';
 /** Cache HCPCS results for 24 hours (same as drug ingredient cache) */
 const HCPCS_CACHE_TTL = 24 * 60 * 60 * 1000;
 
+/** Maximum cached queries per cache */
+const HCPCS_CACHE_MAX_SIZE = 1000;
+
 /** Maximum results to fetch per query */
 const MAX_RESULTS = 50;
 
@@ -42,11 +45,10 @@ const REQUEST_TIMEOUT = 5000;
 // Cache
 // ============================================================
 
-const hcpcsCache = new Map<string, CachedProcedures>();
-
-function isCacheValid(cached: CachedProcedures): boolean {
-  return Date.now() - cached.timestamp < HCPCS_CACHE_TTL;
-}
+const hcpcsCache = createCache<ProcedureResult[]>('hcpcs-search', {
+  ttlMs: HCPCS_CACHE_TTL,
+  maxEntries: HCPCS_CACHE_MAX_SIZE,
+});
 
 // ============================================================
 // API Functions
@@ -76,9 +78,9 @@ export async function searchHcpcs(
   const cacheKey = `hcpcs:${query.toLowerCase().trim()}:${maxResults}`;
 
   // Check cache first
-  const cached = hcpcsCache.get(cacheKey);
-  if (cached && isCacheValid(cached)) {
-    return cached.data;
+  const cached = await hcpcsCache.get(cacheKey);
+  if (cached) {
+    return cached;
   }
 
   try {
@@ -111,7 +113,7 @@ export async function searchHcpcs(
 
     if (totalCount === 0 || codes.length === 0) {
       // Cache empty results too (negative caching)
-      hcpcsCache.set(cacheKey, { data: [], timestamp: Date.now() });
+      await hcpcsCache.set(cacheKey, []);
       return [];
     }
 
@@ -137,7 +139,7 @@ export async function searchHcpcs(
     });
 
     // Cache the results
-    hcpcsCache.set(cacheKey, { data: results, timestamp: Date.now() });
+    await hcpcsCache.set(cacheKey, results);
 
     return results;
   } catch (error) {
@@ -243,17 +245,14 @@ function categorizeHcpcsCode(code: string): 'diagnostic' | 'therapeutic' | 'moni
 // Cache Management
 // ============================================================
 
-/** Clear the entire HCPCS cache */
-export function clearHcpcsCache(): void {
-  hcpcsCache.clear();
+/** Clear the HCPCS search caches */
+export async function clearHcpcsCache(): Promise<void> {
+  await Promise.all([hcpcsCache.clear(), hcpcsDetailCache.clear()]);
 }
 
 /** Get cache statistics for debugging */
-export function getHcpcsCacheStats(): { size: number; entries: string[] } {
-  return {
-    size: hcpcsCache.size,
-    entries: Array.from(hcpcsCache.keys()),
-  };
+export function getHcpcsCacheStats(): Promise<CacheStats> {
+  return hcpcsCache.stats();
 }
 
 // ============================================================
@@ -324,7 +323,10 @@ const PRICING_INDICATOR_DESCRIPTIONS: Record<string, string> = {
 // ============================================================
 
 /** Cache for detailed HCPCS results */
-const hcpcsDetailCache = new Map<string, { data: HCPCSResult[]; timestamp: number }>();
+const hcpcsDetailCache = createCache<HCPCSResult[]>('hcpcs-detail', {
+  ttlMs: HCPCS_CACHE_TTL,
+  maxEntries: HCPCS_CACHE_MAX_SIZE,
+});
 
 /**
  * Search HCPCS codes with full detail — returns HCPCSResult[] with
@@ -342,9 +344,9 @@ export async function searchHcpcsDetailed(
   const cacheKey = `hcpcs-detail:${query.toLowerCase().trim()}:${maxResults}`;
 
   // Check cache
-  const cached = hcpcsDetailCache.get(cacheKey);
-  if (cached && Date.now() - cached.timestamp < HCPCS_CACHE_TTL) {
-    return cached.data;
+  const cached = await hcpcsDetailCache.get(cacheKey);
+  if (cached) {
+    return cached;
   }
 
   try {
@@ -376,7 +378,7 @@ export async function searchHcpcsDetailed(
     const extraFields: Record<string, string[]> = data[2] || {};
 
     if (totalCount === 0 || codes.length === 0) {
-      hcpcsDetailCache.set(cacheKey, { data: [], timestamp: Date.now() });
+      await hcpcsDetailCache.set(cacheKey, []);
       return [];
     }
 
@@ -411,7 +413,7 @@ export async function searchHcpcsDetailed(
       };
     });
 
-    hcpcsDetailCache.set(cacheKey, { data: results, timestamp: Date.now() });
+    await hcpcsDetailCache.set(cacheKey, results);
     return results;
 
   } catch (error) {
@@ -7,6 +7,7 @@
  */
 
 import { HCPCSResult, HCPCSCategory, HCPCSCategoryPrefix } from '../types/icd';
+import { fetchStaticData } from './staticData';
 
 // ── Types for the raw JSON structure ──
 
@@ -121,7 +122,7 @@ async function loadData(): Promise<void> {
 
   loadPromise = (async () => {
     try {
-      const response = await fetch('/data/hcpcs-data.json');
+      const response = await fetchStaticData('/data/hcpcs-data.json');
       if (!response.ok) throw new Error(`Failed to load HCPCS data: ${response.status}`);
 
       const data: HCPCSDataFile = await response.json();
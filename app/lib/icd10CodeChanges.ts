@@ -0,0 +1,200 @@
+/**
+ * ICD-10-CM Fiscal Year Changes
+ * =============================
+ *
+ * Every October 1st CMS publishes a new ICD-10-CM code set. Codes are
+ * added, retitled, deleted, or expanded — a billable code gets subdivided
+ * and becomes a header that is no longer valid on a claim:
+ *
+ *   FY2024: E66.8  Other obesity              ← billable
+ *   FY2025: E66.8  Other obesity              ← header
+ *           E66.811 Obesity, class 1          ← new
+ *           E66.812 Obesity, class 2          ← new ...
+ *
+ * This module compares the bundled fiscal years (icd10cmLocalData.ts) and
+ * answers "is this saved code still usable this year?" — the ICD-10-CM
+ * counterpart of HCPCSResult.termDate / isActive.
+ *
+ * @example Usage:
+ * import { diffFiscalYears, getCodeYearStatus } from './icd10CodeChanges';
+ *
+ * const diff = await diffFiscalYears(2024, 2025);
+ * // → { added: [{ code: "E11.A", ... }, ...], expanded: [{ code: "E66.8", ... }], ... }
+ *
+ * await getCodeYearStatus("E66.8")
+ * // → { status: "needs_specificity", lastBillableYear: 2024, replacementCodes: [...] }
+ */
+
+import { CodeChange, CodeSetDiff, CodeYearStatus } from '../types/icd';
+import {
+  getLocalCodes,
+  getLocalCodeFamily,
+  CURRENT_ICD10_FISCAL_YEAR,
+  ICD10_FISCAL_YEARS,
+} from './icd10cmLocalData';
+import { validateIcd10Code, getSeventhCharacterCodes } from './icd10Validation';
+
+// =============================================================================
+// Fiscal Year Diff
+// =============================================================================
+
+/**
+ * Lists every code that was added, deleted, retitled or expanded between
+ * two fiscal years. Years don't have to be consecutive.
+ *
+ * @throws If either year has no bundled data file
+ */
+export async function diffFiscalYears(fromYear: number, toYear: number): Promise<CodeSetDiff> {
+  const [fromCodes, toCodes] = await Promise.all([getLocalCodes(fromYear), getLocalCodes(toYear)]);
+  const fromMap = new Map(fromCodes.map(c => [c.code, c]));
+  const toMap = new Map(toCodes.map(c => [c.code, c]));
+
+  const diff: CodeSetDiff = { fromYear, toYear, added: [], deleted: [], retitled: [], expanded: [] };
+
+  for (const after of toCodes) {
+    const before = fromMap.get(after.code);
+    if (!before) {
+      diff.added.push({ code: after.code, changeType: 'added', newDescription: after.name });
+      continue;
+    }
+    if (before.name !== after.name) {
+      diff.retitled.push({
+        code: after.code,
+        changeType: 'retitled',
+        oldDescription: before.name,
+        newDescription: after.name,
+      });
+    }
+    if (before.billable && !after.billable) {
+      const newCodes = toCodes
+        .filter(c => c.billable && c.code !== after.code && c.code.startsWith(after.code))
+        .map(c => c.code);
+      diff.expanded.push({
+        code: after.code,
+        changeType: 'expanded',
+        oldDescription: before.name,
+        newDescription: after.name,
+        newCodes,
+      });
+    }
+  }
+
+  for (const before of fromCodes) {
+    if (!toMap.has(before.code)) {
+      diff.deleted.push({ code: before.code, changeType: 'deleted', oldDescription: before.name });
+    }
+  }
+
+  return diff;
+}
+
+/**
+ * Total number of changes in a diff (for badges).
+ */
+export function countCodeChanges(diff: CodeSetDiff): number {
+  return diff.added.length + diff.deleted.length + diff.retitled.length + diff.expanded.length;
+}
+
+/**
+ * Every change for one code, oldest first, across all bundled years.
+ *
+ * @example
+ * await getCodeHistory("F02.81")
+ * // → [{ fromYear: 2022, toYear: 2023, change: { changeType: "retitled", ... } },
+ * //    { fromYear: 2022, toYear: 2023, change: { changeType: "expanded", ... } }]
+ */
+export async function getCodeHistory(
+  code: string
+): Promise<{ fromYear: number; toYear: number; change: CodeChange }[]> {
+  const history: { fromYear: number; toYear: number; change: CodeChange }[] = [];
+  for (let i = 1; i < ICD10_FISCAL_YEARS.length; i++) {
+    const diff = await diffFiscalYears(ICD10_FISCAL_YEARS[i - 1], ICD10_FISCAL_YEARS[i]);
+    for (const change of [...diff.added, ...diff.deleted, ...diff.retitled, ...diff.expanded]) {
+      if (change.code === code) history.push({ fromYear: diff.fromYear, toYear: diff.toYear, change });
+    }
+  }
+  return history;
+}
+
+// =============================================================================
+// Code Status per Year
+// =============================================================================
+
+/**
+ * Checks whether a (saved) code can still be used in a fiscal year.
+ *
+ * @param code - Dotted code, including built 7th character codes ("S93.401A")
+ * @param fiscalYear - Year to check (default: current)
+ */
+export async function getCodeYearStatus(
+  code: string,
+  fiscalYear: number = CURRENT_ICD10_FISCAL_YEAR
+): Promise<CodeYearStatus> {
+  const label = `FY${fiscalYear}`;
+  const validation = await validateIcd10Code(code, fiscalYear);
+  const formatted = validation.code;
+
+  if (validation.billable) {
+    return { code: formatted, fiscalYear, status: 'active', isActive: true, message: `Billable for ${label}` };
+  }
+
+  // Last earlier year the code was billable (newest first)
+  const earlierYears = ICD10_FISCAL_YEARS.filter(y => y < fiscalYear).reverse();
+  let lastBillableYear: number | undefined;
+  for (const year of earlierYears) {
+    if ((await validateIcd10Code(formatted, year)).billable) {
+      lastBillableYear = year;
+      break;
+    }
+  }
+
+  if (validation.status === 'header' || validation.status === 'needs_seventh') {
+    const replacementCodes = validation.status === 'needs_seventh'
+      ? (await getSeventhCharacterCodes(formatted)).map(c => c.code)
+      : (await getLocalCodeFamily(formatted, fiscalYear)).filter(c => c.billable).map(c => c.code);
+
+    return {
+      code: formatted,
+      fiscalYear,
+      status: 'needs_specificity',
+      isActive: false,
+      lastBillableYear,
+      replacementCodes,
+      message: lastBillableYear
+        ? `Expanded after FY${lastBillableYear} — choose a more specific code for ${label}`
+        : `Not billable in ${label} — ${validation.message.toLowerCase()}`,
+    };
+  }
+
+  if (validation.status === 'not_found' && lastBillableYear) {
+    return {
+      code: formatted,
+      fiscalYear,
+      status: 'deleted',
+      isActive: false,
+      lastBillableYear,
+      message: `Deleted — last valid in FY${lastBillableYear}`,
+    };
+  }
+
+  return {
+    code: formatted,
+    fiscalYear,
+    status: 'unknown',
+    isActive: false,
+    message: `${formatted} is not in the bundled ${label} code set`,
+  };
+}
+
+/**
+ * Checks several codes at once (e.g., all favorites).
+ *
+ * @returns Map of input code → status
+ */
+export async function getCodeYearStatuses(
+  codes: string[],
+  fiscalYear: number = CURRENT_ICD10_FISCAL_YEAR
+): Promise<Map<string, CodeYearStatus>> {
+  const statuses = await Promise.all(codes.map(code => getCodeYearStatus(code, fiscalYear)));
+  return new Map(codes.map((code, i) => [code, statuses[i]]));
+}
@@ -0,0 +1,233 @@
+/**
+ * ICD-10-CM Tabular Hierarchy
+ * ===========================
+ *
+ * Builds the Tabular List tree from the local ICD-10-CM data file so it can
+ * be browsed top-down instead of only searched:
+ *
+ *   Chapter 4  Endocrine, Nutritional and Metabolic Diseases
+ *   └─ E08-E13 Diabetes mellitus                      (block)
+ *      └─ E11  Type 2 diabetes mellitus               (category)
+ *         └─ E11.6  ...with other specified complications (subcategory)
+ *            └─ E11.65 ...with hyperglycemia          (billable code)
+ *
+ * Chapters come from chapterMapping.ts, blocks and codes from the data file.
+ * A code's parent is the longest shorter code in the file that prefixes it,
+ * so partial data sets (where an intermediate level is missing) still nest.
+ *
+ * @example Usage:
+ * import { getTabularChildren } from './icd10Hierarchy';
+ *
+ * const blocks = await getTabularChildren({ level: 'chapter', id: '4' });
+ * const categories = await getTabularChildren({ level: 'block', id: 'E08-E13' });
+ * const codes = await getTabularChildren({ level: 'category', id: 'E11' });
+ */
+
+import { TabularNode } from '../types/icd';
+import { getAllChapters, getChapter, getChapterById } from './chapterMapping';
+import { extractParentCode } from './api';
+import { getLocalCodes, getLocalBlocks, LocalICD10Code, ICD10Block } from './icd10cmLocalData';
+
+// =============================================================================
+// Tree Index (built once per session)
+// =============================================================================
+
+interface TabularIndex {
+  codes: Map<string, LocalICD10Code>;
+  /** Child codes keyed by parent code ("" = top-level 3-character categories) */
+  children: Map<string, LocalICD10Code[]>;
+  /** Billable leaf count per code, including itself */
+  billableBelow: Map<string, number>;
+  blocks: ICD10Block[];
+}
+
+let indexPromise: Promise<TabularIndex> | null = null;
+
+function normalize(code: string): string {
+  return code.trim().toUpperCase().replace('.', '');
+}
+
+/**
+ * Checks whether a 3-character category falls inside a block range.
+ *
+ * @example
+ * isCategoryInBlock("E11", "E08-E13") // → true
+ * isCategoryInBlock("E14", "E08-E13") // → false
+ */
+export function isCategoryInBlock(category: string, range: string): boolean {
+  const [start, end = start] = range.toUpperCase().split('-');
+  const cat = extractParentCode(category);
+  return cat >= start && cat <= end;
+}
+
+async function buildIndex(): Promise<TabularIndex> {
+  const [allCodes, blocks] = await Promise.all([getLocalCodes(), getLocalBlocks()]);
+
+  const byNormalized = new Map<string, LocalICD10Code>();
+  for (const code of allCodes) {
+    byNormalized.set(normalize(code.code), code);
+  }
+
+  const codes = new Map<string, LocalICD10Code>();
+  const children = new Map<string, LocalICD10Code[]>();
+
+  for (const code of allCodes) {
+    codes.set(code.code, code);
+
+    // Walk up until we find an ancestor that exists in the data set
+    const norm = normalize(code.code);
+    let parent = '';
+    for (let len = norm.length - 1; len >= 3; len--) {
+      const candidate = byNormalized.get(norm.substring(0, len));
+      if (candidate) {
+        parent = candidate.code;
+        break;
+      }
+    }
+
+    const siblings = children.get(parent) ?? [];
+    siblings.push(code);
+    children.set(parent, siblings);
+  }
+
+  // Count billable leaves bottom-up (longest codes first)
+  const billableBelow = new Map<string, number>();
+  const longestFirst = [...allCodes].sort((a, b) => b.code.length - a.code.length);
+  for (const code of longestFirst) {
+    const own = code.billable ? 1 : 0;
+    const fromChildren = (children.get(code.code) ?? [])
+      .reduce((sum, child) => sum + (billableBelow.get(child.code) ?? 0), 0);
+    billableBelow.set(code.code, own + fromChildren);
+  }
+
+  return { codes, children, billableBelow, blocks };
+}
+
+async function getIndex(): Promise<TabularIndex> {
+  if (!indexPromise) {
+    indexPromise = buildIndex().catch(err => {
+      indexPromise = null;
+      throw err;
+    });
+  }
+  return indexPromise;
+}
+
+// =============================================================================
+// Node Builders
+// =============================================================================
+
+function categoriesInBlock(index: TabularIndex, range: string): LocalICD10Code[] {
+  return (index.children.get('') ?? []).filter(cat => isCategoryInBlock(cat.code, range));
+}
+
+function blocksInChapter(index: TabularIndex, chapterId: number): ICD10Block[] {
+  return index.blocks.filter(block => getChapter(block.range).id === chapterId);
+}
+
+function codeNode(index: TabularIndex, code: LocalICD10Code): TabularNode {
+  const childCount = index.children.get(code.code)?.length ?? 0;
+  let level: TabularNode['level'];
+  if (code.code.length === 3) level = 'category';
+  else if (childCount > 0) level = 'subcategory';
+  else level = 'code';
+
+  return {
+    id: code.code,
+    label: code.name,
+    level,
+    billable: code.billable,
+    childCount,
+    billableCount: index.billableBelow.get(code.code) ?? 0,
+  };
+}
+
+function blockNode(index: TabularIndex, block: ICD10Block): TabularNode {
+  const categories = categoriesInBlock(index, block.range);
+  return {
+    id: block.range,
+    label: block.name,
+    level: 'block',
+    billable: false,
+    childCount: categories.length,
+    billableCount: categories.reduce((sum, cat) => sum + (index.billableBelow.get(cat.code) ?? 0), 0),
+  };
+}
+
+function chapterNode(index: TabularIndex, chapterId: number): TabularNode {
+  const chapter = getChapterById(chapterId);
+  const blocks = blocksInChapter(index, chapterId).map(b => blockNode(index, b));
+  return {
+    id: String(chapter.id),
+    label: chapter.name,
+    level: 'chapter',
+    billable: false,
+    childCount: blocks.length,
+    billableCount: blocks.reduce((sum, b) => sum + b.billableCount, 0),
+  };
+}
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+/**
+ * Get all 21 chapters with block and billable-code counts.
+ * Chapters not covered by the loaded data set have childCount 0.
+ */
+export async function getTabularChapters(): Promise<TabularNode[]> {
+  const index = await getIndex();
+  return getAllChapters().map(chapter => chapterNode(index, chapter.id));
+}
+
+/**
+ * Get the direct children of a node, one level down.
+ *
+ * - chapter     → blocks
+ * - block       → 3-character categories
+ * - category    → subcategories / codes
+ * - subcategory → subcategories / codes
+ */
+export async function getTabularChildren(node: Pick<TabularNode, 'id' | 'level'>): Promise<TabularNode[]> {
+  const index = await getIndex();
+
+  switch (node.level) {
+    case 'chapter':
+      return blocksInChapter(index, parseInt(node.id, 10)).map(b => blockNode(index, b));
+    case 'block':
+      return categoriesInBlock(index, node.id).map(cat => codeNode(index, cat));
+    default:
+      return (index.children.get(node.id) ?? []).map(code => codeNode(index, code));
+  }
+}
+
+/**
+ * Get the path from the chapter down to a code (inclusive), for breadcrumbs
+ * and deep links like /icd10?code=E11.65.
+ * Returns an empty array if the code is not in the local data set.
+ *
+ * @example
+ * await getTabularPath("E11.65")
+ * // → [Chapter 4, E08-E13, E11, E11.6, E11.65]
+ */
+export async function getTabularPath(code: string): Promise<TabularNode[]> {
+  const index = await getIndex();
+  const target = [...index.codes.values()].find(c => normalize(c.code) === normalize(code));
+  if (!target) return [];
+
+  // Collect code ancestors from the category down
+  const norm = normalize(target.code);
+  const codePath = [...index.codes.values()]
+    .filter(c => norm.startsWith(normalize(c.code)))
+    .sort((a, b) => a.code.length - b.code.length)
+    .map(c => codeNode(index, c));
+
+  const chapter = getChapter(target.code);
+  const block = index.blocks.find(b => isCategoryInBlock(target.code, b.range));
+
+  return [
+    chapterNode(index, chapter.id),
+    ...(block ? [blockNode(index, block)] : []),
+    ...codePath,
+  ];
+}
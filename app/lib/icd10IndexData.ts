@@ -0,0 +1,233 @@
+/**
+ * icd10IndexData.ts — ICD-10-CM Alphabetic Index (offline)
+ *
+ * Coders don't search code descriptions; they look up the condition in the
+ * Alphabetic Index, walk down the indented subterms and end at a suggested
+ * code, then confirm that code in the Tabular List:
+ *
+ *   Diabetes, diabetic (mellitus) (sugar) E11.9
+ *     - type 2 E11.9
+ *       - with
+ *         - nephropathy E11.21   ← suggested code, verified in the Tabular List
+ *
+ * Loads public/data/icd10cm-index-fy2026.json (a subset covering the bundled
+ * Tabular codes) the same lazy way icd10cmLocalData.ts loads the code set.
+ *
+ * Index conventions handled here:
+ * - Nonessential modifiers "(mellitus) (sugar)" match the search but never change the code
+ * - "see" / "see also" references are paths to another entry
+ * - A trailing "-" ("S93.40-") means the code is incomplete
+ * - A bracketed code "G30.9 [F02.80]" is a manifestation, sequenced second
+ */
+
+import { ICD10IndexTerm, ICD10IndexMatch, IndexCodeVerification } from '../types/icd';
+import { translateQuery } from './termMapper';
+import { validateIcd10Code } from './icd10Validation';
+import { fetchStaticData } from './staticData';
+
+// ── Types for the raw JSON structure ──
+
+interface ICD10IndexFile {
+  version: string;
+  fiscalYear: number;
+  effectiveDate: string;
+  source: string;
+  totalTerms: number;
+  terms: ICD10IndexTerm[];
+}
+
+/** A flattened entry used for searching */
+interface IndexEntry {
+  path: string[];
+  term: ICD10IndexTerm;
+  /** Lowercased path titles + nonessential modifiers */
+  text: string;
+}
+
+// ── Configuration ──
+
+/** Path of the bundled Index file (served from /public) */
+const DATA_FILE_PATH = '/data/icd10cm-index-fy2026.json';
+
+/** Default maximum number of matches returned */
+const DEFAULT_LIMIT = 12;
+
+// ── In-memory data store ──
+
+let mainTerms: ICD10IndexTerm[] = [];
+let entries: IndexEntry[] = [];
+let isLoaded = false;
+let loadPromise: Promise<void> | null = null;
+
+// ── Data loading ──
+
+async function loadData(): Promise<void> {
+  if (isLoaded) return;
+  if (loadPromise) return loadPromise;
+
+  loadPromise = (async () => {
+    try {
+      const response = await fetchStaticData(DATA_FILE_PATH);
+      if (!response.ok) throw new Error(`Failed to load ICD-10-CM Index: ${response.status}`);
+
+      const data: ICD10IndexFile = await response.json();
+      mainTerms = data.terms;
+
+      // Flatten the tree once so search is a simple scan
+      entries = [];
+      const walk = (term: ICD10IndexTerm, parentPath: string[]) => {
+        const path = [...parentPath, term.title];
+        const text = path.join(' ').toLowerCase() + (term.nonessential ? ` ${term.nonessential.toLowerCase()}` : '');
+        entries.push({ path, term, text });
+        term.subterms?.forEach(sub => walk(sub, path));
+      };
+      mainTerms.forEach(term => walk(term, []));
+
+      isLoaded = true;
+    } catch (err) {
+      console.error('Failed to load ICD-10-CM Index data:', err);
+      loadPromise = null;
+      throw err;
+    }
+  })();
+
+  return loadPromise;
+}
+
+// ── Helpers ──
+
+/** Splits a query into lowercase words, dropping connective words the Index nests under */
+function tokenize(query: string): string[] {
+  return query
+    .toLowerCase()
+    .replace(/[(),]/g, ' ')
+    .split(/\s+/)
+    .filter(word => word.length > 0 && !['with', 'and', 'of', 'the', 'in', 'due', 'to'].includes(word));
+}
+
+/**
+ * Finds a main term by title. References name main terms by their first
+ * word ("see Hypertension, heart" → "Hypertension, hypertensive").
+ */
+function findMainTerm(title: string): ICD10IndexTerm | undefined {
+  const lower = title.toLowerCase();
+  return mainTerms.find(t => t.title.toLowerCase() === lower)
+    ?? mainTerms.find(t => t.title.toLowerCase().startsWith(`${lower},`));
+}
+
+/**
+ * Scores an entry for a set of query words. Every word must appear in the
+ * path; the main term matching the first word, shorter paths and entries
+ * that end at a code rank higher.
+ */
+function scoreEntry(entry: IndexEntry, words: string[]): number {
+  if (!words.every(word => entry.text.includes(word))) return 0;
+
+  const mainTitle = entry.path[0].toLowerCase();
+  let score = 10;
+  if (mainTitle.startsWith(words[0])) score += 20;
+  else if (mainTitle.includes(words[0])) score += 10;
+
+  // Last word matching the last subterm = the user named the endpoint
+  const leaf = entry.path[entry.path.length - 1].toLowerCase();
+  if (leaf.includes(words[words.length - 1])) score += 8;
+
+  if (entry.term.code) score += 5;
+  if (entry.term.see) score -= 3;
+  score -= entry.path.length;
+  return score;
+}
+
+// ── Public API ──
+
+/**
+ * Searches the Index for entries whose path contains every query word.
+ * Lay terms are also tried through translateQuery() ("heart attack" →
+ * "myocardial infarction"), the same translation the main search uses.
+ *
+ * @example
+ * await searchIndexTerms("diabetes type 2 nephropathy")
+ * // → [{ path: ["Diabetes, diabetic", "type 2", "with", "nephropathy"], term: { code: "E11.21", ... } }, ...]
+ */
+export async function searchIndexTerms(query: string, limit = DEFAULT_LIMIT): Promise<ICD10IndexMatch[]> {
+  await loadData();
+
+  const queries = [query];
+  const translation = translateQuery(query);
+  if (translation.wasTranslated && translation.medicalTerm) queries.push(translation.medicalTerm);
+
+  const best = new Map<string, ICD10IndexMatch>();
+  for (const q of queries) {
+    const words = tokenize(q);
+    if (words.length === 0) continue;
+
+    for (const entry of entries) {
+      const score = scoreEntry(entry, words);
+      if (score <= 0) continue;
+      const key = entry.path.join('\u0000');
+      const existing = best.get(key);
+      if (!existing || existing.score < score) {
+        best.set(key, { path: entry.path, term: entry.term, score });
+      }
+    }
+  }
+
+  return [...best.values()]
+    .sort((a, b) => b.score - a.score || a.path.join(', ').localeCompare(b.path.join(', ')))
+    .slice(0, limit);
+}
+
+/**
+ * Gets an Index entry by its path of titles (main term first).
+ * The main term may be given by its first word ("Hypertension").
+ */
+export async function getIndexTerm(path: string[]): Promise<ICD10IndexTerm | null> {
+  await loadData();
+  if (path.length === 0) return null;
+
+  let node = findMainTerm(path[0]);
+  for (const title of path.slice(1)) {
+    node = node?.subterms?.find(sub => sub.title === title);
+  }
+  return node ?? null;
+}
+
+/**
+ * Resolves a see / see also reference to the full path of the target entry
+ * (main term title expanded), or null if the target isn't in the Index.
+ *
+ * @example
+ * await resolveIndexReference(["Hypertension", "heart"])
+ * // → ["Hypertension, hypertensive", "heart"]
+ */
+export async function resolveIndexReference(reference: string[]): Promise<string[] | null> {
+  await loadData();
+  const main = findMainTerm(reference[0]);
+  if (!main) return null;
+  const path = [main.title, ...reference.slice(1)];
+  return (await getIndexTerm(path)) ? path : null;
+}
+
+/**
+ * Lists all main terms (A–Z) for browsing.
+ */
+export async function getIndexMainTerms(): Promise<ICD10IndexTerm[]> {
+  await loadData();
+  return mainTerms;
+}
+
+/**
+ * Verifies an Index code against the Tabular List. The Index only points
+ * the way; the Tabular List decides whether the code is billable, needs
+ * more characters or a 7th character.
+ *
+ * @example
+ * await verifyIndexCode("E11.21")  // → complete: true,  validation.status: 'billable'
+ * await verifyIndexCode("S93.40-") // → complete: false, validation.status: 'header'
+ */
+export async function verifyIndexCode(indexCode: string): Promise<IndexCodeVerification> {
+  const complete = !indexCode.endsWith('-');
+  const code = indexCode.replace(/\.?-$/, '');
+  const validation = await validateIcd10Code(code);
+  return { indexCode, complete, validation };
+}
@@ -0,0 +1,92 @@
+/**
+ * ICD-10-CM Instructional Note Checks
+ * ===================================
+ *
+ * Helpers for working with Tabular List instructional notes loaded by
+ * icd10cmLocalData.ts. The main job is catching Excludes1 conflicts —
+ * two codes that the Tabular List says must never be reported together
+ * (e.g., E10.9 Type 1 and E11.9 Type 2 diabetes).
+ *
+ * Note references use Tabular notation, which this module understands:
+ * - "E10.-"     → every code in category E10
+ * - "O24.4-"    → every code in subcategory O24.4
+ * - "K85-K86"   → every code in categories K85 through K86
+ * - "N18.1-N18.4" → N18.1, N18.2, N18.3 (and children), N18.4
+ * - "R73.9"     → R73.9 and anything below it
+ *
+ * @example Usage:
+ * import { findExcludes1Conflicts } from './icd10Notes';
+ *
+ * const conflicts = await findExcludes1Conflicts(["E11.9", "E10.9", "I10"]);
+ * // → [{ code: "E10.9", excludedCode: "E11.9", note: {...} }, ...]
+ */
+
+import { Excludes1Conflict } from '../types/icd';
+import { getLocalInstructionalNotes } from './icd10cmLocalData';
+
+// =============================================================================
+// Reference Matching
+// =============================================================================
+
+function normalize(code: string): string {
+  return code.trim().toUpperCase().replace('.', '');
+}
+
+/**
+ * Checks whether a code is covered by a Tabular note reference.
+ *
+ * @example
+ * codeMatchesReference("E10.9", "E10.-")       // → true
+ * codeMatchesReference("K86.1", "K85-K86")     // → true
+ * codeMatchesReference("N18.5", "N18.1-N18.4") // → false
+ * codeMatchesReference("R73.9", "R73.9")       // → true
+ */
+export function codeMatchesReference(code: string, reference: string): boolean {
+  const target = normalize(code);
+  // "E10.-" / "O24.4-" → prefix match on what's left
+  const ref = reference.trim().replace(/\.?-$/, '');
+
+  if (ref.includes('-')) {
+    const [start, end] = ref.split('-').map(normalize);
+    const len = Math.max(start.length, end.length);
+    const prefix = target.substring(0, len);
+    return prefix.length === len && prefix >= start && prefix <= end;
+  }
+
+  return target.startsWith(normalize(ref));
+}
+
+// =============================================================================
+// Excludes1 Conflicts
+// =============================================================================
+
+/**
+ * Finds every Excludes1 conflict among a set of codes (favorites, an
+ * encounter, codes being compared). A pair is reported once per direction
+ * that has a matching note, so E10.9 + E11.9 yields two entries.
+ *
+ * Codes without local notes (not in the bundled data set and no ancestor
+ * with notes) are simply never the source of a conflict.
+ */
+export async function findExcludes1Conflicts(codes: string[]): Promise<Excludes1Conflict[]> {
+  const unique = [...new Set(codes.map(c => c.trim().toUpperCase()))].filter(Boolean);
+  if (unique.length < 2) return [];
+
+  const notesByCode = await Promise.all(unique.map(code => getLocalInstructionalNotes(code)));
+  const conflicts: Excludes1Conflict[] = [];
+
+  unique.forEach((code, i) => {
+    const excludes1 = notesByCode[i]?.excludes1 ?? [];
+    for (const other of unique) {
+      // Same category never conflicts with itself (E11.9 vs E11.65)
+      if (other === code || normalize(other).substring(0, 3) === normalize(code).substring(0, 3)) continue;
+
+      const note = excludes1.find(entry => entry.codes.some(ref => codeMatchesReference(other, ref)));
+      if (note) {
+        conflicts.push({ code, excludedCode: other, note });
+      }
+    }
+  });
+
+  return conflicts;
+}
@@ -0,0 +1,216 @@
+/**
+ * ICD-10-CM Code Validation
+ * =========================
+ *
+ * Answers "can this code go on a claim for fiscal year X?" using the local
+ * ICD-10-CM code set, instead of guessing from the string like
+ * isSpecificCode() in api.ts does.
+ *
+ * Why string length isn't enough:
+ * - I10 (3 characters) is billable, but E11 (3 characters) is a header
+ * - E11.6 has a dot but is still a header (E11.65, E11.69, ...)
+ * - S93.401 looks complete but needs a 7th character (S93.401A)
+ * - T78.40 needs a placeholder "X" before the 7th character (T78.40XA)
+ *
+ * 7th Character Rules:
+ * - Some categories (mostly S and T injury codes) require a 7th character,
+ *   e.g., A = initial encounter, D = subsequent encounter, S = sequela
+ * - The 7th character must be in position 7, so shorter codes are padded
+ *   with the placeholder "X": T78.40 + A → T78.40XA
+ *
+ * @example Usage:
+ * import { validateIcd10Code, buildSeventhCharacterCode } from './icd10Validation';
+ *
+ * await validateIcd10Code("E11.9")    // → status: 'billable'
+ * await validateIcd10Code("E11")      // → status: 'header'
+ * await validateIcd10Code("S93.401")  // → status: 'needs_seventh'
+ * buildSeventhCharacterCode("T78.40", "A") // → "T78.40XA"
+ */
+
+import { CodeValidationResult, SeventhCharacterOption } from '../types/icd';
+import {
+  lookupLocalIcd10,
+  getLocalCodeFamily,
+  getLocalSeventhCharacters,
+  CURRENT_ICD10_FISCAL_YEAR,
+  ICD10_FISCAL_YEARS,
+} from './icd10cmLocalData';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Placeholder character used to pad codes to 6 characters */
+export const PLACEHOLDER_CHARACTER = 'X';
+
+/**
+ * Overall ICD-10-CM shape: letter, digit, alphanumeric, then up to 4 more
+ * alphanumerics after an optional dot.
+ */
+const ICD10_CM_PATTERN = /^[A-Z][0-9][0-9A-Z](\.?[0-9A-Z]{1,4})?$/;
+
+// =============================================================================
+// Formatting Helpers
+// =============================================================================
+
+/**
+ * Formats a code with the dot after the 3rd character.
+ *
+ * @example
+ * formatIcd10Code("s93401a") // → "S93.401A"
+ * formatIcd10Code("I10")     // → "I10"
+ */
+export function formatIcd10Code(code: string): string {
+  const compact = code.trim().toUpperCase().replace('.', '');
+  return compact.length > 3 ? `${compact.substring(0, 3)}.${compact.substring(3)}` : compact;
+}
+
+/**
+ * Builds a full code from a 6-or-fewer character code and a 7th character,
+ * inserting placeholder X's as needed.
+ *
+ * @example
+ * buildSeventhCharacterCode("S93.401", "A") // → "S93.401A"
+ * buildSeventhCharacterCode("T78.40", "A")  // → "T78.40XA"
+ * buildSeventhCharacterCode("S06.0X1", "D") // → "S06.0X1D"
+ */
+export function buildSeventhCharacterCode(baseCode: string, seventh: string): string {
+  const compact = baseCode.trim().toUpperCase().replace('.', '');
+  const padded = compact.padEnd(6, PLACEHOLDER_CHARACTER);
+  return formatIcd10Code(`${padded}${seventh.toUpperCase()}`);
+}
+
+/**
+ * Checks whether a code's category requires a 7th character.
+ */
+export async function requiresSeventhCharacter(code: string): Promise<boolean> {
+  return (await getLocalSeventhCharacters(code)) !== null;
+}
+
+// =============================================================================
+// Validation
+// =============================================================================
+
+function result(
+  code: string,
+  fiscalYear: number,
+  status: CodeValidationResult['status'],
+  message: string,
+  extra: Partial<CodeValidationResult> = {}
+): CodeValidationResult {
+  return { code, fiscalYear, status, billable: status === 'billable', message, ...extra };
+}
+
+/**
+ * Validates a code against the local code set for a fiscal year.
+ *
+ * @param code - Dotted or undotted code ("E11.9", "s93401a")
+ * @param fiscalYear - Fiscal year to check (default: the current year; any
+ *                     year in ICD10_FISCAL_YEARS is supported)
+ */
+export async function validateIcd10Code(code: string, fiscalYear?: number): Promise<CodeValidationResult> {
+  const formatted = formatIcd10Code(code);
+  const compact = formatted.replace('.', '');
+  const year = fiscalYear ?? CURRENT_ICD10_FISCAL_YEAR;
+  const label = `FY${year}`;
+
+  if (!ICD10_CM_PATTERN.test(formatted)) {
+    return result(formatted, year, 'invalid_format', 'Not a valid ICD-10-CM code format');
+  }
+
+  if (!ICD10_FISCAL_YEARS.includes(year)) {
+    return result(formatted, year, 'unsupported_year', `No local ICD-10-CM code set for ${label}`);
+  }
+
+  const seventhOptions = await getLocalSeventhCharacters(formatted);
+
+  // ── Code exists in the set as-is ──
+  const found = await lookupLocalIcd10(formatted, year);
+  if (found) {
+    if (found.billable) {
+      return result(formatted, year, 'billable', `Billable for ${label}`, { description: found.name });
+    }
+
+    const family = await getLocalCodeFamily(formatted, year);
+    const billableChildCount = family.filter(c => c.billable).length;
+    const hasChildren = family.some(c => c.code !== found.code);
+
+    if (!hasChildren && seventhOptions) {
+      return result(formatted, year, 'needs_seventh', 'Requires a 7th character to be billable', {
+        description: found.name,
+        seventhCharacterOptions: seventhOptions,
+      });
+    }
+
+    return result(
+      formatted, year, 'header',
+      seventhOptions
+        ? 'Header code — choose a more specific code, then add a 7th character'
+        : `Header code — ${billableChildCount} billable ${billableChildCount === 1 ? 'code' : 'codes'} below`,
+      { description: found.name, billableChildCount }
+    );
+  }
+
+  // ── 7-character code built from a leaf + 7th character ──
+  if (compact.length === 7 && seventhOptions) {
+    const seventh = compact.charAt(6);
+    const base = await findSeventhCharacterBase(compact.substring(0, 6), year);
+
+    if (base) {
+      const option = seventhOptions.find(o => o.char === seventh);
+      if (!option) {
+        return result(formatted, year, 'invalid_seventh', `"${seventh}" is not a valid 7th character for ${base.code}`, {
+          description: base.name,
+          baseCode: base.code,
+          seventhCharacterOptions: seventhOptions,
+        });
+      }
+      return result(formatted, year, 'billable', `Billable for ${label}`, {
+        description: `${base.name}, ${option.description}`,
+        baseCode: base.code,
+        seventhCharacter: option,
+      });
+    }
+  }
+
+  return result(formatted, year, 'not_found', `Not in the ICD-10-CM ${label} code set`);
+}
+
+/**
+ * Finds the leaf code a 6-character prefix was built from, stripping
+ * trailing placeholder X's ("T7840X" → T78.40). Returns null if the
+ * prefix isn't a leaf that takes a 7th character.
+ */
+async function findSeventhCharacterBase(
+  prefix: string,
+  fiscalYear: number
+): Promise<{ code: string; name: string } | null> {
+  let candidate = prefix;
+  while (candidate.length >= 3) {
+    const found = await lookupLocalIcd10(candidate, fiscalYear);
+    if (found) {
+      const family = await getLocalCodeFamily(found.code, fiscalYear);
+      return family.length === 1 ? found : null;
+    }
+    // Only trailing placeholders may be stripped
+    if (!candidate.endsWith(PLACEHOLDER_CHARACTER)) return null;
+    candidate = candidate.slice(0, -1);
+  }
+  return null;
+}
+
+/**
+ * Lists every billable code that can be built from a code needing a 7th
+ * character — handy for pick lists.
+ *
+ * @example
+ * await getSeventhCharacterCodes("T78.40")
+ * // → [{ code: "T78.40XA", option: { char: "A", ... } }, ...]
+ */
+export async function getSeventhCharacterCodes(
+  baseCode: string
+): Promise<{ code: string; option: SeventhCharacterOption }[]> {
+  const options = await getLocalSeventhCharacters(baseCode);
+  if (!options) return [];
+  return options.map(option => ({ code: buildSeventhCharacterCode(baseCode, option.char), option }));
+}
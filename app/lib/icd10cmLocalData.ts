@@ -0,0 +1,378 @@
+/**
+ * icd10cmLocalData.ts — Local ICD-10-CM data layer (offline code set)
+ *
+ * Mirrors hcpcsLocalData.ts for diagnosis codes. Loads a versioned static
+ * JSON file (public/data/icd10cm-fy2026.json) so search, lookup and related
+ * codes keep working when the ClinicalTables API is slow or unavailable.
+ *
+ * The bundled files are curated subsets of the CMS Tabular List, flagged
+ * "partial" so the UI labels them as such. The full code set can be
+ * imported from the CMS order file with scripts/import-icd10cm-order.mjs.
+ *
+ * Fiscal years:
+ * - One file per fiscal year (icd10cm-fy2022.json ... icd10cm-fy2026.json)
+ * - Functions default to the current year; lookups, families and the full
+ *   code list also accept a fiscalYear so code changes can be compared
+ *   (see icd10CodeChanges.ts)
+ *
+ * Source selection:
+ * - NEXT_PUBLIC_ICD10_SOURCE=local → local data is the primary source
+ * - Anything else (default)        → ClinicalTables first, local fallback
+ */
+
+import { ICD10Result, ICD10DataSource, ICD10InstructionalNotes, ICD10NoteType, SeventhCharacterOption } from '../types/icd';
+import { fetchStaticData } from './staticData';
+
+// ── Types for the raw JSON structure ──
+
+interface ICD10RawCode {
+  code: string;
+  desc: string;
+  billable: boolean;
+}
+
+interface ICD10DataFile {
+  version: string;
+  fiscalYear: number;
+  effectiveDate: string;
+  source: string;
+  /** True for a curated subset rather than the full CMS code set */
+  partial?: boolean;
+  totalCodes: number;
+  blocks: ICD10Block[];
+  notes?: Record<string, ICD10RawNotes>;
+  /** 7th character values by category/subcategory (e.g., "S93" → A/D/S) */
+  seventhCharacters?: Record<string, { char: string; desc: string }[]>;
+  /** Manifestation categories ("in diseases classified elsewhere") — never primary */
+  manifestations?: string[];
+  codes: ICD10RawCode[];
+}
+
+/** Notes as printed under one code: { excludes1: [{ text, codes }], ... } */
+type ICD10RawNotes = Partial<Record<ICD10NoteType, { text: string; codes?: string[] }[]>>;
+
+/**
+ * A Tabular List block (section) of three-character categories.
+ *
+ * @example { range: "E08-E13", name: "Diabetes mellitus" }
+ */
+export interface ICD10Block {
+  range: string;
+  name: string;
+}
+
+/** Version metadata for the loaded ICD-10-CM dataset (shown in the UI) */
+export interface ICD10DataVersion {
+  version: string;        // e.g., "FY2026"
+  fiscalYear: number;     // e.g., 2026
+  effectiveDate: string;  // e.g., "2025-10-01"
+  source: string;
+  totalCodes: number;
+  /** True when the bundled file is a curated subset, not the full code set */
+  partial: boolean;
+}
+
+/** A single code from the local dataset */
+export interface LocalICD10Code extends ICD10Result {
+  /** Whether the code is valid for claims (false = category/header) */
+  billable: boolean;
+}
+
+/** One loaded fiscal year */
+interface ICD10Dataset {
+  allCodes: ICD10RawCode[];
+  blocks: ICD10Block[];
+  notesMap: Map<string, ICD10RawNotes>;
+  seventhMap: Map<string, SeventhCharacterOption[]>;
+  manifestationPrefixes: string[];
+  /** Keyed without the dot so "E119" and "E11.9" both match */
+  codeMap: Map<string, ICD10RawCode>;
+  version: ICD10DataVersion;
+}
+
+// ── Configuration ──
+
+/** Fiscal year used when none is given (October 1, 2025 – September 30, 2026) */
+export const CURRENT_ICD10_FISCAL_YEAR = 2026;
+
+/** Fiscal years with a bundled data file, oldest first */
+export const ICD10_FISCAL_YEARS: readonly number[] = [2022, 2023, 2024, 2025, 2026];
+
+/** Path of the bundled data file for a fiscal year (served from /public) */
+function dataFilePath(fiscalYear: number): string {
+  return `/data/icd10cm-fy${fiscalYear}.json`;
+}
+
+// ── In-memory data store ──
+
+const datasets: Map<number, ICD10Dataset> = new Map();
+const loadPromises: Map<number, Promise<ICD10Dataset>> = new Map();
+
+// ── Data loading ──
+
+async function loadData(fiscalYear: number = CURRENT_ICD10_FISCAL_YEAR): Promise<ICD10Dataset> {
+  const loaded = datasets.get(fiscalYear);
+  if (loaded) return loaded;
+  const pending = loadPromises.get(fiscalYear);
+  if (pending) return pending;
+
+  if (!ICD10_FISCAL_YEARS.includes(fiscalYear)) {
+    throw new Error(`No local ICD-10-CM data for FY${fiscalYear}`);
+  }
+
+  const promise = (async () => {
+    try {
+      const response = await fetchStaticData(dataFilePath(fiscalYear));
+      if (!response.ok) throw new Error(`Failed to load ICD-10-CM FY${fiscalYear} data: ${response.status}`);
+
+      const data: ICD10DataFile = await response.json();
+      const dataset: ICD10Dataset = {
+        allCodes: data.codes,
+        blocks: data.blocks ?? [],
+        notesMap: new Map(
+          Object.entries(data.notes ?? {}).map(([code, notes]) => [normalizeCode(code), notes])
+        ),
+        seventhMap: new Map(
+          Object.entries(data.seventhCharacters ?? {}).map(([code, options]) => [
+            normalizeCode(code),
+            options.map(o => ({ char: o.char, description: o.desc })),
+          ])
+        ),
+        manifestationPrefixes: (data.manifestations ?? []).map(normalizeCode),
+        codeMap: new Map(data.codes.map(code => [normalizeCode(code.code), code])),
+        version: {
+          version: data.version,
+          fiscalYear: data.fiscalYear,
+          effectiveDate: data.effectiveDate,
+          source: data.source,
+          totalCodes: data.codes.length,
+          partial: data.partial === true,
+        },
+      };
+
+      datasets.set(fiscalYear, dataset);
+      return dataset;
+    } catch (err) {
+      console.error(`Failed to load ICD-10-CM FY${fiscalYear} local data:`, err);
+      throw err;
+    } finally {
+      loadPromises.delete(fiscalYear);
+    }
+  })();
+
+  loadPromises.set(fiscalYear, promise);
+  return promise;
+}
+
+// ── Helpers ──
+
+/**
+ * Normalizes a code for map lookups: uppercase, no dot, no whitespace.
+ *
+ * @example
+ * normalizeCode(" e11.9 ") // → "E119"
+ */
+function normalizeCode(code: string): string {
+  return code.trim().toUpperCase().replace('.', '');
+}
+
+/** Note types in Tabular print order */
+const NOTE_TYPES: ICD10NoteType[] = ['includes', 'excludes1', 'excludes2', 'codeFirst', 'useAdditionalCode'];
+
+/**
+ * Collects the notes printed under a code and every ancestor of it.
+ * Category-level notes (E11) apply to all codes below (E11.65), so they
+ * are listed first, followed by the more specific levels.
+ */
+function collectNotes(data: ICD10Dataset, code: string): ICD10InstructionalNotes | undefined {
+  const norm = normalizeCode(code);
+  const notes: ICD10InstructionalNotes = {
+    includes: [], excludes1: [], excludes2: [], codeFirst: [], useAdditionalCode: [],
+  };
+  let found = false;
+
+  for (let len = 3; len <= norm.length; len++) {
+    const levelNotes = data.notesMap.get(norm.substring(0, len));
+    if (!levelNotes) continue;
+    const fromCode = data.codeMap.get(norm.substring(0, len))?.code ?? norm.substring(0, len);
+
+    for (const type of NOTE_TYPES) {
+      for (const entry of levelNotes[type] ?? []) {
+        notes[type].push({ text: entry.text, codes: entry.codes ?? [], fromCode });
+        found = true;
+      }
+    }
+  }
+
+  return found ? notes : undefined;
+}
+
+function toLocalCode(data: ICD10Dataset, raw: ICD10RawCode): LocalICD10Code {
+  const notes = collectNotes(data, raw.code);
+  return {
+    code: raw.code,
+    name: raw.desc,
+    billable: raw.billable,
+    ...(notes && { notes }),
+  };
+}
+
+// ── Public API ──
+
+/**
+ * Which source searchICD10 should try first.
+ * Configured at build time via NEXT_PUBLIC_ICD10_SOURCE.
+ */
+export function getPrimaryIcd10Source(): ICD10DataSource {
+  return process.env.NEXT_PUBLIC_ICD10_SOURCE === 'local' ? 'local' : 'api';
+}
+
+/**
+ * Look up a single ICD-10-CM code. Accepts dotted or undotted input.
+ * Returns null if not found in that fiscal year.
+ */
+export async function lookupLocalIcd10(
+  code: string,
+  fiscalYear: number = CURRENT_ICD10_FISCAL_YEAR
+): Promise<LocalICD10Code | null> {
+  const data = await loadData(fiscalYear);
+  const raw = data.codeMap.get(normalizeCode(code));
+  if (!raw) return null;
+  return toLocalCode(data, raw);
+}
+
+/**
+ * Search ICD-10-CM codes by code or description text.
+ * Uses the same tiered scoring as searchLocalHcpcs, plus a
+ * "all words present" tier so multi-word queries still match.
+ */
+export async function searchLocalIcd10(query: string, maxResults: number = 150): Promise<LocalICD10Code[]> {
+  const data = await loadData();
+  const q = query.toLowerCase().trim();
+  if (!q) return [];
+
+  const qCode = normalizeCode(q);
+  const words = q.split(/\s+/).filter(w => w.length > 1);
+  const results: { raw: ICD10RawCode; score: number }[] = [];
+
+  for (const raw of data.allCodes) {
+    let score = 0;
+    const code = normalizeCode(raw.code);
+    const desc = raw.desc.toLowerCase();
+
+    // Exact code match = highest priority
+    if (code === qCode) {
+      score = 100;
+    }
+    // Code starts with query (e.g., "E11" → all E11.x codes)
+    else if (code.startsWith(qCode) && /^[a-z][0-9]/.test(q)) {
+      score = 80;
+    }
+    // Description starts with query
+    else if (desc.startsWith(q)) {
+      score = 60;
+    }
+    // Phrase match in description
+    else if (desc.includes(q)) {
+      score = 40;
+    }
+    // Every query word appears somewhere in the description
+    else if (words.length > 1 && words.every(w => desc.includes(w))) {
+      score = 30;
+    }
+
+    if (score > 0) {
+      // Boost billable codes slightly
+      if (raw.billable) score += 5;
+
+      results.push({ raw, score });
+    }
+  }
+
+  // Sort by score descending, then by code
+  results.sort((a, b) => b.score - a.score || a.raw.code.localeCompare(b.raw.code));
+
+  return results.slice(0, maxResults).map(r => toLocalCode(data, r.raw));
+}
+
+/**
+ * Get every code in a 3-character category family (e.g., "I21" → I21, I21.0, I21.01...).
+ * Used by getRelatedCodes when the API is unavailable.
+ */
+export async function getLocalCodeFamily(
+  parentCode: string,
+  fiscalYear: number = CURRENT_ICD10_FISCAL_YEAR
+): Promise<LocalICD10Code[]> {
+  const data = await loadData(fiscalYear);
+  const prefix = normalizeCode(parentCode);
+  return data.allCodes
+    .filter(raw => normalizeCode(raw.code).startsWith(prefix))
+    .map(raw => toLocalCode(data, raw));
+}
+
+/**
+ * Get every code in a fiscal year's dataset, in Tabular order.
+ */
+export async function getLocalCodes(fiscalYear: number = CURRENT_ICD10_FISCAL_YEAR): Promise<LocalICD10Code[]> {
+  const data = await loadData(fiscalYear);
+  return data.allCodes.map(raw => toLocalCode(data, raw));
+}
+
+/**
+ * Get the Tabular List blocks (e.g., "E08-E13 Diabetes mellitus").
+ */
+export async function getLocalBlocks(): Promise<ICD10Block[]> {
+  const data = await loadData();
+  return data.blocks;
+}
+
+/**
+ * Get the instructional notes that apply to a code (own + inherited).
+ * Works for codes not in the data set too (e.g., "E11.649" from the API)
+ * as long as an ancestor has notes. Returns null if nothing applies.
+ */
+export async function getLocalInstructionalNotes(code: string): Promise<ICD10InstructionalNotes | null> {
+  const data = await loadData();
+  return collectNotes(data, code) ?? null;
+}
+
+/**
+ * Get the 7th character values required by a code's category, or null if
+ * the category doesn't use a 7th character. The most specific definition
+ * wins (a subcategory can override its category).
+ *
+ * @example
+ * await getLocalSeventhCharacters("S93.401") // → [{ char: "A", ... }, { char: "D", ... }, { char: "S", ... }]
+ * await getLocalSeventhCharacters("E11.9")   // → null
+ */
+export async function getLocalSeventhCharacters(code: string): Promise<SeventhCharacterOption[] | null> {
+  const data = await loadData();
+  const norm = normalizeCode(code);
+  for (let len = Math.min(norm.length, 6); len >= 3; len--) {
+    const options = data.seventhMap.get(norm.substring(0, len));
+    if (options) return options;
+  }
+  return null;
+}
+
+/**
+ * Check whether a code is a manifestation code (printed in italics in the
+ * Tabular List, e.g., F02.80 Dementia in other diseases classified elsewhere).
+ * Manifestation codes must follow their underlying etiology and can never
+ * be the primary diagnosis.
+ */
+export async function isLocalManifestationCode(code: string): Promise<boolean> {
+  const data = await loadData();
+  const norm = normalizeCode(code);
+  return data.manifestationPrefixes.some(prefix => norm.startsWith(prefix));
+}
+
+/**
+ * Get the dataset version (fiscal year, effective date, code count).
+ */
+export async function getIcd10DataVersion(
+  fiscalYear: number = CURRENT_ICD10_FISCAL_YEAR
+): Promise<ICD10DataVersion> {
+  const data = await loadData(fiscalYear);
+  return data.version;
+}
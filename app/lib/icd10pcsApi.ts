@@ -16,7 +16,8 @@
  * @module icd10pcsApi
  */
 
-import { ProcedureResult, CachedProcedures } from '../types/icd';
+import { ProcedureResult } from '../types/icd';
+import { createCache, CacheStats } from './cache';
 
 // ============================================================
 // Constants
@@ -27,6 +28,9 @@ const ICD10PCS_API_BASE = 'https://clinicaltables.nlm.nih.gov/api/icd10pcs/v3/se
 /** Cache ICD-10-PCS results for 24 hours */
 const ICD10PCS_CACHE_TTL = 24 * 60 * 60 * 1000;
 
+/** Maximum cached queries */
+const ICD10PCS_CACHE_MAX_SIZE = 1000;
+
 /** Maximum results to fetch per query */
 const MAX_RESULTS = 50;
 
@@ -37,11 +41,10 @@ const REQUEST_TIMEOUT = 5000;
 // Cache
 // ============================================================
 
-const pcsCache = new Map<string, CachedProcedures>();
-
-function isCacheValid(cached: CachedProcedures): boolean {
-  return Date.now() - cached.timestamp < ICD10PCS_CACHE_TTL;
-}
+const pcsCache = createCache<ProcedureResult[]>('icd10pcs-search', {
+  ttlMs: ICD10PCS_CACHE_TTL,
+  maxEntries: ICD10PCS_CACHE_MAX_SIZE,
+});
 
 // ============================================================
 // API Functions
@@ -72,9 +75,9 @@ export async function searchIcd10Pcs(
   const cacheKey = `pcs:${query.toLowerCase().trim()}:${maxResults}`;
 
   // Check cache first
-  const cached = pcsCache.get(cacheKey);
-  if (cached && isCacheValid(cached)) {
-    return cached.data;
+  const cached = await pcsCache.get(cacheKey);
+  if (cached) {
+    return cached;
   }
 
   try {
@@ -106,7 +109,7 @@ export async function searchIcd10Pcs(
 
     if (totalCount === 0 || codes.length === 0) {
       // Negative caching
-      pcsCache.set(cacheKey, { data: [], timestamp: Date.now() });
+      await pcsCache.set(cacheKey, []);
       return [];
     }
 
@@ -127,7 +130,7 @@ export async function searchIcd10Pcs(
     });
 
     // Cache results
-    pcsCache.set(cacheKey, { data: results, timestamp: Date.now() });
+    await pcsCache.set(cacheKey, results);
 
     return results;
   } catch (error) {
@@ -186,7 +189,7 @@ export async function lookupIcd10PcsCode(code: string): Promise<ProcedureResult
  * - H: Substance Abuse Treatment
  * - X: New Technology
  */
-function categorizeIcd10PcsCode(code: string): 'diagnostic' | 'therapeutic' | 'monitoring' | 'equipment' | 'other' {
+export function categorizeIcd10PcsCode(code: string): 'diagnostic' | 'therapeutic' | 'monitoring' | 'equipment' | 'other' {
   if (!code || code.length === 0) return 'other';
 
   const section = code.charAt(0).toUpperCase();
@@ -229,14 +232,11 @@ function categorizeIcd10PcsCode(code: string): 'diagnostic' | 'therapeutic' | 'm
 // ============================================================
 
 /** Clear the entire ICD-10-PCS cache */
-export function clearIcd10PcsCache(): void {
-  pcsCache.clear();
+export async function clearIcd10PcsCache(): Promise<void> {
+  await pcsCache.clear();
 }
 
 /** Get cache statistics for debugging */
-export function getIcd10PcsCacheStats(): { size: number; entries: string[] } {
-  return {
-    size: pcsCache.size,
-    entries: Array.from(pcsCache.keys()),
-  };
+export function getIcd10PcsCacheStats(): Promise<CacheStats> {
+  return pcsCache.stats();
 }
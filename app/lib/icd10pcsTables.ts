@@ -0,0 +1,450 @@
+/**
+ * icd10pcsTables.ts — Local ICD-10-PCS tables for building codes axis by axis
+ *
+ * searchIcd10Pcs (icd10pcsApi.ts) finds codes by text. Inpatient coders
+ * build them instead: each PCS table fixes the first three characters
+ * (section, body system, root operation) and lists rows of values valid
+ * together for characters 4-7. This module loads a copy of those tables
+ * (public/data/icd10pcs-tables-fy2026.json) and answers, for the
+ * characters picked so far, which values are valid next.
+ *
+ * The bundled file is a curated subset of the CMS FY2026 tables. A full
+ * export of icd10pcs_tables_2026.xml can be dropped in as long as it keeps
+ * the same shape: one entry per <pcsTable>, one row per <pcsRow>.
+ *
+ * Characters 1-3 are picked from the tables that exist; characters 4-7
+ * only from rows that still match everything picked after character 3, so
+ * every finished code is valid in the tables.
+ *
+ * decodePcsCode() goes the other way: it explains an entered code one
+ * character at a time and points at the first character that doesn't fit.
+ * Codes from tables outside the subset get their section decoded and a
+ * description from ClinicalTables (lookupIcd10PcsCode).
+ */
+
+import {
+  PcsAxisOptions,
+  PcsAxisValue,
+  PcsBuiltCode,
+  PcsDecodedCharacter,
+  PcsDecodeResult,
+  PcsDecodeStatus,
+  PcsRootOperation,
+  ProcedureResult,
+} from '../types/icd';
+import { categorizeIcd10PcsCode, lookupIcd10PcsCode } from './icd10pcsApi';
+import { fetchStaticData } from './staticData';
+
+// ── Types for the raw JSON structure ──
+
+/** [code, label], e.g. ["4", "Percutaneous Endoscopic"] */
+type PcsRawValue = [string, string];
+
+interface PcsRawSection {
+  code: string;
+  label: string;
+  /** Titles of the seven axes in this section ("Body Part", "Substance", ...) */
+  axisTitles: string[];
+}
+
+interface PcsRawTable {
+  /** Characters 1-3 */
+  code: string;
+  bodySystem: string;
+  operation: string;
+  definition: string;
+  examples?: string;
+  /** Values for characters 4-7, valid in any combination within a row */
+  rows: Array<{ values: [PcsRawValue[], PcsRawValue[], PcsRawValue[], PcsRawValue[]] }>;
+}
+
+interface PcsTablesFile {
+  version: string;
+  fiscalYear: number;
+  effectiveDate: string;
+  source: string;
+  totalTables: number;
+  totalCodes: number;
+  sections: PcsRawSection[];
+  tables: PcsRawTable[];
+}
+
+/** Version metadata for the loaded tables (shown in the builder) */
+export interface PcsTablesVersion {
+  version: string;
+  fiscalYear: number;
+  effectiveDate: string;
+  source: string;
+  totalTables: number;
+  totalCodes: number;
+}
+
+// ── Configuration ──
+
+const DATA_PATH = '/data/icd10pcs-tables-fy2026.json';
+
+/** ICD-10-PCS codes are always seven characters */
+export const PCS_CODE_LENGTH = 7;
+
+/** Digits and letters, except I and O (too easily read as 1 and 0) */
+const PCS_CHARACTER = /^[0-9A-HJ-NP-Z]$/;
+
+// ── In-memory data store ──
+
+let sections: Map<string, PcsRawSection> = new Map();
+let tables: Map<string, PcsRawTable> = new Map();
+let version: PcsTablesVersion | null = null;
+let loadPromise: Promise<void> | null = null;
+
+// ── Data loading ──
+
+async function loadData(): Promise<void> {
+  if (version) return;
+  if (loadPromise) return loadPromise;
+
+  loadPromise = (async () => {
+    try {
+      const response = await fetchStaticData(DATA_PATH);
+      if (!response.ok) throw new Error(`Failed to load ICD-10-PCS tables: ${response.status}`);
+
+      const data: PcsTablesFile = await response.json();
+      sections = new Map(data.sections.map(section => [section.code, section]));
+      tables = new Map(data.tables.map(table => [table.code, table]));
+      version = {
+        version: data.version,
+        fiscalYear: data.fiscalYear,
+        effectiveDate: data.effectiveDate,
+        source: data.source,
+        totalTables: data.tables.length,
+        totalCodes: data.totalCodes,
+      };
+    } catch (err) {
+      console.error('Failed to load ICD-10-PCS tables:', err);
+      loadPromise = null;
+      throw err;
+    }
+  })();
+
+  return loadPromise;
+}
+
+// ── Helpers ──
+
+function toValue([code, label]: PcsRawValue): PcsAxisValue {
+  return { code, label };
+}
+
+/** Adds values not yet listed, keeping table order */
+function addUnique(target: PcsAxisValue[], values: PcsAxisValue[]): void {
+  for (const value of values) {
+    if (!target.some(existing => existing.code === value.code)) target.push(value);
+  }
+}
+
+/** Rows of a table whose values match the picked characters 4 onwards */
+function matchingRows(table: PcsRawTable, picked: string): PcsRawTable['rows'] {
+  const tail = picked.slice(3);
+  return table.rows.filter(row =>
+    [...tail].every((char, index) => row.values[index].some(([code]) => code === char))
+  );
+}
+
+function toRootOperation(table: PcsRawTable): PcsRootOperation {
+  return {
+    table: table.code,
+    bodySystem: table.bodySystem,
+    label: table.operation,
+    definition: table.definition,
+    ...(table.examples ? { examples: table.examples } : {}),
+  };
+}
+
+/** Removes spaces and a "PCS:" / "ICD-10-PCS:" prefix the user typed */
+function normalizePcsCode(code: string): string {
+  return code.trim().replace(/^(icd-?10-?)?pcs[:\s]\s*/i, '').toUpperCase();
+}
+
+/** "No Device", "No Qualifier", "None": values left out of descriptions */
+function isEmptyValue(value: PcsAxisValue): boolean {
+  return value.code === 'Z' && (value.label === 'None' || value.label.startsWith('No '));
+}
+
+/**
+ * Plain-English description from the axis labels. Worded like the CMS long
+ * titles for common codes, but not guaranteed to match them word for word.
+ */
+function describeCode(section: string, axes: PcsAxisValue[]): string {
+  const [, , operation, fourth, fifth, sixth, seventh] = axes;
+  const optional = (value: PcsAxisValue, text: string) => (isEmptyValue(value) ? '' : text);
+
+  switch (section) {
+    case '0': // Body Part, Approach, Device, Qualifier
+      if (operation.code === 'H') {
+        // Insertion puts the device into the body part
+        return `${operation.label} of ${sixth.label} into ${fourth.label}, ${fifth.label} Approach` +
+          optional(seventh, `, ${seventh.label}`);
+      }
+      return `${operation.label} of ${fourth.label}` +
+        optional(sixth, ` with ${sixth.label}`) +
+        `, ${fifth.label} Approach` +
+        optional(seventh, `, ${seventh.label}`);
+    case '3': // Body System / Region, Approach, Substance, Qualifier
+      return `${operation.label} of ${isEmptyValue(seventh) ? sixth.label : seventh.label} into ${fourth.label}, ${fifth.label} Approach`;
+    case '4': // Body System, Approach, Function / Device, Qualifier
+      return `${operation.label} of ${fourth.label} ${sixth.label}, ${fifth.label} Approach` +
+        optional(seventh, `, ${seventh.label}`);
+    case '5': // Body System, Duration, Function, Qualifier
+      return `${operation.label} of ${fourth.label} ${sixth.label}, ${fifth.label}`;
+    case 'B': // Body Part, Contrast, Qualifier, Qualifier
+      return `${operation.label} of ${fourth.label}` +
+        optional(fifth, ` using ${fifth.label}${fifth.label.endsWith('Contrast') ? '' : ' Contrast'}`) +
+        optional(sixth, `, ${sixth.label}`) +
+        optional(seventh, `, ${seventh.label}`);
+    default: // Type, then qualifiers
+      return [operation, fourth, fifth, sixth, seventh]
+        .filter(value => !isEmptyValue(value))
+        .map(value => value.label)
+        .join(', ');
+  }
+}
+
+// ── Public API ──
+
+/**
+ * Lists the values valid at the next position after the picked characters.
+ *
+ * @param picked - Characters picked so far (0-6 characters, e.g. "0DT")
+ * @returns The next axis and its values, or null when the prefix isn't in
+ *          the tables or is already a full code
+ *
+ * @example
+ * const next = await getPcsAxisOptions('0DTJ');
+ * // → { position: 5, title: "Approach", values: [{ code: "0", label: "Open" }, { code: "4", ... }, ...] }
+ */
+export async function getPcsAxisOptions(picked: string): Promise<PcsAxisOptions | null> {
+  await loadData();
+  const prefix = picked.trim().toUpperCase();
+  if (prefix.length >= PCS_CODE_LENGTH) return null;
+
+  const position = prefix.length + 1;
+  const values: PcsAxisValue[] = [];
+
+  if (position === 1) {
+    const used = new Set([...tables.keys()].map(code => code[0]));
+    for (const section of sections.values()) {
+      if (used.has(section.code)) values.push({ code: section.code, label: section.label });
+    }
+    return { position, title: 'Section', values };
+  }
+
+  const section = sections.get(prefix[0]);
+  if (!section) return null;
+  const title = section.axisTitles[position - 1];
+
+  if (position <= 3) {
+    // Characters 2-3 come from the tables under the prefix
+    for (const table of tables.values()) {
+      if (!table.code.startsWith(prefix)) continue;
+      const char = table.code[position - 1];
+      addUnique(values, [{ code: char, label: position === 2 ? table.bodySystem : table.operation }]);
+    }
+    values.sort((a, b) => a.code.localeCompare(b.code));
+    return values.length > 0 ? { position, title, values } : null;
+  }
+
+  const table = tables.get(prefix.slice(0, 3));
+  if (!table) return null;
+  for (const row of matchingRows(table, prefix)) {
+    addUnique(values, row.values[position - 4].map(toValue));
+  }
+  return values.length > 0 ? { position, title, values } : null;
+}
+
+/**
+ * Gets the root operation (or type) of a table with its definition.
+ *
+ * @param picked - At least the first three characters of a code
+ * @returns The table's operation, or null when there is no such table
+ *
+ * @example
+ * const operation = await getPcsRootOperation('0DTJ4ZZ');
+ * // → { table: "0DT", label: "Resection", definition: "Cutting out or off, without replacement, all of a body part", ... }
+ */
+export async function getPcsRootOperation(picked: string): Promise<PcsRootOperation | null> {
+  await loadData();
+  const table = tables.get(picked.trim().toUpperCase().slice(0, 3));
+  return table ? toRootOperation(table) : null;
+}
+
+/**
+ * Spells out a full code axis by axis, checking it against the tables.
+ *
+ * @param code - 7-character ICD-10-PCS code
+ * @returns The built code, or null if it isn't valid in the loaded tables
+ *
+ * @example
+ * const built = await buildPcsCode('0DTJ4ZZ');
+ * // → { code: "0DTJ4ZZ", description: "Resection of Appendix, Percutaneous Endoscopic Approach", axes: [...], operation: {...} }
+ */
+export async function buildPcsCode(code: string): Promise<PcsBuiltCode | null> {
+  await loadData();
+  const normalized = code.trim().toUpperCase();
+  if (normalized.length !== PCS_CODE_LENGTH) return null;
+
+  const section = sections.get(normalized[0]);
+  const table = tables.get(normalized.slice(0, 3));
+  if (!section || !table) return null;
+
+  const row = matchingRows(table, normalized)[0];
+  if (!row) return null;
+
+  const values: PcsAxisValue[] = [
+    { code: section.code, label: section.label },
+    { code: normalized[1], label: table.bodySystem },
+    { code: normalized[2], label: table.operation },
+    ...row.values.map((axis, index) => toValue(axis.find(([char]) => char === normalized[index + 3]) as PcsRawValue)),
+  ];
+
+  return {
+    code: normalized,
+    description: describeCode(section.code, values),
+    axes: values.map((value, index) => ({ ...value, position: index + 1, title: section.axisTitles[index] })),
+    operation: toRootOperation(table),
+  };
+}
+
+/**
+ * Turns a built code into a procedure for the procedures section.
+ * PCS codes are inpatient only; the relevance score is left unscored.
+ */
+export function pcsCodeToProcedure(built: PcsBuiltCode): ProcedureResult {
+  return {
+    code: built.code,
+    codeSystem: 'ICD10PCS',
+    description: built.description,
+    category: categorizeIcd10PcsCode(built.code),
+    relevanceScore: -1,
+    source: 'pcs_builder',
+    clinicalRationale: `${built.operation.label}: ${built.operation.definition}`,
+    setting: 'inpatient',
+  };
+}
+
+/** Version of the loaded tables, or null before the first lookup */
+export function getPcsTablesVersion(): PcsTablesVersion | null {
+  return version;
+}
+
+/**
+ * Explains an entered code character by character.
+ *
+ * Every character is checked against the axis it sits on, and characters
+ * 4-7 also against the table rows that are still possible with the
+ * characters before them, so "Appendix, External Approach" is flagged at
+ * the approach. Checking stops at the first invalid character.
+ *
+ * @param input - Code as typed ("0DTJ4ZZ", "pcs: 0dtj4zz")
+ * @param options.describeUnbundled - Look up codes whose table isn't
+ *        bundled on ClinicalTables (default true; off for batch lookups)
+ * @returns Status, description and one entry per character
+ *
+ * @example
+ * const decoded = await decodePcsCode('0DTJ4ZZ');
+ * // decoded.characters → [{ position: 1, code: "0", title: "Section", label: "Medical and Surgical", status: "valid" }, ...]
+ * // decoded.description → "Resection of Appendix, Percutaneous Endoscopic Approach"
+ */
+export async function decodePcsCode(
+  input: string,
+  options: { describeUnbundled?: boolean } = {}
+): Promise<PcsDecodeResult> {
+  await loadData();
+  const code = normalizePcsCode(input);
+  const section = sections.get(code[0]);
+  const table = tables.get(code.slice(0, 3));
+
+  const characters: PcsDecodedCharacter[] = [...code.slice(0, PCS_CODE_LENGTH)].map((char, index) => ({
+    position: index + 1,
+    code: char,
+    title: section?.axisTitles[index] ?? null,
+    label: null,
+    status: 'unchecked',
+  }));
+  const mark = (index: number, update: Partial<PcsDecodedCharacter>) => {
+    characters[index] = { ...characters[index], ...update };
+  };
+  const result = (status: PcsDecodeStatus, message: string, description: string | null = null): PcsDecodeResult => ({
+    code,
+    status,
+    description,
+    characters,
+    operation: table ? toRootOperation(table) : null,
+    message,
+  });
+
+  if (code.length !== PCS_CODE_LENGTH) {
+    return result('invalid', `ICD-10-PCS codes are ${PCS_CODE_LENGTH} characters; ${code || 'the code'} has ${code.length}`);
+  }
+
+  const badIndex = [...code].findIndex(char => !PCS_CHARACTER.test(char));
+  if (badIndex >= 0) {
+    mark(badIndex, { status: 'invalid', message: `${code[badIndex]} is not used in ICD-10-PCS (no I or O, no punctuation)` });
+    return result('invalid', `Character ${badIndex + 1} is not an ICD-10-PCS character`);
+  }
+
+  if (!section) {
+    mark(0, { status: 'invalid', message: `${code[0]} is not an ICD-10-PCS section` });
+    return result('invalid', `${code[0]} is not an ICD-10-PCS section`);
+  }
+  mark(0, { label: section.label, status: 'valid' });
+
+  if (!table) {
+    // Another bundled table may still name the body system
+    const sameSystem = [...tables.values()].find(other => other.code.startsWith(code.slice(0, 2)));
+    if (sameSystem) mark(1, { label: sameSystem.bodySystem, status: 'valid' });
+
+    const notBundled = `Table ${code.slice(0, 3)} isn't in the bundled PCS tables`;
+    if (options.describeUnbundled === false) return result('not_bundled', notBundled);
+
+    const found = await lookupIcd10PcsCode(code);
+    return result(
+      'not_bundled',
+      found
+        ? `${notBundled}, so characters ${sameSystem ? 3 : 2}-7 aren't broken down`
+        : `${notBundled} and the code could not be confirmed on ClinicalTables`,
+      found?.description ?? null
+    );
+  }
+  mark(1, { label: table.bodySystem, status: 'valid' });
+  mark(2, { label: table.operation, status: 'valid' });
+
+  for (let index = 3; index < PCS_CODE_LENGTH; index++) {
+    const char = code[index];
+    const title = section.axisTitles[index];
+    const axis = index - 3;
+    const match = matchingRows(table, code.slice(0, index))
+      .flatMap(row => row.values[axis])
+      .find(([value]) => value === char);
+    if (match) {
+      mark(index, { label: match[1], status: 'valid' });
+      continue;
+    }
+
+    // A value of this axis in another row is a combination problem
+    const elsewhere = table.rows.flatMap(row => row.values[axis]).find(([value]) => value === char);
+    const before = characters
+      .slice(3, index)
+      .map(character => `${character.title} "${character.label}"`)
+      .join(' and ');
+    mark(index, {
+      label: elsewhere?.[1] ?? null,
+      status: 'invalid',
+      message: elsewhere
+        ? `Not valid with ${before}`
+        : `${char} is not a value of the ${title} axis in table ${table.code}`,
+    });
+    return result('invalid', `Character ${index + 1} (${title}) is not valid in table ${table.code}`);
+  }
+
+  const values = characters.map(character => ({ code: character.code, label: character.label ?? '' }));
+  return result('valid', `Valid in the ICD-10-PCS tables (${table.code} ${table.operation})`, describeCode(section.code, values));
+}
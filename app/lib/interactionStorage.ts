@@ -0,0 +1,135 @@
+/**
+ * Interaction List Storage Utilities
+ * ==================================
+ *
+ * localStorage operations for the drug interaction checker, following the
+ * same pattern as encounterStorage.ts. Drugs are collected from DrugCards
+ * under any number of ResultCards (e.g. diabetes + hypertension) and then
+ * checked pairwise on /interactions.
+ *
+ * Every save broadcasts INTERACTION_LIST_CHANGED_EVENT on window; the
+ * useInteractionList hook listens for it to keep all cards in sync.
+ *
+ * Storage keys:
+ * - 'drug-interaction-list': InteractionListDrug[]
+ */
+
+import { DrugResult, InteractionListDrug } from '../types/icd';
+import { getEncounterItemKey } from './encounterStorage';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** localStorage key for the interaction check list */
+export const INTERACTION_LIST_KEY = 'drug-interaction-list';
+
+/** Window event fired after every save */
+export const INTERACTION_LIST_CHANGED_EVENT = 'interaction-list-changed';
+
+/** Upper bound on the list (20 drugs = 190 pairs) */
+export const MAX_INTERACTION_DRUGS = 20;
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/** Stable key for a drug — same identity the encounter builder uses */
+export function getInteractionDrugKey(drug: DrugResult): string {
+  return getEncounterItemKey({ kind: 'drug', item: drug });
+}
+
+/**
+ * Keeps only what the checker needs from a DrugResult.
+ *
+ * @param condition - The ResultCard the drug was added from
+ */
+export function toInteractionListDrug(
+  drug: DrugResult,
+  condition?: { code: string; name: string }
+): InteractionListDrug {
+  return {
+    key: getInteractionDrugKey(drug),
+    brandName: drug.brandName,
+    genericName: drug.genericName,
+    ...(drug.rxcui && { rxcui: drug.rxcui }),
+    ...(drug.ingredients && { ingredients: drug.ingredients }),
+    ...(condition && { condition }),
+  };
+}
+
+// =============================================================================
+// List Functions
+// =============================================================================
+
+/**
+ * Retrieves the interaction list from localStorage.
+ *
+ * @returns The stored drugs, or [] if none/invalid
+ */
+export function getInteractionList(): InteractionListDrug[] {
+  try {
+    const stored = localStorage.getItem(INTERACTION_LIST_KEY);
+    if (!stored) return [];
+
+    const parsed = JSON.parse(stored);
+    if (!Array.isArray(parsed)) return [];
+    return parsed.filter(
+      (d): d is InteractionListDrug => typeof d?.key === 'string' && typeof d?.genericName === 'string'
+    );
+  } catch (error) {
+    // localStorage might not be available (SSR, private browsing, etc.)
+    console.warn('Failed to load interaction list:', error);
+    return [];
+  }
+}
+
+/**
+ * Saves the interaction list and notifies listeners.
+ *
+ * @returns The saved list
+ */
+export function saveInteractionList(drugs: InteractionListDrug[]): InteractionListDrug[] {
+  try {
+    localStorage.setItem(INTERACTION_LIST_KEY, JSON.stringify(drugs));
+    window.dispatchEvent(new Event(INTERACTION_LIST_CHANGED_EVENT));
+  } catch (error) {
+    // Might fail if storage is full
+    console.warn('Failed to save interaction list:', error);
+  }
+  return drugs;
+}
+
+/**
+ * Adds a drug to the list. Duplicates are ignored, as are additions
+ * beyond MAX_INTERACTION_DRUGS.
+ *
+ * @returns Updated list
+ */
+export function addToInteractionList(
+  drug: DrugResult,
+  condition?: { code: string; name: string }
+): InteractionListDrug[] {
+  const current = getInteractionList();
+  const entry = toInteractionListDrug(drug, condition);
+  if (current.some(d => d.key === entry.key) || current.length >= MAX_INTERACTION_DRUGS) {
+    return current;
+  }
+  return saveInteractionList([...current, entry]);
+}
+
+/**
+ * Removes a drug from the list by key.
+ *
+ * @returns Updated list
+ */
+export function removeFromInteractionList(key: string): InteractionListDrug[] {
+  return saveInteractionList(getInteractionList().filter(d => d.key !== key));
+}
+
+/**
+ * Empties the list.
+ */
+export function clearInteractionList(): InteractionListDrug[] {
+  return saveInteractionList([]);
+}
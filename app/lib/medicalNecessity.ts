@@ -0,0 +1,275 @@
+/**
+ * medicalNecessity.ts — Does a diagnosis support a procedure?
+ *
+ * Billers pair each procedure with the diagnosis that justifies it. This
+ * checks one pairing against the sources the app already uses and returns
+ * a verdict with the evidence behind it:
+ *
+ *   curated   CURATED_MAPPINGS (conditionProcedureMappings.ts): the
+ *             diagnosis's curated procedure list has the code → supports;
+ *             it has a list without the code → against
+ *   snomed    SNOMED CT traversal (/api/snomed-procedures): the exact SNOMED
+ *             procedure → supports; a procedure with a similar name (HCPCS
+ *             and PCS codes have no SNOMED link) → related
+ *   ncd/lcd   Medicare NCDs/LCDs (cmsCoverageApi.ts) whose title names the
+ *             condition and the service, or the service alone → related,
+ *             since only the policy text says which diagnoses it covers
+ *
+ *   E11.9  + A4253 blood glucose test strips → supported (curated)
+ *   I10    + A4253 blood glucose test strips → unsupported (not on the curated list)
+ *   E08.65 + E0607 home blood glucose monitor → unknown, NCD 40.2 to review
+ *
+ * Verdict: supported when any evidence supports, unsupported when the
+ * curated list speaks against it and nothing else ties the procedure to
+ * the diagnosis (a policy that only names the service doesn't), unknown
+ * otherwise. Runs in the browser, like cmsCoverageApi.ts.
+ */
+
+import {
+  MedicalNecessityResult,
+  NecessityEvidence,
+  NecessityEvidenceWeight,
+  NecessityProcedure,
+  NecessityVerdict,
+  ProcedureResult,
+} from '../types/icd';
+import { extractConditionForCoverage, searchMedicareCoverage } from './cmsCoverageApi';
+import { getCuratedConditionName, getCuratedProcedures } from './conditionProcedureMappings';
+import { validateIcd10Code } from './icd10Validation';
+
+// ── Configuration ──
+
+/** Words that say nothing about which service or condition is meant */
+const STOP_WORDS = new Set([
+  'with', 'without', 'other', 'unspecified', 'each', 'service', 'services',
+  'procedure', 'procedures', 'including', 'includes', 'supply', 'supplies',
+  'type', 'than', 'from', 'into', 'per', 'and', 'for', 'the', 'any',
+  'not', 'otherwise', 'specified', 'approach', 'open', 'percutaneous',
+]);
+
+/** SNOMED procedures with a similar name listed as related evidence */
+const MAX_SIMILAR_SNOMED = 3;
+
+/** Coverage policies listed as related evidence */
+const MAX_POLICIES = 5;
+
+const WEIGHT_ORDER: Record<NecessityEvidenceWeight, number> = { supports: 0, related: 1, against: 2 };
+
+// ── Helpers ──
+
+/** "Blood glucose test or reagent strips" → ["blood", "glucose", "test", "reagent", "strip"] */
+function significantWords(text: string): string[] {
+  const words = text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(word => word.length >= 4 && !STOP_WORDS.has(word))
+    .map(word => (word.length > 4 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word));
+  return Array.from(new Set(words));
+}
+
+/** Words of `words` found in text (as word starts, so "strip" matches "strips") */
+function sharedWords(words: string[], text: string): string[] {
+  const lower = text.toLowerCase();
+  return words.filter(word => new RegExp(`\\b${word}`).test(lower));
+}
+
+/** Enough shared words to call two service names similar */
+function isSimilar(shared: string[], words: string[]): boolean {
+  return shared.length >= Math.min(2, words.length) && shared.length > 0;
+}
+
+async function fetchSnomedProcedures(icd10Code: string): Promise<ProcedureResult[] | string> {
+  try {
+    const response = await fetch(`/api/snomed-procedures?icd10=${encodeURIComponent(icd10Code)}`);
+    if (response.status === 503) return 'SNOMED CT: not configured on this server';
+    if (!response.ok) return `SNOMED CT: lookup failed (${response.status})`;
+    const data = await response.json();
+    return data.procedures ?? [];
+  } catch (err) {
+    console.error('[Medical Necessity] SNOMED lookup failed:', err);
+    return 'SNOMED CT: lookup failed';
+  }
+}
+
+// ── Evidence ──
+
+function curatedEvidence(procedure: NecessityProcedure, icd10Code: string): NecessityEvidence[] {
+  const curated = getCuratedProcedures(icd10Code);
+  if (curated.length === 0) return [];
+
+  const conditionName = getCuratedConditionName(icd10Code) ?? icd10Code;
+  const match = curated.find(item => item.code.toUpperCase() === procedure.code.toUpperCase());
+
+  return [match
+    ? {
+      source: 'curated',
+      weight: 'supports',
+      title: `Curated mapping: ${conditionName}`,
+      detail: match.clinicalRationale ?? `Lists ${match.code} (${match.description}).`,
+    }
+    : {
+      source: 'curated',
+      weight: 'against',
+      title: `Curated mapping: ${conditionName}`,
+      detail: `Lists ${curated.length} procedures for this diagnosis; ${procedure.code} is not one of them.`,
+    }];
+}
+
+function snomedEvidence(
+  procedure: NecessityProcedure,
+  procedureWords: string[],
+  snomedProcedures: ProcedureResult[]
+): NecessityEvidence[] {
+  const exact = procedure.codeSystem === 'SNOMED'
+    ? snomedProcedures.find(item => item.code === procedure.code)
+    : undefined;
+  if (exact) {
+    return [{
+      source: 'snomed',
+      weight: 'supports',
+      title: `SNOMED CT ${exact.code}`,
+      detail: `${exact.description} is related to the diagnosis in SNOMED CT.`,
+    }];
+  }
+
+  return snomedProcedures
+    .map(item => ({ item, shared: sharedWords(procedureWords, item.description) }))
+    .filter(({ shared }) => isSimilar(shared, procedureWords))
+    .sort((a, b) => b.shared.length - a.shared.length)
+    .slice(0, MAX_SIMILAR_SNOMED)
+    .map(({ item }) => ({
+      source: 'snomed' as const,
+      weight: 'related' as const,
+      title: `SNOMED CT ${item.code}`,
+      detail: `${item.description} (similar to this procedure) is related to the diagnosis in SNOMED CT.`,
+    }));
+}
+
+/** Policies naming the condition and the service, and policies naming only the service */
+async function coverageEvidence(
+  conditionWords: string[],
+  procedureWords: string[]
+): Promise<{ forCondition: NecessityEvidence[]; forService: NecessityEvidence[] }> {
+  const terms = [...conditionWords, ...procedureWords];
+  if (terms.length === 0) return { forCondition: [], forService: [] };
+
+  const coverage = await searchMedicareCoverage(terms.join(' '));
+  const policies = [
+    ...coverage.ncds.map(ncd => ({ source: 'ncd' as const, title: `NCD ${ncd.displayId}: ${ncd.title}`, policyTitle: ncd.title, url: ncd.url })),
+    ...coverage.lcds.map(lcd => ({ source: 'lcd' as const, title: `LCD: ${lcd.title}`, policyTitle: lcd.title, url: lcd.url })),
+  ];
+
+  const matches = policies
+    .map(policy => ({
+      ...policy,
+      condition: sharedWords(conditionWords, policy.policyTitle),
+      service: sharedWords(procedureWords, policy.policyTitle),
+    }))
+    .filter(({ condition, service }) => service.length > 0 && (condition.length > 0 || isSimilar(service, procedureWords)))
+    // Policies naming both the condition and the service first
+    .sort((a, b) => Number(b.condition.length > 0) - Number(a.condition.length > 0) || b.service.length - a.service.length)
+    .slice(0, MAX_POLICIES);
+
+  const toEvidence = (policy: typeof matches[number], detail: string): NecessityEvidence => ({
+    source: policy.source,
+    weight: 'related',
+    title: policy.title,
+    detail,
+    url: policy.url || undefined,
+  });
+
+  return {
+    forCondition: matches
+      .filter(policy => policy.condition.length > 0)
+      .map(policy => toEvidence(policy, 'Addresses this condition and this kind of service. Check the policy\'s covered indications.')),
+    forService: matches
+      .filter(policy => policy.condition.length === 0)
+      .map(policy => toEvidence(policy, 'Covers this kind of service. Check whether the policy lists this diagnosis.')),
+  };
+}
+
+function summarize(verdict: NecessityVerdict, evidence: NecessityEvidence[], icd10Code: string): string {
+  switch (verdict) {
+    case 'supported':
+      return `${icd10Code} supports this procedure (${evidence.filter(item => item.weight === 'supports').map(item => item.source === 'curated' ? 'curated mapping' : 'SNOMED CT').join(', ')}).`;
+    case 'unsupported':
+      return evidence.some(item => item.weight === 'related')
+        ? `Nothing links this procedure to ${icd10Code}, and the diagnosis's curated procedure list leaves it out. The coverage policies below cover the service; check their covered diagnoses.`
+        : `Nothing links this procedure to ${icd10Code}, and the diagnosis's curated procedure list leaves it out.`;
+    default:
+      return evidence.length > 0
+        ? 'No source links this exact procedure to the diagnosis. Review the related evidence below.'
+        : `No source links this procedure to ${icd10Code}.`;
+  }
+}
+
+// ── Public API ──
+
+/**
+ * Checks whether an ICD-10-CM diagnosis supports a procedure.
+ *
+ * A code missing from the bundled (partial) code set is still checked; its
+ * name then comes from the caller or the curated mappings, and the result
+ * notes the code wasn't verified.
+ *
+ * @param procedure - Code, code system and description of the procedure
+ * @param icd10Code - Diagnosis code (e.g., "E11.9" or "E119")
+ * @param diagnosisName - Name to use when the code set doesn't have the code
+ * @returns Verdict, a one-sentence summary and the evidence, strongest first
+ */
+export async function checkMedicalNecessity(
+  procedure: NecessityProcedure,
+  icd10Code: string,
+  diagnosisName?: string
+): Promise<MedicalNecessityResult> {
+  const validation = await validateIcd10Code(icd10Code.trim());
+  const code = validation.code;
+
+  if (validation.status === 'invalid_format') {
+    return {
+      procedure,
+      icd10Code: code,
+      diagnosisName: null,
+      verdict: 'unknown',
+      summary: validation.message,
+      evidence: [],
+      uncheckedSources: [],
+    };
+  }
+
+  const name = validation.description ?? (diagnosisName?.trim() || getCuratedConditionName(code));
+  const procedureWords = significantWords(procedure.description);
+  const conditionWords = name ? significantWords(extractConditionForCoverage(name)) : [];
+
+  const [snomedProcedures, coverage] = await Promise.all([
+    fetchSnomedProcedures(code),
+    coverageEvidence(conditionWords, procedureWords),
+  ]);
+
+  const curated = curatedEvidence(procedure, code);
+  const snomed = typeof snomedProcedures === 'string' ? [] : snomedEvidence(procedure, procedureWords, snomedProcedures);
+  // Stable sort: within a weight, curated, SNOMED, then policies naming the condition
+  const evidence = [...curated, ...snomed, ...coverage.forCondition, ...coverage.forService]
+    .sort((a, b) => WEIGHT_ORDER[a.weight] - WEIGHT_ORDER[b.weight]);
+
+  const tiesToDiagnosis = [...curated, ...snomed, ...coverage.forCondition]
+    .filter(item => item.weight !== 'against');
+  const verdict: NecessityVerdict = evidence.some(item => item.weight === 'supports')
+    ? 'supported'
+    : curated.some(item => item.weight === 'against') && tiesToDiagnosis.length === 0
+      ? 'unsupported'
+      : 'unknown';
+
+  return {
+    procedure,
+    icd10Code: code,
+    diagnosisName: name,
+    verdict,
+    summary: summarize(verdict, evidence, code),
+    evidence,
+    uncheckedSources: [
+      ...(validation.status === 'not_found' ? ['ICD-10-CM code (not in the bundled code set)'] : []),
+      ...(typeof snomedProcedures === 'string' ? [snomedProcedures] : []),
+    ],
+  };
+}
@@ -0,0 +1,300 @@
+/**
+ * openApiSpec.ts — OpenAPI 3.1 description of the versioned REST API
+ *
+ * Served as JSON from /api/v1/openapi.json so integrators can generate
+ * clients or load it into Swagger UI / Postman. Keep it in step with the
+ * route handlers under app/api/v1/ and the envelopes in apiV1.ts.
+ */
+
+import { API_VERSION, DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE } from './apiV1';
+
+// ── Reusable pieces ──
+
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+
+const errorResponse = (description: string) => ({
+  description,
+  content: { 'application/json': { schema: ref('ErrorResponse') } },
+});
+
+const itemResponse = (description: string, schema: object) => ({
+  description,
+  content: {
+    'application/json': {
+      schema: {
+        type: 'object',
+        required: ['data'],
+        properties: { data: schema, meta: { type: 'object' } },
+      },
+    },
+  },
+});
+
+const listResponse = (description: string, itemSchema: object, meta: object) => ({
+  description,
+  content: {
+    'application/json': {
+      schema: {
+        type: 'object',
+        required: ['data', 'pagination'],
+        properties: {
+          data: { type: 'array', items: itemSchema },
+          pagination: ref('Pagination'),
+          meta,
+        },
+      },
+    },
+  },
+});
+
+const codePathParam = (example: string) => ({
+  name: 'code',
+  in: 'path',
+  required: true,
+  schema: { type: 'string' },
+  example,
+});
+
+const paginationParams = [
+  { $ref: '#/components/parameters/Page' },
+  { $ref: '#/components/parameters/PageSize' },
+];
+
+// ── Document ──
+
+export const OPENAPI_SPEC = {
+  openapi: '3.1.0',
+  info: {
+    title: 'MedCodeMap API',
+    version: API_VERSION,
+    description:
+      'Read-only lookups for ICD-10-CM, HCPCS Level II and condition → drug mappings. ' +
+      'Every response carries an X-API-Version header. Errors always use the ErrorResponse envelope.',
+  },
+  servers: [{ url: '/api/v1' }],
+  paths: {
+    '/icd10/search': {
+      get: {
+        operationId: 'searchIcd10',
+        summary: 'Search ICD-10-CM codes',
+        description: 'Plain-English terms ("heart attack") are translated to medical terminology before searching.',
+        parameters: [
+          { name: 'q', in: 'query', required: true, schema: { type: 'string', maxLength: 200 }, example: 'heart attack' },
+          ...paginationParams,
+        ],
+        responses: {
+          200: listResponse('Matching codes, best match first', ref('Icd10SearchResult'), {
+            type: 'object',
+            properties: {
+              query: { type: 'string' },
+              translatedQuery: { type: ['string', 'null'] },
+              dataSource: { type: ['string', 'null'], enum: ['clinicaltables', 'local', null] },
+              totalMatches: { type: 'integer', description: 'Total matches reported by the data source' },
+            },
+          }),
+          400: errorResponse('Missing or invalid q / pagination parameters'),
+        },
+      },
+    },
+    '/icd10/{code}': {
+      get: {
+        operationId: 'getIcd10Code',
+        summary: 'Look up one ICD-10-CM code',
+        parameters: [
+          codePathParam('E11.9'),
+          { name: 'fiscalYear', in: 'query', required: false, schema: { type: 'integer' }, example: 2026 },
+        ],
+        responses: {
+          200: itemResponse('The code', ref('Icd10Code')),
+          400: errorResponse('Malformed code or unsupported fiscal year'),
+          404: errorResponse('Code not found'),
+        },
+      },
+    },
+    '/hcpcs/{code}': {
+      get: {
+        operationId: 'getHcpcsCode',
+        summary: 'Look up one HCPCS Level II code',
+        parameters: [codePathParam('J0120')],
+        responses: {
+          200: itemResponse('The code', ref('HcpcsCode')),
+          400: errorResponse('Malformed code'),
+          404: errorResponse('Code not found'),
+        },
+      },
+    },
+    '/conditions/{code}/drugs': {
+      get: {
+        operationId: 'getConditionDrugs',
+        summary: 'Drugs for the condition an ICD-10-CM code describes',
+        parameters: [
+          codePathParam('E11.9'),
+          {
+            name: 'validate',
+            in: 'query',
+            required: false,
+            schema: { type: 'boolean', default: true },
+            description: 'Set to false to skip AI relevance scoring (faster; relevanceScore is -1)',
+          },
+          {
+            name: 'scorer',
+            in: 'query',
+            required: false,
+            schema: { type: 'string', enum: ['ai', 'rules', 'compare'], default: 'ai' },
+            description: 'ai: Claude, falling back to rules if unavailable. rules: deterministic scorer (label, MED-RT, curated). compare: both scores in scoreComparison, unfiltered',
+          },
+          ...paginationParams,
+        ],
+        responses: {
+          200: listResponse('Drugs, most relevant first', ref('Drug'), {
+            type: 'object',
+            properties: {
+              code: { type: 'string' },
+              conditionName: { type: 'string' },
+              scorer: { type: ['string', 'null'], enum: ['ai', 'rules', 'compare', null] },
+              validated: { type: 'boolean', description: 'False when scoring was skipped or no scorer was available' },
+            },
+          }),
+          400: errorResponse('Malformed code or pagination parameters'),
+          404: errorResponse('Code not found'),
+        },
+      },
+    },
+    '/openapi.json': {
+      get: {
+        operationId: 'getOpenApiSpec',
+        summary: 'This document',
+        responses: { 200: { description: 'OpenAPI 3.1 document', content: { 'application/json': {} } } },
+      },
+    },
+  },
+  components: {
+    parameters: {
+      Page: {
+        name: 'page',
+        in: 'query',
+        required: false,
+        schema: { type: 'integer', minimum: 1, default: 1 },
+      },
+      PageSize: {
+        name: 'pageSize',
+        in: 'query',
+        required: false,
+        schema: { type: 'integer', minimum: 1, maximum: MAX_PAGE_SIZE, default: DEFAULT_PAGE_SIZE },
+      },
+    },
+    schemas: {
+      ErrorResponse: {
+        type: 'object',
+        required: ['error'],
+        properties: {
+          error: {
+            type: 'object',
+            required: ['status', 'code', 'message'],
+            properties: {
+              status: { type: 'integer', example: 404 },
+              code: {
+                type: 'string',
+                enum: ['bad_request', 'invalid_code', 'not_found', 'service_unavailable', 'internal_error'],
+              },
+              message: { type: 'string' },
+              details: { type: 'object' },
+            },
+          },
+        },
+      },
+      Pagination: {
+        type: 'object',
+        required: ['page', 'pageSize', 'total', 'totalPages', 'hasMore'],
+        properties: {
+          page: { type: 'integer' },
+          pageSize: { type: 'integer' },
+          total: { type: 'integer' },
+          totalPages: { type: 'integer' },
+          hasMore: { type: 'boolean' },
+        },
+      },
+      Icd10SearchResult: {
+        type: 'object',
+        properties: {
+          code: { type: 'string', example: 'I21.9' },
+          name: { type: 'string', example: 'Acute myocardial infarction, unspecified' },
+          score: { type: 'number' },
+        },
+      },
+      Icd10Code: {
+        type: 'object',
+        properties: {
+          code: { type: 'string', example: 'E11.9' },
+          description: { type: 'string' },
+          billable: { type: ['boolean', 'null'], description: 'null when the code is outside the bundled code set' },
+          status: { type: ['string', 'null'], enum: ['billable', 'header', 'needs_seventh', 'invalid_seventh', null] },
+          message: { type: 'string' },
+          fiscalYear: { type: ['integer', 'null'] },
+          chapter: {
+            type: ['object', 'null'],
+            properties: { id: { type: 'integer' }, name: { type: 'string' } },
+          },
+          notes: { type: ['object', 'null'], description: 'Tabular instructional notes (includes, excludes1, ...)' },
+          seventhCharacters: {
+            type: ['array', 'null'],
+            items: {
+              type: 'object',
+              properties: { char: { type: 'string' }, description: { type: 'string' } },
+            },
+          },
+          source: { type: 'string', enum: ['local', 'clinicaltables'] },
+        },
+      },
+      HcpcsCode: {
+        type: 'object',
+        properties: {
+          code: { type: 'string', example: 'J0120' },
+          shortDescription: { type: 'string' },
+          longDescription: { type: 'string' },
+          coverageCode: { type: 'string' },
+          pricingIndicator: { type: 'string' },
+          addDate: { type: ['string', 'null'] },
+          termDate: { type: ['string', 'null'] },
+          isActive: { type: 'boolean' },
+          category: { type: 'string' },
+          medicareCoverage: {
+            type: ['object', 'null'],
+            properties: {
+              code: { type: 'string' },
+              label: { type: 'string' },
+              group: { type: 'string', enum: ['payable', 'conditional', 'not-payable'] },
+              description: { type: 'string' },
+            },
+          },
+        },
+      },
+      Drug: {
+        type: 'object',
+        properties: {
+          brandName: { type: 'string' },
+          genericName: { type: 'string' },
+          manufacturer: { type: 'string' },
+          indication: { type: 'string' },
+          warnings: { type: 'string' },
+          rxcui: { type: 'string' },
+          dosageForm: { type: 'string' },
+          strength: { type: 'string' },
+          relevanceScore: { type: 'number', description: '0–10, or -1 when not scored' },
+          relevanceReasoning: { type: 'string' },
+          scoredBy: { type: 'string', enum: ['ai', 'rules'] },
+          scoreComparison: {
+            type: 'object',
+            description: 'Only with scorer=compare',
+            properties: {
+              aiScore: { type: ['number', 'null'] },
+              aiReasoning: { type: 'string' },
+              ruleScore: { type: 'number' },
+              ruleReasoning: { type: 'string' },
+            },
+          },
+        },
+      },
+    },
+  },
+} as const;
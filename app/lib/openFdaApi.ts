@@ -1,5 +1,8 @@
 /**
- * @deprecated This file is no longer used in the main drug validation pipeline.
+ * @deprecated Drug discovery (searchDrugsByCondition) is no longer used in the
+ * main drug validation pipeline. The label indication lookup
+ * (getLabelIndications / findIndicationMatch) is still used by the rule-based
+ * relevance scorer in drugRuleScorer.ts.
  * 
  * REPLACED BY: RxNorm API + curated drug mappings
  * - conditionDrugMappings.ts: Curated condition → drug mappings
@@ -33,6 +36,7 @@
  */
 
 import { DrugResult, extractSearchTerms } from '../types/icd';
+import { createCache } from './cache';
 
 // =============================================================================
 // Configuration
@@ -55,6 +59,12 @@ const OPENFDA_BASE_URL = 'https://api.fda.gov/drug/label.json';
  */
 const DEFAULT_LIMIT = 15;
 
+/** Label text changes rarely; cache indications for 7 days */
+const INDICATION_CACHE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+/** Maximum cached generic names */
+const INDICATION_CACHE_MAX_SIZE = 1000;
+
 /**
  * Condition-specific synonyms for better drug discovery.
  * 
@@ -248,6 +258,108 @@ export async function searchDrugsByCondition(
   }
 }
 
+// =============================================================================
+// Label Indication Lookup
+// =============================================================================
+
+/**
+ * Shared cache for "Indications and Usage" label text.
+ * Key: Lowercase generic name. Value: Label text, or null if no label found.
+ */
+const indicationCache = createCache<string | null>('openfda-indications', {
+  ttlMs: INDICATION_CACHE_TTL_MS,
+  maxEntries: INDICATION_CACHE_MAX_SIZE,
+});
+
+/**
+ * Gets the "Indications and Usage" section of a drug's FDA label.
+ * 
+ * Never throws: network errors and missing labels both return null
+ * (only "no label" is cached, so network errors are retried).
+ * 
+ * @param genericName - Generic name (e.g., "semaglutide", "naltrexone/bupropion")
+ * @returns Indication text, or null if no label was found
+ * 
+ * @example
+ * const text = await getLabelIndications("liraglutide");
+ * // Returns: "SAXENDA is indicated ... for chronic weight management ..."
+ */
+export async function getLabelIndications(genericName: string): Promise<string | null> {
+  const normalized = genericName.toLowerCase().trim();
+  if (!normalized) {
+    return null;
+  }
+
+  const cached = await indicationCache.get(normalized);
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  // Combination products are labeled "naltrexone hydrochloride and bupropion ..."
+  const searchName = normalized.replace(/\s*\/\s*/g, ' and ');
+  const url = `${OPENFDA_BASE_URL}?search=openfda.generic_name:"${encodeURIComponent(searchName)}"&limit=1`;
+
+  try {
+    const response = await fetch(url);
+
+    if (response.status === 404) {
+      // 404 means no label found - cache it
+      await indicationCache.set(normalized, null);
+      return null;
+    }
+
+    if (!response.ok) {
+      console.warn(`[OpenFDA] Label lookup failed for ${normalized}: ${response.status}`);
+      return null;
+    }
+
+    const data: OpenFdaApiResponse = await response.json();
+    const text = data.results?.[0]?.indications_and_usage?.join(' ') || null;
+
+    await indicationCache.set(normalized, text);
+    return text;
+
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.warn(`[OpenFDA] Label lookup failed for ${normalized}:`, message);
+    return null;
+  }
+}
+
+/**
+ * Checks whether label indication text covers a condition, using the same
+ * synonym expansion as searchDrugsByCondition (obesity → "weight management").
+ * 
+ * A term matches when every word of it appears in the text as a whole word.
+ * 
+ * @param indicationText - Text from getLabelIndications()
+ * @param conditionName - The condition name (e.g., "Morbid (severe) obesity")
+ * @returns The matched term, or null if the condition isn't mentioned
+ * 
+ * @example
+ * findIndicationMatch("...adjunct to diet for chronic weight management...", "Obesity, unspecified")
+ * // Returns: "weight management"
+ */
+export function findIndicationMatch(indicationText: string, conditionName: string): string | null {
+  const baseTerms = extractSearchTerms(conditionName);
+  if (!baseTerms) {
+    return null;
+  }
+
+  const text = indicationText.toLowerCase();
+  const containsWord = (word: string) =>
+    new RegExp(`\\b${word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`).test(text);
+
+  for (const term of expandSearchTerms(baseTerms)) {
+    const words = term.toLowerCase().split(/\s+/).filter(Boolean);
+    if (words.length > 0 && words.every(containsWord)) {
+      return term;
+    }
+  }
+
+  return null;
+}
+
 // =============================================================================
 // Response Parser
 // =============================================================================
@@ -24,6 +24,8 @@
  * - No strict enforcement, but be respectful
  */
 
+import { createCache, CacheStats } from './cache';
+
 // =============================================================================
 // Configuration
 // =============================================================================
@@ -34,6 +36,9 @@ const RXNORM_BASE_URL = 'https://rxnav.nlm.nih.gov/REST';
 /** Cache TTL in milliseconds (24 hours) */
 const CACHE_TTL_MS = 24 * 60 * 60 * 1000;
 
+/** Maximum cached lookups per cache (drug names, ingredient rxcuis) */
+const CACHE_MAX_SIZE = 2000;
+
 // =============================================================================
 // TypeScript Interfaces
 // =============================================================================
@@ -112,20 +117,11 @@ export interface RxNormDrug {
 // Cache
 // =============================================================================
 
-interface CachedDrug {
-  drug: RxNormDrug | null;
-  timestamp: number;
-}
-
-/** In-memory cache for RxNorm drug lookups */
-const drugCache = new Map<string, CachedDrug>();
-
-/**
- * Checks if a cached entry is still valid.
- */
-function isCacheValid(cached: CachedDrug): boolean {
-  return Date.now() - cached.timestamp < CACHE_TTL_MS;
-}
+/** Shared cache for RxNorm drug lookups (null = not found) */
+const drugCache = createCache<RxNormDrug | null>('rxnorm-drugs', {
+  ttlMs: CACHE_TTL_MS,
+  maxEntries: CACHE_MAX_SIZE,
+});
 
 /**
  * Gets cache key from drug name (normalized).
@@ -156,14 +152,14 @@ export async function searchRxNormDrug(drugName: string): Promise<RxNormDrug | n
   const cacheKey = getCacheKey(drugName);
   
   // Check cache first
-  const cached = drugCache.get(cacheKey);
-  if (cached && isCacheValid(cached)) {
-    if (cached.drug) {
-      console.log(`[RxNorm] Cache HIT: ${drugName} → ${cached.drug.brandName}`);
+  const cached = await drugCache.get(cacheKey);
+  if (cached !== undefined) {
+    if (cached) {
+      console.log(`[RxNorm] Cache HIT: ${drugName} → ${cached.brandName}`);
     } else {
       console.log(`[RxNorm] Cache HIT (no result): ${drugName}`);
     }
-    return cached.drug;
+    return cached;
   }
   
   try {
@@ -178,7 +174,7 @@ export async function searchRxNormDrug(drugName: string): Promise<RxNormDrug | n
     if (!response.ok) {
       console.error(`[RxNorm] API error: ${response.status} ${response.statusText}`);
       // Cache the failure to avoid repeated requests
-      drugCache.set(cacheKey, { drug: null, timestamp: Date.now() });
+      await drugCache.set(cacheKey, null);
       return null;
     }
     
@@ -188,7 +184,7 @@ export async function searchRxNormDrug(drugName: string): Promise<RxNormDrug | n
     const drug = parseRxNormResponse(data, drugName);
     
     // Cache the result (even if null)
-    drugCache.set(cacheKey, { drug, timestamp: Date.now() });
+    await drugCache.set(cacheKey, drug);
     
     if (drug) {
       console.log(`[RxNorm] Found: ${drug.brandName} (${drug.genericName})`);
@@ -203,7 +199,7 @@ export async function searchRxNormDrug(drugName: string): Promise<RxNormDrug | n
     console.error(`[RxNorm] Failed to fetch ${drugName}:`, message);
     
     // Cache the failure to avoid repeated requests
-    drugCache.set(cacheKey, { drug: null, timestamp: Date.now() });
+    await drugCache.set(cacheKey, null);
     return null;
   }
 }
@@ -228,6 +224,63 @@ export async function searchMultipleRxNormDrugs(drugNames: string[]): Promise<Rx
   return validDrugs;
 }
 
+// =============================================================================
+// Ingredient Lookup
+// =============================================================================
+
+/** Ingredient (IN) concept related to a product RxCUI */
+export interface RxNormIngredient {
+  rxcui: string;
+  name: string;
+}
+
+/** Shared cache for product → ingredient lookups */
+const ingredientCache = createCache<RxNormIngredient[]>('rxnorm-ingredients', {
+  ttlMs: CACHE_TTL_MS,
+  maxEntries: CACHE_MAX_SIZE,
+});
+
+/**
+ * Gets the active ingredients of a drug product (SBD/SCD RxCUI).
+ * Returns [] on any failure — callers treat ingredients as optional.
+ *
+ * @param rxcui - RxCUI of a branded or clinical drug
+ * @returns Ingredient concepts (IN term type)
+ *
+ * @example
+ * const ingredients = await getRxNormIngredients('861007');
+ * // Returns: [{ rxcui: "6809", name: "metformin" }]
+ */
+export async function getRxNormIngredients(rxcui: string): Promise<RxNormIngredient[]> {
+  const cached = await ingredientCache.get(rxcui);
+  if (cached) {
+    return cached;
+  }
+
+  try {
+    const url = `${RXNORM_BASE_URL}/rxcui/${encodeURIComponent(rxcui)}/related.json?tty=IN`;
+    const response = await fetch(url);
+
+    if (!response.ok) {
+      console.error(`[RxNorm] Ingredient lookup error: ${response.status} ${response.statusText}`);
+      return [];
+    }
+
+    const data: { relatedGroup?: { conceptGroup?: RxNormConceptGroup[] } } = await response.json();
+    const ingredients = (data.relatedGroup?.conceptGroup ?? [])
+      .flatMap(group => group.conceptProperties ?? [])
+      .map(concept => ({ rxcui: concept.rxcui, name: concept.name.toLowerCase() }));
+
+    await ingredientCache.set(rxcui, ingredients);
+    return ingredients;
+
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.error(`[RxNorm] Failed to fetch ingredients for ${rxcui}:`, message);
+    return [];
+  }
+}
+
 // =============================================================================
 // Response Parsing
 // =============================================================================
@@ -418,38 +471,16 @@ function toTitleCase(str: string): string {
 // =============================================================================
 
 /**
- * Clears the RxNorm drug cache.
+ * Clears the RxNorm drug and ingredient caches.
  */
-export function clearRxNormCache(): void {
-  drugCache.clear();
+export async function clearRxNormCache(): Promise<void> {
+  await Promise.all([drugCache.clear(), ingredientCache.clear()]);
   console.log('[RxNorm] Cache cleared');
 }
 
 /**
- * Gets the current cache size.
+ * Gets cache statistics (see /api/cache-stats for all caches).
  */
-export function getRxNormCacheSize(): number {
-  return drugCache.size;
-}
-
-/**
- * Gets cache statistics.
- */
-export function getRxNormCacheStats(): { total: number; valid: number; expired: number } {
-  let valid = 0;
-  let expired = 0;
-  
-  for (const entry of drugCache.values()) {
-    if (isCacheValid(entry)) {
-      valid++;
-    } else {
-      expired++;
-    }
-  }
-  
-  return {
-    total: drugCache.size,
-    valid,
-    expired,
-  };
+export function getRxNormCacheStats(): Promise<CacheStats> {
+  return drugCache.stats();
 }
@@ -20,7 +20,8 @@
  * @module snomedProcedureApi
  */
 
-import { ProcedureResult, CachedProcedures } from '../types/icd';
+import { ProcedureResult } from '../types/icd';
+import { createCache } from './cache';
 
 // ============================================================
 // Constants
@@ -41,6 +42,9 @@ const TGT_TTL = 7 * 60 * 60 * 1000;
 /** Cache procedure lookups for 7 days (procedures for conditions rarely change) */
 const PROCEDURE_CACHE_TTL = 7 * 24 * 60 * 60 * 1000;
 
+/** Maximum cached ICD-10 codes */
+const PROCEDURE_CACHE_MAX_SIZE = 1000;
+
 /** Request timeout for UMLS API calls */
 const REQUEST_TIMEOUT = 8000;
 
@@ -204,11 +208,10 @@ async function umlsFetch(endpoint: string, params: Record<string, string> = {}):
 // Procedure Cache
 // ============================================================
 
-const procedureCache = new Map<string, CachedProcedures>();
-
-function isCacheValid(cached: CachedProcedures): boolean {
-  return Date.now() - cached.timestamp < PROCEDURE_CACHE_TTL;
-}
+const procedureCache = createCache<ProcedureResult[]>('snomed-procedures', {
+  ttlMs: PROCEDURE_CACHE_TTL,
+  maxEntries: PROCEDURE_CACHE_MAX_SIZE,
+});
 
 // ============================================================
 // Core Lookup Functions
@@ -479,9 +482,9 @@ export async function getSnomedProceduresForDiagnosis(
   const cacheKey = `snomed-proc:${normalizedCode}`;
 
   // Check cache
-  const cached = procedureCache.get(cacheKey);
-  if (cached && isCacheValid(cached)) {
-    return cached.data;
+  const cached = await procedureCache.get(cacheKey);
+  if (cached) {
+    return cached;
   }
 
   try {
@@ -513,7 +516,7 @@ export async function getSnomedProceduresForDiagnosis(
     }
 
     if (snomedIds.length === 0) {
-      procedureCache.set(cacheKey, { data: [], timestamp: Date.now() });
+      await procedureCache.set(cacheKey, []);
       return [];
     }
 
@@ -533,13 +536,13 @@ export async function getSnomedProceduresForDiagnosis(
     }
 
     // Cache results
-    procedureCache.set(cacheKey, { data: allProcedures, timestamp: Date.now() });
+    await procedureCache.set(cacheKey, allProcedures);
 
     return allProcedures;
   } catch (error) {
     console.warn('[SNOMED] Procedure lookup failed:', error instanceof Error ? error.message : error);
     // Cache empty on error to avoid hammering the API
-    procedureCache.set(cacheKey, { data: [], timestamp: Date.now() });
+    await procedureCache.set(cacheKey, []);
     return [];
   }
 }
@@ -584,9 +587,10 @@ function extractCoreKeyword(conceptName: string): string {
 
 /**
  * Categorize a SNOMED procedure by its name and relationship type.
- * Uses keyword matching on the procedure description.
+ * Uses keyword matching on the procedure description. Shared with the
+ * RF2 snapshot backend (snomedRf2Data.ts).
  */
-function categorizeSnomedProcedure(
+export function categorizeSnomedProcedure(
   name: string,
   relationLabel: string
 ): 'diagnostic' | 'therapeutic' | 'monitoring' | 'equipment' | 'other' {
@@ -659,13 +663,41 @@ function categorizeSnomedProcedure(
   return 'other';
 }
 
+// ============================================================
+// Single Concept Lookup
+// ============================================================
+
+/**
+ * Look up one SNOMED CT concept by ID (used to check curated codes).
+ *
+ * @param conceptId - SNOMED CT concept ID (e.g., "43396009")
+ * @returns Concept name and whether SNOMED has retired it, or null if
+ *          UMLS doesn't know the ID
+ */
+export async function lookupSnomedConcept(
+  conceptId: string
+): Promise<{ conceptId: string; name: string; obsolete: boolean } | null> {
+  if (!/^\d+$/.test(conceptId.trim())) return null;
+
+  const data = await umlsFetch(`content/current/source/SNOMEDCT_US/${conceptId.trim()}`) as {
+    result?: { ui?: string; name?: string; obsolete?: boolean };
+  } | null;
+
+  if (!data?.result?.name) return null;
+  return {
+    conceptId: data.result.ui ?? conceptId.trim(),
+    name: data.result.name,
+    obsolete: data.result.obsolete === true,
+  };
+}
+
 // ============================================================
 // Cache Management
 // ============================================================
 
 /** Clear the SNOMED procedure cache */
-export function clearSnomedProcedureCache(): void {
-  procedureCache.clear();
+export async function clearSnomedProcedureCache(): Promise<void> {
+  await procedureCache.clear();
 }
 
 /** Reset the TGT (forces re-authentication on next call) */
@@ -675,13 +707,14 @@ export function resetUmlsAuth(): void {
 }
 
 /** Get cache statistics for debugging */
-export function getSnomedCacheStats(): {
+export async function getSnomedCacheStats(): Promise<{
   procedureCacheSize: number;
   hasTgt: boolean;
   tgtAgeMinutes: number;
-} {
+}> {
+  const { entries } = await procedureCache.stats();
   return {
-    procedureCacheSize: procedureCache.size,
+    procedureCacheSize: entries ?? 0,
     hasTgt: cachedTgtUrl !== null,
     tgtAgeMinutes: tgtTimestamp > 0 ? Math.round((Date.now() - tgtTimestamp) / 60000) : 0,
   };
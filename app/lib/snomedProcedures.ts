@@ -0,0 +1,75 @@
+/**
+ * snomedProcedures.ts — Picks the SNOMED CT source for procedure lookups (server only)
+ *
+ *   SNOMED_BACKEND=umls   UMLS REST API (snomedProcedureApi.ts), needs UMLS_API_KEY
+ *   SNOMED_BACKEND=rf2    local RF2 snapshot at SNOMED_RF2_DIR (snomedRf2Data.ts)
+ *
+ * Unset, UMLS is used when UMLS_API_KEY is set and the snapshot otherwise.
+ * Both backends return the same ProcedureResult shape, so callers (the
+ * /api/snomed-procedures route, the curated mapping checks) don't care
+ * which one answered.
+ */
+
+import { ProcedureResult, SnomedBackend } from '../types/icd';
+import { getSnomedProceduresForDiagnosis, lookupSnomedConcept } from './snomedProcedureApi';
+import { getRf2ProceduresForDiagnosis, lookupRf2Concept } from './snomedRf2Data';
+
+// ── Backend selection ──
+
+/**
+ * The configured SNOMED CT backend, or null when the one SNOMED_BACKEND
+ * names (or, unset, either one) lacks its setting.
+ */
+export function getSnomedBackend(): SnomedBackend | null {
+  const configured = process.env.SNOMED_BACKEND?.trim().toLowerCase();
+  const hasUmls = Boolean(process.env.UMLS_API_KEY);
+  const hasRf2 = Boolean(process.env.SNOMED_RF2_DIR?.trim());
+
+  if (configured === 'umls') return hasUmls ? 'umls' : null;
+  if (configured === 'rf2') return hasRf2 ? 'rf2' : null;
+  if (hasUmls) return 'umls';
+  return hasRf2 ? 'rf2' : null;
+}
+
+/** Why getSnomedBackend() returned null, for error messages */
+export function describeMissingSnomedBackend(): string {
+  switch (process.env.SNOMED_BACKEND?.trim().toLowerCase()) {
+    case 'umls': return 'SNOMED_BACKEND=umls but UMLS_API_KEY is not set';
+    case 'rf2': return 'SNOMED_BACKEND=rf2 but SNOMED_RF2_DIR is not set';
+    default: return 'Neither UMLS_API_KEY nor SNOMED_RF2_DIR is set';
+  }
+}
+
+// ── Lookups ──
+
+/**
+ * SNOMED CT procedures related to an ICD-10 diagnosis, from the configured
+ * backend.
+ *
+ * @param icd10Code - ICD-10-CM code (e.g., "E11.9")
+ * @returns Procedures with codeSystem 'SNOMED'; empty when no backend is configured
+ */
+export async function getSnomedProcedures(icd10Code: string): Promise<ProcedureResult[]> {
+  switch (getSnomedBackend()) {
+    case 'umls': return getSnomedProceduresForDiagnosis(icd10Code);
+    case 'rf2': return getRf2ProceduresForDiagnosis(icd10Code);
+    default: return [];
+  }
+}
+
+/**
+ * One SNOMED CT concept from the configured backend.
+ *
+ * @param conceptId - SNOMED CT concept ID (e.g., "43396009")
+ * @returns Concept name and whether it is inactive, or null if unknown
+ *          or no backend is configured
+ */
+export async function getSnomedConcept(
+  conceptId: string
+): Promise<{ conceptId: string; name: string; obsolete: boolean } | null> {
+  switch (getSnomedBackend()) {
+    case 'umls': return lookupSnomedConcept(conceptId);
+    case 'rf2': return lookupRf2Concept(conceptId);
+    default: return null;
+  }
+}
@@ -0,0 +1,455 @@
+/**
+ * snomedRf2Data.ts — SNOMED CT procedures from a local RF2 snapshot (server only)
+ *
+ * The offline alternative to snomedProcedureApi.ts. Instead of asking the
+ * UMLS REST API (with its ticket flow for every call), SNOMED_RF2_DIR points
+ * at the Snapshot folder of a SNOMED CT release — the US Edition, or the
+ * International Edition — and the same traversal runs in memory:
+ *
+ *   ICD-10 code → SNOMED concepts   concepts the ICD-10 map refset maps to the
+ *                                   code (the ICD-10-CM map 6011000124106 when
+ *                                   the release has it, else the WHO ICD-10
+ *                                   map 447562003). A header code uses the
+ *                                   concepts mapped to its subcodes, and a code
+ *                                   without map rows falls back to its parent.
+ *   concept → procedures            procedures whose Has focus is the concept
+ *                                   or one of its parents, then procedures
+ *                                   whose Procedure site is the concept's
+ *                                   Finding site
+ *
+ * Files read, found anywhere under the folder:
+ *
+ *   sct2_Concept_Snapshot_*                   active flags
+ *   sct2_Description_Snapshot-en_*            FSNs (semantic tags) and synonyms
+ *   der2_cRefset_LanguageSnapshot-en_*        US English preferred terms (optional;
+ *                                             without it, FSNs minus the tag)
+ *   sct2_Relationship_Snapshot_*              inferred is-a and attribute relationships
+ *   der2_iisssccRefset_ExtendedMapSnapshot_*  the ICD-10 map
+ *
+ * The snapshot is read once, on first use, keeping only what the traversal
+ * needs. A full US Edition takes several seconds and a few hundred MB.
+ * Restart the server after replacing the release.
+ */
+
+import { createReadStream, promises as fs } from 'node:fs';
+import path from 'node:path';
+import readline from 'node:readline';
+import { ProcedureResult, SnomedRf2Status } from '../types/icd';
+import { categorizeSnomedProcedure } from './snomedProcedureApi';
+
+// ── Configuration ──
+
+/** SNOMED CT concept IDs used while loading and traversing */
+const SCT = {
+  FSN: '900000000000003001',
+  SYNONYM: '900000000000013009',
+  US_ENGLISH: '900000000000509007',
+  PREFERRED: '900000000000548007',
+  IS_A: '116680003',
+  HAS_FOCUS: '363702006',
+  FINDING_SITE: '363698007',
+  ICD10CM_MAP: '6011000124106',
+  ICD10_MAP: '447562003',
+} as const;
+
+/** Procedure site, Procedure site - Direct, Procedure site - Indirect */
+const PROCEDURE_SITE_TYPES = new Set(['363704007', '405813007', '405814001']);
+
+/** FSN semantic tags of the concepts returned as procedures */
+const PROCEDURE_TAGS = new Set(['procedure', 'regime/therapy']);
+
+/** Error getSnomedRf2Status() reports; the details, with the folder path, go to the server log */
+const RF2_LOAD_ERROR = 'SNOMED CT snapshot could not be loaded (see server log)';
+
+const RF2_FILES = {
+  concept: { label: 'Concept', pattern: /^sct2_Concept_Snapshot.*\.txt$/ },
+  description: { label: 'Description', pattern: /^sct2_Description_Snapshot-en.*\.txt$/ },
+  language: { label: 'Language refset', pattern: /^der2_cRefset_LanguageSnapshot-en.*\.txt$/ },
+  relationship: { label: 'Relationship', pattern: /^sct2_Relationship_Snapshot.*\.txt$/ },
+  icd10Map: { label: 'Extended map refset', pattern: /^der2_iisssc+Refset_ExtendedMapSnapshot.*\.txt$/ },
+};
+
+type Rf2FileKind = keyof typeof RF2_FILES;
+
+/** Max results per SNOMED concept, as for the UMLS backend */
+const MAX_PROCEDURE_RESULTS = 30;
+
+/** Concepts mapped to one ICD-10 code that are followed to procedures */
+const MAX_SOURCE_CONCEPTS = 3;
+
+/** Is-a levels above a concept whose Has focus procedures still count */
+const FOCUS_ANCESTOR_DEPTH = 2;
+
+// ── In-memory data store ──
+
+interface MappedConcept {
+  conceptId: string;
+  /** mapGroup * 100 + mapPriority: the primary target of group 1 ranks first */
+  rank: number;
+}
+
+interface Rf2Snapshot {
+  dir: string;
+  release: string;
+  activeConcepts: Set<string>;
+  /** Concept → preferred term (or FSN without its semantic tag) */
+  names: Map<string, string>;
+  procedures: Set<string>;
+  /** Concept → is-a parents (non-procedure concepts only) */
+  parents: Map<string, string[]>;
+  /** Focus concept → procedures with that Has focus */
+  focusOf: Map<string, string[]>;
+  /** Concept → its Finding sites */
+  findingSites: Map<string, string[]>;
+  /** Body structure → procedures with it as Procedure site */
+  procedureSites: Map<string, string[]>;
+  /** ICD-10 code without the dot → mapped concepts, best rank first */
+  icd10Map: Map<string, MappedConcept[]>;
+  loadedAt: string;
+}
+
+let loaded: Rf2Snapshot | null = null;
+let loadPromise: Promise<Rf2Snapshot | null> | null = null;
+let loadError: string | null = null;
+
+/** Snapshot folder that failed to load; not retried until the folder changes */
+let failedDir: string | null = null;
+
+// ── Parsing ──
+
+/** Calls onRow with the columns of every data row (the header row is skipped) */
+async function readRf2File(filePath: string, onRow: (columns: string[]) => void): Promise<void> {
+  const lines = readline.createInterface({
+    input: createReadStream(filePath, { encoding: 'utf8' }),
+    crlfDelay: Infinity,
+  });
+
+  let isHeader = true;
+  for await (const line of lines) {
+    if (isHeader) {
+      isHeader = false;
+      continue;
+    }
+    if (line) onRow(line.split('\t'));
+  }
+}
+
+function addTo(map: Map<string, string[]>, key: string, value: string): void {
+  const values = map.get(key);
+  if (!values) map.set(key, [value]);
+  else if (!values.includes(value)) values.push(value);
+}
+
+/** "Type 2 diabetes mellitus (disorder)" → ["Type 2 diabetes mellitus", "disorder"] */
+function splitFsn(term: string): [string, string | null] {
+  const match = term.match(/^(.*\S)\s+\(([^()]+)\)$/);
+  return match ? [match[1], match[2]] : [term, null];
+}
+
+/** "E11.9" → "E119"; WHO targets can carry dagger / asterisk marks */
+function normalizeIcd10(code: string): string {
+  return code.toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+// ── Data loading ──
+
+function configuredDir(): string | null {
+  const configured = process.env.SNOMED_RF2_DIR?.trim();
+  return configured ? path.resolve(process.cwd(), configured) : null;
+}
+
+/** RF2 files under dir by kind; throws when a required file is missing */
+async function findRf2Files(dir: string): Promise<Record<Rf2FileKind, string[]>> {
+  const entries = await fs.readdir(dir, { recursive: true });
+  const files = {} as Record<Rf2FileKind, string[]>;
+
+  for (const [kind, { label, pattern }] of Object.entries(RF2_FILES) as Array<[Rf2FileKind, typeof RF2_FILES[Rf2FileKind]]>) {
+    files[kind] = entries
+      .filter(entry => pattern.test(path.basename(entry)))
+      .map(entry => path.join(dir, entry));
+    if (files[kind].length === 0 && kind !== 'language') {
+      throw new Error(`No ${label} snapshot file (${pattern.source}) in SNOMED_RF2_DIR`);
+    }
+  }
+  return files;
+}
+
+async function readSnapshot(dir: string): Promise<Rf2Snapshot> {
+  const files = await findRf2Files(dir);
+
+  // Concepts: id, effectiveTime, active, moduleId, definitionStatusId
+  const activeConcepts = new Set<string>();
+  for (const file of files.concept) {
+    await readRf2File(file, ([id, , active]) => {
+      if (active === '1') activeConcepts.add(id);
+    });
+  }
+
+  // Language refset: ..., active, moduleId, refsetId, referencedComponentId, acceptabilityId
+  const preferredDescriptions = new Set<string>();
+  for (const file of files.language) {
+    await readRf2File(file, ([, , active, , refsetId, descriptionId, acceptabilityId]) => {
+      if (active === '1' && refsetId === SCT.US_ENGLISH && acceptabilityId === SCT.PREFERRED) {
+        preferredDescriptions.add(descriptionId);
+      }
+    });
+  }
+
+  // Descriptions: id, effectiveTime, active, moduleId, conceptId, languageCode, typeId, term, caseSignificanceId
+  const names = new Map<string, string>();
+  const procedures = new Set<string>();
+  for (const file of files.description) {
+    await readRf2File(file, ([id, , active, , conceptId, , typeId, term]) => {
+      if (active !== '1') return;
+      if (typeId === SCT.FSN) {
+        const [name, tag] = splitFsn(term);
+        if (tag && PROCEDURE_TAGS.has(tag) && activeConcepts.has(conceptId)) procedures.add(conceptId);
+        if (!names.has(conceptId)) names.set(conceptId, name);
+      } else if (typeId === SCT.SYNONYM && preferredDescriptions.has(id)) {
+        names.set(conceptId, term);
+      }
+    });
+  }
+  preferredDescriptions.clear();
+
+  // Relationships: id, effectiveTime, active, moduleId, sourceId, destinationId, relationshipGroup, typeId, ...
+  const parents = new Map<string, string[]>();
+  const focusOf = new Map<string, string[]>();
+  const findingSites = new Map<string, string[]>();
+  const procedureSites = new Map<string, string[]>();
+  for (const file of files.relationship) {
+    await readRf2File(file, ([, , active, , sourceId, destinationId, , typeId]) => {
+      if (active !== '1') return;
+      const isProcedure = procedures.has(sourceId);
+
+      if (typeId === SCT.IS_A) {
+        if (!isProcedure) addTo(parents, sourceId, destinationId);
+      } else if (typeId === SCT.HAS_FOCUS) {
+        if (isProcedure) addTo(focusOf, destinationId, sourceId);
+      } else if (typeId === SCT.FINDING_SITE) {
+        addTo(findingSites, sourceId, destinationId);
+      } else if (PROCEDURE_SITE_TYPES.has(typeId) && isProcedure) {
+        addTo(procedureSites, destinationId, sourceId);
+      }
+    });
+  }
+
+  // Extended map: ..., active, moduleId, refsetId, referencedComponentId,
+  // mapGroup, mapPriority, mapRule, mapAdvice, mapTarget, correlationId, mapCategoryId
+  const mapsByRefset = new Map<string, Map<string, MappedConcept[]>>([
+    [SCT.ICD10CM_MAP, new Map()],
+    [SCT.ICD10_MAP, new Map()],
+  ]);
+  for (const file of files.icd10Map) {
+    await readRf2File(file, ([, , active, , refsetId, conceptId, mapGroup, mapPriority, , , mapTarget]) => {
+      const map = mapsByRefset.get(refsetId);
+      const target = normalizeIcd10(mapTarget ?? '');
+      if (!map || active !== '1' || !target || !activeConcepts.has(conceptId)) return;
+
+      const rank = Number(mapGroup) * 100 + Number(mapPriority);
+      const concepts = map.get(target) ?? [];
+      const existing = concepts.find(concept => concept.conceptId === conceptId);
+      if (!existing) concepts.push({ conceptId, rank });
+      else existing.rank = Math.min(existing.rank, rank);
+      map.set(target, concepts);
+    });
+  }
+
+  const cmMap = mapsByRefset.get(SCT.ICD10CM_MAP)!;
+  const icd10Map = cmMap.size > 0 ? cmMap : mapsByRefset.get(SCT.ICD10_MAP)!;
+  if (icd10Map.size === 0) throw new Error('The extended map refset has no ICD-10 map rows');
+  for (const concepts of icd10Map.values()) concepts.sort((a, b) => a.rank - b.rank);
+
+  return {
+    dir,
+    // ".../SnomedCT_ManagedServiceUS_PRODUCTION_US1000124_20250301T120000Z/Snapshot"
+    release: path.basename(dir) === 'Snapshot' ? path.basename(path.dirname(dir)) : path.basename(dir),
+    activeConcepts,
+    names,
+    procedures,
+    parents,
+    focusOf,
+    findingSites,
+    procedureSites,
+    icd10Map,
+    loadedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * The loaded snapshot, or null when SNOMED_RF2_DIR is unset or unreadable.
+ * Why it couldn't be read is reported by getSnomedRf2Status().
+ */
+async function loadData(): Promise<Rf2Snapshot | null> {
+  const dir = configuredDir();
+  if (!dir) return null;
+
+  if (loaded && loaded.dir === dir) return loaded;
+  if (failedDir === dir) return null;
+  if (loadPromise) return loadPromise;
+
+  loadPromise = (async () => {
+    const startTime = Date.now();
+    try {
+      loaded = await readSnapshot(dir);
+      loadError = null;
+      failedDir = null;
+      console.log(
+        `[SNOMED RF2] Loaded ${loaded.release}: ${loaded.activeConcepts.size} active concepts, ` +
+        `${loaded.procedures.size} procedures, ${loaded.icd10Map.size} ICD-10 codes mapped (${Date.now() - startTime}ms)`
+      );
+      return loaded;
+    } catch (err) {
+      console.error('[SNOMED RF2] Cannot load SNOMED CT snapshot:', err);
+      loadError = RF2_LOAD_ERROR;
+      failedDir = dir;
+      loaded = null;
+      return null;
+    } finally {
+      loadPromise = null;
+    }
+  })();
+
+  return loadPromise;
+}
+
+// ── Traversal ──
+
+/**
+ * Concepts mapped to an ICD-10 code: the code itself, else its subcodes
+ * (header codes carry no map rows), else its nearest mapped parent.
+ */
+function conceptsForIcd10(data: Rf2Snapshot, icd10Code: string): string[] {
+  const code = normalizeIcd10(icd10Code);
+
+  let mapped = data.icd10Map.get(code) ?? [];
+  if (mapped.length === 0) {
+    for (const [target, concepts] of data.icd10Map) {
+      if (target.startsWith(code)) mapped = mapped.concat(concepts);
+    }
+  }
+  for (let parent = code.slice(0, -1); mapped.length === 0 && parent.length >= 3; parent = parent.slice(0, -1)) {
+    mapped = data.icd10Map.get(parent) ?? [];
+  }
+
+  const conceptIds = [...mapped]
+    .sort((a, b) => a.rank - b.rank)
+    .map(concept => concept.conceptId);
+  return Array.from(new Set(conceptIds));
+}
+
+function toProcedure(data: Rf2Snapshot, conceptId: string, relationLabel: string): ProcedureResult {
+  const name = data.names.get(conceptId) ?? conceptId;
+  return {
+    code: conceptId,
+    codeSystem: 'SNOMED',
+    description: name,
+    category: categorizeSnomedProcedure(name, relationLabel),
+    relevanceScore: -1, // Will be scored by AI agent
+    source: 'snomed_rf2',
+    setting: 'both',
+  };
+}
+
+/**
+ * Procedures related to one concept, most specific first:
+ * 1. Has focus = the concept, then its parents (FOCUS_ANCESTOR_DEPTH levels)
+ * 2. Procedure site = one of the concept's Finding sites, shortest names
+ *    (the general procedures) first
+ */
+function findProceduresForConcept(data: Rf2Snapshot, conceptId: string): ProcedureResult[] {
+  const byName = (a: string, b: string) =>
+    (data.names.get(a) ?? a).localeCompare(data.names.get(b) ?? b);
+  const byNameLength = (a: string, b: string) =>
+    (data.names.get(a)?.length ?? 0) - (data.names.get(b)?.length ?? 0) || byName(a, b);
+
+  const found = new Map<string, string>();
+  const addAll = (conceptIds: string[], relationLabel: string) => {
+    for (const id of conceptIds) {
+      if (!found.has(id)) found.set(id, relationLabel);
+    }
+  };
+
+  // Step 1: Has focus, walking up the is-a hierarchy
+  const visited = new Set([conceptId]);
+  let level = [conceptId];
+  for (let depth = 0; depth <= FOCUS_ANCESTOR_DEPTH && level.length > 0; depth++) {
+    addAll(level.flatMap(id => data.focusOf.get(id) ?? []).sort(byName), 'focus_of');
+
+    level = level
+      .flatMap(id => data.parents.get(id) ?? [])
+      .filter(id => !visited.has(id));
+    level.forEach(id => visited.add(id));
+  }
+
+  // Step 2: procedures at the body site the condition affects
+  for (const site of data.findingSites.get(conceptId) ?? []) {
+    if (found.size >= MAX_PROCEDURE_RESULTS) break;
+    addAll([...(data.procedureSites.get(site) ?? [])].sort(byNameLength), 'procedure_site');
+  }
+
+  return Array.from(found)
+    .slice(0, MAX_PROCEDURE_RESULTS)
+    .map(([id, relationLabel]) => toProcedure(data, id, relationLabel));
+}
+
+// ── Public API ──
+
+/**
+ * Finds SNOMED CT procedures related to an ICD-10 diagnosis from the local
+ * snapshot. Same result shape as getSnomedProceduresForDiagnosis (UMLS),
+ * with source 'snomed_rf2'.
+ *
+ * @param icd10Code - ICD-10-CM code (e.g., "E11.9", "I10", "J44.1")
+ * @returns Procedures, empty when no concept maps to the code or the
+ *          snapshot isn't available
+ */
+export async function getRf2ProceduresForDiagnosis(icd10Code: string): Promise<ProcedureResult[]> {
+  const data = await loadData();
+  if (!data || !icd10Code.trim()) return [];
+
+  const allProcedures: ProcedureResult[] = [];
+  const seenCodes = new Set<string>();
+
+  for (const conceptId of conceptsForIcd10(data, icd10Code).slice(0, MAX_SOURCE_CONCEPTS)) {
+    for (const procedure of findProceduresForConcept(data, conceptId)) {
+      if (!seenCodes.has(procedure.code)) {
+        seenCodes.add(procedure.code);
+        allProcedures.push(procedure);
+      }
+    }
+  }
+
+  return allProcedures;
+}
+
+/**
+ * Looks up one SNOMED CT concept in the local snapshot (used to check
+ * curated codes).
+ *
+ * @param conceptId - SNOMED CT concept ID (e.g., "43396009")
+ * @returns Concept name and whether it is inactive, or null if the
+ *          snapshot doesn't have the ID
+ */
+export async function lookupRf2Concept(
+  conceptId: string
+): Promise<{ conceptId: string; name: string; obsolete: boolean } | null> {
+  const data = await loadData();
+  const id = conceptId.trim();
+  const name = data?.names.get(id);
+  if (!data || !name) return null;
+  return { conceptId: id, name, obsolete: !data.activeConcepts.has(id) };
+}
+
+/** Availability and size of the local SNOMED CT snapshot */
+export async function getSnomedRf2Status(): Promise<SnomedRf2Status> {
+  const data = await loadData();
+  return {
+    available: data !== null,
+    release: data?.release ?? null,
+    conceptCount: data?.activeConcepts.size ?? 0,
+    mappedIcd10Codes: data?.icd10Map.size ?? 0,
+    loadedAt: data?.loadedAt ?? null,
+    ...(!data && configuredDir() && loadError ? { error: loadError } : {}),
+  };
+}
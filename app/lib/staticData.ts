@@ -0,0 +1,49 @@
+/**
+ * staticData.ts — Loads the bundled data files in /public
+ *
+ * The local data modules (icd10cmLocalData.ts, hcpcsLocalData.ts, ...) load
+ * their files with fetchStaticData('/data/...'). In the browser that is a
+ * plain fetch relative to the page. On the server the files are read from
+ * disk by the reader staticDataServer.ts registers at startup
+ * (instrumentation.ts), so API routes don't request the app's own URL.
+ *
+ * Without a registered reader (Edge runtime, scripts that skip the
+ * startup hook) the server falls back to fetching from DATA_BASE_URL.
+ */
+
+/** Reads a /public path on the server, answering like fetch() would */
+export type StaticDataReader = (path: string) => Promise<Response>;
+
+/** Fallback origin for server-side fetches when DATA_BASE_URL isn't set */
+const DEFAULT_SERVER_ORIGIN = `http://localhost:${process.env.PORT ?? 3000}`;
+
+/**
+ * Kept on globalThis: Next.js bundles instrumentation and each route
+ * separately, and they must all see the same reader.
+ */
+const READER_KEY = Symbol.for('medcodemap.staticDataReader');
+
+function getReader(): StaticDataReader | undefined {
+  return (globalThis as typeof globalThis & { [READER_KEY]?: StaticDataReader })[READER_KEY];
+}
+
+/** Sets how the server reads /public files (see staticDataServer.ts) */
+export function setStaticDataReader(reader: StaticDataReader): void {
+  (globalThis as typeof globalThis & { [READER_KEY]?: StaticDataReader })[READER_KEY] = reader;
+}
+
+/**
+ * Loads a /public file in the current environment.
+ *
+ * @example
+ * const response = await fetchStaticData('/data/hcpcs-data.json');
+ * // browser → fetch("/data/hcpcs-data.json")
+ * // server  → public/data/hcpcs-data.json read from disk
+ */
+export function fetchStaticData(path: string): Promise<Response> {
+  if (typeof window !== 'undefined') return fetch(path);
+
+  const reader = getReader();
+  if (reader) return reader(path);
+  return fetch(new URL(path, process.env.DATA_BASE_URL ?? DEFAULT_SERVER_ORIGIN).toString());
+}
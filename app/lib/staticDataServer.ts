@@ -0,0 +1,35 @@
+/**
+ * staticDataServer.ts — Reads the bundled /public data files from disk (server only)
+ *
+ * Registered once at startup from instrumentation.ts (and by the eval
+ * runner), so server code loads public/data/... with node:fs instead of
+ * requesting its own URL. Kept apart from staticData.ts so node:fs stays
+ * out of the client bundle.
+ */
+
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { setStaticDataReader } from './staticData';
+
+/** Directory /public paths are resolved against */
+const PUBLIC_DIR = path.join(process.cwd(), 'public');
+
+/**
+ * Switches server-side fetchStaticData() to reading from PUBLIC_DIR.
+ * Missing files answer 404 like the static file server would.
+ */
+export function configureServerStaticData(): void {
+  setStaticDataReader(async (publicPath) => {
+    const filePath = path.join(PUBLIC_DIR, publicPath);
+    if (!filePath.startsWith(PUBLIC_DIR + path.sep)) {
+      return new Response(null, { status: 404 });
+    }
+
+    try {
+      return new Response(await fs.readFile(filePath, 'utf8'));
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') return new Response(null, { status: 404 });
+      throw err;
+    }
+  });
+}
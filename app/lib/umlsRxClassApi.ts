@@ -11,11 +11,15 @@
  * - Drug class/category lookup (ATC, EPC, MOA, etc.)
  * - Ingredient breakdown for combination drugs
  * - Related drug suggestions (different strengths/forms)
+ * - MED-RT "may_treat" indications (used by the rule-based relevance scorer)
+ * - Class members (ingredients sharing an EPC class, used for alternatives)
  *
  * Note: RxClass API is free and doesn't require authentication.
  * The UMLS_API_KEY is only needed for future UMLS-specific endpoints.
  */
 
+import { createCache } from './cache';
+
 // =============================================================================
 // Configuration
 // =============================================================================
@@ -32,6 +36,9 @@ const CACHE_TTL_MS = 24 * 60 * 60 * 1000;
 /** Extended cache TTL for drug classes (7 days - more stable data) */
 const CLASS_CACHE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
 
+/** Maximum cached rxcuis per cache */
+const CACHE_MAX_SIZE = 2000;
+
 // =============================================================================
 // TypeScript Interfaces
 // =============================================================================
@@ -67,6 +74,17 @@ export interface RelatedDrug {
   strength: string;
 }
 
+/**
+ * Ingredient belonging to a drug class.
+ */
+export interface ClassMember {
+  /** RxNorm Concept Unique Identifier of the ingredient */
+  rxcui: string;
+
+  /** Ingredient name, lowercase as in RxNorm (e.g., "adalimumab-adaz") */
+  name: string;
+}
+
 /**
  * RxClass API response structure for class lookup.
  */
@@ -82,6 +100,21 @@ interface RxClassResponse {
   };
 }
 
+/**
+ * RxClass API response structure for class members.
+ */
+interface RxClassMembersResponse {
+  drugMemberGroup?: {
+    drugMember?: Array<{
+      minConcept?: {
+        rxcui: string;
+        name: string;
+        tty: string;
+      };
+    }>;
+  };
+}
+
 /**
  * RxNorm related concepts response structure.
  */
@@ -102,36 +135,35 @@ interface RxNormRelatedResponse {
 // Cache
 // =============================================================================
 
-interface CachedClasses {
-  classes: DrugClass[];
-  timestamp: number;
-}
-
-interface CachedIngredients {
-  ingredients: string[];
-  timestamp: number;
-}
-
-interface CachedRelated {
-  drugs: RelatedDrug[];
-  timestamp: number;
-}
-
-/** In-memory cache for drug classes */
-const classCache = new Map<string, CachedClasses>();
-
-/** In-memory cache for ingredients */
-const ingredientCache = new Map<string, CachedIngredients>();
-
-/** In-memory cache for related drugs */
-const relatedCache = new Map<string, CachedRelated>();
-
-/**
- * Checks if a cached entry is still valid.
- */
-function isCacheValid<T extends { timestamp: number }>(cached: T, ttl: number): boolean {
-  return Date.now() - cached.timestamp < ttl;
-}
+/** Shared cache for drug classes */
+const classCache = createCache<DrugClass[]>('rxclass-classes', {
+  ttlMs: CLASS_CACHE_TTL_MS,
+  maxEntries: CACHE_MAX_SIZE,
+});
+
+/** Shared cache for ingredients */
+const ingredientCache = createCache<string[]>('rxclass-ingredients', {
+  ttlMs: CACHE_TTL_MS,
+  maxEntries: CACHE_MAX_SIZE,
+});
+
+/** Shared cache for related drugs */
+const relatedCache = createCache<RelatedDrug[]>('rxclass-related', {
+  ttlMs: CACHE_TTL_MS,
+  maxEntries: CACHE_MAX_SIZE,
+});
+
+/** Shared cache for MED-RT may_treat diseases (as stable as drug classes) */
+const mayTreatCache = createCache<string[]>('rxclass-may-treat', {
+  ttlMs: CLASS_CACHE_TTL_MS,
+  maxEntries: CACHE_MAX_SIZE,
+});
+
+/** Shared cache for class members (as stable as drug classes) */
+const memberCache = createCache<ClassMember[]>('rxclass-members', {
+  ttlMs: CLASS_CACHE_TTL_MS,
+  maxEntries: CACHE_MAX_SIZE,
+});
 
 // =============================================================================
 // Drug Class Lookup
@@ -158,10 +190,10 @@ export async function getDrugClasses(rxcui: string): Promise<DrugClass[]> {
   const cacheKey = `class:${rxcui}`;
 
   // Check cache first
-  const cached = classCache.get(cacheKey);
-  if (cached && isCacheValid(cached, CLASS_CACHE_TTL_MS)) {
+  const cached = await classCache.get(cacheKey);
+  if (cached) {
     console.log(`[RxClass] Cache HIT for classes: ${rxcui}`);
-    return cached.classes;
+    return cached;
   }
 
   try {
@@ -174,7 +206,7 @@ export async function getDrugClasses(rxcui: string): Promise<DrugClass[]> {
 
     if (!response.ok) {
       console.warn(`[RxClass] API error: ${response.status} ${response.statusText}`);
-      classCache.set(cacheKey, { classes: [], timestamp: Date.now() });
+      await classCache.set(cacheKey, []);
       return [];
     }
 
@@ -184,7 +216,7 @@ export async function getDrugClasses(rxcui: string): Promise<DrugClass[]> {
     const classes = parseRxClassResponse(data);
 
     // Cache the result
-    classCache.set(cacheKey, { classes, timestamp: Date.now() });
+    await classCache.set(cacheKey, classes);
 
     console.log(`[RxClass] Found ${classes.length} classes for rxcui: ${rxcui}`);
 
@@ -195,7 +227,7 @@ export async function getDrugClasses(rxcui: string): Promise<DrugClass[]> {
     console.warn(`[RxClass] Failed to fetch classes for ${rxcui}:`, message);
 
     // Cache the failure
-    classCache.set(cacheKey, { classes: [], timestamp: Date.now() });
+    await classCache.set(cacheKey, []);
     return [];
   }
 }
@@ -244,6 +276,142 @@ function parseRxClassResponse(data: RxClassResponse): DrugClass[] {
   });
 }
 
+// =============================================================================
+// Class Members Lookup
+// =============================================================================
+
+/**
+ * Gets the ingredients in an EPC class, as labeled in DailyMed SPLs.
+ *
+ * @param classId - EPC class id from getDrugClasses (e.g., "N0000175589")
+ * @returns Ingredients sorted by name, empty array if not found
+ *
+ * @example
+ * const members = await getClassMembers("N0000175589"); // HMG-CoA Reductase Inhibitor
+ * // Returns: [{ rxcui: "83367", name: "atorvastatin" }, { rxcui: "301542", name: "rosuvastatin" }, ...]
+ */
+export async function getClassMembers(classId: string): Promise<ClassMember[]> {
+  if (!classId) {
+    return [];
+  }
+
+  const cacheKey = `members:${classId}`;
+
+  // Check cache first
+  const cached = await memberCache.get(cacheKey);
+  if (cached) {
+    console.log(`[RxClass] Cache HIT for class members: ${classId}`);
+    return cached;
+  }
+
+  try {
+    const url = `${RXCLASS_BASE_URL}/classMembers.json?classId=${encodeURIComponent(classId)}&relaSource=DAILYMED&rela=has_epc&ttys=IN`;
+
+    console.log(`[RxClass] Fetching members of class: ${classId}`);
+
+    const response = await fetch(url);
+
+    if (!response.ok) {
+      console.warn(`[RxClass] API error: ${response.status} ${response.statusText}`);
+      return [];
+    }
+
+    const data: RxClassMembersResponse = await response.json();
+
+    // Deduplicate by rxcui; an ingredient is listed once per labeling source
+    const memberMap = new Map<string, ClassMember>();
+    for (const member of data.drugMemberGroup?.drugMember ?? []) {
+      const concept = member.minConcept;
+      if (concept?.rxcui && concept.name && !memberMap.has(concept.rxcui)) {
+        memberMap.set(concept.rxcui, { rxcui: concept.rxcui, name: concept.name.toLowerCase() });
+      }
+    }
+    const members = [...memberMap.values()].sort((a, b) => a.name.localeCompare(b.name));
+
+    await memberCache.set(cacheKey, members);
+
+    console.log(`[RxClass] Found ${members.length} members of class: ${classId}`);
+
+    return members;
+
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.warn(`[RxClass] Failed to fetch members of ${classId}:`, message);
+
+    // Network failures are not cached - the alternatives panel should retry
+    return [];
+  }
+}
+
+// =============================================================================
+// Indication Lookup (MED-RT may_treat)
+// =============================================================================
+
+/**
+ * Gets the diseases a drug may treat, from MED-RT "may_treat" relations.
+ *
+ * MED-RT links ingredients (not branded products) to diseases, so pass an
+ * ingredient name. Combination drugs should be looked up per ingredient.
+ *
+ * @param drugName - Ingredient name (e.g., "semaglutide")
+ * @returns Disease names, empty array if not found
+ *
+ * @example
+ * const diseases = await getMayTreatConditions("metformin");
+ * // Returns: ["Diabetes Mellitus, Type 2", ...]
+ */
+export async function getMayTreatConditions(drugName: string): Promise<string[]> {
+  const normalized = drugName.toLowerCase().trim();
+  if (!normalized) {
+    return [];
+  }
+
+  const cacheKey = `may_treat:${normalized}`;
+
+  // Check cache first
+  const cached = await mayTreatCache.get(cacheKey);
+  if (cached) {
+    console.log(`[RxClass] Cache HIT for may_treat: ${normalized}`);
+    return cached;
+  }
+
+  try {
+    const url = `${RXCLASS_BASE_URL}/class/byDrugName.json?drugName=${encodeURIComponent(normalized)}&relaSource=MEDRT&relas=may_treat`;
+
+    console.log(`[RxClass] Fetching may_treat for: ${normalized}`);
+
+    const response = await fetch(url);
+
+    if (!response.ok) {
+      console.warn(`[RxClass] API error: ${response.status} ${response.statusText}`);
+      await mayTreatCache.set(cacheKey, []);
+      return [];
+    }
+
+    const data: RxClassResponse = await response.json();
+
+    // Deduplicate by disease name; MED-RT repeats them per source concept
+    const diseases = [...new Set(
+      (data.rxclassDrugInfoList?.rxclassDrugInfo ?? [])
+        .map(info => info.rxclassMinConceptItem?.className)
+        .filter((name): name is string => Boolean(name))
+    )];
+
+    await mayTreatCache.set(cacheKey, diseases);
+
+    console.log(`[RxClass] Found ${diseases.length} may_treat diseases for: ${normalized}`);
+
+    return diseases;
+
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.warn(`[RxClass] Failed to fetch may_treat for ${normalized}:`, message);
+
+    // Network failures are not cached - the rule scorer should retry
+    return [];
+  }
+}
+
 // =============================================================================
 // Ingredient Lookup
 // =============================================================================
@@ -268,10 +436,10 @@ export async function getDrugIngredients(rxcui: string): Promise<string[]> {
   const cacheKey = `ingredients:${rxcui}`;
 
   // Check cache first
-  const cached = ingredientCache.get(cacheKey);
-  if (cached && isCacheValid(cached, CACHE_TTL_MS)) {
+  const cached = await ingredientCache.get(cacheKey);
+  if (cached) {
     console.log(`[RxClass] Cache HIT for ingredients: ${rxcui}`);
-    return cached.ingredients;
+    return cached;
   }
 
   try {
@@ -284,7 +452,7 @@ export async function getDrugIngredients(rxcui: string): Promise<string[]> {
 
     if (!response.ok) {
       console.warn(`[RxClass] Ingredients API error: ${response.status}`);
-      ingredientCache.set(cacheKey, { ingredients: [], timestamp: Date.now() });
+      await ingredientCache.set(cacheKey, []);
       return [];
     }
 
@@ -294,7 +462,7 @@ export async function getDrugIngredients(rxcui: string): Promise<string[]> {
     const ingredients = parseIngredientsResponse(data);
 
     // Cache the result
-    ingredientCache.set(cacheKey, { ingredients, timestamp: Date.now() });
+    await ingredientCache.set(cacheKey, ingredients);
 
     console.log(`[RxClass] Found ${ingredients.length} ingredients for rxcui: ${rxcui}`);
 
@@ -305,7 +473,7 @@ export async function getDrugIngredients(rxcui: string): Promise<string[]> {
     console.warn(`[RxClass] Failed to fetch ingredients for ${rxcui}:`, message);
 
     // Cache the failure
-    ingredientCache.set(cacheKey, { ingredients: [], timestamp: Date.now() });
+    await ingredientCache.set(cacheKey, []);
     return [];
   }
 }
@@ -360,10 +528,10 @@ export async function getRelatedDrugs(rxcui: string, limit: number = 5): Promise
   const cacheKey = `related:${rxcui}`;
 
   // Check cache first
-  const cached = relatedCache.get(cacheKey);
-  if (cached && isCacheValid(cached, CACHE_TTL_MS)) {
+  const cached = await relatedCache.get(cacheKey);
+  if (cached) {
     console.log(`[RxClass] Cache HIT for related drugs: ${rxcui}`);
-    return cached.drugs.slice(0, limit);
+    return cached.slice(0, limit);
   }
 
   try {
@@ -377,7 +545,7 @@ export async function getRelatedDrugs(rxcui: string, limit: number = 5): Promise
 
     if (!response.ok) {
       console.warn(`[RxClass] Related drugs API error: ${response.status}`);
-      relatedCache.set(cacheKey, { drugs: [], timestamp: Date.now() });
+      await relatedCache.set(cacheKey, []);
       return [];
     }
 
@@ -387,7 +555,7 @@ export async function getRelatedDrugs(rxcui: string, limit: number = 5): Promise
     const drugs = parseRelatedDrugsResponse(data, rxcui);
 
     // Cache the result
-    relatedCache.set(cacheKey, { drugs, timestamp: Date.now() });
+    await relatedCache.set(cacheKey, drugs);
 
     console.log(`[RxClass] Found ${drugs.length} related drugs for rxcui: ${rxcui}`);
 
@@ -398,7 +566,7 @@ export async function getRelatedDrugs(rxcui: string, limit: number = 5): Promise
     console.warn(`[RxClass] Failed to fetch related drugs for ${rxcui}:`, message);
 
     // Cache the failure
-    relatedCache.set(cacheKey, { drugs: [], timestamp: Date.now() });
+    await relatedCache.set(cacheKey, []);
     return [];
   }
 }
@@ -520,24 +688,39 @@ export async function getFullDrugEnrichment(rxcui: string): Promise<{
  * Clears all UMLS/RxClass caches.
  * Useful for testing or forcing fresh data.
  */
-export function clearRxClassCache(): void {
-  classCache.clear();
-  ingredientCache.clear();
-  relatedCache.clear();
+export async function clearRxClassCache(): Promise<void> {
+  await Promise.all([
+    classCache.clear(),
+    ingredientCache.clear(),
+    relatedCache.clear(),
+    mayTreatCache.clear(),
+    memberCache.clear(),
+  ]);
   console.log('[RxClass] All caches cleared');
 }
 
 /**
  * Gets cache statistics for debugging.
  */
-export function getRxClassCacheStats(): {
+export async function getRxClassCacheStats(): Promise<{
   classCount: number;
   ingredientCount: number;
   relatedCount: number;
-} {
+  mayTreatCount: number;
+  memberCount: number;
+}> {
+  const [classes, ingredients, related, mayTreat, members] = await Promise.all([
+    classCache.stats(),
+    ingredientCache.stats(),
+    relatedCache.stats(),
+    mayTreatCache.stats(),
+    memberCache.stats(),
+  ]);
   return {
-    classCount: classCache.size,
-    ingredientCount: ingredientCache.size,
-    relatedCount: relatedCache.size,
+    classCount: classes.entries ?? 0,
+    ingredientCount: ingredients.entries ?? 0,
+    relatedCount: related.entries ?? 0,
+    mayTreatCount: mayTreat.entries ?? 0,
+    memberCount: members.entries ?? 0,
   };
 }
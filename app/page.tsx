@@ -20,7 +20,7 @@
 'use client';
 
 import { useState, useEffect, useCallback, useMemo } from 'react';
-import { Star, Clock, Grid3X3 } from 'lucide-react';
+import { Star, Clock, Grid3X3, ListTree, ClipboardList, Table2, ShieldAlert } from 'lucide-react';
 import Image from 'next/image';
 import Link from 'next/link';
 
@@ -37,8 +37,16 @@ import { searchICD10, searchICD10More, getRelatedCodes, isSpecificCode } from '.
 import { isICD10Code } from './lib/conditionsApi';
 import { detectCodeType } from './lib/conditionsApi';
 import { searchLocalHcpcs } from './lib/hcpcsLocalData';
-import { HCPCSResult } from './types/icd';
+import { getIcd10DataVersion } from './lib/icd10cmLocalData';
+import { crosswalkIcd9ToIcd10 } from './lib/gemsCrosswalk';
+import { decodePcsCode } from './lib/icd10pcsTables';
+import { HCPCSResult, CrosswalkResult, PcsDecodeResult } from './types/icd';
 import HcpcsResultCard from './components/HcpcsResultCard';
+import CrosswalkPanel from './components/CrosswalkPanel';
+import PcsDecoderPanel from './components/PcsDecoderPanel';
+import { useEncounter } from './hooks/useEncounter';
+import { countEncounterItems } from './lib/encounterStorage';
+import { useInteractionList } from './hooks/useInteractionList';
 
 // Import favorites storage utilities
 import { 
@@ -53,7 +61,7 @@ import {
 } from './lib/favoritesStorage';
 
 // Import TypeScript types for type safety
-import { DrugResult, ClinicalTrialResult, ScoredICD10Result, TranslationResult, FavoriteICD, SearchHistoryEntry } from './types/icd';
+import { DrugResult, ClinicalTrialResult, ScoredICD10Result, TranslationResult, FavoriteICD, SearchHistoryEntry, ICD10DataSource, DrugConditionSearchResult } from './types/icd';
 
 // =============================================================================
 // Main Component
@@ -79,6 +87,15 @@ export default function Home() {
   const [isHcpcsSearch, setIsHcpcsSearch] = useState(false);
   const [hcpcsHintCount, setHcpcsHintCount] = useState(0);
   
+  // ICD-9-CM → ICD-10-CM crosswalk (legacy codes)
+  const [crosswalkResult, setCrosswalkResult] = useState<CrosswalkResult | null>(null);
+  
+  // ICD-10-PCS code explained character by character
+  const [pcsDecodeResult, setPcsDecodeResult] = useState<PcsDecodeResult | null>(null);
+  
+  // Drug search: conditions a drug treats (results hold its ICD-10 codes)
+  const [drugSearch, setDrugSearch] = useState<DrugConditionSearchResult | null>(null);
+  
   // Phase 4: Search metadata for pagination and total count display
   const [totalCount, setTotalCount] = useState<number>(0);
   const [hasMore, setHasMore] = useState<boolean>(false);
@@ -88,6 +105,10 @@ export default function Home() {
   // Phase 5: Translation metadata for displaying translation notice
   const [translation, setTranslation] = useState<TranslationResult | undefined>(undefined);
   
+  // Offline ICD-10-CM data: which source answered + bundled dataset version
+  const [dataSource, setDataSource] = useState<ICD10DataSource | undefined>(undefined);
+  const [icd10DataVersion, setIcd10DataVersion] = useState<string | null>(null);
+  
   // Phase 3C: Centralized drug/trial state
   // Maps ICD code -> array of related data (used by ResultCard to cache loaded data)
   const [drugsMap, setDrugsMap] = useState<Map<string, DrugResult[]>>(new Map());
@@ -96,6 +117,11 @@ export default function Home() {
   // Phase 6: Favorites state
   const [favorites, setFavorites] = useState<FavoriteICD[]>([]);
   const [showFavoritesPanel, setShowFavoritesPanel] = useState(false);
+
+  // Encounter builder item count (header badge)
+  const { encounter } = useEncounter();
+  const encounterCount = countEncounterItems(encounter);
+  const { drugs: interactionDrugs } = useInteractionList();
   
   // Phase 10: Related codes state (for sibling ICD codes display)
   const [relatedCodes, setRelatedCodes] = useState<ScoredICD10Result[]>([]);
@@ -135,6 +161,13 @@ export default function Home() {
     }
   }, []);
   
+  // Load the bundled ICD-10-CM version label for the footer / offline badge
+  useEffect(() => {
+    getIcd10DataVersion()
+      .then(v => setIcd10DataVersion(`ICD-10-CM ${v.version}${v.partial ? ` (partial, ${v.totalCodes} codes)` : ''}`))
+      .catch(() => setIcd10DataVersion(null));
+  }, []);
+  
   // ---------------------------------------------------------------------------
   // Helper: Save Search to Recent Searches
   // ---------------------------------------------------------------------------
@@ -383,10 +416,13 @@ export default function Home() {
     // Phase 10: Clear related codes on new search
     setRelatedCodes([]);
     setShowRelatedSection(false);
+    setCrosswalkResult(null);
+    setPcsDecodeResult(null);
+    setDrugSearch(null);
 
     addToRecentSearches(query);
 
-    // Detect code type: HCPCS vs ICD-10 vs condition name
+    // Detect code type: HCPCS vs ICD-9 vs ICD-10-PCS vs ICD-10 vs condition name
     const codeType = detectCodeType(query);
 
     // For plain-text queries, check if HCPCS matches exist (for hint banner)
@@ -415,6 +451,33 @@ export default function Home() {
 
         // Phase 6C: Add to enhanced history
         addToEnhancedHistory(query, hcpcsData.length);
+      } else if (codeType === 'icd9') {
+        // ── ICD-9-CM Crosswalk Path ──
+        setIsHcpcsSearch(false);
+        setHcpcsResults([]);
+        setResults([]);
+        setTranslation(undefined);
+        setTotalCount(0);
+        setHasMore(false);
+
+        const crosswalk = await crosswalkIcd9ToIcd10(query);
+        setCrosswalkResult(crosswalk);
+
+        const targetCount = crosswalk.mappings.length + crosswalk.scenarios.length;
+        addToEnhancedHistory(query, targetCount);
+      } else if (codeType === 'icd10pcs') {
+        // ── ICD-10-PCS Decoder Path ──
+        setIsHcpcsSearch(false);
+        setHcpcsResults([]);
+        setResults([]);
+        setTranslation(undefined);
+        setTotalCount(0);
+        setHasMore(false);
+
+        const decoded = await decodePcsCode(query);
+        setPcsDecodeResult(decoded);
+
+        addToEnhancedHistory(query, decoded.status === 'invalid' ? 0 : 1);
       } else {
         // ── ICD-10 / Condition Search Path (existing logic) ──
         setIsHcpcsSearch(false);
@@ -424,13 +487,15 @@ export default function Home() {
           results: scoredResults,
           totalCount: total,
           hasMore: more,
-          translation: translationResult
+          translation: translationResult,
+          dataSource: source
         } = await searchICD10(query);
 
         setResults(scoredResults);
         setTotalCount(total);
         setHasMore(more);
         setTranslation(translationResult);
+        setDataSource(source);
 
         // Phase 6C: Add to enhanced history with metadata
         addToEnhancedHistory(query, total, scoredResults[0]);
@@ -456,6 +521,52 @@ export default function Home() {
     }
   };
   
+  /**
+   * Drug search mode: finds the conditions a drug treats (server-side, since
+   * it reads the curated mappings and RxClass) and shows them as ICD-10
+   * results. Not added to recent searches or history — those replay as
+   * condition searches.
+   */
+  const handleDrugSearch = async (drugName: string) => {
+    setIsLoading(true);
+    setError(null);
+    setHasSearched(true);
+    setCurrentQuery(drugName);
+
+    setDrugsMap(new Map());
+    setTrialsMap(new Map());
+    setRelatedCodes([]);
+    setShowRelatedSection(false);
+    setCrosswalkResult(null);
+    setPcsDecodeResult(null);
+    setIsHcpcsSearch(false);
+    setHcpcsResults([]);
+    setHcpcsHintCount(0);
+    setTranslation(undefined);
+    setDataSource(undefined);
+    setHasMore(false);
+
+    try {
+      const response = await fetch(`/api/drug-conditions?drug=${encodeURIComponent(drugName)}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || `Drug search failed (${response.status})`);
+      }
+
+      const result = data as DrugConditionSearchResult;
+      setDrugSearch(result);
+      setResults(result.results);
+      setTotalCount(result.results.length);
+    } catch (err) {
+      setDrugSearch(null);
+      setResults([]);
+      setTotalCount(0);
+      setError(err instanceof Error ? err.message : 'An unexpected error occurred');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+  
   /**
    * Phase 4C: Handles loading more results when "Load More" is clicked.
    * Appends new results to existing ones (doesn't replace).
@@ -515,14 +626,62 @@ export default function Home() {
               </div>
             </div>
             
-            {/* HCPCS Browse Link */}
-            <Link
-              href="/hcpcs"
-              className="hidden sm:inline-flex items-center gap-1.5 px-3 py-1.5 rounded-full text-sm font-medium text-emerald-700 dark:text-emerald-400 bg-emerald-50 dark:bg-emerald-900/20 hover:bg-emerald-100 dark:hover:bg-emerald-900/30 border border-emerald-200/60 dark:border-emerald-800/40 transition-colors"
-            >
-              <Grid3X3 className="w-3.5 h-3.5" />
-              HCPCS Browse
-            </Link>
+            <div className="hidden sm:flex items-center gap-2">
+              {/* ICD-10-CM Tabular Browse Link */}
+              <Link
+                href="/icd10"
+                className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-full text-sm font-medium text-blue-700 dark:text-blue-400 bg-blue-50 dark:bg-blue-900/20 hover:bg-blue-100 dark:hover:bg-blue-900/30 border border-blue-200/60 dark:border-blue-800/40 transition-colors"
+              >
+                <ListTree className="w-3.5 h-3.5" />
+                ICD-10 Browse
+              </Link>
+
+              {/* HCPCS Browse Link */}
+              <Link
+                href="/hcpcs"
+                className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-full text-sm font-medium text-emerald-700 dark:text-emerald-400 bg-emerald-50 dark:bg-emerald-900/20 hover:bg-emerald-100 dark:hover:bg-emerald-900/30 border border-emerald-200/60 dark:border-emerald-800/40 transition-colors"
+              >
+                <Grid3X3 className="w-3.5 h-3.5" />
+                HCPCS Browse
+              </Link>
+
+              {/* Encounter Builder Link */}
+              <Link
+                href="/encounter"
+                className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-full text-sm font-medium text-indigo-700 dark:text-indigo-400 bg-indigo-50 dark:bg-indigo-900/20 hover:bg-indigo-100 dark:hover:bg-indigo-900/30 border border-indigo-200/60 dark:border-indigo-800/40 transition-colors"
+              >
+                <ClipboardList className="w-3.5 h-3.5" />
+                Encounter
+                {encounterCount > 0 && (
+                  <span className="min-w-[1.25rem] px-1.5 rounded-full bg-indigo-600 text-white text-[11px] font-bold text-center">
+                    {encounterCount}
+                  </span>
+                )}
+              </Link>
+
+              {/* Interaction Checker Link */}
+              <Link
+                href="/interactions"
+                className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-full text-sm font-medium text-rose-700 dark:text-rose-400 bg-rose-50 dark:bg-rose-900/20 hover:bg-rose-100 dark:hover:bg-rose-900/30 border border-rose-200/60 dark:border-rose-800/40 transition-colors"
+              >
+                <ShieldAlert className="w-3.5 h-3.5" />
+                Interactions
+                {interactionDrugs.length > 0 && (
+                  <span className="min-w-[1.25rem] px-1.5 rounded-full bg-rose-600 text-white text-[11px] font-bold text-center">
+                    {interactionDrugs.length}
+                  </span>
+                )}
+              </Link>
+
+              {/* Batch Lookup Link */}
+              <Link
+                href="/batch"
+                className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-full text-sm font-medium text-cyan-700 dark:text-cyan-400 bg-cyan-50 dark:bg-cyan-900/20 hover:bg-cyan-100 dark:hover:bg-cyan-900/30 border border-cyan-200/60 dark:border-cyan-800/40 transition-colors"
+              >
+                <Table2 className="w-3.5 h-3.5" />
+                Batch
+              </Link>
+            </div>
 
             {/* Phase 6: Favorites Button - Enhanced styling */}
             <button
@@ -655,6 +814,7 @@ export default function Home() {
             <div className="relative glass-panel rounded-2xl shadow-xl p-6 sm:p-8 border border-white/60 dark:border-gray-700/50">
               <SearchBar
                 onSearch={handleSearch}
+                onDrugSearch={handleDrugSearch}
                 isLoading={isLoading}
                 recentSearches={recentSearches}
               />
@@ -667,7 +827,13 @@ export default function Home() {
       {/* Results Section */}
       {/* ================================================================= */}
       <main className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 pb-16">
-        {isHcpcsSearch ? (
+        {crosswalkResult && !isLoading ? (
+          // ── ICD-9-CM Crosswalk ──
+          <CrosswalkPanel result={crosswalkResult} onSelectCode={handleSearch} />
+        ) : pcsDecodeResult && !isLoading ? (
+          // ── ICD-10-PCS Decoder ──
+          <PcsDecoderPanel result={pcsDecodeResult} />
+        ) : isHcpcsSearch ? (
           // ── HCPCS Results ──
           <div>
             {isLoading && (
@@ -763,6 +929,9 @@ export default function Home() {
             onLoadMore={handleLoadMore}
             isLoadingMore={isLoadingMore}
             translation={translation}
+            drugSearch={drugSearch}
+            dataSource={dataSource}
+            dataVersion={icd10DataVersion ?? undefined}
             favorites={favorites}
             favoritesMap={favoritesMap}
             onToggleFavorite={toggleFavorite}
@@ -815,6 +984,11 @@ export default function Home() {
               >
                 ClinicalTrials.gov
               </a>
+              {icd10DataVersion && (
+                <span className="text-gray-400 dark:text-gray-500">
+                  {' • '}Offline: {icd10DataVersion}
+                </span>
+              )}
             </p>
             <p className="text-xs text-gray-400 dark:text-gray-500 font-medium">
               Built with Next.js & React Flow
@@ -31,6 +31,332 @@ export interface ICD10Result {
   
   /** The human-readable condition name */
   name: string;
+
+  /**
+   * Tabular List instructional notes (Excludes1, Code First, ...).
+   * Only present for codes found in the local ICD-10-CM data set;
+   * ClinicalTables results do not carry notes.
+   */
+  notes?: ICD10InstructionalNotes;
+}
+
+// =============================================================================
+// Tabular Instructional Notes
+// =============================================================================
+
+/**
+ * One line of a Tabular List instructional note.
+ *
+ * @example
+ * // Under E11 Type 2 diabetes mellitus → Excludes1:
+ * { text: "type 1 diabetes mellitus", codes: ["E10.-"], fromCode: "E11" }
+ */
+export interface ICD10NoteEntry {
+  /** Note text as printed in the Tabular List */
+  text: string;
+
+  /**
+   * Codes the note points to, in Tabular notation:
+   * "E10.-" (whole category), "O24.4-" (subcategory), "K85-K86" (range).
+   * Empty for inclusion terms that don't reference another code.
+   */
+  codes: string[];
+
+  /**
+   * Code the note is printed under. Notes at a category or subcategory
+   * apply to every code below it, so for E11.65 this may be "E11".
+   */
+  fromCode: string;
+}
+
+/**
+ * Instructional notes that apply to a code, including inherited ones.
+ *
+ * - includes:          Terms that belong in this code
+ * - excludes1:         "NOT CODED HERE" — never report together with the referenced code
+ * - excludes2:         "Not included here" — both may be reported if both conditions exist
+ * - codeFirst:         Sequence the underlying/etiology code before this one
+ * - useAdditionalCode: Add a secondary code for more detail (e.g., insulin use Z79.4)
+ */
+export interface ICD10InstructionalNotes {
+  includes: ICD10NoteEntry[];
+  excludes1: ICD10NoteEntry[];
+  excludes2: ICD10NoteEntry[];
+  codeFirst: ICD10NoteEntry[];
+  useAdditionalCode: ICD10NoteEntry[];
+}
+
+/** Keys of ICD10InstructionalNotes, in the order the Tabular List prints them */
+export type ICD10NoteType = keyof ICD10InstructionalNotes;
+
+/**
+ * Two codes that should not be reported together because one has an
+ * Excludes1 note pointing at the other.
+ *
+ * @example
+ * { code: "E11.9", excludedCode: "E10.9", note: { text: "type 1 diabetes mellitus", codes: ["E10.-"], fromCode: "E11" } }
+ */
+export interface Excludes1Conflict {
+  /** Code whose Excludes1 note triggers the conflict */
+  code: string;
+
+  /** The other code, matched by the note */
+  excludedCode: string;
+
+  /** The Excludes1 note that matched */
+  note: ICD10NoteEntry;
+}
+
+// =============================================================================
+// Code Validation (Billable vs. Header, 7th Character)
+// =============================================================================
+
+/**
+ * A 7th character value defined for a category (mostly injuries, S/T codes).
+ *
+ * @example { char: "A", description: "initial encounter" }
+ */
+export interface SeventhCharacterOption {
+  char: string;
+  description: string;
+}
+
+/**
+ * Outcome of validating an ICD-10-CM code against a fiscal year's code set.
+ *
+ * - 'billable':          Valid on a claim as-is
+ * - 'header':            Category/subcategory with more specific codes below
+ * - 'needs_seventh':     Leaf of a category that requires a 7th character
+ * - 'invalid_seventh':   7th character isn't defined for this category
+ * - 'not_found':         Well-formed but not in the code set for that year
+ * - 'invalid_format':    Not shaped like an ICD-10-CM code
+ * - 'unsupported_year':  No local code set for the requested fiscal year
+ */
+export type CodeValidationStatus =
+  | 'billable'
+  | 'header'
+  | 'needs_seventh'
+  | 'invalid_seventh'
+  | 'not_found'
+  | 'invalid_format'
+  | 'unsupported_year';
+
+/**
+ * Result of validateIcd10Code().
+ *
+ * @example
+ * {
+ *   code: "S93.401A",
+ *   fiscalYear: 2026,
+ *   status: "billable",
+ *   billable: true,
+ *   description: "Sprain of unspecified ligament of right ankle, initial encounter",
+ *   baseCode: "S93.401",
+ *   seventhCharacter: { char: "A", description: "initial encounter" },
+ *   message: "Billable for FY2026"
+ * }
+ */
+export interface CodeValidationResult {
+  /** Input code, formatted with a dot (e.g., "S93401A" → "S93.401A") */
+  code: string;
+
+  fiscalYear: number;
+  status: CodeValidationStatus;
+
+  /** Shortcut for status === 'billable' */
+  billable: boolean;
+
+  /** Human-readable explanation for the UI */
+  message: string;
+
+  /** Code description (including the 7th character meaning, if any) */
+  description?: string;
+
+  /** For 7th character codes: the 6-character code it was built from */
+  baseCode?: string;
+
+  /** For 7th character codes: the 7th character that was used */
+  seventhCharacter?: SeventhCharacterOption;
+
+  /** For 'needs_seventh' / 'invalid_seventh': the allowed values */
+  seventhCharacterOptions?: SeventhCharacterOption[];
+
+  /** For 'header': number of billable codes below it */
+  billableChildCount?: number;
+}
+
+/**
+ * How a code changed between two fiscal years.
+ *
+ * - 'added':     New code
+ * - 'deleted':   No longer in the code set
+ * - 'retitled':  Same code, new description
+ * - 'expanded':  Was billable, now a header with new codes below
+ *                (the old code needs more specificity)
+ */
+export type CodeChangeType = 'added' | 'deleted' | 'retitled' | 'expanded';
+
+/**
+ * One entry in a fiscal year diff.
+ *
+ * @example
+ * {
+ *   code: "E66.8",
+ *   changeType: "expanded",
+ *   oldDescription: "Other obesity",
+ *   newDescription: "Other obesity",
+ *   newCodes: ["E66.811", "E66.812", "E66.813", "E66.89"]
+ * }
+ */
+export interface CodeChange {
+  code: string;
+  changeType: CodeChangeType;
+  /** Description in the earlier year (absent for 'added') */
+  oldDescription?: string;
+  /** Description in the later year (absent for 'deleted') */
+  newDescription?: string;
+  /** For 'expanded': the billable codes now below it */
+  newCodes?: string[];
+}
+
+/** Result of diffFiscalYears(): everything that changed from one year to another */
+export interface CodeSetDiff {
+  fromYear: number;
+  toYear: number;
+  added: CodeChange[];
+  deleted: CodeChange[];
+  retitled: CodeChange[];
+  expanded: CodeChange[];
+}
+
+/**
+ * Whether a code is still usable in a fiscal year — the ICD-10-CM
+ * equivalent of HCPCSResult.termDate / isActive.
+ *
+ * - 'active':             Billable in that year
+ * - 'needs_specificity':  Now a header (expanded); pick a code below it
+ * - 'deleted':            Existed in an earlier year but not in this one
+ * - 'unknown':            Not in any bundled code set (can't tell)
+ */
+export interface CodeYearStatus {
+  code: string;
+  fiscalYear: number;
+  status: 'active' | 'needs_specificity' | 'deleted' | 'unknown';
+  isActive: boolean;
+  /** Last fiscal year the code was billable (for deleted / expanded codes) */
+  lastBillableYear?: number;
+  /** For 'needs_specificity': billable codes below it in this year */
+  replacementCodes?: string[];
+  message: string;
+}
+
+// =============================================================================
+// GEMs Crosswalk (ICD-9-CM ↔ ICD-10-CM)
+// =============================================================================
+
+/** Which way a General Equivalence Mapping file points */
+export type CrosswalkDirection = 'icd9_to_icd10' | 'icd10_to_icd9';
+
+/**
+ * The five flag digits at the end of every GEM line ("10111").
+ *
+ * - approximate:  Not an exact equivalent (most entries)
+ * - noMap:        The source code has no counterpart ("NoDx" target)
+ * - combination:  Several target codes together express the source code
+ * - scenario:     Which combination this entry belongs to (0 if none)
+ * - choiceList:   Within a scenario, pick one code from each choice list
+ */
+export interface GemFlags {
+  approximate: boolean;
+  noMap: boolean;
+  combination: boolean;
+  scenario: number;
+  choiceList: number;
+}
+
+/**
+ * One target of a crosswalked code.
+ *
+ * @example
+ * { sourceCode: "250.02", targetCode: "E11.65", targetDescription: "Type 2 diabetes mellitus with hyperglycemia",
+ *   flags: { approximate: true, noMap: false, combination: false, scenario: 0, choiceList: 0 } }
+ */
+export interface GemMapping {
+  sourceCode: string;
+  targetCode: string;
+  /** Null when the target isn't in the bundled code sets */
+  targetDescription: string | null;
+  flags: GemFlags;
+}
+
+/** A combination: report one code from each choice list together */
+export interface GemScenario {
+  scenario: number;
+  choiceLists: GemMapping[][];
+}
+
+/**
+ * Everything the GEMs say about one source code.
+ *
+ * - found = false:  The code isn't in the bundled GEM files
+ * - noMap = true:   CMS states there is no equivalent
+ * - mappings:       Single-code alternatives (any one of them)
+ * - scenarios:      Combination entries (several codes together)
+ */
+export interface CrosswalkResult {
+  sourceCode: string;
+  sourceDescription: string | null;
+  direction: CrosswalkDirection;
+  found: boolean;
+  /** True while the bundled sample GEM files are installed, not the full CMS files */
+  sample: boolean;
+  noMap: boolean;
+  mappings: GemMapping[];
+  scenarios: GemScenario[];
+}
+
+// =============================================================================
+// Batch Lookup
+// =============================================================================
+
+/**
+ * Status of a code in a batch lookup.
+ *
+ * - 'active':      Current code (may still be a non-billable header)
+ * - 'terminated':  HCPCS code with a termination date, ICD-10-CM code deleted
+ *                  in the current fiscal year, or a retired ICD-9-CM code
+ * - 'unverified':  ICD-10-CM code outside the bundled subset that couldn't
+ *                  be checked against ClinicalTables (API unavailable)
+ * - 'not_found':   Not in the bundled code sets (or ClinicalTables)
+ */
+export type BatchCodeStatus = 'active' | 'terminated' | 'unverified' | 'not_found';
+
+/** One row of the batch lookup table */
+export interface BatchLookupRow {
+  /** Code as it appeared in the input */
+  input: string;
+  /** Normalized code ("e119" → "E11.9") */
+  code: string;
+  codeType: Exclude<CodeType, 'condition'>;
+  description: string | null;
+  /** ICD-10-CM chapter name (ICD codes only) */
+  chapter: string | null;
+  /** Null when unknown (code not found) */
+  billable: boolean | null;
+  /** HCPCS Medicare coverage label, e.g. "Carrier Judgment" */
+  coverage: string | null;
+  status: BatchCodeStatus;
+  /** Short explanation (why not billable, replacement codes, ...) */
+  message: string;
+}
+
+/** Result of lookupBatch() */
+export interface BatchLookupResult {
+  rows: BatchLookupRow[];
+  /** Code-like tokens that aren't a supported code (e.g. CPT "99213") */
+  skipped: string[];
+  /** True when the input had more codes than the batch limit */
+  truncated: boolean;
 }
 
 // =============================================================================
@@ -308,7 +634,7 @@ export interface HCPCSDetailState {
 }
 
 /** What type of code the user entered */
-export type CodeType = 'icd10' | 'hcpcs' | 'condition';
+export type CodeType = 'icd10' | 'icd9' | 'icd10pcs' | 'hcpcs' | 'condition';
 
 // =============================================================================
 // Helper Functions for API Search
@@ -734,8 +1060,24 @@ export interface SearchResultsWithTranslation extends SearchResultsWithMeta {
    * Use this to display translation notices in the UI.
    */
   translation?: TranslationResult;
+
+  /**
+   * Where the results came from.
+   *
+   * 'api' = ClinicalTables, 'local' = bundled ICD-10-CM data file
+   * (either configured as primary or used as a fallback).
+   */
+  dataSource?: ICD10DataSource;
 }
 
+/**
+ * Source of ICD-10-CM search data.
+ *
+ * - 'api': ClinicalTables API (NLM)
+ * - 'local': Bundled offline code set (public/data/icd10cm-*.json)
+ */
+export type ICD10DataSource = 'api' | 'local';
+
 // =============================================================================
 // Phase 6: Favorites & History Types
 // =============================================================================
@@ -945,6 +1287,106 @@ export interface GroupedSearchResults {
   totalCategories: number;
 }
 
+/**
+ * Level of a node in the ICD-10-CM Tabular List hierarchy.
+ *
+ * chapter → block → category (3 chars) → subcategory (4-6 chars) → code
+ *
+ * A "code" is a billable leaf; a "subcategory" still has children.
+ */
+export type TabularLevel = 'chapter' | 'block' | 'category' | 'subcategory' | 'code';
+
+/**
+ * A single row in the Tabular hierarchy browser (/icd10).
+ *
+ * @example
+ * {
+ *   id: "E08-E13",
+ *   label: "Diabetes mellitus",
+ *   level: "block",
+ *   billable: false,
+ *   childCount: 5,      // E08, E09, E10, E11, E13
+ *   billableCount: 48   // leaf codes anywhere below this block
+ * }
+ */
+export interface TabularNode {
+  /** Chapter number ("4"), block range ("E08-E13") or code ("E11.65") */
+  id: string;
+
+  /** Chapter name, block name or code description */
+  label: string;
+
+  level: TabularLevel;
+
+  /** True only for codes valid on a claim (no further children) */
+  billable: boolean;
+
+  /** Number of direct children one level down */
+  childCount: number;
+
+  /** Number of billable codes anywhere below (or 1 for a billable leaf) */
+  billableCount: number;
+}
+
+/**
+ * A main term or indented subterm from the ICD-10-CM Alphabetic Index.
+ *
+ * @example
+ * // Diabetes, diabetic (mellitus) (sugar) E11.9
+ * //   - with
+ * //     - nephropathy E11.21
+ * {
+ *   title: "Diabetes, diabetic",
+ *   nonessential: "(mellitus) (sugar)",
+ *   code: "E11.9",
+ *   subterms: [{ title: "with", subterms: [{ title: "nephropathy", code: "E11.21" }] }]
+ * }
+ */
+export interface ICD10IndexTerm {
+  title: string;
+
+  /** Nonessential modifiers in parentheses — don't change the code */
+  nonessential?: string;
+
+  /**
+   * Suggested code. A trailing "-" means the code is incomplete and
+   * more characters must be picked in the Tabular List ("S93.40-").
+   */
+  code?: string;
+
+  /** Manifestation code printed in brackets — coded after `code` ("G30.9 [F02.80]") */
+  manifestationCode?: string;
+
+  /** "see" reference: path of titles to follow instead ("Hypertension", "heart") */
+  see?: string[];
+
+  /** "see also" reference: another path worth checking */
+  seeAlso?: string[];
+
+  subterms?: ICD10IndexTerm[];
+}
+
+/** An Index entry found by searchIndexTerms(), with its full path from the main term */
+export interface ICD10IndexMatch {
+  /** Titles from main term down to the matched subterm */
+  path: string[];
+  term: ICD10IndexTerm;
+  score: number;
+}
+
+/**
+ * An Index code checked against the Tabular List — the Index only
+ * points the way, the Tabular List has the final say.
+ */
+export interface IndexCodeVerification {
+  /** Code as printed in the Index ("S93.40-") */
+  indexCode: string;
+  /** Whether the Index code was complete (no trailing "-") */
+  complete: boolean;
+  /** Tabular validation of the code with the dash removed */
+  validation: CodeValidationResult;
+}
+
 // =============================================================================
 // NIH Medical Conditions API Types
 // =============================================================================
@@ -1098,8 +1540,11 @@ export function getCategoryColor(code: string): { text: string; bg: string; bord
 // PROCEDURE CODE TYPES (Path 2: Procedure Code Mapping)
 // ============================================================
 
-/** Which coding system a procedure belongs to */
-export type ProcedureCodeSystem = 'SNOMED' | 'ICD10PCS' | 'HCPCS';
+/**
+ * Which coding system a procedure belongs to. 'CPT' (HCPCS Level I) codes
+ * only come from a licensed CPT file the deployment supplies (cptLicensedData.ts).
+ */
+export type ProcedureCodeSystem = 'SNOMED' | 'ICD10PCS' | 'HCPCS' | 'CPT';
 
 /** Clinical category for grouping procedures in the UI */
 export type ProcedureCategory =
@@ -1109,8 +1554,19 @@ export type ProcedureCategory =
   | 'equipment'     // DME and supplies (e.g., glucose monitor, test strips)
   | 'other';        // Catch-all for unclassified procedures
 
-/** Where the procedure data originated */
-export type ProcedureSource = 'curated' | 'umls_api' | 'clinicaltables' | 'ai_generated';
+/**
+ * Where the procedure data originated ('pcs_builder' = built by the user from
+ * the PCS tables, 'cpt_file' = the deployment's licensed CPT file,
+ * 'snomed_rf2' = the deployment's local SNOMED CT RF2 snapshot)
+ */
+export type ProcedureSource =
+  | 'curated'
+  | 'umls_api'
+  | 'snomed_rf2'
+  | 'clinicaltables'
+  | 'ai_generated'
+  | 'pcs_builder'
+  | 'cpt_file';
 
 /** A single procedure result displayed in the UI */
 export interface ProcedureResult {
@@ -1147,8 +1603,725 @@ export interface ProcedureValidationResponse {
   errorMessages?: string[];
 }
 
-/** Cache entry shape for procedure lookups — matches drug caching pattern */
-export interface CachedProcedures {
-  data: ProcedureResult[];
-  timestamp: number;
+/**
+ * Status of the licensed CPT file (GET /api/cpt). The file path itself is
+ * never sent to the browser.
+ */
+export interface CptFileStatus {
+  /** False when CPT_DATA_PATH is unset or the file can't be read */
+  available: boolean;
+  /** File name of the loaded file */
+  fileName: string | null;
+  codeCount: number;
+  /** Lines that weren't a code and description (headers, blank lines) */
+  skippedLines: number;
+  loadedAt: string | null;
+  /** Why the file isn't available, when CPT_DATA_PATH is set */
+  error?: string;
+}
+
+/**
+ * Where SNOMED CT procedures come from: the UMLS REST API (UMLS_API_KEY) or
+ * a local RF2 snapshot (SNOMED_RF2_DIR). Chosen with SNOMED_BACKEND.
+ */
+export type SnomedBackend = 'umls' | 'rf2';
+
+/** Status of the local SNOMED CT RF2 snapshot (server side only) */
+export interface SnomedRf2Status {
+  /** False when SNOMED_RF2_DIR is unset or the snapshot can't be read */
+  available: boolean;
+  /** Folder name of the loaded snapshot */
+  release: string | null;
+  conceptCount: number;
+  /** Distinct ICD-10 codes reachable through the map refset */
+  mappedIcd10Codes: number;
+  loadedAt: string | null;
+  /** Why the snapshot isn't available, when SNOMED_RF2_DIR is set */
+  error?: string;
+}
+
+// ============================================================
+// ICD-10-PCS Table Builder Types
+// ============================================================
+
+/**
+ * One value of a PCS axis.
+ *
+ * @example { code: "4", label: "Percutaneous Endoscopic" }
+ */
+export interface PcsAxisValue {
+  code: string;
+  label: string;
+}
+
+/**
+ * The values valid at the next character position, given the characters
+ * picked so far (produced by getPcsAxisOptions()).
+ */
+export interface PcsAxisOptions {
+  /** Character position, 1-7 */
+  position: number;
+  /** Axis title in the code's section (e.g., "Body Part", "Substance", "Duration") */
+  title: string;
+  values: PcsAxisValue[];
+}
+
+/**
+ * A PCS table's root operation (or type, outside Medical and Surgical)
+ * with its plain-English definition from the PCS tables.
+ *
+ * @example
+ * { table: "0DT", bodySystem: "Gastrointestinal System", label: "Resection",
+ *   definition: "Cutting out or off, without replacement, all of a body part",
+ *   examples: "Total nephrectomy, total lobectomy of lung" }
+ */
+export interface PcsRootOperation {
+  /** First three characters of the codes in the table */
+  table: string;
+  bodySystem: string;
+  label: string;
+  definition: string;
+  examples?: string;
+}
+
+/** A complete, table-valid 7-character code with each axis spelled out */
+export interface PcsBuiltCode {
+  code: string;
+  /** Composed from the axis labels ("Resection of Appendix, Percutaneous Endoscopic Approach") */
+  description: string;
+  axes: Array<PcsAxisValue & { position: number; title: string }>;
+  operation: PcsRootOperation;
+}
+
+/**
+ * How one character of an entered PCS code checks against the tables.
+ *
+ * - 'valid':     A value of its axis, valid together with the characters before it
+ * - 'invalid':   Not a value of its axis, or not valid in combination with
+ *                the characters before it
+ * - 'unchecked': Not checked (an earlier character is invalid, or the
+ *                code's table isn't bundled)
+ */
+export type PcsCharacterStatus = 'valid' | 'invalid' | 'unchecked';
+
+/** One character of a decoded ICD-10-PCS code */
+export interface PcsDecodedCharacter {
+  /** Character position, 1-7 */
+  position: number;
+  code: string;
+  /** Axis title in the code's section; null when the section is unknown */
+  title: string | null;
+  /** Value label, when the character is a value of its axis */
+  label: string | null;
+  status: PcsCharacterStatus;
+  /** Why the character is invalid */
+  message?: string;
+}
+
+/**
+ * Result status of decodePcsCode().
+ *
+ * - 'valid':       All seven characters are valid together in a bundled table
+ * - 'invalid':     Wrong length, a character that isn't a value of its axis,
+ *                  or a combination no table row allows
+ * - 'not_bundled': The code's table (characters 1-3) isn't in the bundled
+ *                  subset, so only what is known is decoded
+ */
+export type PcsDecodeStatus = 'valid' | 'invalid' | 'not_bundled';
+
+/** An entered ICD-10-PCS code explained character by character */
+export interface PcsDecodeResult {
+  /** Normalized code (uppercase, without a "PCS:" prefix) */
+  code: string;
+  status: PcsDecodeStatus;
+  /** From the tables, or from ClinicalTables when the table isn't bundled */
+  description: string | null;
+  characters: PcsDecodedCharacter[];
+  /** Root operation of the code's table, when the table is bundled */
+  operation: PcsRootOperation | null;
+  /** Short explanation of the status */
+  message: string;
+}
+
+// ============================================================
+// Encounter Builder Types
+// ============================================================
+
+/**
+ * A claim-style encounter assembled from the result cards.
+ * Diagnoses are kept in sequence order: index 0 is the primary
+ * (first-listed) diagnosis, the rest are secondary.
+ */
+export interface Encounter {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  diagnoses: ICD10Result[];
+  /** ICD-10-PCS / SNOMED procedures from ProcedureCard */
+  procedures: ProcedureResult[];
+  /** HCPCS Level II codes from HcpcsResultCard */
+  hcpcs: HCPCSResult[];
+  /** Medications from DrugCard */
+  drugs: DrugResult[];
+}
+
+/** Everything that can be added to an encounter, tagged by kind */
+export type EncounterItem =
+  | { kind: 'diagnosis'; item: ICD10Result }
+  | { kind: 'procedure'; item: ProcedureResult }
+  | { kind: 'hcpcs'; item: HCPCSResult }
+  | { kind: 'drug'; item: DrugResult };
+
+/** Which sequencing/validity rule an issue came from */
+export type EncounterRule =
+  | 'no_primary'
+  | 'manifestation_primary'
+  | 'missing_etiology'
+  | 'etiology_after_manifestation'
+  | 'code_first_order'
+  | 'excludes1'
+  | 'not_billable'
+  | 'use_additional_code'
+  | 'too_many_diagnoses';
+
+/**
+ * A problem (or hint) found by checkEncounterSequencing().
+ *
+ * @example
+ * {
+ *   rule: "manifestation_primary",
+ *   severity: "error",
+ *   codes: ["F02.80"],
+ *   message: "F02.80 is a manifestation code and cannot be the primary diagnosis"
+ * }
+ */
+export interface EncounterIssue {
+  rule: EncounterRule;
+  /** error = claim would be rejected / incorrect, warning = review, info = suggestion */
+  severity: 'error' | 'warning' | 'info';
+  /** Diagnosis codes involved, in the order they appear in the encounter */
+  codes: string[];
+  message: string;
+}
+
+/** A diagnosis in the claim export (pointer letters follow the CMS-1500 A–L convention) */
+export interface ClaimDiagnosis {
+  pointer: string;
+  sequence: number;
+  code: string;
+  description: string;
+  isPrimary: boolean;
+}
+
+/** A billable service line in the claim export */
+export interface ClaimServiceLine {
+  lineNumber: number;
+  codeSystem: ProcedureCodeSystem;
+  code: string;
+  description: string;
+  units: number;
+  /** Pointers into ClaimExport.diagnoses (up to 4, primary first) */
+  diagnosisPointers: string[];
+}
+
+/**
+ * Structured claim-line JSON produced by exportEncounterClaim().
+ * Not an X12 837 — a readable hand-off format with the same building blocks.
+ */
+export interface ClaimExport {
+  format: 'medcodemap-claim';
+  version: string;
+  exportedAt: string;
+  encounterId: string;
+  diagnoses: ClaimDiagnosis[];
+  /** Diagnoses past the 12th, which have no pointer letter and are left off the claim */
+  omittedDiagnoses: { code: string; description: string }[];
+  serviceLines: ClaimServiceLine[];
+  /** SNOMED procedures are clinical documentation, not billable lines */
+  clinicalProcedures: { code: string; codeSystem: ProcedureCodeSystem; description: string }[];
+  medications: { rxcui: string; name: string; genericName: string; dosageForm?: string; strength?: string }[];
+  validation: {
+    errorCount: number;
+    warningCount: number;
+    issues: EncounterIssue[];
+  };
+}
+
+// ============================================================
+// Drug Interaction Checker Types
+// ============================================================
+
+/** Clinical significance of a drug–drug interaction, most severe first */
+export type InteractionSeverity = 'contraindicated' | 'major' | 'moderate' | 'minor';
+
+/**
+ * A drug on the interaction check list, collected from any DrugCard.
+ * Remembers which diagnosis it was found under so the pharmacist can
+ * see where each drug came from.
+ */
+export interface InteractionListDrug {
+  /** Same key as the encounter uses: "rx:<rxcui>" or "rx:<brandName>" */
+  key: string;
+  brandName: string;
+  genericName: string;
+  rxcui?: string;
+  ingredients?: string[];
+  /** ICD-10 code + condition name of the ResultCard it was added from */
+  condition?: { code: string; name: string };
+}
+
+/** An active ingredient in the local interaction dataset */
+export interface InteractionIngredient {
+  /** RxNorm ingredient (IN) RxCUI */
+  rxcui: string;
+  name: string;
+}
+
+/**
+ * One pairwise warning found by checkDrugInteractions().
+ *
+ * @example
+ * {
+ *   severity: "major",
+ *   drugs: [warfarinDrug, aspirinDrug],
+ *   ingredients: [{ rxcui: "11289", name: "warfarin" }, { rxcui: "1191", name: "aspirin" }],
+ *   description: "Additive bleeding risk ...",
+ *   management: "Avoid unless specifically indicated ..."
+ * }
+ */
+export interface DrugInteractionFinding {
+  /** duplicate = both drugs contain the same ingredient */
+  kind: 'interaction' | 'duplicate';
+  severity: InteractionSeverity;
+  drugs: [InteractionListDrug, InteractionListDrug];
+  ingredients: [InteractionIngredient, InteractionIngredient];
+  description: string;
+  management?: string;
+}
+
+/** Result of checking every pair on the list */
+export interface InteractionCheckResult {
+  findings: DrugInteractionFinding[];
+  /** Drugs none of whose ingredients are in the local dataset (not checked) */
+  unrecognized: InteractionListDrug[];
+  /** Number of drug pairs compared */
+  pairsChecked: number;
+  /** Version of the local interaction dataset */
+  dataVersion: string;
+}
+
+// ============================================================
+// Drug–Disease Contraindication Types
+// ============================================================
+
+/** Where a session diagnosis comes from */
+export type SessionDiagnosisSource = 'favorite' | 'encounter';
+
+/** A diagnosis the user is working with: favorited and/or in the encounter */
+export interface SessionDiagnosis {
+  code: string;
+  name: string;
+  sources: SessionDiagnosisSource[];
+}
+
+/**
+ * A warning that a drug conflicts with one of the session diagnoses,
+ * produced by checkDrugContraindications().
+ *
+ * @example
+ * {
+ *   severity: "caution",
+ *   diagnosis: { code: "N18.3", name: "Chronic kidney disease, stage 3", sources: ["favorite"] },
+ *   conditionName: "Chronic kidney disease",
+ *   message: "NSAIDs can reduce renal blood flow and worsen kidney function; avoid in advanced CKD.",
+ *   basis: ["rule", "label"],
+ *   labelExcerpt: "Avoid use in patients with advanced renal disease..."
+ * }
+ */
+export interface DrugDiseaseFlag {
+  severity: 'contraindicated' | 'caution';
+  diagnosis: SessionDiagnosis;
+  /** Condition group the diagnosis fell into */
+  conditionName: string;
+  message: string;
+  /** rule = curated contraindication table, label = found in the drug's warnings text */
+  basis: ('rule' | 'label')[];
+  /** Matching sentence from DrugResult.warnings */
+  labelExcerpt?: string;
+}
+
+// ============================================================
+// Drug → Condition Search Types
+// ============================================================
+
+/** curated = CONDITION_DRUG_MAPPINGS lists the drug, medrt = MED-RT may_treat relation */
+export type DrugIndicationSource = 'curated' | 'medrt';
+
+/** A condition the searched drug treats, resolved to ICD-10-CM codes */
+export interface DrugIndication {
+  /** Curated mapping key ("diabetes") or MED-RT disease ("Diabetes Mellitus, Type 2") */
+  condition: string;
+  sources: DrugIndicationSource[];
+  /** Codes the condition resolved to, best first */
+  codes: string[];
+}
+
+/**
+ * Result of a drug-centric search, produced by searchConditionsForDrug().
+ * `results` are ranked like a normal search and render in SearchResults.
+ *
+ * @example
+ * {
+ *   query: "ozempic",
+ *   drug: { rxcui: "1991306", brandName: "Ozempic", genericName: "semaglutide", ingredients: ["semaglutide"] },
+ *   indications: [{ condition: "Diabetes Mellitus, Type 2", sources: ["curated", "medrt"], codes: ["E11.9", "E11.65"] }],
+ *   results: [{ code: "E11.9", name: "Type 2 diabetes mellitus without complications", score: 92, ... }]
+ * }
+ */
+export interface DrugConditionSearchResult {
+  query: string;
+  /** RxNorm match, null when the name didn't resolve */
+  drug: {
+    rxcui: string;
+    brandName: string;
+    genericName: string;
+    ingredients: string[];
+  } | null;
+  indications: DrugIndication[];
+  results: ScoredICD10Result[];
+}
+
+// ============================================================
+// Drug Formulation Types
+// ============================================================
+
+/**
+ * One marketed product (RxNorm SCD or SBD) of a drug's ingredients.
+ *
+ * @example
+ * { rxcui: "860975", name: "24 HR metformin hydrochloride 500 MG Extended Release Oral Tablet",
+ *   tty: "SCD", strength: "500 MG", doseForm: "Extended Release Oral Tablet", route: "Oral", quantity: "24 HR" }
+ */
+export interface DrugFormulation {
+  rxcui: string;
+  /** Full RxNorm name */
+  name: string;
+  /** SCD = generic (clinical) product, SBD = branded product */
+  tty: 'SCD' | 'SBD';
+  /** Brand from the SBD name's brackets */
+  brandName?: string;
+  /** Per-ingredient strengths joined with " / " (e.g., "500 MG / 50 MG") */
+  strength: string;
+  /** RxNorm dose form (e.g., "Pen Injector", "Extended Release Oral Tablet") */
+  doseForm: string;
+  /** Route derived from the dose form (e.g., "Oral", "Injection") */
+  route: string;
+  /** Leading quantity factor: prefilled volume ("0.5 ML") or release duration ("24 HR") */
+  quantity?: string;
+}
+
+/** Formulations sharing a dose form; the dose form is what DrugFilterChips filters on */
+export interface DrugFormulationGroup {
+  doseForm: string;
+  route: string;
+  formulations: DrugFormulation[];
+}
+
+/** An NDC package of one formulation, from RxNav NDC properties */
+export interface DrugPackage {
+  /** 10-digit NDC with hyphens (e.g., "0093-1048-01") */
+  ndc: string;
+  /** Package description (e.g., "100 TABLET, FILM COATED in 1 BOTTLE") */
+  packaging: string;
+  labeler?: string;
+  /** Marketing category (e.g., "NDA", "ANDA", "BLA") */
+  marketingCategory?: string;
+}
+
+/**
+ * Formulation panel data for a drug, produced by getDrugFormulations().
+ * Empty groups mean RxNorm has no products for the drug's ingredients.
+ */
+export interface DrugFormulationsResult {
+  rxcui: string;
+  /** Ingredient names the products were listed for */
+  ingredients: string[];
+  groups: DrugFormulationGroup[];
+}
+
+// ============================================================
+// Drug Alternative Types
+// ============================================================
+
+/**
+ * How an alternative relates to the drug on the card:
+ * - generic: generic (SCD) product of the same ingredients
+ * - biosimilar: same biologic under an FDA suffix name (adalimumab → adalimumab-adaz),
+ *   or the reference product when the card shows a biosimilar
+ * - class: other ingredient in the same EPC class
+ */
+export type DrugAlternativeKind = 'generic' | 'biosimilar' | 'class';
+
+/**
+ * One suggested alternative, produced by getDrugAlternatives().
+ *
+ * @example
+ * { rxcui: "301542", name: "rosuvastatin", kind: "class", className: "HMG-CoA Reductase Inhibitor" }
+ */
+export interface DrugAlternative {
+  rxcui: string;
+  /** Ingredient name, or the full RxNorm product name for generics */
+  name: string;
+  kind: DrugAlternativeKind;
+  /** EPC class shared with the card's drug (biosimilar, class) */
+  className?: string;
+  /** Generic product strength, dose form and quantity factor (see DrugFormulation) */
+  strength?: string;
+  doseForm?: string;
+  quantity?: string;
+  /** Generic with the same strength, quantity and dose form as the card's product */
+  isExactEquivalent?: boolean;
+  /** Biosimilar entry that is the originator product (no FDA suffix) */
+  isReference?: boolean;
+}
+
+/**
+ * Alternatives panel data for a drug. Empty lists mean RxNorm/RxClass had
+ * nothing to suggest, not that there are no alternatives.
+ */
+export interface DrugAlternativesResult {
+  rxcui: string;
+  /** Ingredient names of the card's drug */
+  ingredients: string[];
+  /** EPC classes the class alternatives were listed for */
+  epcClasses: DrugClass[];
+  generics: DrugAlternative[];
+  biosimilars: DrugAlternative[];
+  classAlternatives: DrugAlternative[];
+}
+
+// ============================================================
+// Curated Mapping Types (app/data/curated/*.json)
+// ============================================================
+
+/** Which curated data file an entry lives in */
+export type CuratedMappingType = 'drug' | 'procedure';
+
+/** Retired entries stay in the file for the record but are never matched */
+export type CuratedMappingStatus = 'active' | 'retired';
+
+/**
+ * Who added, last reviewed and retired an entry, with YYYY-MM-DD dates.
+ * Entries imported from the old TypeScript tables have no reviewer until
+ * someone saves them in the admin editor.
+ */
+export interface CuratedMappingProvenance {
+  addedBy: string;
+  addedAt: string;
+  reviewedBy?: string;
+  reviewedAt?: string;
+  retiredBy?: string;
+  retiredAt?: string;
+  retiredReason?: string;
+}
+
+/** One drug of a condition's curated list */
+export interface CuratedDrug {
+  /** Name RxNorm resolves (generic preferred, brand when the brand matters) */
+  name: string;
+  /** Free-text note for reviewers (e.g., "Jardiance - SGLT2") */
+  note?: string;
+}
+
+/**
+ * Condition keywords → drugs. Every keyword shares the entry's drug list;
+ * the first active entry with a keyword contained in the condition name wins.
+ *
+ * @example
+ * { id: "obesity", category: "Metabolic & Endocrine Conditions",
+ *   keywords: ["obesity", "weight", "morbid", "overweight", "bmi"],
+ *   drugs: [{ name: "Wegovy", note: "Semaglutide - obesity indication" }, ...], ... }
+ */
+export interface ConditionDrugMapping {
+  /** Stable slug, unique within the file */
+  id: string;
+  /** Section the entry is listed under (e.g., "Cardiovascular Conditions") */
+  category: string;
+  /** Lowercase keywords matched against the condition name */
+  keywords: string[];
+  /** Most commonly prescribed first */
+  drugs: CuratedDrug[];
+  notes?: string;
+  status: CuratedMappingStatus;
+  provenance: CuratedMappingProvenance;
+}
+
+/** One curated procedure; becomes a ProcedureResult with source 'curated' */
+export interface CuratedProcedure {
+  code: string;
+  codeSystem: ProcedureCodeSystem;
+  description: string;
+  category: ProcedureCategory;
+  setting: 'inpatient' | 'outpatient' | 'both';
+  /** Shown as the procedure's clinicalRationale */
+  rationale: string;
+  /** Relevance score, 0.95 when omitted */
+  score?: number;
+}
+
+/** ICD-10-CM codes (exact and parent codes) → procedures */
+export interface ConditionProcedureMapping {
+  /** Stable slug, unique within the file */
+  id: string;
+  conditionName: string;
+  icd10Codes: string[];
+  procedures: CuratedProcedure[];
+  notes?: string;
+  status: CuratedMappingStatus;
+  provenance: CuratedMappingProvenance;
+}
+
+/** Shape of both curated data files */
+export interface CuratedMappingFile<T> {
+  $schema?: string;
+  version: number;
+  description?: string;
+  /** File order is match precedence */
+  entries: T[];
+}
+
+/**
+ * Outcome of resolving one drug name or code of a curated entry.
+ * 'unchecked' means the source couldn't be asked (e.g., SNOMED without a
+ * UMLS_API_KEY), not that the value is wrong.
+ */
+export type CuratedResolutionStatus = 'resolved' | 'unresolved' | 'unchecked';
+
+export interface CuratedResolutionCheck {
+  entryId: string;
+  /** What was checked: a drug name, a diagnosis code or a procedure code */
+  kind: 'drug' | 'icd10' | 'procedure';
+  value: string;
+  /** Procedure code system, for kind 'procedure' */
+  codeSystem?: ProcedureCodeSystem;
+  status: CuratedResolutionStatus;
+  /** What it resolved to, or why it didn't */
+  detail: string;
+}
+
+/**
+ * Result of checking every drug name and code of a curated file (or one
+ * entry) against RxNorm and the code sets. Only the checks that didn't
+ * resolve are listed.
+ */
+export interface CuratedResolutionReport {
+  type: CuratedMappingType;
+  /** ISO timestamp */
+  checkedAt: string;
+  entriesChecked: number;
+  totalChecks: number;
+  resolvedCount: number;
+  unresolved: CuratedResolutionCheck[];
+  unchecked: CuratedResolutionCheck[];
+}
+
+// ============================================================
+// REST API v1 Types (/api/v1/*)
+// ============================================================
+
+/** Machine-readable error codes of the v1 API */
+export type ApiErrorCode =
+  | 'bad_request'
+  | 'invalid_code'
+  | 'not_found'
+  | 'service_unavailable'
+  | 'internal_error';
+
+/**
+ * Error envelope returned by every v1 endpoint.
+ *
+ * @example
+ * { error: { status: 404, code: "not_found", message: "ICD-10-CM code Z99.999 not found" } }
+ */
+export interface ApiErrorResponse {
+  error: {
+    status: number;
+    code: ApiErrorCode;
+    message: string;
+    details?: Record<string, unknown>;
+  };
+}
+
+/** Pagination block of list responses (page is 1-based) */
+export interface ApiPagination {
+  page: number;
+  pageSize: number;
+  total: number;
+  totalPages: number;
+  hasMore: boolean;
+}
+
+/** Envelope for a single resource */
+export interface ApiItemResponse<T> {
+  data: T;
+  meta?: Record<string, unknown>;
+}
+
+/** Envelope for a paginated list */
+export interface ApiListResponse<T> {
+  data: T[];
+  pagination: ApiPagination;
+  meta?: Record<string, unknown>;
+}
+
+// ============================================================
+// Medical Necessity Types
+// ============================================================
+
+/**
+ * Whether a diagnosis supports a procedure: supported = a source links the
+ * pair, unsupported = the diagnosis has a curated procedure list and
+ * nothing links this procedure to it, unknown = not enough evidence either way
+ */
+export type NecessityVerdict = 'supported' | 'unsupported' | 'unknown';
+
+/** Where a piece of necessity evidence comes from */
+export type NecessityEvidenceSource = 'curated' | 'snomed' | 'ncd' | 'lcd';
+
+/**
+ * supports = links this exact procedure to the diagnosis,
+ * related = points the same way but needs review (a similar procedure, a
+ * coverage policy to read), against = a source lists the diagnosis's
+ * procedures and this isn't one of them
+ */
+export type NecessityEvidenceWeight = 'supports' | 'related' | 'against';
+
+/** One finding behind a medical necessity verdict */
+export interface NecessityEvidence {
+  source: NecessityEvidenceSource;
+  weight: NecessityEvidenceWeight;
+  /** Short heading (e.g., "Curated mapping: Type 2 Diabetes", "NCD 40.2") */
+  title: string;
+  detail: string;
+  /** Coverage policy page */
+  url?: string;
+}
+
+/** The procedure side of a medical necessity check */
+export type NecessityProcedure = Pick<ProcedureResult, 'code' | 'codeSystem' | 'description'>;
+
+/** Result of checkMedicalNecessity() */
+export interface MedicalNecessityResult {
+  procedure: NecessityProcedure;
+  /** Formatted ICD-10-CM code (e.g., "E11.9") */
+  icd10Code: string;
+  /** Code description (the caller's or curated name when the code set lacks the code), or null */
+  diagnosisName: string | null;
+  verdict: NecessityVerdict;
+  /** One-sentence explanation of the verdict */
+  summary: string;
+  /** Strongest evidence first */
+  evidence: NecessityEvidence[];
+  /** Sources that couldn't be asked (e.g., "SNOMED CT: not configured") */
+  uncheckedSources: string[];
 }
@@ -0,0 +1,364 @@
+/**
+ * evaluate.ts — Drug and procedure relevance evaluation against the gold set
+ *
+ * Runs the real pipeline for every case in eval/gold-set.json and reports
+ * how well the results match, so prompt changes (drugRelevanceAgent.ts,
+ * drugListGenerator.ts) and curated mapping edits can be judged by numbers:
+ *
+ *   npm run eval                      # replay recorded responses (offline, deterministic)
+ *   npm run eval -- --record          # live run, refresh eval/recordings/
+ *   npm run eval -- --live            # live run, don't save
+ *   npm run eval -- --case E11.9      # one case (repeatable)
+ *   npm run eval -- --json report.json
+ *   npm run eval -- --verbose         # keep the pipeline's console output
+ *
+ * Drugs are validated in 'compare' mode, so one run scores Claude and the
+ * rule-based scorer side by side. For each scorer the report sweeps the
+ * inclusion threshold 0-10 (DRUG_SCORE_THRESHOLDS.OFF_LABEL is the current
+ * one, FDA_APPROVED splits the sections) and shows precision against all
+ * accepted drugs, precision against FDA-approved drugs only, and recall of
+ * approved drugs within the MAX_RESULTS cap.
+ *
+ * Procedures are the curated list plus SNOMED results, merged the way
+ * ResultCard does.
+ *
+ * Exits with 1 when a replayed case had no recording or hit unrecorded
+ * requests, so a stale recording fails CI instead of skewing the numbers.
+ */
+
+import { readFileSync, writeFileSync } from 'fs';
+import path from 'path';
+import { ProcedureResult } from '../app/types/icd';
+import { clearAllCaches } from '../app/lib/cache';
+import {
+  DRUG_SCORE_THRESHOLDS,
+  MAX_RESULTS,
+  ValidatedDrugResult,
+  validateDrugs,
+} from '../app/lib/drugValidationPipeline';
+import { getCuratedProcedures } from '../app/lib/conditionProcedureMappings';
+import { getSnomedProceduresForDiagnosis } from '../app/lib/snomedProcedureApi';
+import { configureServerStaticData } from '../app/lib/staticDataServer';
+import {
+  Counts,
+  EMPTY_COUNTS,
+  GoldCase,
+  GoldSet,
+  addCounts,
+  countDrugs,
+  countProcedures,
+  f1,
+  missingDrugs,
+  missingProcedures,
+  precision,
+  recall,
+  unexpectedDrugs,
+} from './metrics';
+import { FetchRecorder, RecorderMode } from './recorder';
+
+// ── Types ──
+
+type ScorerName = 'ai' | 'rules';
+
+interface CaseRun {
+  gold: GoldCase;
+  /** Why the case wasn't run (replay without a recording) */
+  skipped?: string;
+  drugs: ValidatedDrugResult[];
+  procedures: ProcedureResult[];
+  /** Unrecorded requests during replay */
+  misses: number;
+}
+
+interface ThresholdRow {
+  threshold: number;
+  returned: number;
+  /** Against approved + off-label drugs */
+  precision: number | null;
+  /** Against approved drugs only (the FDA-Approved section's claim) */
+  approvedPrecision: number | null;
+  recall: number | null;
+  f1: number | null;
+}
+
+interface CaseDetail {
+  icdCode: string;
+  returned: string[];
+  missing: string[];
+  unexpected: string[];
+  precision: number | null;
+  recall: number | null;
+}
+
+interface ScorerReport {
+  scorer: ScorerName;
+  /** Cases where this scorer produced scores */
+  casesScored: number;
+  sensitivity: ThresholdRow[];
+  cases: CaseDetail[];
+}
+
+// ── Configuration ──
+
+const GOLD_SET_PATH = path.join(__dirname, 'gold-set.json');
+const THRESHOLDS = [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10];
+
+// ── Arguments ──
+
+function parseArgs(argv: string[]): { mode: RecorderMode; cases: string[]; jsonPath: string | null; verbose: boolean } {
+  const options = { mode: 'replay' as RecorderMode, cases: [] as string[], jsonPath: null as string | null, verbose: false };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--record') options.mode = 'record';
+    else if (arg === '--live') options.mode = 'live';
+    else if (arg === '--verbose') options.verbose = true;
+    else if (arg === '--case' && argv[i + 1]) options.cases.push(argv[++i].toUpperCase());
+    else if (arg === '--json' && argv[i + 1]) options.jsonPath = argv[++i];
+    else throw new Error(`Unknown argument: ${arg}`);
+  }
+  return options;
+}
+
+// ── Running cases ──
+
+/** Silences the pipeline's logging while a case runs */
+function muteConsole(): () => void {
+  const saved = { log: console.log, info: console.info, warn: console.warn, error: console.error };
+  const noop = () => {};
+  Object.assign(console, { log: noop, info: noop, warn: noop, error: noop });
+  return () => Object.assign(console, saved);
+}
+
+async function fetchProcedures(icdCode: string): Promise<ProcedureResult[]> {
+  const curated = getCuratedProcedures(icdCode);
+  const snomed = process.env.UMLS_API_KEY ? await getSnomedProceduresForDiagnosis(icdCode) : [];
+  const codes = new Set(curated.map(procedure => procedure.code));
+  return [...curated, ...snomed.filter(procedure => !codes.has(procedure.code))];
+}
+
+async function runCase(gold: GoldCase, recorder: FetchRecorder, verbose: boolean): Promise<CaseRun> {
+  if (recorder.mode === 'replay' && !recorder.hasRecording(gold.icdCode)) {
+    return { gold, skipped: 'no recording', drugs: [], procedures: [], misses: 0 };
+  }
+
+  // Cold caches, so each case's recording holds every response it needs
+  await clearAllCaches();
+  const missesBefore = recorder.misses.length;
+  recorder.beginCase(gold.icdCode);
+  const unmute = verbose ? () => {} : muteConsole();
+  try {
+    const drugs = await validateDrugs(gold.conditionName, gold.icdCode, { scorer: 'compare' });
+    const procedures = await fetchProcedures(gold.icdCode);
+    return { gold, drugs, procedures, misses: recorder.misses.length - missesBefore };
+  } finally {
+    unmute();
+    recorder.endCase();
+  }
+}
+
+// ── Drug metrics ──
+
+function scoreOf(drug: ValidatedDrugResult, scorer: ScorerName): number | null {
+  const comparison = drug.scoreComparison;
+  if (!comparison) return null;
+  const score = scorer === 'ai' ? comparison.aiScore : comparison.ruleScore;
+  return score !== null && score >= 0 ? score : null;
+}
+
+/** What the pipeline would return at an inclusion threshold: best first, capped */
+function selectDrugs(drugs: ValidatedDrugResult[], scorer: ScorerName, threshold: number): ValidatedDrugResult[] {
+  return drugs
+    .filter(drug => (scoreOf(drug, scorer) ?? -1) >= threshold)
+    .sort((a, b) => (scoreOf(b, scorer) ?? 0) - (scoreOf(a, scorer) ?? 0))
+    .slice(0, MAX_RESULTS);
+}
+
+function accepted(gold: GoldCase): string[] {
+  return [...gold.drugs.approved, ...gold.drugs.offLabel];
+}
+
+function evaluateScorer(runs: CaseRun[], scorer: ScorerName): ScorerReport {
+  const scored = runs.filter(run => run.drugs.some(drug => scoreOf(drug, scorer) !== null));
+
+  const sensitivity = THRESHOLDS.map(threshold => {
+    let relevant: Counts = EMPTY_COUNTS;
+    let approved: Counts = EMPTY_COUNTS;
+    for (const run of scored) {
+      const selected = selectDrugs(run.drugs, scorer, threshold);
+      relevant = addCounts(relevant, countDrugs(selected, run.gold.drugs.approved, accepted(run.gold), MAX_RESULTS));
+      approved = addCounts(approved, countDrugs(selected, run.gold.drugs.approved, run.gold.drugs.approved, MAX_RESULTS));
+    }
+    return {
+      threshold,
+      returned: relevant.returned,
+      precision: precision(relevant),
+      approvedPrecision: precision(approved),
+      recall: recall(relevant),
+      f1: f1(relevant),
+    };
+  });
+
+  const cases = scored.map(run => {
+    const selected = selectDrugs(run.drugs, scorer, DRUG_SCORE_THRESHOLDS.OFF_LABEL);
+    const counts = countDrugs(selected, run.gold.drugs.approved, accepted(run.gold), MAX_RESULTS);
+    return {
+      icdCode: run.gold.icdCode,
+      returned: selected.map(drug => `${drug.brandName} (${scoreOf(drug, scorer)})`),
+      missing: missingDrugs(selected, run.gold.drugs.approved),
+      unexpected: unexpectedDrugs(selected, accepted(run.gold)).map(drug => drug.brandName),
+      precision: precision(counts),
+      recall: recall(counts),
+    };
+  });
+
+  return { scorer, casesScored: scored.length, sensitivity, cases };
+}
+
+// ── Output ──
+
+function pct(value: number | null): string {
+  return value === null ? '    —' : `${(value * 100).toFixed(1).padStart(5)}%`;
+}
+
+function printScorerReport(report: ScorerReport): void {
+  const title = report.scorer === 'ai' ? 'Claude (drugRelevanceAgent.ts)' : 'Rules (drugRuleScorer.ts)';
+  console.log(`\n${title} — ${report.casesScored} case(s) scored`);
+  if (report.casesScored === 0) {
+    console.log('  No scores (AI unavailable, or responses not recorded)');
+    return;
+  }
+
+  console.log('  ≥score  drugs  precision  approved-P  recall@' + MAX_RESULTS + '     F1');
+  for (const row of report.sensitivity) {
+    const marker = row.threshold === DRUG_SCORE_THRESHOLDS.OFF_LABEL
+      ? '  ◀ OFF_LABEL (inclusion)'
+      : row.threshold === DRUG_SCORE_THRESHOLDS.FDA_APPROVED ? '  ◀ FDA_APPROVED' : '';
+    console.log(
+      `  ${String(row.threshold).padStart(6)}  ${String(row.returned).padStart(5)}  ` +
+      `${pct(row.precision)}     ${pct(row.approvedPrecision)}    ${pct(row.recall)}  ${pct(row.f1)}${marker}`
+    );
+  }
+
+  console.log(`  Per case at ≥${DRUG_SCORE_THRESHOLDS.OFF_LABEL}:`);
+  for (const detail of report.cases) {
+    console.log(`    ${detail.icdCode.padEnd(8)} P ${pct(detail.precision)}  R ${pct(detail.recall)}  ${detail.returned.join(', ') || '(none)'}`);
+    if (detail.unexpected.length > 0) console.log(`             not in gold set: ${detail.unexpected.join(', ')}`);
+    if (detail.missing.length > 0) console.log(`             missed approved: ${detail.missing.slice(0, 6).join(', ')}${detail.missing.length > 6 ? ', …' : ''}`);
+  }
+}
+
+// ── Main ──
+
+async function main(): Promise<number> {
+  const options = parseArgs(process.argv.slice(2));
+  const goldSet = JSON.parse(readFileSync(GOLD_SET_PATH, 'utf8')) as GoldSet;
+  const cases = options.cases.length > 0
+    ? goldSet.cases.filter(gold => options.cases.includes(gold.icdCode.toUpperCase()))
+    : goldSet.cases;
+
+  if (cases.length === 0) {
+    console.error(`No gold cases match: ${options.cases.join(', ')}`);
+    return 1;
+  }
+
+  // Replayed requests never leave the process; the clients just need a key to try
+  if (options.mode === 'replay') {
+    process.env.ANTHROPIC_API_KEY ??= 'replay';
+    process.env.UMLS_API_KEY ??= 'replay';
+    // Recordings are keyed by URL, and they hold the default Claude API host
+    delete process.env.ANTHROPIC_BASE_URL;
+  }
+
+  // Bundled public/data files are read from disk, as on the server, not recorded
+  configureServerStaticData();
+  const recorder = new FetchRecorder(options.mode);
+  recorder.install();
+
+  console.log(`Gold set v${goldSet.version}: ${cases.length} case(s), mode: ${options.mode}`);
+  const runs: CaseRun[] = [];
+  try {
+    for (const gold of cases) {
+      process.stdout.write(`  ${gold.icdCode.padEnd(8)} ${gold.conditionName} … `);
+      const run = await runCase(gold, recorder, options.verbose);
+      runs.push(run);
+      console.log(run.skipped ?? `${run.drugs.length} drugs, ${run.procedures.length} procedures${run.misses > 0 ? `, ${run.misses} unrecorded requests` : ''}`);
+    }
+  } finally {
+    recorder.uninstall();
+  }
+
+  const completed = runs.filter(run => !run.skipped);
+  const scorerReports = (['ai', 'rules'] as const).map(scorer => evaluateScorer(completed, scorer));
+
+  // Candidate recall: the most any scorer could find among the drugs it was given
+  const candidates = completed.reduce(
+    (total, run) => addCounts(total, countDrugs(run.drugs, run.gold.drugs.approved, accepted(run.gold), run.drugs.length)),
+    EMPTY_COUNTS
+  );
+  console.log(
+    `\nCandidates (curated mappings / drugListGenerator.ts + RxNorm): ${candidates.returned} drugs, ` +
+    `precision ${pct(precision(candidates))}, recall ${pct(recall(candidates))}`
+  );
+
+  scorerReports.forEach(printScorerReport);
+
+  let procedureTotals: Counts = EMPTY_COUNTS;
+  console.log('\nProcedures (curated + SNOMED)');
+  const procedureCases = completed.map(run => {
+    const counts = countProcedures(run.procedures, run.gold.procedures);
+    procedureTotals = addCounts(procedureTotals, counts);
+    const missing = missingProcedures(run.procedures, run.gold.procedures);
+    console.log(
+      `    ${run.gold.icdCode.padEnd(8)} P ${pct(precision(counts))}  R ${pct(recall(counts))}  ${counts.returned} returned` +
+      (missing.length > 0 ? `; missed: ${missing.join(', ')}` : '')
+    );
+    return { icdCode: run.gold.icdCode, precision: precision(counts), recall: recall(counts), missing };
+  });
+  console.log(`  Overall: P ${pct(precision(procedureTotals))}  R ${pct(recall(procedureTotals))}  F1 ${pct(f1(procedureTotals))}`);
+
+  const skipped = runs.filter(run => run.skipped);
+  const misses = runs.reduce((total, run) => total + run.misses, 0);
+  if (skipped.length > 0 || misses > 0) {
+    console.log(
+      `\nIncomplete replay: ${skipped.length} case(s) without a recording, ${misses} unrecorded request(s). ` +
+      'Run `npm run eval -- --record` (needs network, ANTHROPIC_API_KEY and UMLS_API_KEY) to refresh eval/recordings/.'
+    );
+  }
+  if (recorder.mockedCases.length > 0) {
+    console.log(
+      `\nMocked responses: ${recorder.mockedCases.join(', ')} replayed hand-made upstream responses, so these numbers ` +
+      'check the harness, not the live APIs. Run `npm run eval -- --record` for real ones.'
+    );
+  }
+
+  if (options.jsonPath) {
+    writeFileSync(options.jsonPath, `${JSON.stringify({
+      goldSetVersion: goldSet.version,
+      mode: options.mode,
+      thresholds: DRUG_SCORE_THRESHOLDS,
+      maxResults: MAX_RESULTS,
+      skipped: skipped.map(run => run.gold.icdCode),
+      unrecordedRequests: recorder.misses,
+      mockedCases: recorder.mockedCases,
+      drugs: { candidateRecall: recall(candidates), scorers: scorerReports },
+      procedures: {
+        precision: precision(procedureTotals),
+        recall: recall(procedureTotals),
+        f1: f1(procedureTotals),
+        cases: procedureCases,
+      },
+    }, null, 2)}\n`);
+    console.log(`\nReport written to ${options.jsonPath}`);
+  }
+
+  return skipped.length > 0 || misses > 0 ? 1 : 0;
+}
+
+main().then(
+  code => process.exit(code),
+  error => {
+    console.error('[Eval] Failed:', error);
+    process.exit(1);
+  }
+);
@@ -0,0 +1,155 @@
+/**
+ * metrics.ts — Gold-set matching and precision/recall for the evaluation harness
+ *
+ * Drugs are judged at ingredient level: a returned drug matches a gold
+ * name when they have the same ingredients ("Qsymia" → phentermine +
+ * topiramate matches "phentermine/topiramate", not "phentermine").
+ * Procedures match when the description contains one of a gold item's
+ * terms, so SNOMED, ICD-10-PCS and HCPCS results are judged alike.
+ */
+
+import { DrugResult, ProcedureResult } from '../app/types/icd';
+
+// ── Gold set ──
+
+export interface GoldProcedure {
+  label: string;
+  /** Lowercase fragments of ProcedureResult.description */
+  terms: string[];
+}
+
+export interface GoldCase {
+  icdCode: string;
+  conditionName: string;
+  drugs: {
+    /** FDA-labeled for the condition — expected in the FDA-Approved section */
+    approved: string[];
+    /** Accepted anywhere in the results, never required */
+    offLabel: string[];
+  };
+  procedures: {
+    expected: GoldProcedure[];
+    /** Terms for procedures that are reasonable but not required */
+    acceptable: string[];
+  };
+}
+
+export interface GoldSet {
+  version: string;
+  description: string;
+  cases: GoldCase[];
+}
+
+// ── Counts ──
+
+/** Counts summed across cases (micro-averaging) before ratios are taken */
+export interface Counts {
+  /** Results returned */
+  returned: number;
+  /** Returned results the gold set accepts */
+  correct: number;
+  /** Required gold items found */
+  found: number;
+  /** Required gold items that could have been found */
+  possible: number;
+}
+
+export const EMPTY_COUNTS: Counts = { returned: 0, correct: 0, found: 0, possible: 0 };
+
+export function addCounts(a: Counts, b: Counts): Counts {
+  return {
+    returned: a.returned + b.returned,
+    correct: a.correct + b.correct,
+    found: a.found + b.found,
+    possible: a.possible + b.possible,
+  };
+}
+
+/** Null when nothing was returned / nothing was required */
+export function precision(counts: Counts): number | null {
+  return counts.returned > 0 ? counts.correct / counts.returned : null;
+}
+
+export function recall(counts: Counts): number | null {
+  return counts.possible > 0 ? counts.found / counts.possible : null;
+}
+
+export function f1(counts: Counts): number | null {
+  const p = precision(counts);
+  const r = recall(counts);
+  if (p === null || r === null || p + r === 0) return null;
+  return (2 * p * r) / (p + r);
+}
+
+// ── Drug matching ──
+
+function ingredientsOf(drug: DrugResult): string[] {
+  const names = drug.ingredients && drug.ingredients.length > 0
+    ? drug.ingredients
+    : drug.genericName.split('/');
+  return names.map(name => name.trim().toLowerCase()).filter(Boolean);
+}
+
+/**
+ * Same ingredient count, and each gold ingredient starts one of the drug's
+ * ("insulin glargine" matches "insulin glargine-yfgn").
+ */
+export function drugMatches(drug: DrugResult, goldName: string): boolean {
+  const drugIngredients = ingredientsOf(drug);
+  const goldIngredients = goldName.toLowerCase().split('/').map(name => name.trim());
+  return drugIngredients.length === goldIngredients.length &&
+    goldIngredients.every(gold => drugIngredients.some(ingredient => ingredient.startsWith(gold)));
+}
+
+/**
+ * Scores one ranked drug list against a case.
+ *
+ * Recall is over the approved drugs, capped at `limit` — the pipeline
+ * never returns more than MAX_RESULTS, so a condition with 20 approved
+ * drugs can still reach 100%.
+ *
+ * @param drugs - Drugs the pipeline would return, best first
+ * @param required - Gold names that count toward recall
+ * @param accepted - Gold names that count as correct
+ */
+export function countDrugs(drugs: DrugResult[], required: string[], accepted: string[], limit: number): Counts {
+  return {
+    returned: drugs.length,
+    correct: drugs.filter(drug => accepted.some(name => drugMatches(drug, name))).length,
+    found: required.filter(name => drugs.some(drug => drugMatches(drug, name))).length,
+    possible: Math.min(required.length, limit),
+  };
+}
+
+/** Gold names no returned drug matched */
+export function missingDrugs(drugs: DrugResult[], required: string[]): string[] {
+  return required.filter(name => !drugs.some(drug => drugMatches(drug, name)));
+}
+
+/** Returned drugs the gold set doesn't accept */
+export function unexpectedDrugs(drugs: DrugResult[], accepted: string[]): DrugResult[] {
+  return drugs.filter(drug => !accepted.some(name => drugMatches(drug, name)));
+}
+
+// ── Procedure matching ──
+
+function procedureMatchesTerms(procedure: ProcedureResult, terms: string[]): boolean {
+  const description = procedure.description.toLowerCase();
+  return terms.some(term => description.includes(term));
+}
+
+export function countProcedures(procedures: ProcedureResult[], gold: GoldCase['procedures']): Counts {
+  const acceptedTerms = [...gold.expected.flatMap(item => item.terms), ...gold.acceptable];
+  return {
+    returned: procedures.length,
+    correct: procedures.filter(procedure => procedureMatchesTerms(procedure, acceptedTerms)).length,
+    found: gold.expected.filter(item => procedures.some(procedure => procedureMatchesTerms(procedure, item.terms))).length,
+    possible: gold.expected.length,
+  };
+}
+
+export function missingProcedures(procedures: ProcedureResult[], gold: GoldCase['procedures']): string[] {
+  return gold.expected
+    .filter(item => !procedures.some(procedure => procedureMatchesTerms(procedure, item.terms)))
+    .map(item => item.label);
+}
@@ -0,0 +1,165 @@
+/**
+ * recorder.ts — Records and replays every outbound fetch for the evaluation harness
+ *
+ * The pipeline talks to RxNorm, RxClass, openFDA, UMLS and Claude through
+ * the global fetch, so wrapping it is enough to make an evaluation run
+ * reproducible without touching the app code:
+ *
+ *   record — live requests; responses saved to eval/recordings/<code>.json
+ *   replay — responses served from the recordings; unrecorded requests get a
+ *            404 and are reported, so a stale recording shows up as a miss
+ *   live   — live requests, nothing saved
+ *
+ * Requests are keyed by method, URL and body. The harness clears the caches
+ * before each case, but the UMLS ticket-granting ticket lives for the whole
+ * process, so replay falls back to the other recordings on a miss — a case
+ * replayed on its own still finds the login made by an earlier case.
+ *
+ * Credentials never reach the
+ * recordings: API keys and UMLS tickets are masked in keys and responses,
+ * and headers aren't stored. A prompt change in drugRelevanceAgent.ts
+ * changes the Claude request body, so it needs a fresh --record run.
+ *
+ * The checked-in recordings are marked "mocked": they were written against
+ * hand-made upstream responses so `npm run eval` works offline out of the
+ * box. Recording a case replaces its file, mocked or not.
+ */
+
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync } from 'fs';
+import path from 'path';
+
+export type RecorderMode = 'record' | 'replay' | 'live';
+
+interface RecordedResponse {
+  status: number;
+  contentType: string | null;
+  body: string;
+}
+
+interface RecordingFile {
+  icdCode: string;
+  recordedAt: string;
+  /** Responses were written by hand, not recorded from the live APIs */
+  mocked?: boolean;
+  responses: Record<string, RecordedResponse>;
+}
+
+const RECORDINGS_DIR = path.join(__dirname, 'recordings');
+
+/** Query parameters and body fields that carry credentials */
+const SECRET_PARAM_PATTERN = /\b(api_?key|apikey|ticket|key)=[^&\s]*/gi;
+
+/** UMLS ticket-granting and service tickets */
+const TICKET_PATTERN = /\b(TGT|ST)-[\w.-]+/g;
+
+function mask(text: string): string {
+  return text.replace(SECRET_PARAM_PATTERN, '$1=***').replace(TICKET_PATTERN, '$1-***');
+}
+
+function requestKey(method: string, url: string, body: string | null): string {
+  const bodyHash = body ? ` ${createHash('sha1').update(mask(body)).digest('hex').slice(0, 16)}` : '';
+  return `${method} ${mask(url)}${bodyHash}`;
+}
+
+function requestParts(input: RequestInfo | URL, init?: RequestInit): { method: string; url: string; body: string | null } {
+  const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+  const method = (init?.method ?? (input instanceof Request ? input.method : 'GET')).toUpperCase();
+  const body = typeof init?.body === 'string' ? init.body : init?.body instanceof URLSearchParams ? init.body.toString() : null;
+  return { method, url, body };
+}
+
+export class FetchRecorder {
+  private readonly realFetch = globalThis.fetch;
+  private file: RecordingFile | null = null;
+  private dirty = false;
+  /** Responses from every recording, loaded on the first replay miss */
+  private allResponses: Record<string, RecordedResponse> | null = null;
+  /** Requests replay couldn't answer, for the report */
+  readonly misses: string[] = [];
+  /** Replayed cases whose recording is mocked, for the report */
+  readonly mockedCases: string[] = [];
+
+  constructor(readonly mode: RecorderMode) {}
+
+  /** Replaces globalThis.fetch; call once before running cases */
+  install(): void {
+    if (this.mode === 'live') return;
+    globalThis.fetch = (input: RequestInfo | URL, init?: RequestInit) => this.handle(input, init);
+  }
+
+  uninstall(): void {
+    globalThis.fetch = this.realFetch;
+  }
+
+  /** Whether a recording exists for a case (replay is pointless without one) */
+  hasRecording(icdCode: string): boolean {
+    return existsSync(this.filePath(icdCode));
+  }
+
+  /** Starts attributing requests to a case, loading its recording (a fresh one when recording) */
+  beginCase(icdCode: string): void {
+    const filePath = this.filePath(icdCode);
+    this.file = this.mode === 'replay' && existsSync(filePath)
+      ? JSON.parse(readFileSync(filePath, 'utf8')) as RecordingFile
+      : { icdCode, recordedAt: new Date().toISOString(), responses: {} };
+    if (this.mode === 'replay' && this.file.mocked) this.mockedCases.push(icdCode);
+    this.dirty = false;
+  }
+
+  /** Saves the case's recording (record mode only) */
+  endCase(): void {
+    if (this.mode === 'record' && this.file && this.dirty) {
+      mkdirSync(RECORDINGS_DIR, { recursive: true });
+      this.file.recordedAt = new Date().toISOString();
+      writeFileSync(this.filePath(this.file.icdCode), `${JSON.stringify(this.file, null, 2)}\n`);
+    }
+    this.file = null;
+  }
+
+  private filePath(icdCode: string): string {
+    return path.join(RECORDINGS_DIR, `${icdCode.toUpperCase().replace(/[^A-Z0-9.]/g, '_')}.json`);
+  }
+
+  private loadAllResponses(): Record<string, RecordedResponse> {
+    if (!this.allResponses) {
+      const files = existsSync(RECORDINGS_DIR) ? readdirSync(RECORDINGS_DIR).filter(name => name.endsWith('.json')) : [];
+      const responses: Record<string, RecordedResponse> = {};
+      for (const name of files) {
+        const file = JSON.parse(readFileSync(path.join(RECORDINGS_DIR, name), 'utf8')) as RecordingFile;
+        Object.assign(responses, file.responses);
+      }
+      this.allResponses = responses;
+    }
+    return this.allResponses;
+  }
+
+  private async handle(input: RequestInfo | URL, init?: RequestInit): Promise<Response> {
+    const { method, url, body } = requestParts(input, init);
+    const key = requestKey(method, url, body);
+
+    if (this.mode === 'replay') {
+      const recorded = this.file?.responses[key] ?? this.loadAllResponses()[key];
+      if (!recorded) {
+        this.misses.push(key);
+        return new Response(JSON.stringify({ error: 'not recorded' }), { status: 404, statusText: 'Not Recorded' });
+      }
+      // 204/304 responses can't carry a body
+      return new Response(recorded.status === 204 || recorded.status === 304 ? null : recorded.body, {
+        status: recorded.status,
+        headers: recorded.contentType ? { 'content-type': recorded.contentType } : undefined,
+      });
+    }
+
+    const response = await this.realFetch(input, init);
+    if (this.file) {
+      this.file.responses[key] = {
+        status: response.status,
+        contentType: response.headers.get('content-type'),
+        body: mask(await response.clone().text()),
+      };
+      this.dirty = true;
+    }
+    return response;
+  }
+}
@@ -0,0 +1,14 @@
+/**
+ * run.mjs — Entry point for `npm run eval`
+ *
+ * Loads evaluate.ts through jiti, which compiles TypeScript on the fly and
+ * resolves the "@/" path alias the app modules use.
+ */
+
+import { fileURLToPath } from 'url';
+import { createJiti } from 'jiti';
+
+const root = fileURLToPath(new URL('..', import.meta.url)).replace(/\/$/, '');
+const jiti = createJiti(import.meta.url, { alias: { '@': root } });
+
+await jiti.import('./evaluate.ts');
@@ -0,0 +1,17 @@
+/**
+ * Next.js startup hook — runs once per server process before any request.
+ *
+ * Points the shared caches (app/lib/cache.ts) at the backend chosen by
+ * CACHE_BACKEND, and has server code read the bundled public/data files
+ * from disk (app/lib/staticDataServer.ts). Imported dynamically so
+ * node:fs / node:net stay out of the Edge and client bundles.
+ */
+
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { configureServerCache } = await import('./app/lib/cacheServer');
+    configureServerCache();
+    const { configureServerStaticData } = await import('./app/lib/staticDataServer');
+    configureServerStaticData();
+  }
+}
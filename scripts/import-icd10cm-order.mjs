@@ -0,0 +1,57 @@
+/**
+ * import-icd10cm-order.mjs — Replaces a bundled ICD-10-CM subset with the full CMS code set
+ *
+ * Usage: node scripts/import-icd10cm-order.mjs <icd10cm_order_YYYY.txt> <fiscal year>
+ *
+ * Reads the CMS order file (in the "Code Descriptions in Tabular Order" zip
+ * at https://www.cms.gov/medicare/coding-billing/icd-10-codes) and rewrites
+ * public/data/icd10cm-fy<year>.json with every code in it. The order file
+ * has no blocks, instructional notes, 7th characters or manifestations, so
+ * those are kept from the bundled file. Without the "partial" flag the app
+ * stops labeling the data as a subset.
+ *
+ * Order file columns (fixed width): order number 1-5, code 7-13 (no dot),
+ * header flag 15 (0 = header, 1 = billable), short description 17-76,
+ * long description 78 to end of line.
+ */
+
+import { readFileSync, writeFileSync } from 'fs';
+import { fileURLToPath } from 'url';
+
+const [orderFile, fiscalYearArg] = process.argv.slice(2);
+const fiscalYear = Number(fiscalYearArg);
+if (!orderFile || !Number.isInteger(fiscalYear)) {
+  console.error('Usage: node scripts/import-icd10cm-order.mjs <icd10cm_order_YYYY.txt> <fiscal year>');
+  process.exit(1);
+}
+
+const target = fileURLToPath(new URL(`../public/data/icd10cm-fy${fiscalYear}.json`, import.meta.url));
+const bundled = JSON.parse(readFileSync(target, 'utf8'));
+
+const codes = readFileSync(orderFile, 'utf8')
+  .split(/\r?\n/)
+  .filter(line => line.trim())
+  .map(line => {
+    const compact = line.slice(6, 13).trim();
+    return {
+      code: compact.length > 3 ? `${compact.slice(0, 3)}.${compact.slice(3)}` : compact,
+      desc: line.slice(77).trim(),
+      billable: line.charAt(14) === '1',
+    };
+  });
+
+if (codes.length === 0) {
+  console.error(`No codes found in ${orderFile}`);
+  process.exit(1);
+}
+
+const updated = {
+  ...bundled,
+  source: `CMS ICD-10-CM FY${fiscalYear} order file (${orderFile.split(/[\\/]/).pop()})`,
+  totalCodes: codes.length,
+  codes,
+};
+delete updated.partial;
+
+writeFileSync(target, JSON.stringify(updated));
+console.log(`Wrote ${codes.length} codes to ${target}`);